@@ -1,8 +1,25 @@
 #!/usr/bin/env bun
 import plugin from "bun-plugin-tailwind";
 import { existsSync } from "fs";
-import { rm } from "fs/promises";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
 import path from "path";
+import { EVOLUTION_FORMS } from "./src/data/classes";
+import { EVENTS_CALENDAR_PATH, calendarEntries, eventCalendarPath } from "./src/data/events";
+import { PALS } from "./src/data/pals";
+import { SKILLS } from "./src/data/skills";
+import { checkCatalogs } from "./src/i18n/check";
+import { renderCalendar } from "./src/server/calendar";
+import { renderAtom, renderRss } from "./src/server/feeds";
+import { loadHomeContent } from "./src/server/home";
+import { optimizeImages } from "./src/server/images";
+import { HOME_CONTENT_PATH } from "./src/lib/home";
+import { NEWS_INDEX_PATH, newsPostPath } from "./src/lib/news";
+import { PRELOAD_ELEMENT_ID } from "./src/lib/preload";
+import { loadPosts, toSummary } from "./src/server/news";
+import { renderRobots, renderSitemap, type SitemapEntry } from "./src/server/seo";
+import { precompress } from "./src/server/static";
+import { SITE_ORIGIN } from "./src/server/site";
 
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
   console.log(`
@@ -111,6 +128,21 @@ const formatFileSize = (bytes: number): string => {
 
 console.log("\n🚀 Starting build process...\n");
 
+const i18nProblems = checkCatalogs();
+if (i18nProblems.length > 0) {
+  console.error(`❌ Translation catalogs are incomplete:\n${i18nProblems.map(p => `  - ${p}`).join("\n")}\n`);
+  process.exit(1);
+}
+console.log("🌐 Translation catalogs are complete\n");
+
+// Resize hero art before bundling, since the bundle embeds the image manifest
+console.log("🖼️  Optimizing images...");
+const imageManifest = await optimizeImages();
+for (const [src, entry] of Object.entries(imageManifest)) {
+  console.log(`  ✓ ${src} (${entry.variants.map(v => v.width).join(", ")}w)`);
+}
+console.log("");
+
 const cliConfig = parseArgs();
 const outdir = cliConfig.outdir || path.join(process.cwd(), "dist");
 
@@ -133,6 +165,8 @@ const result = await Bun.build({
   minify: true,
   target: "browser",
   sourcemap: "linked",
+  // Absolute asset URLs, since prerendered pages live at nested paths
+  publicPath: "/",
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
   },
@@ -169,10 +203,136 @@ const imagesDest = path.join(outdir, "images");
 if (existsSync(imagesSource)) {
   const { mkdir, copyFile } = await import("fs/promises");
   await mkdir(imagesDest, { recursive: true });
-  for await (const file of new Bun.Glob("*").scan(imagesSource)) {
+  for await (const file of new Bun.Glob("**/*").scan(imagesSource)) {
+    await mkdir(path.dirname(path.join(imagesDest, file)), { recursive: true });
     await copyFile(path.join(imagesSource, file), path.join(imagesDest, file));
     console.log(`  ✓ images/${file}`);
   }
 }
 
+// Render news posts to JSON for the /news pages, plus RSS and Atom feeds
+console.log("\n📰 Rendering news...");
+
+const posts = await loadPosts();
+await Bun.write(path.join(outdir, "content", "news.json"), JSON.stringify(posts.map(toSummary)));
+for (const post of posts) {
+  await Bun.write(path.join(outdir, "content", "news", `${post.slug}.json`), JSON.stringify(post));
+  console.log(`  ✓ ${post.slug}`);
+}
+await Bun.write(path.join(outdir, "feed.xml"), renderRss(posts));
+await Bun.write(path.join(outdir, "atom.xml"), renderAtom(posts));
+console.log("  ✓ feed.xml");
+console.log("  ✓ atom.xml");
+
+// Home-page copy edited in /admin, served as a static file like the news JSON
+const { content: homeContent } = await loadHomeContent();
+await Bun.write(path.join(outdir, "content", "home.json"), JSON.stringify(homeContent));
+console.log("  ✓ content/home.json");
+
+// Event calendar feeds, served by src/server/calendar.ts in development
+console.log("\n📅 Rendering event calendars...");
+
+const calendar = calendarEntries();
+await Bun.write(path.join(outdir, EVENTS_CALENDAR_PATH), renderCalendar(calendar));
+console.log(`  ✓ ${EVENTS_CALENDAR_PATH.slice(1)}`);
+for (const entry of calendar) {
+  await Bun.write(path.join(outdir, eventCalendarPath(entry.id)), renderCalendar([entry]));
+}
+console.log(`  ✓ ${calendar.length} event files`);
+
+// Prerender every route (for every locale) to its own HTML file, so crawlers
+// get real markup and GitHub Pages can serve clean BrowserRouter paths.
+console.log("\n🖨️  Prerendering routes...");
+
+// Concrete values for each route parameter. Add an entry here when adding a
+// `:param` route to src/routes.tsx.
+const STATIC_PARAMS: Record<string, Record<string, string>[]> = {
+  "/news/:slug": posts.map(post => ({ slug: post.slug })),
+  "/classes/:classId": EVOLUTION_FORMS.map(form => ({ classId: form.id })),
+  "/companions/:palId": PALS.map(pal => ({ palId: pal.id })),
+  "/skills/:skillId": SKILLS.map(skill => ({ skillId: skill.id })),
+};
+
+// Responses pages would otherwise fetch; each page embeds the ones it reads.
+const preloaded: Record<string, unknown> = {
+  [HOME_CONTENT_PATH]: homeContent,
+  [NEWS_INDEX_PATH]: posts.map(toSummary),
+  ...Object.fromEntries(posts.map(post => [newsPostPath(post.slug), post])),
+};
+
+// Pages for sitemap.xml, filled in as routes are prerendered.
+const sitemap: SitemapEntry[] = [];
+const lastModified: Record<string, string> = Object.fromEntries(posts.map(post => [`/news/${post.slug}`, post.date]));
+
+const prerenderDir = await mkdtemp(path.join(tmpdir(), "minimythics-prerender-"));
+try {
+  const ssr = await Bun.build({
+    entrypoints: [path.resolve("src", "prerender.tsx")],
+    outdir: prerenderDir,
+    plugins: [plugin],
+    target: "bun",
+    define: {
+      "process.env.NODE_ENV": JSON.stringify("production"),
+    },
+  });
+  if (!ssr.success) {
+    for (const log of ssr.logs) console.error(log);
+    throw new Error("Failed to bundle src/prerender.tsx");
+  }
+
+  const entry = ssr.outputs.find(output => output.kind === "entry-point")!;
+  const { render, ROUTES, LOCALES, localizePath }: typeof import("./src/prerender") = await import(entry.path);
+
+  const shellPath = path.join(outdir, "index.html");
+  const shell = await Bun.file(shellPath).text();
+
+  // GitHub Pages serves /404.html for unknown paths; it's the empty SPA shell,
+  // so routes added after the last deploy (e.g. new posts) still render client-side.
+  await Bun.write(path.join(outdir, "404.html"), shell);
+  console.log("  ✓ 404.html");
+
+  for (const route of ROUTES) {
+    const paramSets = route.path.includes(":") ? STATIC_PARAMS[route.path] : [{}];
+    if (!paramSets) {
+      throw new Error(`Route ${route.path} has parameters but no STATIC_PARAMS entry in build.ts`);
+    }
+
+    for (const params of paramSets) {
+      const routePath = route.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name] ?? ""));
+
+      const alternates: Record<string, string> = {};
+      for (const { code } of LOCALES) {
+        const url = localizePath(routePath, code);
+        alternates[code] = url;
+        const { html, head, data } = render(url, SITE_ORIGIN, preloaded);
+        const page = shell
+          .replace(/<html lang="[^"]*"/, `<html lang="${code}"`)
+          .replace(/<title>[^<]*<\/title>\s*<meta name="description"[^>]*>/, head)
+          .replace('<div id="root"></div>', `<div id="root">${html}</div>`)
+          .replace(
+            "</body>",
+            `<script id="${PRELOAD_ELEMENT_ID}" type="application/json">${JSON.stringify(data).replace(/</g, "\\u003c")}</script>\n</body>`,
+          );
+
+        // `/media` → media.html, which GitHub Pages serves without a trailing-slash redirect
+        const file = url === "/" ? "index.html" : `${url.slice(1)}.html`;
+        await Bun.write(path.join(outdir, file), page);
+        console.log(`  ✓ ${file}`);
+      }
+      if (!route.unlisted) sitemap.push({ path: routePath, alternates, lastmod: lastModified[routePath] });
+    }
+  }
+} finally {
+  await rm(prerenderDir, { recursive: true, force: true });
+}
+
+await Bun.write(path.join(outdir, "sitemap.xml"), renderSitemap(sitemap));
+await Bun.write(path.join(outdir, "robots.txt"), renderRobots());
+console.log("  ✓ sitemap.xml");
+console.log("  ✓ robots.txt");
+
+// Brotli and gzip copies of text assets, picked by src/server/static.ts per request
+console.log("\n🗜️  Precompressing...");
+console.log(`  ✓ ${await precompress(outdir)} files`);
+
 console.log("\n🎉 All assets copied!\n");
@@ -1,18 +1,60 @@
 import "./index.css";
-import { HashRouter as Router, Routes, Route } from "react-router-dom";
-import { Home } from "./pages/Home";
-import { Media } from "./pages/Media";
-import { Community } from "./pages/Community";
+import { useEffect } from "react";
+import { BrowserRouter, Routes, Route, Outlet, matchPath, useLocation } from "react-router-dom";
+import { I18nProvider } from "./i18n/I18nProvider";
+import { LOCALES, localizePath, parseLocalePath } from "./i18n/locales";
+import { NOT_FOUND_ROUTE, trackPageview } from "./lib/analytics";
+import { NotFound } from "./pages/NotFound";
+import { ROUTES } from "./routes";
+import { ThemeProvider } from "./theme/ThemeProvider";
+
+/** The route tree, shared by the browser app and the build-time prerenderer. */
+export function AppRoutes() {
+  return (
+    <Routes>
+      <Route
+        element={
+          <I18nProvider>
+            <ThemeProvider>
+              <PageviewTracker />
+              <Outlet />
+            </ThemeProvider>
+          </I18nProvider>
+        }
+      >
+        {/* English at the root, every other locale under its own prefix (e.g. /es/media) */}
+        {LOCALES.map(({ code }) =>
+          ROUTES.map(route => (
+            <Route
+              key={`${code}${route.path}`}
+              path={localizePath(route.path, code)}
+              element={route.element}
+            />
+          )),
+        )}
+        <Route path="*" element={<NotFound />} />
+      </Route>
+    </Routes>
+  );
+}
+
+/** Counts a pageview per route pattern on every navigation; staff pages aren't counted. */
+function PageviewTracker() {
+  const { pathname } = useLocation();
+
+  useEffect(() => {
+    const route = ROUTES.find(r => matchPath(r.path, parseLocalePath(pathname).path));
+    if (!route?.unlisted) trackPageview(route?.path ?? NOT_FOUND_ROUTE);
+  }, [pathname]);
+
+  return null;
+}
 
 export function App() {
   return (
-    <Router>
-      <Routes>
-        <Route path="/" element={<Home />} />
-        <Route path="/media" element={<Media />} />
-        <Route path="/community" element={<Community />} />
-      </Routes>
-    </Router>
+    <BrowserRouter>
+      <AppRoutes />
+    </BrowserRouter>
   );
 }
 
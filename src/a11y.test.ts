@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { type Element, Window } from "happy-dom";
+import { MAIN_CONTENT_ID } from "./components/Navbar";
+import { EVOLUTION_FORMS } from "./data/classes";
+import { PALS } from "./data/pals";
+import { SKILLS } from "./data/skills";
+import { render, ROUTES } from "./prerender";
+import { loadPosts } from "./server/news";
+
+/**
+ * Accessibility checks for the prerendered markup of every route in
+ * `ROUTES`: the landmarks and labels that keyboard and screen reader users
+ * rely on, as the first paint (and crawlers) see them.
+ */
+
+const posts = await loadPosts();
+
+// One concrete value per route parameter, like build.ts's `STATIC_PARAMS`.
+const SAMPLE_PARAMS: Record<string, string | undefined> = {
+  slug: posts[0]?.slug,
+  classId: EVOLUTION_FORMS[0]?.id,
+  palId: PALS[0]?.id,
+  skillId: SKILLS[0]?.id,
+};
+
+function renderRoute(path: string) {
+  const url = path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = SAMPLE_PARAMS[name];
+    if (!value) throw new Error(`No sample value for :${name}; add one to SAMPLE_PARAMS`);
+    return encodeURIComponent(value);
+  });
+  const { html } = render(url, "https://example.com", {});
+  const { document } = new Window({ url: `https://example.com${url}` });
+  document.body.innerHTML = html;
+  return document;
+}
+
+/** The name a screen reader announces: `aria-labelledby`, `aria-label`, a `<label for>`, the text, or a labelled image. */
+function accessibleName(element: Element): string {
+  const document = element.ownerDocument;
+  const labelledBy = element.getAttribute("aria-labelledby");
+  if (labelledBy) return labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent ?? "").join(" ").trim();
+  const label = element.getAttribute("aria-label") ?? element.getAttribute("title");
+  if (label) return label.trim();
+  const forLabel = element.id && document.querySelector(`label[for="${element.id}"]`);
+  if (forLabel) return forLabel.textContent?.trim() ?? "";
+  const images = Array.from(element.querySelectorAll("img[alt]"), img => img.getAttribute("alt"));
+  return [element.textContent, ...images].join(" ").trim();
+}
+
+describe.each(ROUTES.map(route => route.path))("%s", path => {
+  const document = renderRoute(path);
+
+  test("has exactly one main landmark, the skip link's target", () => {
+    const mains = document.querySelectorAll("main");
+    expect(mains.length).toBe(1);
+    expect(mains[0]!.id).toBe(MAIN_CONTENT_ID);
+  });
+
+  test("has a skip link to the main content", () => {
+    const skipLink = document.querySelector(`a[href="#${MAIN_CONTENT_ID}"]`);
+    expect(skipLink).not.toBeNull();
+    expect(accessibleName(skipLink!)).not.toBe("");
+  });
+
+  test("has a mobile menu toggle that reports its state", () => {
+    const toggle = document.querySelector('button[aria-controls="mobile-menu"]');
+    expect(toggle).not.toBeNull();
+    expect(toggle!.getAttribute("aria-expanded")).toBe("false");
+    expect(accessibleName(toggle!)).not.toBe("");
+  });
+
+  test("gives every button an accessible name", () => {
+    const unnamed = Array.from(document.querySelectorAll("button"))
+      .filter(button => accessibleName(button) === "")
+      .map(button => button.outerHTML.slice(0, 120));
+    expect(unnamed).toEqual([]);
+  });
+
+  test("gives every image alt text (empty for decorative ones)", () => {
+    const missing = Array.from(document.querySelectorAll("img"))
+      .filter(img => !img.hasAttribute("alt"))
+      .map(img => img.getAttribute("src"));
+    expect(missing).toEqual([]);
+  });
+});
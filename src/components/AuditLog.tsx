@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { fetchAuditLog, type AuditChange } from "../lib/admin";
+
+/** Who changed what in the staff console, newest first. Bump `refreshKey` to reload after a save. */
+export function AuditLog({ refreshKey }: { refreshKey: number }) {
+    const { t, locale } = useI18n();
+    const [page, setPage] = useState(1);
+    const { data, error, loading } = useAsync(() => fetchAuditLog(page), [page, refreshKey]);
+    const pages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+    return (
+        <Card className={`text-left transition-opacity ${loading && data ? "opacity-60" : ""}`} aria-busy={loading}>
+            <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">{t("admin.audit.title")}</h2>
+
+            {error ? (
+                <p role="alert" className="text-[var(--color-primary)] font-medium">{t("errors.generic")}</p>
+            ) : !data ? (
+                <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.audit.loading")}</p>
+            ) : data.entries.length === 0 ? (
+                <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.audit.empty")}</p>
+            ) : (
+                <table className="w-full text-[var(--color-dark)]">
+                    <thead>
+                        <tr className="text-sm text-[var(--color-wood)] font-heading">
+                            <th scope="col" className="text-left font-bold pb-2 w-48">{t("admin.audit.when")}</th>
+                            <th scope="col" className="text-left font-bold pb-2 w-32">{t("admin.audit.who")}</th>
+                            <th scope="col" className="text-left font-bold pb-2">{t("admin.audit.what")}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-medium align-top">
+                        {data.entries.map(entry => (
+                            <tr key={entry.id} className="border-t-2 border-[var(--color-border)]">
+                                <td className="py-3 pr-4 text-sm">{new Date(entry.createdAt).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" })}</td>
+                                <td className="py-3 pr-4 font-heading font-bold break-all">{entry.username}</td>
+                                <td className="py-3">
+                                    <span className="font-heading font-bold">{t(`admin.audit.actions.${entry.action}`)}</span>
+                                    {entry.target && <span className="text-[var(--color-wood)]"> · {entry.target}</span>}
+                                    {entry.changes.length > 0 && (
+                                        <ul className="mt-2 flex flex-col gap-1 text-sm">
+                                            {entry.changes.map(change => <ChangeLine key={change.field} change={change} />)}
+                                        </ul>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {pages > 1 && (
+                <nav aria-label={t("admin.audit.pagination")} className="flex items-center justify-center gap-4 mt-6 font-heading font-bold text-[var(--color-wood)]">
+                    <Button variant="ghost" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)} className="disabled:opacity-40">
+                        <ChevronLeft size={18} />
+                        {t("admin.audit.newer")}
+                    </Button>
+                    <span aria-current="page">{t("admin.audit.pageOf", { page, pages })}</span>
+                    <Button variant="ghost" size="sm" disabled={page >= pages} onClick={() => setPage(page + 1)} className="disabled:opacity-40">
+                        {t("admin.audit.older")}
+                        <ChevronRight size={18} />
+                    </Button>
+                </nav>
+            )}
+        </Card>
+    );
+}
+
+function ChangeLine({ change }: { change: AuditChange }) {
+    const { t } = useI18n();
+    const empty = <em className="text-[var(--color-dark)]/50">{t("admin.audit.emptyValue")}</em>;
+
+    return (
+        <li className="break-words">
+            <code className="text-[var(--color-secondary-dark)]">{change.field}</code>:{" "}
+            <span className="line-through text-[var(--color-dark)]/60">{change.before || empty}</span>
+            {" → "}
+            <span>{change.after || empty}</span>
+        </li>
+    );
+}
@@ -0,0 +1,96 @@
+import { CalendarPlus } from "lucide-react";
+import { Card } from "./ui/card";
+import { eventCalendarPath, eventStatus, type CalendarEntry, type EventType } from "../data/events";
+import { useI18n } from "../i18n/I18nProvider";
+
+/** Chip and timeline colors per event type. */
+export const EVENT_TYPE_COLORS: Record<EventType, string> = {
+    login: "bg-[var(--color-primary)]",
+    spending: "bg-[var(--color-accent)]",
+    progress: "bg-[var(--color-secondary)]",
+    pvp: "bg-[var(--color-primary-dark)]",
+    collect: "bg-[var(--color-secondary-dark)]",
+    limited: "bg-[var(--color-accent-dark)]",
+    battlePass: "bg-[var(--color-wood)]",
+};
+
+interface EventCardProps {
+    entry: CalendarEntry;
+    /** `null` before hydration: no countdown yet, and times in UTC. */
+    now: number | null;
+}
+
+export function EventCard({ entry, now }: EventCardProps) {
+    const { t, locale } = useI18n();
+    const timeZone = now === null ? "UTC" : undefined;
+    const date = (iso: string) => new Date(iso).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short", timeZone });
+    const number = (value: number) => value.toLocaleString(locale);
+    const status = now === null ? null : eventStatus(entry, now);
+
+    const countdown = (ms: number) => {
+        const seconds = Math.max(0, Math.floor(ms / 1000));
+        const parts = {
+            days: Math.floor(seconds / 86400),
+            hours: Math.floor(seconds / 3600) % 24,
+            minutes: Math.floor(seconds / 60) % 60,
+            seconds: seconds % 60,
+        };
+        return t(parts.days > 0 ? "events.durationDays" : "events.durationHours", parts);
+    };
+
+    return (
+        <Card id={entry.id} className="text-left scroll-mt-32">
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+                <span className={`px-3 py-1 rounded-full text-xs font-heading font-bold uppercase tracking-wide text-white ${EVENT_TYPE_COLORS[entry.type]}`}>
+                    {t(`events.types.${entry.type}`)}
+                </span>
+                {status && now !== null && (
+                    <span className="font-heading font-bold text-[var(--color-primary)]" role="timer">
+                        {status === "live" && t("events.endsIn", { time: countdown(Date.parse(entry.endTime) - now) })}
+                        {status === "upcoming" && t("events.startsIn", { time: countdown(Date.parse(entry.startTime) - now) })}
+                        {status === "past" && t("events.ended")}
+                    </span>
+                )}
+            </div>
+            <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-1">{entry.name}</h3>
+            <p className="text-sm font-heading font-bold text-[var(--color-wood)] mb-3">
+                <time dateTime={entry.startTime}>{date(entry.startTime)}</time>
+                {" – "}
+                <time dateTime={entry.endTime}>{date(entry.endTime)}</time>
+                {timeZone && " (UTC)"}
+            </p>
+            <p className="text-[var(--color-dark)]/80 font-medium mb-3">{entry.description}</p>
+
+            {entry.tasks.length > 0 && (
+                <ul className="text-sm font-medium text-[var(--color-dark)] mb-3">
+                    {entry.tasks.map(task => (
+                        <li key={task.description}>{t("events.task", { task: task.description, target: number(task.target) })}</li>
+                    ))}
+                </ul>
+            )}
+            {entry.milestones.length > 0 && (
+                <>
+                    <h4 className="text-sm font-heading font-bold text-[var(--color-wood)] mb-1">{t("events.milestones")}</h4>
+                    <ol className="text-sm font-medium text-[var(--color-dark)] mb-3">
+                        {entry.milestones.map(milestone => (
+                            <li key={milestone.progress}>
+                                {t("events.milestone", { progress: number(milestone.progress), rewards: milestone.rewards.join(", ") })}
+                            </li>
+                        ))}
+                    </ol>
+                </>
+            )}
+
+            {status !== "past" && (
+                <a
+                    href={eventCalendarPath(entry.id)}
+                    download={`${entry.id}.ics`}
+                    className="inline-flex items-center gap-2 font-heading font-bold text-[var(--color-primary)] hover:underline"
+                >
+                    <CalendarPlus size={18} aria-hidden="true" />
+                    {t("events.addToCalendar")}
+                </a>
+            )}
+        </Card>
+    );
+}
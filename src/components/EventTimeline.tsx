@@ -0,0 +1,70 @@
+import { EVENT_TYPE_COLORS } from "./EventCard";
+import { eventStatus, type CalendarEntry } from "../data/events";
+import { useI18n } from "../i18n/I18nProvider";
+
+const DAY = 24 * 60 * 60 * 1000;
+/** How far back the strip starts, so events that just ended still show. */
+const LOOKBACK = 7 * DAY;
+/** The shortest window, for when nothing is scheduled far ahead. */
+const MIN_SPAN = 35 * DAY;
+
+interface EventTimelineProps {
+    entries: CalendarEntry[];
+    now: number;
+}
+
+/** A strip of bars from a week ago to the end of the last scheduled entry, with a marker for now. */
+export function EventTimeline({ entries, now }: EventTimelineProps) {
+    const { t, locale } = useI18n();
+    const start = now - LOOKBACK;
+    const end = Math.max(start + MIN_SPAN, ...entries.map(entry => Date.parse(entry.endTime)));
+    const shown = entries.filter(entry => Date.parse(entry.endTime) > start);
+    const percent = (time: number) => `${((Math.min(Math.max(time, start), end) - start) / (end - start)) * 100}%`;
+
+    // A tick at the start of each month in the window.
+    const months: number[] = [];
+    const cursor = new Date(start);
+    cursor.setDate(1);
+    cursor.setHours(0, 0, 0, 0);
+    for (cursor.setMonth(cursor.getMonth() + 1); cursor.getTime() < end; cursor.setMonth(cursor.getMonth() + 1)) {
+        months.push(cursor.getTime());
+    }
+
+    if (shown.length === 0) return null;
+
+    return (
+        <figure className="bg-[var(--color-surface)] border-4 border-[var(--color-border)] rounded-3xl p-6 mb-12">
+            <figcaption className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-4 text-left">{t("events.timeline")}</figcaption>
+            <div className="relative">
+                <div className="relative h-6 text-xs font-heading font-bold text-[var(--color-wood)]" aria-hidden="true">
+                    {months.map(month => (
+                        <span key={month} className="absolute -translate-x-1/2 whitespace-nowrap" style={{ left: percent(month) }}>
+                            {new Date(month).toLocaleDateString(locale, { month: "short" })}
+                        </span>
+                    ))}
+                </div>
+                <ol className="relative space-y-2">
+                    {shown.map(entry => (
+                        <li key={entry.id} className="relative h-8">
+                            <a
+                                href={`#${entry.id}`}
+                                className={`absolute inset-y-0 rounded-full px-3 flex items-center text-xs font-heading font-bold text-white truncate hover:brightness-110 ${EVENT_TYPE_COLORS[entry.type]} ${eventStatus(entry, now) === "past" ? "opacity-50" : ""}`}
+                                style={{ left: percent(Date.parse(entry.startTime)), right: `calc(100% - ${percent(Date.parse(entry.endTime))})` }}
+                                title={entry.name}
+                            >
+                                {entry.name}
+                            </a>
+                        </li>
+                    ))}
+                </ol>
+                <div
+                    className="absolute top-6 bottom-0 w-0.5 bg-[var(--color-accent)] pointer-events-none"
+                    style={{ left: percent(now) }}
+                    aria-hidden="true"
+                >
+                    <span className="absolute -top-6 -translate-x-1/2 text-xs font-heading font-bold text-[var(--color-accent)]">{t("events.now")}</span>
+                </div>
+            </div>
+        </figure>
+    );
+}
@@ -0,0 +1,50 @@
+import { Link } from "react-router-dom";
+import { ArrowRight, Crown, Gem, Heart, Shield, Sparkles, Star, Swords, Zap, type LucideIcon } from "lucide-react";
+import { Card } from "./ui/card";
+import { useI18n } from "../i18n/I18nProvider";
+import type { Locale } from "../i18n/locales";
+import { localized, type FeatureColor, type FeatureIcon, type HomeFeature } from "../lib/home";
+
+export const FEATURE_ICON_COMPONENTS: Record<FeatureIcon, LucideIcon> = {
+    shield: Shield,
+    zap: Zap,
+    heart: Heart,
+    sparkles: Sparkles,
+    swords: Swords,
+    star: Star,
+    crown: Crown,
+    gem: Gem,
+};
+
+const COLOR_CLASSES: Record<FeatureColor, string> = {
+    blue: "bg-blue-500",
+    primary: "bg-[var(--color-primary)]",
+    secondary: "bg-[var(--color-secondary)]",
+    accent: "bg-[var(--color-accent)]",
+    wood: "bg-[var(--color-wood)]",
+};
+
+/** A home-page feature card. `locale` picks the copy to show; the admin preview passes the locale being edited. */
+export function FeatureCard({ feature, locale }: { feature: HomeFeature, locale?: Locale }) {
+    const { t, path, locale: current } = useI18n();
+    const Icon = FEATURE_ICON_COMPONENTS[feature.icon];
+    const lang = locale ?? current;
+
+    return (
+        <Card className="hover:-translate-y-2 transition-transform duration-300">
+            <div className={`w-14 h-14 ${COLOR_CLASSES[feature.color]} rounded-2xl flex items-center justify-center shadow-lg shadow-black/10 mb-6 rotate-3`}>
+                <Icon className="text-white" size={32} />
+            </div>
+            <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-3">{localized(feature.title, lang)}</h3>
+            <p className="text-[var(--color-dark)]/70 leading-relaxed font-medium">
+                {localized(feature.description, lang)}
+            </p>
+            {feature.link && (
+                <Link to={path(feature.link)} className="inline-flex items-center gap-1 mt-4 font-heading font-bold text-[var(--color-primary)] hover:gap-2 transition-all">
+                    {t("home.features.explore")}
+                    <ArrowRight size={18} />
+                </Link>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,4 @@
+export function FieldError({ id, message }: { id?: string, message?: string }) {
+    if (!message) return null;
+    return <p id={id} className="text-sm font-medium text-[var(--color-primary)]">{message}</p>;
+}
@@ -0,0 +1,14 @@
+export function FilterChip({ label, active, onClick }: { label: string, active: boolean, onClick: () => void }) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            aria-pressed={active}
+            className={`px-5 py-2 rounded-full font-heading font-bold transition-colors
+        ${active ? "bg-[var(--color-primary)] text-white" : "bg-[var(--color-surface)] text-[var(--color-wood)] hover:text-[var(--color-primary)]"}
+      `}
+        >
+            {label}
+        </button>
+    );
+}
@@ -0,0 +1,111 @@
+import { Lock } from "lucide-react";
+import { NumberField } from "./NumberField";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ATTRIBUTES } from "../data/attributes";
+import {
+    EQUIPMENT_RARITIES,
+    MAX_SUB_ATTRIBUTES,
+    SLOT_UNLOCK_LEVELS,
+    SUB_ATTRIBUTES,
+    SUB_ATTRIBUTE_RANGES,
+    isEquipmentRarity,
+    isSubAttribute,
+    type DiceSlot,
+} from "../data/equipment";
+import { useI18n } from "../i18n/I18nProvider";
+import { clampSubValue, type GearPiece } from "../lib/planner";
+
+const NONE = "none";
+
+interface GearSlotEditorProps {
+    slot: DiceSlot;
+    piece?: GearPiece;
+    locked: boolean;
+    onChange: (piece: GearPiece | undefined) => void;
+}
+
+/** Rarity and sub-attribute rolls for one Dice Roll slot in the build planner. */
+export function GearSlotEditor({ slot, piece, locked, onChange }: GearSlotEditorProps) {
+    const { t } = useI18n();
+    const id = `gear-${slot}`;
+
+    const setRarity = (value: string) => {
+        if (!isEquipmentRarity(value)) return onChange(undefined);
+        // Keep the rolls, pulled into the new rarity's range.
+        onChange({ rarity: value, subs: (piece?.subs ?? []).map(sub => ({ ...sub, value: clampSubValue(value, sub.value) })) });
+    };
+
+    const setSub = (index: number, attribute: string, value?: number) => {
+        if (!piece) return;
+        const subs = [...piece.subs];
+        if (!isSubAttribute(attribute)) subs.splice(index, 1);
+        else subs[index] = { attribute, value: clampSubValue(piece.rarity, value ?? subs[index]?.value ?? SUB_ATTRIBUTE_RANGES[piece.rarity].max) };
+        onChange({ ...piece, subs });
+    };
+
+    return (
+        <div className={`rounded-2xl border-2 border-[var(--color-border)] bg-[var(--color-surface-muted)] p-4 flex flex-col gap-3 ${locked ? "opacity-60" : ""}`}>
+            <div className="flex items-center justify-between gap-2">
+                <h3 id={`${id}-label`} className="font-heading font-bold text-[var(--color-dark)]">{t(`planner.slots.${slot}`)}</h3>
+                {locked && (
+                    <span className="inline-flex items-center gap-1 text-xs font-heading font-bold text-[var(--color-wood)]">
+                        <Lock size={12} aria-hidden="true" />
+                        {t("planner.unlocksAt", { level: SLOT_UNLOCK_LEVELS[slot] })}
+                    </span>
+                )}
+            </div>
+
+            <Select value={piece?.rarity ?? NONE} onValueChange={setRarity} disabled={locked}>
+                <SelectTrigger aria-labelledby={`${id}-label`} className="w-full data-[size=default]:h-11 rounded-2xl bg-[var(--color-surface)]">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[var(--color-surface)]">
+                    <SelectItem value={NONE}>{t("planner.empty")}</SelectItem>
+                    {EQUIPMENT_RARITIES.map(rarity => <SelectItem key={rarity} value={rarity}>{t(`rarities.${rarity}`)}</SelectItem>)}
+                </SelectContent>
+            </Select>
+
+            {piece && !locked && Array.from({ length: Math.min(piece.subs.length + 1, MAX_SUB_ATTRIBUTES) }, (_, i) => {
+                const sub = piece.subs[i];
+                const range = SUB_ATTRIBUTE_RANGES[piece.rarity];
+                return (
+                    <div key={i} className="grid grid-cols-[1fr_5.5rem] gap-2">
+                        <Select value={sub?.attribute ?? NONE} onValueChange={value => setSub(i, value)}>
+                            <SelectTrigger
+                                aria-label={t("planner.subAttribute", { slot: t(`planner.slots.${slot}`), n: i + 1 })}
+                                className="w-full data-[size=default]:h-11 rounded-2xl bg-[var(--color-surface)]"
+                            >
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                <SelectItem value={NONE}>{t("planner.noSubAttribute")}</SelectItem>
+                                {SUB_ATTRIBUTES.map(attribute => (
+                                    <SelectItem
+                                        key={attribute}
+                                        value={attribute}
+                                        // A piece never rolls the same sub-attribute twice.
+                                        disabled={piece.subs.some((other, j) => j !== i && other.attribute === attribute)}
+                                    >
+                                        {ATTRIBUTES[attribute].label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {sub && (
+                            <NumberField
+                                aria-label={t("planner.subValue", { attribute: ATTRIBUTES[sub.attribute].label, min: range.min, max: range.max })}
+                                title={t("planner.subValue", { attribute: ATTRIBUTES[sub.attribute].label, min: range.min, max: range.max })}
+                                min={range.min}
+                                max={range.max}
+                                step={0.1}
+                                value={sub.value}
+                                onCommit={value => setSub(i, sub.attribute, value)}
+                                className="h-11 rounded-2xl bg-[var(--color-surface)]"
+                            />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
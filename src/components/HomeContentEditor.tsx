@@ -0,0 +1,294 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { ArrowDown, ArrowUp, CheckCircle2, Plus, Trash2 } from "lucide-react";
+import { FeatureCard } from "./FeatureCard";
+import { FieldError } from "./FieldError";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { DEFAULT_LOCALE, LOCALES, isLocale, type Locale } from "../i18n/locales";
+import { fetchEditableHomeContent, saveHomeContent } from "../lib/admin";
+import { ApiError } from "../lib/api";
+import {
+    FEATURE_COLORS,
+    FEATURE_ICONS,
+    FEATURE_LINKS,
+    MAX_FEATURES,
+    homeContentSchema,
+    type FeatureColor,
+    type FeatureIcon,
+    type FeatureLink,
+    type HomeContent,
+    type HomeFeature,
+    type LocalizedText,
+} from "../lib/home";
+
+// Radix Select items can't have an empty value.
+const NO_LINK = "none";
+
+const labelClass = "font-heading font-bold text-[var(--color-dark)]";
+const triggerClass = "w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]";
+
+/** Edits `content/home.json`. Calls `onSaved` after each save and `onUnauthorized` when the session has run out. */
+export function HomeContentEditor({ onSaved, onUnauthorized }: { onSaved: () => void, onUnauthorized: () => void }) {
+    const { t } = useI18n();
+    const { data, error } = useAsync(fetchEditableHomeContent, []);
+    const [draft, setDraft] = useState<HomeContent | null>(null);
+    const [revision, setRevision] = useState("");
+    const [lang, setLang] = useState<Locale>(DEFAULT_LOCALE);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [failure, setFailure] = useState("");
+
+    const load = (loaded: { content: HomeContent, revision: string }) => {
+        setDraft(loaded.content);
+        setRevision(loaded.revision);
+        setErrors({});
+        setFailure("");
+    };
+
+    useEffect(() => {
+        if (data) load(data);
+    }, [data]);
+
+    useEffect(() => {
+        if (error instanceof ApiError && error.status === 401) onUnauthorized();
+    }, [error]);
+
+    if (error) return <p role="alert" className="text-center text-[var(--color-primary)] font-medium py-8">{t("errors.generic")}</p>;
+    if (!draft) return <p className="text-center text-[var(--color-dark)]/70 font-medium py-8">{t("admin.home.loading")}</p>;
+
+    const edit = (next: HomeContent) => {
+        setDraft(next);
+        setSaved(false);
+    };
+    const editHero = (field: keyof HomeContent["hero"], text: LocalizedText) => edit({ ...draft, hero: { ...draft.hero, [field]: text } });
+    const editFeature = (index: number, changes: Partial<HomeFeature>) =>
+        edit({ ...draft, features: draft.features.map((f, i) => (i === index ? { ...f, ...changes } : f)) });
+    const moveFeature = (index: number, by: number) => {
+        const features = [...draft.features];
+        const [moved] = features.splice(index, 1);
+        features.splice(index + by, 0, moved!);
+        edit({ ...draft, features });
+    };
+    const addFeature = () => edit({
+        ...draft,
+        features: [...draft.features, { id: `feature-${Date.now().toString(36)}`, icon: "sparkles", color: "primary", title: { en: "" }, description: { en: "" } }],
+    });
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+
+        const result = homeContentSchema.check(draft);
+        if (!result.ok) {
+            setErrors(result.issues);
+            setFailure(t("errors.checkFields"));
+            return;
+        }
+
+        setErrors({});
+        setFailure("");
+        setSaving(true);
+        try {
+            load(await saveHomeContent(result.value, revision));
+            setSaved(true);
+            onSaved();
+        } catch (err) {
+            if (err instanceof ApiError && err.status === 401) onUnauthorized();
+            else if (err instanceof ApiError && err.code === "conflict") setFailure(t("admin.home.conflict"));
+            else if (err instanceof ApiError && Object.keys(err.fields).length > 0) {
+                setErrors(Object.fromEntries(Object.keys(err.fields).map(field => [field.replace(/^content\./, ""), err.fields[field]!])));
+                setFailure(t("errors.checkFields"));
+            } else setFailure(t("errors.generic"));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Issues are keyed by path, e.g. `features.0.title.en`; a field shows one if any of its locales has a problem.
+    const invalid = (path: string) => Object.keys(errors).some(key => key === path || key.startsWith(`${path}.`));
+
+    return (
+        <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-8 text-left">
+            <Card>
+                <div className="flex flex-col md:flex-row md:items-end gap-4 justify-between mb-6">
+                    <div>
+                        <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("admin.home.title")}</h2>
+                        <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.home.subtitle")}</p>
+                    </div>
+                    <div className="flex flex-col gap-2 md:w-56">
+                        <Label htmlFor="admin-language" className={labelClass}>{t("admin.home.language")}</Label>
+                        <Select value={lang} onValueChange={value => isLocale(value) && setLang(value)}>
+                            <SelectTrigger id="admin-language" className={triggerClass}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                {LOCALES.map(l => <SelectItem key={l.code} value={l.code}>{l.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                {lang !== DEFAULT_LOCALE && (
+                    <p className="text-sm font-medium text-[var(--color-wood)] mb-4">{t("admin.home.fallbackHint")}</p>
+                )}
+
+                <div className="flex flex-col gap-5">
+                    <LocalizedField id="hero-badge" label={t("admin.home.badge")} lang={lang} value={draft.hero.badge} maxLength={60}
+                        invalid={invalid("hero.badge")} onChange={text => editHero("badge", text)} />
+                    <LocalizedField id="hero-title" label={t("admin.home.headline")} hint={t("admin.home.headlineHint")} lang={lang} value={draft.hero.title} maxLength={80}
+                        invalid={invalid("hero.title")} onChange={text => editHero("title", text)} />
+                    <LocalizedField id="hero-subtitle" label={t("admin.home.heroSubtitle")} lang={lang} value={draft.hero.subtitle} maxLength={300} multiline
+                        invalid={invalid("hero.subtitle")} onChange={text => editHero("subtitle", text)} />
+                    <LocalizedField id="features-title" label={t("admin.home.featuresTitle")} lang={lang} value={draft.featuresTitle} maxLength={60}
+                        invalid={invalid("featuresTitle")} onChange={text => edit({ ...draft, featuresTitle: text })} />
+                </div>
+            </Card>
+
+            {/* Feature Cards */}
+            <div className="flex items-center justify-between">
+                <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)]">{t("admin.home.features")}</h2>
+                <Button type="button" variant="secondary" size="sm" onClick={addFeature} disabled={draft.features.length >= MAX_FEATURES} className="disabled:opacity-40">
+                    <Plus size={18} />
+                    {t("admin.home.addCard")}
+                </Button>
+            </div>
+
+            {draft.features.map((feature, i) => (
+                <Card key={feature.id}>
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-xl font-heading font-bold text-[var(--color-dark)]">{t("admin.home.card", { number: i + 1 })}</h3>
+                        <div className="flex gap-1 text-[var(--color-wood)]">
+                            <Button type="button" variant="ghost" size="sm" aria-label={t("admin.home.moveUp")} disabled={i === 0} onClick={() => moveFeature(i, -1)} className="disabled:opacity-30">
+                                <ArrowUp size={18} />
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" aria-label={t("admin.home.moveDown")} disabled={i === draft.features.length - 1} onClick={() => moveFeature(i, 1)} className="disabled:opacity-30">
+                                <ArrowDown size={18} />
+                            </Button>
+                            <Button type="button" variant="ghost" size="sm" aria-label={t("admin.home.removeCard")} onClick={() => edit({ ...draft, features: draft.features.filter(f => f !== feature) })} className="text-[var(--color-primary)]">
+                                <Trash2 size={18} />
+                            </Button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-5 mb-5">
+                        <div className="flex flex-col gap-2">
+                            <Label htmlFor={`${feature.id}-icon`} className={labelClass}>{t("admin.home.icon")}</Label>
+                            <Select value={feature.icon} onValueChange={value => editFeature(i, { icon: value as FeatureIcon })}>
+                                <SelectTrigger id={`${feature.id}-icon`} className={triggerClass}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-[var(--color-surface)]">
+                                    {FEATURE_ICONS.map(icon => <SelectItem key={icon} value={icon}>{t(`admin.home.icons.${icon}`)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <Label htmlFor={`${feature.id}-color`} className={labelClass}>{t("admin.home.color")}</Label>
+                            <Select value={feature.color} onValueChange={value => editFeature(i, { color: value as FeatureColor })}>
+                                <SelectTrigger id={`${feature.id}-color`} className={triggerClass}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-[var(--color-surface)]">
+                                    {FEATURE_COLORS.map(color => <SelectItem key={color} value={color}>{t(`admin.home.colors.${color}`)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <Label htmlFor={`${feature.id}-link`} className={labelClass}>{t("admin.home.link")}</Label>
+                            <Select
+                                value={feature.link ?? NO_LINK}
+                                onValueChange={value => editFeature(i, { link: value === NO_LINK ? undefined : value as FeatureLink })}
+                            >
+                                <SelectTrigger id={`${feature.id}-link`} className={triggerClass}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-[var(--color-surface)]">
+                                    <SelectItem value={NO_LINK}>{t("admin.home.noLink")}</SelectItem>
+                                    {FEATURE_LINKS.map(link => <SelectItem key={link} value={link}>{link}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-5">
+                        <LocalizedField id={`${feature.id}-title`} label={t("admin.home.cardTitle")} lang={lang} value={feature.title} maxLength={60}
+                            invalid={invalid(`features.${i}.title`)} onChange={title => editFeature(i, { title })} />
+                        <LocalizedField id={`${feature.id}-description`} label={t("admin.home.cardDescription")} lang={lang} value={feature.description} maxLength={300} multiline
+                            invalid={invalid(`features.${i}.description`)} onChange={description => editFeature(i, { description })} />
+                    </div>
+                </Card>
+            ))}
+
+            {/* Preview */}
+            {draft.features.length > 0 && (
+                <div>
+                    <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">{t("admin.home.preview")}</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                        {draft.features.map(feature => <FeatureCard key={feature.id} feature={feature} locale={lang} />)}
+                    </div>
+                </div>
+            )}
+
+            {failure && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{failure}</p>}
+            {saved && (
+                <p role="status" className="flex items-center gap-2 text-sm font-bold text-[var(--color-secondary-dark)]">
+                    <CheckCircle2 size={18} />
+                    {t("admin.home.saved")}
+                </p>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-4">
+                <Button type="submit" size="lg" disabled={saving} className="flex-1 disabled:opacity-60">
+                    {saving ? t("admin.home.saving") : t("admin.home.save")}
+                </Button>
+                <Button type="button" variant="ghost" size="lg" disabled={saving} onClick={() => data && load(data)} className="text-[var(--color-wood)]">
+                    {t("admin.home.discard")}
+                </Button>
+            </div>
+        </form>
+    );
+}
+
+interface LocalizedFieldProps {
+    id: string;
+    label: string;
+    hint?: string;
+    lang: Locale;
+    value: LocalizedText;
+    maxLength: number;
+    multiline?: boolean;
+    invalid: boolean;
+    onChange: (value: LocalizedText) => void;
+}
+
+/** One text field edited in `lang`; blank translations are dropped so the English text shows instead. */
+function LocalizedField({ id, label, hint, lang, value, maxLength, multiline, invalid, onChange }: LocalizedFieldProps) {
+    const { t } = useI18n();
+    const fallback = lang === DEFAULT_LOCALE ? undefined : value[DEFAULT_LOCALE];
+    const change = (text: string) => onChange({ ...value, [lang]: lang === DEFAULT_LOCALE || text ? text : undefined });
+    const common = {
+        id,
+        lang,
+        value: value[lang] ?? "",
+        placeholder: fallback,
+        maxLength,
+        "aria-invalid": invalid,
+        "aria-describedby": invalid ? `${id}-error` : undefined,
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <Label htmlFor={id} className={labelClass}>{label}</Label>
+            {multiline
+                ? <Textarea {...common} rows={3} onChange={e => change(e.target.value)} className="rounded-2xl bg-[var(--color-surface)]" />
+                : <Input {...common} onChange={e => change(e.target.value)} className="h-12 rounded-2xl bg-[var(--color-surface)]" />}
+            {hint && <p className="text-sm font-medium text-[var(--color-wood)]">{hint}</p>}
+            <FieldError id={`${id}-error`} message={invalid ? t("admin.home.invalid", { max: maxLength }) : undefined} />
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import type { Rarity } from "../lib/rarity";
+
+interface ItemFrameProps {
+    rarity: Rarity;
+    /** Icon, sprite or emoji shown inside the frame. */
+    children: ReactNode;
+    size?: "sm" | "md" | "lg";
+    /** Accessible name; omit when the frame is decorative. */
+    label?: string;
+    className?: string;
+}
+
+const SIZES = {
+    sm: "w-14 h-14 rounded-2xl text-3xl",
+    md: "w-24 h-24 rounded-3xl text-5xl",
+    lg: "w-32 h-32 rounded-[2rem] text-7xl",
+};
+
+/**
+ * Square tile for an item, Pal or skill icon: a rarity-gradient border around
+ * a tinted background, like the in-game `ItemFrame`. Eternal animates.
+ */
+export function ItemFrame({ rarity, children, size = "md", label, className = "" }: ItemFrameProps) {
+    return (
+        <span
+            data-rarity={rarity}
+            role={label ? "img" : undefined}
+            aria-label={label}
+            aria-hidden={label ? undefined : true}
+            className={`rarity-gradient p-1 shrink-0 inline-flex shadow-lg shadow-black/10 ${SIZES[size]} ${className}`}
+        >
+            <span className="w-full h-full rounded-[inherit] flex items-center justify-center bg-[var(--color-surface)]/70">
+                {children}
+            </span>
+        </span>
+    );
+}
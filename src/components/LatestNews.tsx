@@ -0,0 +1,37 @@
+import { Link } from "react-router-dom";
+import { NewsCard } from "./NewsCard";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { fetchNewsIndex, NEWS_INDEX_PATH, type NewsPostSummary } from "../lib/news";
+import { getPreloaded } from "../lib/preload";
+
+const LATEST_COUNT = 3;
+
+export function LatestNews() {
+    const { t, path } = useI18n();
+    const { data: posts } = useAsync(fetchNewsIndex, [], getPreloaded<NewsPostSummary[]>(NEWS_INDEX_PATH));
+
+    // The strip is a teaser; stay out of the way until there's something to show.
+    if (!posts?.length) return null;
+
+    return (
+        <section className="px-6 py-20 relative z-10 bg-[var(--color-paper)]">
+            <div className="max-w-6xl mx-auto">
+                <div className="text-center mb-16">
+                    <h2 className="text-4xl md:text-5xl font-heading font-bold text-[var(--color-dark)] mb-4">{t("news.latest")}</h2>
+                    <div className="h-2 w-24 bg-[var(--color-accent)] mx-auto rounded-full"></div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                    {posts.slice(0, LATEST_COUNT).map(post => <NewsCard key={post.slug} post={post} />)}
+                </div>
+
+                <div className="text-center mt-12">
+                    <Link to={path("/news")} className="font-heading font-bold text-lg text-[var(--color-primary)] hover:underline">
+                        {t("news.viewAll")} →
+                    </Link>
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef } from "react";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { MediaItem } from "../data/media";
+import { useFocusTrap } from "../hooks/useFocusTrap";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface LightboxProps {
+    items: MediaItem[];
+    index: number;
+    onIndexChange: (index: number) => void;
+    onClose: () => void;
+}
+
+/**
+ * Full-screen viewer for gallery items. Arrow keys step through `items`,
+ * Escape closes, and focus returns to whatever opened it.
+ */
+export function Lightbox({ items, index, onIndexChange, onClose }: LightboxProps) {
+    const { t, locale } = useI18n();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const item = items[index];
+
+    const go = (delta: number) => onIndexChange((index + delta + items.length) % items.length);
+
+    // The close button comes first, so that's where focus lands.
+    useFocusTrap(dialogRef, true, onClose);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "ArrowLeft") go(-1);
+            else if (e.key === "ArrowRight") go(1);
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    });
+
+    if (!item) return null;
+
+    return (
+        <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={item.caption}
+            className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex flex-col items-center justify-center p-4 md:p-12 animate-in fade-in"
+            onClick={onClose}
+        >
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label={t("media.lightbox.close")}
+                className="absolute top-4 right-4 p-2 text-white hover:bg-white/10 rounded-xl"
+            >
+                <X size={32} />
+            </button>
+
+            {items.length > 1 && (
+                <>
+                    <button
+                        onClick={e => { e.stopPropagation(); go(-1); }}
+                        aria-label={t("media.lightbox.previous")}
+                        className="absolute left-2 md:left-6 top-1/2 -translate-y-1/2 p-2 text-white hover:bg-white/10 rounded-xl"
+                    >
+                        <ChevronLeft size={40} />
+                    </button>
+                    <button
+                        onClick={e => { e.stopPropagation(); go(1); }}
+                        aria-label={t("media.lightbox.next")}
+                        className="absolute right-2 md:right-6 top-1/2 -translate-y-1/2 p-2 text-white hover:bg-white/10 rounded-xl"
+                    >
+                        <ChevronRight size={40} />
+                    </button>
+                </>
+            )}
+
+            <figure className="max-w-6xl w-full flex flex-col items-center gap-4" onClick={e => e.stopPropagation()}>
+                {item.type === "video" ? (
+                    <video
+                        key={item.id}
+                        src={item.src}
+                        poster={item.thumbnail}
+                        controls
+                        autoPlay
+                        className="max-h-[75vh] w-auto max-w-full rounded-2xl bg-black"
+                    />
+                ) : (
+                    <img
+                        key={item.id}
+                        src={item.src}
+                        alt={item.caption}
+                        width={item.width}
+                        height={item.height}
+                        className="max-h-[75vh] w-auto max-w-full h-auto object-contain rounded-2xl"
+                    />
+                )}
+                <figcaption className="text-center text-white font-heading">
+                    <p className="text-lg font-bold">{item.caption}</p>
+                    <p className="text-sm opacity-60">
+                        {new Date(item.date).toLocaleDateString(locale, { dateStyle: "long", timeZone: "UTC" })}
+                        {" · "}
+                        {t("media.lightbox.counter", { current: index + 1, total: items.length })}
+                    </p>
+                </figcaption>
+            </figure>
+        </div>
+    );
+}
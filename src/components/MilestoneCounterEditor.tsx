@@ -0,0 +1,117 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { CheckCircle2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError } from "../lib/api";
+import { fetchMilestoneCounter, saveMilestoneAdjustment, type MilestoneCounter } from "../lib/milestones";
+
+/** Sets the adjustment added to the pre-registration count shown in the home page's milestone tracker. */
+export function MilestoneCounterEditor({ onSaved, onUnauthorized }: { onSaved: () => void, onUnauthorized: () => void }) {
+    const { t, locale } = useI18n();
+    const { data, error } = useAsync(fetchMilestoneCounter, []);
+    const [counter, setCounter] = useState<MilestoneCounter>();
+    const [adjustment, setAdjustment] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [failure, setFailure] = useState("");
+
+    const load = (loaded: MilestoneCounter) => {
+        setCounter(loaded);
+        setAdjustment(String(loaded.adjustment));
+    };
+
+    useEffect(() => {
+        if (data) load(data);
+    }, [data]);
+
+    useEffect(() => {
+        if (error instanceof ApiError && error.status === 401) onUnauthorized();
+    }, [error]);
+
+    const parsed = /^-?\d{1,8}$/.test(adjustment.trim()) ? Number(adjustment) : NaN;
+    const number = (value: number) => value.toLocaleString(locale);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setSaved(false);
+        if (Number.isNaN(parsed)) {
+            setFailure(t("admin.milestones.invalid"));
+            return;
+        }
+
+        setFailure("");
+        setSaving(true);
+        try {
+            load(await saveMilestoneAdjustment(parsed));
+            setSaved(true);
+            onSaved();
+        } catch (err) {
+            if (err instanceof ApiError && err.status === 401) onUnauthorized();
+            else if (err instanceof ApiError && Object.keys(err.fields).length > 0) setFailure(t("admin.milestones.invalid"));
+            else setFailure(t("errors.generic"));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card className="text-left">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-5">
+                <div>
+                    <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("admin.milestones.title")}</h2>
+                    <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.milestones.subtitle")}</p>
+                </div>
+
+                {error && !(error instanceof ApiError && error.status === 401) ? (
+                    <p role="alert" className="text-[var(--color-primary)] font-medium">{t("errors.generic")}</p>
+                ) : !counter ? (
+                    <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.milestones.loading")}</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                            <div className="rounded-2xl bg-[var(--color-surface-muted)] p-4">
+                                <p className="text-sm font-heading font-bold text-[var(--color-wood)]">{t("admin.milestones.signups")}</p>
+                                <p className="text-3xl font-heading font-extrabold text-[var(--color-dark)]">{number(counter.signups)}</p>
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <Label htmlFor="milestone-adjustment" className="font-heading font-bold text-[var(--color-dark)]">{t("admin.milestones.adjustment")}</Label>
+                                <Input
+                                    id="milestone-adjustment"
+                                    inputMode="numeric"
+                                    aria-invalid={!!failure && Number.isNaN(parsed)}
+                                    aria-describedby="milestone-adjustment-hint"
+                                    value={adjustment}
+                                    onChange={e => setAdjustment(e.target.value)}
+                                    className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                                />
+                            </div>
+                            <div className="rounded-2xl bg-[var(--color-surface-muted)] p-4">
+                                <p className="text-sm font-heading font-bold text-[var(--color-wood)]">{t("admin.milestones.shown")}</p>
+                                <p className="text-3xl font-heading font-extrabold text-[var(--color-dark)]">
+                                    {number(Math.max(0, counter.signups + (Number.isNaN(parsed) ? counter.adjustment : parsed)))}
+                                </p>
+                            </div>
+                        </div>
+                        <p id="milestone-adjustment-hint" className="text-sm font-medium text-[var(--color-wood)]">{t("admin.milestones.hint")}</p>
+
+                        {failure && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{failure}</p>}
+                        {saved && (
+                            <p role="status" className="flex items-center gap-2 text-sm font-bold text-[var(--color-secondary-dark)]">
+                                <CheckCircle2 size={18} />
+                                {t("admin.milestones.saved")}
+                            </p>
+                        )}
+
+                        <Button type="submit" size="lg" disabled={saving} className="md:self-start disabled:opacity-60">
+                            {saving ? t("admin.home.saving") : t("admin.milestones.save")}
+                        </Button>
+                    </>
+                )}
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Check, Lock } from "lucide-react";
+import { ItemFrame } from "./ItemFrame";
+import { getPal } from "../data/pals";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { fetchMilestones, rewardPreview, type MilestoneReward, type MilestoneStatus } from "../lib/milestones";
+
+/**
+ * How far the bar is filled, 0–1. Every milestone gets an equal stretch of the
+ * bar, so the first goals don't get squeezed against the start.
+ */
+function fillFraction(count: number, milestones: MilestoneStatus[]) {
+    let previous = 0;
+    for (const [i, { goal }] of milestones.entries()) {
+        if (count < goal) return (i + (count - previous) / (goal - previous)) / milestones.length;
+        previous = goal;
+    }
+    return 1;
+}
+
+/** Sign-up progress toward the pre-registration rewards. Renders nothing until the count arrives. */
+export function MilestoneTracker() {
+    const { t, locale } = useI18n();
+    const { data } = useAsync(fetchMilestones, []);
+    // Starts empty and grows to the count once it's on screen.
+    const [fill, setFill] = useState(0);
+
+    useEffect(() => {
+        if (!data) return;
+        const frame = requestAnimationFrame(() => setFill(fillFraction(data.count, data.milestones)));
+        return () => cancelAnimationFrame(frame);
+    }, [data]);
+
+    if (!data || data.milestones.length === 0) return null;
+
+    const rewardName = (reward: MilestoneReward) =>
+        reward.type === "gems" ? t("milestones.gems", { amount: reward.amount.toLocaleString(locale) }) : getPal(reward.palId)?.name ?? reward.palId;
+    const next = data.milestones.find(m => !m.unlocked);
+
+    return (
+        <div className="w-full max-w-2xl mb-8 px-6 py-5 bg-[var(--color-surface)]/80 backdrop-blur-sm rounded-3xl border border-[var(--color-border-strong)] shadow-sm text-left">
+            <div className="flex flex-wrap items-baseline justify-between gap-x-4 mb-3 font-heading font-bold">
+                <h2 className="text-lg text-[var(--color-dark)]">{t("milestones.title")}</h2>
+                <p className="text-sm text-[var(--color-wood)]">{t("milestones.count", { count: data.count.toLocaleString(locale) })}</p>
+            </div>
+
+            <div
+                role="progressbar"
+                aria-label={t("milestones.title")}
+                aria-valuemin={0}
+                aria-valuemax={data.milestones.at(-1)!.goal}
+                aria-valuenow={data.count}
+                className="h-4 rounded-full bg-[var(--color-border)] overflow-hidden"
+            >
+                <div
+                    style={{ width: `${fill * 100}%` }}
+                    className="h-full rounded-full bg-gradient-to-r from-[var(--color-accent)] to-[var(--color-primary)] transition-[width] duration-1000 ease-out motion-reduce:transition-none"
+                />
+            </div>
+
+            <ol className="grid mt-3" style={{ gridTemplateColumns: `repeat(${data.milestones.length}, minmax(0, 1fr))` }}>
+                {data.milestones.map(milestone => {
+                    const preview = rewardPreview(milestone.reward);
+                    return (
+                        <li key={milestone.goal} className="flex flex-col items-end text-right gap-1">
+                            <span className="relative">
+                                <ItemFrame rarity={preview.rarity} size="sm" className={milestone.unlocked ? "" : "grayscale opacity-60"}>
+                                    {preview.emoji}
+                                </ItemFrame>
+                                <span className={`absolute -top-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center text-[var(--color-paper)] ${milestone.unlocked ? "bg-[var(--color-secondary)]" : "bg-[var(--color-wood)]"}`}>
+                                    {milestone.unlocked ? <Check size={12} strokeWidth={3} /> : <Lock size={11} strokeWidth={3} />}
+                                </span>
+                            </span>
+                            <span className="text-xs font-heading font-bold text-[var(--color-dark)] leading-tight">{rewardName(milestone.reward)}</span>
+                            <span className="text-xs font-bold text-[var(--color-wood)]">
+                                {milestone.goal.toLocaleString(locale, { notation: "compact" })}
+                                <span className="sr-only"> · {t(milestone.unlocked ? "milestones.unlocked" : "milestones.locked")}</span>
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            <p className="mt-3 text-sm font-medium text-[var(--color-dark)]/70">
+                {next
+                    ? t("milestones.next", { remaining: (next.goal - data.count).toLocaleString(locale), reward: rewardName(next.reward) })
+                    : t("milestones.allUnlocked")}
+            </p>
+        </div>
+    );
+}
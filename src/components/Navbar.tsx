@@ -1,16 +1,53 @@
 import { Button } from "./ui/Button";
-import { Menu, X, Globe } from "lucide-react";
-import { useState } from "react";
+import { ResponsiveImage } from "./ResponsiveImage";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Menu, X, Globe, Moon, Sun, CirclePause, CirclePlay } from "lucide-react";
+import { useEffect, useRef, useState, type MouseEvent } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { useFocusTrap } from "../hooks/useFocusTrap";
+import { useI18n } from "../i18n/I18nProvider";
+import { LOCALES, type Locale } from "../i18n/locales";
+import { useTheme } from "../theme/ThemeProvider";
+
+/** Every page puts its main landmark under this id, so the skip link has somewhere to go. */
+export const MAIN_CONTENT_ID = "main-content";
+
+const MOBILE_MENU_ID = "mobile-menu";
 
 export function Navbar() {
     const [isOpen, setIsOpen] = useState(false);
     const location = useLocation();
+    const { t, path, locale, setLocale } = useI18n();
+    const { mode, toggleMode, motion, toggleMotion } = useTheme();
+    const menuRef = useRef<HTMLDivElement>(null);
+    const closeMenu = () => setIsOpen(false);
+
+    useFocusTrap(menuRef, isOpen, closeMenu);
+
+    // Links to the current page don't remount the page, so close explicitly on every navigation.
+    useEffect(closeMenu, [location.pathname, location.search, location.hash]);
+
+    // Focus the content rather than following the hash, which would add `#main-content` to the URL.
+    const skipToContent = (e: MouseEvent<HTMLAnchorElement>) => {
+        const main = document.getElementById(MAIN_CONTENT_ID);
+        if (!main) return;
+        e.preventDefault();
+        main.focus();
+    };
 
     return (
         <>
+            {/* Skip Link - Hidden until focused */}
+            <a
+                href={`#${MAIN_CONTENT_ID}`}
+                onClick={skipToContent}
+                className="sr-only focus:not-sr-only focus:fixed focus:top-2 focus:left-2 focus:z-[60] focus:px-4 focus:py-2 focus:rounded-xl focus:bg-[var(--color-surface)] focus:text-[var(--color-dark)] focus:font-heading focus:font-bold focus:shadow-lg focus:outline-4 focus:outline-[var(--color-accent)]"
+            >
+                {t("nav.skipToContent")}
+            </a>
+
             {/* Top Utility Bar - Static (Scrolls away) */}
-            <div className="relative z-50 bg-[#1C1C1E] text-white h-[40px] flex justify-between items-center px-4 md:px-8 font-heading">
+            <div className="relative z-50 bg-[var(--color-topbar)] text-white h-[40px] flex justify-between items-center px-4 md:px-8 font-heading">
                 <div className="flex items-center">
                     {/* Branding Text */}
                     <span className="font-bold tracking-wider text-sm opacity-70 hover:opacity-100 transition-opacity cursor-default">
@@ -18,34 +55,76 @@ export function Navbar() {
                     </span>
                 </div>
                 <div className="flex items-center gap-4 text-xs font-medium opacity-60">
-                    <a href="#" className="hover:opacity-100 transition-opacity">FAQ & Support</a>
-                    <div className="flex items-center gap-1 hover:opacity-100 transition-opacity cursor-pointer">
-                        <Globe size={12} />
-                        <span>English</span>
-                    </div>
+                    <Link to={path("/support")} className="hover:opacity-100 transition-opacity">{t("nav.support")}</Link>
+                    <Link to={path("/rates")} className="hover:opacity-100 transition-opacity">{t("nav.rates")}</Link>
+                    <Link to={path("/redeem")} className="hover:opacity-100 transition-opacity">{t("nav.redeem")}</Link>
+                    <button
+                        type="button"
+                        onClick={toggleMode}
+                        aria-label={t(mode === "dark" ? "nav.lightMode" : "nav.darkMode")}
+                        title={t(mode === "dark" ? "nav.lightMode" : "nav.darkMode")}
+                        className="hover:opacity-100 transition-opacity cursor-pointer"
+                    >
+                        {mode === "dark" ? <Sun size={14} /> : <Moon size={14} />}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={toggleMotion}
+                        aria-pressed={motion === "reduce"}
+                        aria-label={t("nav.reduceMotion")}
+                        title={t("nav.reduceMotion")}
+                        className="hover:opacity-100 transition-opacity cursor-pointer"
+                    >
+                        {motion === "reduce" ? <CirclePlay size={14} /> : <CirclePause size={14} />}
+                    </button>
+                    <Select value={locale} onValueChange={value => setLocale(value as Locale)}>
+                        <SelectTrigger
+                            size="sm"
+                            aria-label={t("nav.language")}
+                            className="gap-1 border-none shadow-none px-0 text-xs text-white hover:opacity-100 transition-opacity cursor-pointer focus-visible:ring-0 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-white [&_svg:not([class*='text-'])]:text-white"
+                        >
+                            <Globe size={12} />
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="end" className="bg-[var(--color-topbar)] text-white border-[var(--color-topbar-border)] font-heading">
+                            {LOCALES.map(l => (
+                                <SelectItem key={l.code} value={l.code} lang={l.code} className="text-xs focus:bg-white/10 focus:text-white">
+                                    {l.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
                 </div>
             </div>
 
             {/* Main Navigation Bar - Sticky (Follows scroll) */}
-            <nav className="sticky top-0 z-40 bg-black/70 shadow-none transition-all duration-300 backdrop-blur-none border-none h-[77px] flex items-center font-heading">
+            <nav aria-label={t("nav.main")} className="sticky top-0 z-40 bg-black/70 shadow-none transition-all duration-300 backdrop-blur-none border-none h-[77px] flex items-center font-heading">
                 <div className="max-w-7xl mx-auto px-4 md:px-8 w-full flex items-center justify-between h-full">
 
                     {/* Logo Area - Resized to h-[85px] and centered (removed translation) */}
                     <div className="flex items-center gap-4 h-full">
-                        <Link to="/" className="block hover:scale-105 transition-transform duration-200 flex items-center">
-                            <img
+                        <Link to={path("/")} className="block hover:scale-105 transition-transform duration-200 flex items-center">
+                            <ResponsiveImage
                                 src="/images/logo3.png"
                                 alt="Mini Mythics"
+                                sizes="152px"
                                 className="h-[85px] w-auto object-contain drop-shadow-md"
                             />
                         </Link>
                     </div>
 
                     {/* Desktop Nav Links */}
-                    <div className="hidden md:flex items-center gap-8 h-full">
-                        <NavLink to="/" label="GAME INFO" active={location.pathname === "/"} />
-                        <NavLink to="/media" label="MEDIA" active={location.pathname === "/media"} />
-                        <NavLink to="/community" label="COMMUNITY" active={location.pathname === "/community"} />
+                    <div className="hidden md:flex items-center gap-2 lg:gap-8 h-full">
+                        <NavLink to={path("/")} label={t("nav.gameInfo")} active={location.pathname === path("/")} />
+                        <NavLink to={path("/news")} label={t("nav.news")} active={location.pathname.startsWith(path("/news"))} />
+                        <NavLink to={path("/events")} label={t("nav.events")} active={location.pathname.startsWith(path("/events"))} />
+                        <NavLink to={path("/classes")} label={t("nav.classes")} active={location.pathname.startsWith(path("/classes"))} />
+                        <NavLink to={path("/companions")} label={t("nav.companions")} active={location.pathname.startsWith(path("/companions"))} />
+                        <NavLink to={path("/skills")} label={t("nav.skills")} active={location.pathname.startsWith(path("/skills"))} />
+                        <NavLink to={path("/planner")} label={t("nav.planner")} active={location.pathname === path("/planner")} />
+                        <NavLink to={path("/leaderboard")} label={t("nav.leaderboard")} active={location.pathname === path("/leaderboard")} />
+                        <NavLink to={path("/media")} label={t("nav.media")} active={location.pathname === path("/media")} />
+                        <NavLink to={path("/community")} label={t("nav.community")} active={location.pathname === path("/community")} />
                     </div>
 
                     {/* Actions - Empty for now */}
@@ -54,23 +133,50 @@ export function Navbar() {
 
                     {/* Mobile Toggle */}
                     <button
+                        type="button"
                         onClick={() => setIsOpen(!isOpen)}
+                        aria-expanded={isOpen}
+                        aria-controls={MOBILE_MENU_ID}
+                        aria-label={t("nav.openMenu")}
                         className="md:hidden p-2 text-white hover:bg-white/10 rounded-xl"
                     >
-                        {isOpen ? <X size={32} /> : <Menu size={32} />}
+                        <Menu size={32} />
                     </button>
                 </div>
             </nav>
 
             {/* Mobile Menu Overlay */}
             {isOpen && (
-                <div className="fixed inset-0 z-50 bg-[var(--color-paper)]/95 backdrop-blur-3xl pt-32 px-6 md:hidden animate-in fade-in slide-in-from-top-10 font-heading">
-                    <div className="flex flex-col gap-6 items-center text-center">
-                        <MobileLink to="/" label="GAME INFO" />
-                        <MobileLink to="/media" label="MEDIA" />
-                        <MobileLink to="/community" label="COMMUNITY" />
+                <div
+                    ref={menuRef}
+                    id={MOBILE_MENU_ID}
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label={t("nav.menu")}
+                    className="fixed inset-0 z-50 bg-[var(--color-paper)]/95 backdrop-blur-3xl pt-32 px-6 md:hidden animate-in fade-in slide-in-from-top-10 font-heading"
+                >
+                    {/* The overlay covers the toggle, so it brings its own close button */}
+                    <button
+                        type="button"
+                        onClick={closeMenu}
+                        aria-label={t("nav.closeMenu")}
+                        className="absolute top-[50px] right-4 p-2 text-[var(--color-dark)] hover:bg-black/5 rounded-xl"
+                    >
+                        <X size={32} />
+                    </button>
+                    <nav aria-label={t("nav.main")} className="flex flex-col gap-6 items-center text-center">
+                        <MobileLink to={path("/")} label={t("nav.gameInfo")} active={location.pathname === path("/")} onClick={closeMenu} />
+                        <MobileLink to={path("/news")} label={t("nav.news")} active={location.pathname.startsWith(path("/news"))} onClick={closeMenu} />
+                        <MobileLink to={path("/events")} label={t("nav.events")} active={location.pathname.startsWith(path("/events"))} onClick={closeMenu} />
+                        <MobileLink to={path("/classes")} label={t("nav.classes")} active={location.pathname.startsWith(path("/classes"))} onClick={closeMenu} />
+                        <MobileLink to={path("/companions")} label={t("nav.companions")} active={location.pathname.startsWith(path("/companions"))} onClick={closeMenu} />
+                        <MobileLink to={path("/skills")} label={t("nav.skills")} active={location.pathname.startsWith(path("/skills"))} onClick={closeMenu} />
+                        <MobileLink to={path("/planner")} label={t("nav.planner")} active={location.pathname === path("/planner")} onClick={closeMenu} />
+                        <MobileLink to={path("/leaderboard")} label={t("nav.leaderboard")} active={location.pathname === path("/leaderboard")} onClick={closeMenu} />
+                        <MobileLink to={path("/media")} label={t("nav.media")} active={location.pathname === path("/media")} onClick={closeMenu} />
+                        <MobileLink to={path("/community")} label={t("nav.community")} active={location.pathname === path("/community")} onClick={closeMenu} />
                         <div className="h-px w-20 bg-[var(--color-wood)]/20 my-2" />
-                    </div>
+                    </nav>
                 </div>
             )}
         </>
@@ -81,8 +187,9 @@ function NavLink({ label, active, to }: { label: string, active?: boolean, to: s
     return (
         <Link
             to={to}
-            className={`relative text-lg font-black tracking-wide transition-colors duration-200 h-full flex items-center px-2
-        ${active ? "text-[var(--color-primary)]" : "text-[#d0c0a0] hover:text-[var(--color-primary)]"}
+            aria-current={active ? "page" : undefined}
+            className={`relative text-base lg:text-lg font-black tracking-wide transition-colors duration-200 h-full flex items-center px-2
+        ${active ? "text-[var(--color-primary)]" : "text-[var(--color-nav-link)] hover:text-[var(--color-primary)]"}
       `}
         >
             {label}
@@ -92,9 +199,14 @@ function NavLink({ label, active, to }: { label: string, active?: boolean, to: s
     );
 }
 
-function MobileLink({ label, to }: { label: string, to: string }) {
+function MobileLink({ label, to, active, onClick }: { label: string, to: string, active?: boolean, onClick: () => void }) {
     return (
-        <Link to={to} className="font-heading font-black text-2xl text-[var(--color-wood)] hover:text-[var(--color-primary)]">
+        <Link
+            to={to}
+            onClick={onClick}
+            aria-current={active ? "page" : undefined}
+            className={`font-heading font-black text-2xl hover:text-[var(--color-primary)] ${active ? "text-[var(--color-primary)]" : "text-[var(--color-wood)]"}`}
+        >
             {label}
         </Link>
     );
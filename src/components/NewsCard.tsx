@@ -0,0 +1,38 @@
+import { Link } from "react-router-dom";
+import { Card } from "./ui/card";
+import { useI18n } from "../i18n/I18nProvider";
+import type { NewsPostSummary } from "../lib/news";
+
+export function NewsCard({ post }: { post: NewsPostSummary }) {
+    const { t, path, locale } = useI18n();
+
+    return (
+        <Link to={path(`/news/${post.slug}`)} className="block group h-full">
+            <Card className="h-full flex flex-col p-0 group-hover:-translate-y-2 transition-transform duration-300">
+                {post.cover && (
+                    <img
+                        src={post.cover}
+                        alt=""
+                        loading="lazy"
+                        decoding="async"
+                        className="w-full aspect-video object-cover bg-[var(--color-surface-muted)]"
+                    />
+                )}
+                <div className="p-6 flex flex-col gap-3 flex-grow">
+                    <time dateTime={post.date} className="text-sm font-bold text-[var(--color-wood)]">
+                        {formatPostDate(post.date, locale)}
+                    </time>
+                    <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] group-hover:text-[var(--color-primary)] transition-colors">
+                        {post.title}
+                    </h3>
+                    <p className="text-[var(--color-dark)]/70 leading-relaxed font-medium flex-grow">{post.excerpt}</p>
+                    <span className="font-heading font-bold text-[var(--color-primary)]">{t("news.readMore")} →</span>
+                </div>
+            </Card>
+        </Link>
+    );
+}
+
+export function formatPostDate(date: string, locale: string) {
+    return new Date(date).toLocaleDateString(locale, { dateStyle: "long", timeZone: "UTC" });
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState, type ComponentProps } from "react";
+import { Input } from "./ui/input";
+
+interface NumberFieldProps extends Omit<ComponentProps<typeof Input>, "value" | "onChange" | "type"> {
+    value: number;
+    /** Called with the typed number on blur or Enter; the caller clamps it. */
+    onCommit: (value: number) => void;
+}
+
+/**
+ * A number input that holds what's typed until blur or Enter, so values the
+ * caller clamps (a level of "5" on the way to "55") don't snap mid-typing.
+ */
+export function NumberField({ value, onCommit, ...props }: NumberFieldProps) {
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const parsed = Number(draft);
+        if (draft.trim() !== "" && Number.isFinite(parsed) && parsed !== value) onCommit(parsed);
+        // Shows the clamped value; if it changed, the effect above updates it again.
+        setDraft(String(value));
+    };
+
+    return (
+        <Input
+            type="number"
+            inputMode="decimal"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={e => {
+                if (e.key === "Enter") {
+                    e.preventDefault();
+                    commit();
+                }
+            }}
+            {...props}
+        />
+    );
+}
@@ -0,0 +1,25 @@
+import { Link } from "react-router-dom";
+import { ItemFrame } from "./ItemFrame";
+import { RarityBadge } from "./RarityBadge";
+import { Card } from "./ui/card";
+import type { Pal } from "../data/pals";
+import { useI18n } from "../i18n/I18nProvider";
+
+export function PalCard({ pal }: { pal: Pal }) {
+    const { t, path } = useI18n();
+
+    return (
+        <Link to={path(`/companions/${pal.id}`)} className="block group h-full">
+            <Card className="h-full flex flex-col items-center text-center gap-3 group-hover:-translate-y-2 transition-transform duration-300">
+                <ItemFrame rarity={pal.rarity}>{pal.emoji}</ItemFrame>
+                <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] group-hover:text-[var(--color-primary)] transition-colors">
+                    {pal.name}
+                </h3>
+                <RarityBadge rarity={pal.rarity} />
+                <p className="text-sm font-bold text-[var(--color-wood)]">
+                    {t(`elements.${pal.element}`)} · {t(`companions.types.${pal.type}`)}
+                </p>
+            </Card>
+        </Link>
+    );
+}
@@ -0,0 +1,34 @@
+import { Pin, PinOff } from "lucide-react";
+import type { Skill } from "../data/skills";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface PinSkillButtonProps {
+    skill: Skill;
+    pinned: boolean;
+    /** False when the comparison is full; a pinned skill can still be unpinned. */
+    canPin: boolean;
+    onToggle: () => void;
+    className?: string;
+}
+
+/** Adds a skill to, or removes it from, the `/skills` comparison. */
+export function PinSkillButton({ skill, pinned, canPin, onToggle, className = "" }: PinSkillButtonProps) {
+    const { t } = useI18n();
+    const label = t(pinned ? "skills.unpin" : "skills.pin", { name: skill.name });
+
+    return (
+        <button
+            type="button"
+            onClick={onToggle}
+            aria-pressed={pinned}
+            aria-label={label}
+            title={pinned || canPin ? label : t("skills.comparisonFull")}
+            disabled={!pinned && !canPin}
+            className={`inline-flex items-center justify-center w-10 h-10 rounded-full cursor-pointer disabled:cursor-not-allowed disabled:opacity-40
+                ${pinned ? "bg-[var(--color-primary)] text-white" : "bg-[var(--color-surface-muted)] text-[var(--color-wood)] hover:text-[var(--color-primary)]"}
+                ${className}`}
+        >
+            {pinned ? <PinOff size={18} /> : <Pin size={18} />}
+        </button>
+    );
+}
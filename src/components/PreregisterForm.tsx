@@ -0,0 +1,139 @@
+import { useState, type FormEvent } from "react";
+import { CheckCircle2 } from "lucide-react";
+import { FieldError } from "./FieldError";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError, postJson } from "../lib/api";
+import {
+    PLATFORMS,
+    REGIONS,
+    validatePreregistration,
+    type Platform,
+    type PreregistrationErrors,
+    type Region,
+} from "../lib/preregister";
+
+interface PreregisterFormProps {
+    platform: Platform | "";
+    onPlatformChange: (platform: Platform) => void;
+}
+
+export function PreregisterForm({ platform, onPlatformChange }: PreregisterFormProps) {
+    const [email, setEmail] = useState("");
+    const [region, setRegion] = useState<Region | "">("");
+    const [errors, setErrors] = useState<PreregistrationErrors>({});
+    const [status, setStatus] = useState<"idle" | "submitting" | "done" | "failed">("idle");
+    const [message, setMessage] = useState("");
+    const { t } = useI18n();
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+
+        const result = validatePreregistration({ email, platform, region });
+        if (!result.ok) {
+            setErrors(result.errors);
+            return;
+        }
+
+        setErrors({});
+        setStatus("submitting");
+        try {
+            await postJson("/api/v1/preregister", result.value);
+            setStatus("done");
+        } catch (err) {
+            setStatus("failed");
+            if (err instanceof ApiError) {
+                setErrors(err.fields as PreregistrationErrors);
+                setMessage(t(Object.keys(err.fields).length > 0 ? "errors.checkFields" : "errors.generic"));
+            } else {
+                setMessage(t("errors.generic"));
+            }
+        }
+    };
+
+    if (status === "done") {
+        return (
+            <Card className="max-w-xl mx-auto text-center">
+                <CheckCircle2 size={48} className="mx-auto mb-4 text-[var(--color-secondary)]" />
+                <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("preregister.successTitle")}</h3>
+                <p className="text-[var(--color-dark)]/70 font-medium">
+                    {t("preregister.successBody")}
+                </p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="max-w-xl mx-auto">
+            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5 text-left">
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="prereg-email" className="font-heading font-bold text-[var(--color-dark)]">{t("preregister.email")}</Label>
+                    <Input
+                        id="prereg-email"
+                        type="email"
+                        autoComplete="email"
+                        placeholder={t("preregister.emailPlaceholder")}
+                        value={email}
+                        onChange={e => setEmail(e.target.value)}
+                        aria-invalid={!!errors.email}
+                        aria-describedby={errors.email ? "prereg-email-error" : undefined}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                    />
+                    <FieldError id="prereg-email-error" message={errors.email && t(errors.email)} />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="prereg-platform" className="font-heading font-bold text-[var(--color-dark)]">{t("preregister.platform")}</Label>
+                        <Select value={platform} onValueChange={value => onPlatformChange(value as Platform)}>
+                            <SelectTrigger
+                                id="prereg-platform"
+                                aria-invalid={!!errors.platform}
+                                className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]"
+                            >
+                                <SelectValue placeholder={t("preregister.platformPlaceholder")} />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                {PLATFORMS.map(p => (
+                                    <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FieldError message={errors.platform && t(errors.platform)} />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="prereg-region" className="font-heading font-bold text-[var(--color-dark)]">{t("preregister.region")}</Label>
+                        <Select value={region} onValueChange={value => setRegion(value as Region)}>
+                            <SelectTrigger
+                                id="prereg-region"
+                                aria-invalid={!!errors.region}
+                                className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]"
+                            >
+                                <SelectValue placeholder={t("preregister.regionPlaceholder")} />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                {REGIONS.map(r => (
+                                    <SelectItem key={r} value={r}>{t(`regions.${r}`)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FieldError message={errors.region && t(errors.region)} />
+                    </div>
+                </div>
+
+                {status === "failed" && message && (
+                    <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{message}</p>
+                )}
+
+                <Button type="submit" size="lg" disabled={status === "submitting"} className="w-full disabled:opacity-60">
+                    {status === "submitting" ? t("preregister.submitting") : t("preregister.submit")}
+                </Button>
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,14 @@
+import { FlaskConical } from "lucide-react";
+
+/** Callout for pages built on placeholder game data that will change before launch. */
+export function ProvisionalNotice({ message, className = "" }: { message: string, className?: string }) {
+    return (
+        <p
+            role="note"
+            className={`flex items-start gap-3 px-5 py-4 rounded-2xl border-2 border-[var(--color-border)] bg-[var(--color-surface-muted)] text-left font-medium text-[var(--color-dark)] ${className}`}
+        >
+            <FlaskConical size={22} className="shrink-0 mt-0.5 text-[var(--color-accent)]" aria-hidden="true" />
+            {message}
+        </p>
+    );
+}
@@ -0,0 +1,140 @@
+import { useState, type FormEvent } from "react";
+import { Dices } from "lucide-react";
+import { FilterChip } from "./FilterChip";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { BANNERS, type GachaBanner } from "../data/banners";
+import { useI18n } from "../i18n/I18nProvider";
+import { expectedPullsToFeatured, histogram, percentile, simulatePullsToFeatured } from "../lib/gacha";
+
+const TRIALS = 10_000;
+const BIN_WIDTH = 10;
+
+/** Only banners with something featured have a pull to wait for. */
+const SIMULATED_BANNERS = BANNERS.filter(banner => banner.featuredItems.length > 0 && banner.featuredRate > 0);
+
+interface Simulation {
+    banner: GachaBanner;
+    pity: number;
+    results: number[];
+}
+
+/**
+ * Runs thousands of summons in the browser with the banner's soft and hard
+ * pity to show how many pulls a featured item usually takes, next to the exact
+ * average from `expectedPullsToFeatured`.
+ */
+export function PullSimulator() {
+    const { t, locale } = useI18n();
+    const [banner, setBanner] = useState(SIMULATED_BANNERS[0]);
+    const [pity, setPity] = useState("0");
+    const [simulation, setSimulation] = useState<Simulation>();
+
+    if (!banner) return null;
+
+    const maxPity = banner.pityThreshold - 1;
+    const parsedPity = /^\d{1,3}$/.test(pity.trim()) && Number(pity) <= maxPity ? Number(pity) : NaN;
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (Number.isNaN(parsedPity)) return;
+        setSimulation({ banner, pity: parsedPity, results: simulatePullsToFeatured(banner, { pity: parsedPity, trials: TRIALS }) });
+    };
+
+    return (
+        <Card className="text-left">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-5">
+                <div>
+                    <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("rates.simulator.title")}</h2>
+                    <p className="text-[var(--color-dark)]/70 font-medium">{t("rates.simulator.subtitle", { trials: TRIALS.toLocaleString(locale) })}</p>
+                </div>
+
+                <div role="group" aria-label={t("rates.simulator.banner")} className="flex flex-wrap gap-3">
+                    {SIMULATED_BANNERS.map(b => (
+                        <FilterChip key={b.id} label={b.name} active={b.id === banner.id} onClick={() => setBanner(b)} />
+                    ))}
+                </div>
+
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                    <div className="flex flex-col gap-2 md:w-64">
+                        <Label htmlFor="simulator-pity" className="font-heading font-bold text-[var(--color-dark)]">{t("rates.simulator.pity")}</Label>
+                        <Input
+                            id="simulator-pity"
+                            inputMode="numeric"
+                            aria-invalid={Number.isNaN(parsedPity)}
+                            aria-describedby="simulator-pity-hint"
+                            value={pity}
+                            onChange={e => setPity(e.target.value)}
+                            className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                        />
+                    </div>
+                    <Button type="submit" size="lg" disabled={Number.isNaN(parsedPity)} className="disabled:opacity-60">
+                        <Dices size={20} />
+                        {t("rates.simulator.run")}
+                    </Button>
+                </div>
+                <p id="simulator-pity-hint" className="text-sm font-medium text-[var(--color-wood)]">
+                    {t("rates.simulator.pityHint", { max: maxPity })}
+                </p>
+            </form>
+
+            {simulation && <SimulationResults simulation={simulation} />}
+        </Card>
+    );
+}
+
+function SimulationResults({ simulation }: { simulation: Simulation }) {
+    const { t, locale } = useI18n();
+    const { banner, pity, results } = simulation;
+    const pulls = (value: number) => value.toLocaleString(locale, { maximumFractionDigits: 1 });
+    const percent = (value: number) => value.toLocaleString(locale, { style: "percent", maximumFractionDigits: 1 });
+
+    const average = results.reduce((sum, n) => sum + n, 0) / results.length;
+    const p99 = percentile(results, 0.99);
+    // The last 1% would stretch the chart out to a few hundred pulls, so it's left off.
+    const bins = histogram(results, BIN_WIDTH).filter(bin => bin.from <= p99);
+    const peak = Math.max(...bins.map(bin => bin.share));
+
+    return (
+        <div aria-live="polite" className="flex flex-col gap-6 mt-8">
+            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)]">
+                {t("rates.simulator.resultsFor", { banner: banner.name, pity })}
+            </h3>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Stat label={t("rates.simulator.expected")} value={pulls(expectedPullsToFeatured(banner, pity))} />
+                <Stat label={t("rates.simulator.average")} value={pulls(average)} />
+                <Stat label={t("rates.simulator.median")} value={pulls(percentile(results, 0.5))} />
+                <Stat label={t("rates.simulator.p90")} value={pulls(percentile(results, 0.9))} />
+            </dl>
+
+            <div>
+                <div className="flex items-end gap-1 h-40" role="img" aria-label={t("rates.simulator.chart", { p99: pulls(p99) })}>
+                    {bins.map(bin => (
+                        <div
+                            key={bin.from}
+                            title={t("rates.simulator.bin", { from: bin.from, to: bin.to, share: percent(bin.share), cumulative: percent(bin.cumulative) })}
+                            style={{ height: `${(bin.share / peak) * 100}%` }}
+                            className="flex-1 min-h-px rounded-t bg-[var(--color-secondary)]"
+                        />
+                    ))}
+                </div>
+                <div className="flex justify-between text-xs font-medium text-[var(--color-wood)] mt-1">
+                    <span>1</span>
+                    <span>{t("rates.simulator.axis")}</span>
+                    <span>{bins.at(-1)?.to}</span>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value }: { label: string, value: string }) {
+    return (
+        <div className="rounded-2xl bg-[var(--color-surface-muted)] p-4">
+            <dt className="text-sm font-heading font-bold text-[var(--color-wood)]">{label}</dt>
+            <dd className="text-3xl font-heading font-extrabold text-[var(--color-dark)]">{value}</dd>
+        </div>
+    );
+}
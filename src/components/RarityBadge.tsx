@@ -0,0 +1,16 @@
+import { useI18n } from "../i18n/I18nProvider";
+import type { Rarity } from "../lib/rarity";
+
+/** Pill with the rarity's name on its color gradient (animated for Eternal). */
+export function RarityBadge({ rarity, className = "" }: { rarity: Rarity, className?: string }) {
+    const { t } = useI18n();
+
+    return (
+        <span
+            data-rarity={rarity}
+            className={`rarity-gradient inline-block px-3 py-1 rounded-full text-xs font-heading font-bold uppercase tracking-wide text-white [text-shadow:0_1px_2px_rgba(0,0,0,0.35)] ${className}`}
+        >
+            {t(`rarities.${rarity}`)}
+        </span>
+    );
+}
@@ -0,0 +1,142 @@
+import { useState, type FormEvent } from "react";
+import { Gift } from "lucide-react";
+import { FieldError } from "./FieldError";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError } from "../lib/api";
+import { REGIONS, type Region } from "../lib/preregister";
+import { redeemCode, validateRedeem, type RedeemErrors, type RedeemResult } from "../lib/redeem";
+
+export function RedeemForm() {
+    const [playerId, setPlayerId] = useState("");
+    const [region, setRegion] = useState<Region | "">("");
+    const [code, setCode] = useState("");
+    const [errors, setErrors] = useState<RedeemErrors>({});
+    const [submitting, setSubmitting] = useState(false);
+    const [failure, setFailure] = useState("");
+    const [result, setResult] = useState<RedeemResult | null>(null);
+    const { t, locale } = useI18n();
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+
+        const validation = validateRedeem({ playerId, region, code });
+        if (!validation.ok) {
+            setErrors(validation.errors);
+            return;
+        }
+
+        setErrors({});
+        setFailure("");
+        setSubmitting(true);
+        try {
+            setResult(await redeemCode(validation.value));
+        } catch (err) {
+            if (err instanceof ApiError && Object.keys(err.fields).length > 0) {
+                setErrors(err.fields as RedeemErrors);
+            } else {
+                const code = err instanceof ApiError ? err.code : "";
+                setFailure(t(code === "unavailable" ? "redeem.unavailable" : code === "too_many_requests" ? "redeem.tooManyAttempts" : "errors.generic"));
+            }
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Keep the player ID and region for the next code.
+    const redeemAnother = () => {
+        setResult(null);
+        setCode("");
+    };
+
+    if (result) {
+        return (
+            <Card className="text-center" role="status">
+                <Gift size={48} className="mx-auto mb-4 text-[var(--color-secondary)]" aria-hidden="true" />
+                <h2 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("redeem.successTitle")}</h2>
+                <p className="text-[var(--color-dark)]/70 font-medium mb-4">{t("redeem.successBody", { code: result.code })}</p>
+                <ul className="flex flex-wrap justify-center gap-3 mb-6">
+                    {result.rewards.map(reward => (
+                        <li
+                            key={reward.item}
+                            className="px-4 py-2 rounded-2xl bg-[var(--color-surface-muted)] font-heading font-bold text-[var(--color-dark)]"
+                        >
+                            {t("redeem.reward", { item: t(`redeem.items.${reward.item}`), amount: reward.amount.toLocaleString(locale) })}
+                        </li>
+                    ))}
+                </ul>
+                <Button type="button" variant="secondary" onClick={redeemAnother}>{t("redeem.another")}</Button>
+            </Card>
+        );
+    }
+
+    return (
+        <Card>
+            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5 text-left">
+                <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-5">
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="redeem-player" className="font-heading font-bold text-[var(--color-dark)]">{t("redeem.playerId")}</Label>
+                        <Input
+                            id="redeem-player"
+                            autoComplete="off"
+                            spellCheck={false}
+                            placeholder="3f2b8c1e-5d4a-4e7b-9c6f-1a2b3c4d5e6f"
+                            value={playerId}
+                            onChange={e => setPlayerId(e.target.value)}
+                            aria-invalid={!!errors.playerId}
+                            aria-describedby="redeem-player-hint"
+                            className="h-12 rounded-2xl bg-[var(--color-surface)] font-mono"
+                        />
+                        <p id="redeem-player-hint" className="text-sm text-[var(--color-dark)]/60 font-medium">{t("redeem.playerIdHint")}</p>
+                        <FieldError message={errors.playerId && t(errors.playerId)} />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="redeem-region" className="font-heading font-bold text-[var(--color-dark)]">{t("redeem.region")}</Label>
+                        <Select value={region} onValueChange={value => setRegion(value as Region)}>
+                            <SelectTrigger
+                                id="redeem-region"
+                                aria-invalid={!!errors.region}
+                                className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]"
+                            >
+                                <SelectValue placeholder={t("redeem.regionPlaceholder")} />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                {REGIONS.map(r => (
+                                    <SelectItem key={r} value={r}>{t(`regions.${r}`)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FieldError message={errors.region && t(errors.region)} />
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="redeem-code" className="font-heading font-bold text-[var(--color-dark)]">{t("redeem.code")}</Label>
+                    <Input
+                        id="redeem-code"
+                        autoComplete="off"
+                        autoCapitalize="characters"
+                        spellCheck={false}
+                        placeholder="XXXX-XXXX-XXXX"
+                        value={code}
+                        onChange={e => setCode(e.target.value)}
+                        aria-invalid={!!errors.code}
+                        className="h-14 rounded-2xl bg-[var(--color-surface)] font-mono text-xl tracking-widest uppercase"
+                    />
+                    <FieldError message={errors.code && t(errors.code)} />
+                </div>
+
+                {failure && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{failure}</p>}
+
+                <Button type="submit" size="lg" disabled={submitting} className="w-full disabled:opacity-60">
+                    {submitting ? t("redeem.submitting") : t("redeem.submit")}
+                </Button>
+            </form>
+        </Card>
+    );
+}
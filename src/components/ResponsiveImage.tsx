@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState, type ImgHTMLAttributes } from "react";
+import { IMAGE_FORMATS, IMAGE_MANIFEST, srcSet } from "../lib/images";
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet" | "width" | "height"> {
+    /** Original image path, e.g. `/images/boss.png`. */
+    src: string;
+    alt: string;
+    /** How wide the image renders, e.g. `(min-width: 768px) 600px, 180px`. */
+    sizes: string;
+}
+
+/**
+ * `<picture>` with AVIF/WebP `srcset`s from the image manifest. The intrinsic
+ * width and height reserve layout space, and a blurred preview fills it until
+ * the image loads. Images missing from the manifest render as a plain `<img>`.
+ */
+export function ResponsiveImage({ src, sizes, style, onLoad, ...props }: ResponsiveImageProps) {
+    const entry = IMAGE_MANIFEST[src];
+    const imgRef = useRef<HTMLImageElement>(null);
+    const [loaded, setLoaded] = useState(false);
+
+    // A prerendered image may finish loading before hydration attaches onLoad.
+    useEffect(() => {
+        if (imgRef.current?.complete) setLoaded(true);
+    }, []);
+
+    if (!entry) return <img src={src} sizes={sizes} style={style} onLoad={onLoad} {...props} />;
+
+    return (
+        <picture>
+            {IMAGE_FORMATS.map(format => (
+                <source key={format} type={`image/${format}`} srcSet={srcSet(entry, format)} sizes={sizes} />
+            ))}
+            <img
+                ref={imgRef}
+                src={src}
+                width={entry.width}
+                height={entry.height}
+                decoding="async"
+                onLoad={e => {
+                    setLoaded(true);
+                    onLoad?.(e);
+                }}
+                style={loaded ? style : { backgroundImage: `url(${entry.placeholder})`, backgroundSize: "100% 100%", ...style }}
+                {...props}
+            />
+        </picture>
+    );
+}
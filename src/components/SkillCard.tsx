@@ -0,0 +1,38 @@
+import { Link } from "react-router-dom";
+import { ItemFrame } from "./ItemFrame";
+import { PinSkillButton } from "./PinSkillButton";
+import { RarityBadge } from "./RarityBadge";
+import { Card } from "./ui/card";
+import type { Skill } from "../data/skills";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface SkillCardProps {
+    skill: Skill;
+    /** Query string to keep on the detail link, so pins survive the round trip. */
+    search: string;
+    pinned: boolean;
+    canPin: boolean;
+    onTogglePin: () => void;
+}
+
+export function SkillCard({ skill, search, pinned, canPin, onTogglePin }: SkillCardProps) {
+    const { t, path } = useI18n();
+
+    return (
+        <div className="relative h-full group">
+            <Link to={`${path(`/skills/${skill.id}`)}${search}`} className="block h-full">
+                <Card className={`h-full flex flex-col items-center text-center gap-3 group-hover:-translate-y-2 transition-transform duration-300 ${pinned ? "border-[var(--color-primary)]" : ""}`}>
+                    <ItemFrame rarity={skill.rarity}>{skill.icon}</ItemFrame>
+                    <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] group-hover:text-[var(--color-primary)] transition-colors">
+                        {skill.name}
+                    </h3>
+                    <RarityBadge rarity={skill.rarity} />
+                    <p className="text-sm font-bold text-[var(--color-wood)]">
+                        {t(skill.damageType ? `skills.damageTypes.${skill.damageType}` : "skills.utility")} · {t("skills.cooldown", { cooldown: skill.levels[0]!.cooldown })}
+                    </p>
+                </Card>
+            </Link>
+            <PinSkillButton skill={skill} pinned={pinned} canPin={canPin} onToggle={onTogglePin} className="absolute top-5 right-5 group-hover:-translate-y-2 transition-transform duration-300" />
+        </div>
+    );
+}
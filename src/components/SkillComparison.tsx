@@ -0,0 +1,127 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { X } from "lucide-react";
+import { ItemFrame } from "./ItemFrame";
+import { RarityBadge } from "./RarityBadge";
+import { SkillEffectList } from "./SkillEffectList";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { MAX_COMPARED_SKILLS, formatScaling, type Skill } from "../data/skills";
+import { useI18n } from "../i18n/I18nProvider";
+
+interface SkillComparisonProps {
+    skills: Skill[];
+    /** Query string that keeps the pins on links to the detail pages. */
+    search: string;
+    onUnpin: (skill: Skill) => void;
+    onClear: () => void;
+}
+
+/** The pinned skills side by side: one column each, then their numbers at every level. */
+export function SkillComparison({ skills, search, onUnpin, onClear }: SkillComparisonProps) {
+    const { t, path, locale } = useI18n();
+    const maxLevel = Math.max(...skills.map(skill => skill.levels.length));
+    const number = (value: number) => value.toLocaleString(locale);
+    const seconds = (value: number) => t("skills.seconds", { seconds: number(value) });
+
+    const rows: [string, (skill: Skill) => ReactNode][] = [
+        [t("skills.rarity"), skill => <RarityBadge rarity={skill.rarity} />],
+        [t("skills.damageType"), skill => t(skill.damageType ? `skills.damageTypes.${skill.damageType}` : "skills.utility")],
+        [t("skills.target"), skill => t(`skills.targets.${skill.targetType}`)],
+        [t("skills.cooldownHeader"), skill => `${seconds(skill.levels[0]!.cooldown)} → ${seconds(skill.levels.at(-1)!.cooldown)}`],
+        [t("skills.mana"), skill => number(skill.levels[0]!.manaCost)],
+        [t("skills.range"), skill => (skill.range > 0 ? number(skill.range) : "—")],
+        [t("skills.areaRadius"), skill => (skill.areaRadius > 0 ? number(skill.areaRadius) : "—")],
+        [t("skills.maxLevel"), skill => number(skill.levels.length)],
+        [t("skills.effectsHeader"), skill => <SkillEffectList effects={skill.effects} className="text-sm" />],
+    ];
+
+    return (
+        <Card className="text-left mb-10">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-5">
+                <div>
+                    <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)]">{t("skills.comparison")}</h2>
+                    <p className="text-[var(--color-dark)]/70 font-medium">
+                        {skills.length < 2 ? t("skills.comparisonHint") : t("skills.comparisonCount", { count: skills.length, max: MAX_COMPARED_SKILLS })}
+                    </p>
+                </div>
+                <Button type="button" variant="ghost" onClick={onClear}>{t("skills.clearComparison")}</Button>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full table-fixed min-w-[36rem] text-[var(--color-dark)]">
+                    <caption className="sr-only">{t("skills.comparison")}</caption>
+                    <thead>
+                        <tr>
+                            <td className="w-36" />
+                            {skills.map(skill => (
+                                <th key={skill.id} scope="col" className="align-top pb-4 px-2">
+                                    <div className="flex flex-col items-center gap-2 text-center">
+                                        <ItemFrame rarity={skill.rarity} size="sm">{skill.icon}</ItemFrame>
+                                        <Link to={`${path(`/skills/${skill.id}`)}${search}`} className="font-heading font-bold hover:text-[var(--color-primary)]">
+                                            {skill.name}
+                                        </Link>
+                                        <button
+                                            type="button"
+                                            onClick={() => onUnpin(skill)}
+                                            aria-label={t("skills.unpin", { name: skill.name })}
+                                            className="inline-flex items-center gap-1 text-xs font-heading font-bold text-[var(--color-wood)] hover:text-[var(--color-primary)] cursor-pointer"
+                                        >
+                                            <X size={14} aria-hidden="true" />
+                                            {t("skills.remove")}
+                                        </button>
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="font-medium">
+                        {rows.map(([label, cell]) => (
+                            <tr key={label} className="border-t-2 border-[var(--color-border)]">
+                                <th scope="row" className="text-left font-heading font-bold text-[var(--color-wood)] py-2 pr-2">{label}</th>
+                                {skills.map(skill => <td key={skill.id} className="py-2 px-2 text-center align-top">{cell(skill)}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Scaling per level */}
+            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mt-8 mb-3">{t("skills.perLevel")}</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full table-fixed min-w-[36rem] text-[var(--color-dark)]">
+                    <caption className="sr-only">{t("skills.perLevel")}</caption>
+                    <thead>
+                        <tr className="text-sm text-[var(--color-wood)] font-heading">
+                            <th scope="col" className="w-36 text-left font-bold pb-2">{t("skills.level")}</th>
+                            {skills.map(skill => <th key={skill.id} scope="col" className="font-bold pb-2 px-2">{skill.name}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="font-medium">
+                        {Array.from({ length: maxLevel }, (_, i) => (
+                            <tr key={i} className="border-t-2 border-[var(--color-border)]">
+                                <th scope="row" className="text-left font-heading font-bold py-1">{i + 1}</th>
+                                {skills.map(skill => {
+                                    const level = skill.levels[i];
+                                    return (
+                                        <td key={skill.id} className="py-1 px-2 text-center">
+                                            {level ? (
+                                                <>
+                                                    <span className="font-heading font-bold">
+                                                        {level.baseDamage > 0 ? number(level.baseDamage) : "—"}
+                                                    </span>
+                                                    {level.baseDamage > 0 && <span className="text-sm"> {formatScaling(level.scaling)}</span>}
+                                                    <span className="block text-xs text-[var(--color-wood)]">{t("skills.cooldown", { cooldown: number(level.cooldown) })}</span>
+                                                </>
+                                            ) : "—"}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+}
@@ -0,0 +1,23 @@
+import type { SkillEffect } from "../data/skills";
+import { useI18n } from "../i18n/I18nProvider";
+
+/** A skill's effects in plain words, e.g. "Slows by 50% for 3s (20% chance)". */
+export function SkillEffectList({ effects, className = "" }: { effects: SkillEffect[], className?: string }) {
+    const { t, locale } = useI18n();
+
+    const describe = (effect: SkillEffect) => {
+        const value = effect.type === "slow"
+            ? effect.value.toLocaleString(locale, { style: "percent" })
+            : effect.value.toLocaleString(locale);
+        let text = t(`skills.effects.${effect.type}`, { value });
+        if (effect.duration) text = t("skills.effectFor", { effect: text, seconds: effect.duration.toLocaleString(locale) });
+        if (effect.chance) text = t("skills.effectChance", { effect: text, chance: effect.chance.toLocaleString(locale, { style: "percent" }) });
+        return text;
+    };
+
+    return (
+        <ul className={`list-disc pl-5 font-medium text-[var(--color-dark)]/80 ${className}`}>
+            {effects.map((effect, i) => <li key={i}>{describe(effect)}</li>)}
+        </ul>
+    );
+}
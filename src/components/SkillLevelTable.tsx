@@ -0,0 +1,41 @@
+import { formatScaling, type Skill } from "../data/skills";
+import { useI18n } from "../i18n/I18nProvider";
+
+/** Every upgrade level of one skill: damage, scaling, cooldown, mana and what the upgrade costs. */
+export function SkillLevelTable({ skill }: { skill: Skill }) {
+    const { t, locale } = useI18n();
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-[var(--color-dark)]">
+                <caption className="sr-only">{t("skills.levelsCaption", { name: skill.name })}</caption>
+                <thead>
+                    <tr className="text-sm text-[var(--color-wood)] font-heading">
+                        <th scope="col" className="text-left font-bold pb-2 pr-4">{t("skills.level")}</th>
+                        <th scope="col" className="text-right font-bold pb-2 pr-4">{t("skills.damage")}</th>
+                        <th scope="col" className="text-left font-bold pb-2 pr-4">{t("skills.scaling")}</th>
+                        <th scope="col" className="text-right font-bold pb-2 pr-4">{t("skills.cooldownHeader")}</th>
+                        <th scope="col" className="text-right font-bold pb-2 pr-4">{t("skills.mana")}</th>
+                        <th scope="col" className="text-right font-bold pb-2">{t("skills.upgradeCost")}</th>
+                    </tr>
+                </thead>
+                <tbody className="font-medium">
+                    {skill.levels.map(level => (
+                        <tr key={level.level} className="border-t-2 border-[var(--color-border)]">
+                            <th scope="row" className="text-left font-heading font-bold py-1 pr-4">{level.level}</th>
+                            <td className="text-right font-heading font-bold pr-4">{level.baseDamage > 0 ? level.baseDamage.toLocaleString(locale) : "—"}</td>
+                            <td className="pr-4 whitespace-nowrap">{formatScaling(level.scaling) || "—"}</td>
+                            <td className="text-right pr-4 whitespace-nowrap">{t("skills.seconds", { seconds: level.cooldown.toLocaleString(locale) })}</td>
+                            <td className="text-right pr-4">{level.manaCost.toLocaleString(locale)}</td>
+                            <td className="text-right whitespace-nowrap">
+                                {level.gold > 0
+                                    ? t("skills.cost", { gold: level.gold.toLocaleString(locale), fragments: level.fragments.toLocaleString(locale) })
+                                    : "—"}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
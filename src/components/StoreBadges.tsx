@@ -0,0 +1,69 @@
+import { useEffect, useState, type MouseEvent } from "react";
+import { useI18n } from "../i18n/I18nProvider";
+import { track } from "../lib/analytics";
+import { PLATFORMS, type Platform } from "../lib/preregister";
+import { campaignParams, detectPlatform, isStoreLive, storeLink } from "../lib/stores";
+
+interface StoreBadgeProps {
+    store: Platform;
+    /** Rings the badge, for the store that matches the visitor's device. */
+    highlighted?: boolean;
+    /** `utm_*` parameters to carry through `/go/:store`. */
+    campaign?: URLSearchParams;
+    /** Called instead of following the link while the store isn't live. */
+    onPreregister?: (store: Platform) => void;
+}
+
+/** An official store badge linking through `/go/:store`. */
+export function StoreBadge({ store, highlighted = false, campaign, onPreregister }: StoreBadgeProps) {
+    const { t } = useI18n();
+    const live = isStoreLive(store);
+    const name = t(store === "ios" ? "stores.appStore" : "stores.googlePlay");
+
+    const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+        track("store_click", store);
+        if (!live && onPreregister) {
+            e.preventDefault();
+            onPreregister(store);
+        }
+    };
+
+    return (
+        <a
+            href={storeLink(store, campaign)}
+            onClick={handleClick}
+            aria-label={live ? name : t("stores.comingSoon", { store: name })}
+            className={`h-14 w-[202px] flex items-center justify-center overflow-hidden rounded-full bg-white shadow-lg transition-transform hover:scale-105 focus-visible:outline-4 focus-visible:outline-offset-2 focus-visible:outline-[var(--color-accent)] ${highlighted ? "ring-4 ring-[var(--color-accent)] scale-105" : "ring-2 ring-black/10"}`}
+        >
+            {store === "ios" ? (
+                <img src="/images/appstore.svg" alt="" width={230} height={64} className="h-full w-auto" />
+            ) : (
+                // The artwork is a square with the logo and wordmark across its middle; crop to that band.
+                <img src="/images/google-play.svg" alt="" width={512} height={512} className="h-11 w-[150px] object-cover" />
+            )}
+        </a>
+    );
+}
+
+/** Both store badges, the visitor's own platform first and highlighted. */
+export function StoreBadges({ onPreregister }: { onPreregister?: (store: Platform) => void }) {
+    // Read after hydration: prerendered pages know neither the device nor the campaign.
+    const [detected, setDetected] = useState<Platform>();
+    const [campaign, setCampaign] = useState<URLSearchParams>();
+
+    useEffect(() => {
+        const iPadAsDesktop = /Macintosh/.test(navigator.userAgent) && navigator.maxTouchPoints > 1;
+        setDetected(iPadAsDesktop ? "ios" : detectPlatform(navigator.userAgent));
+        setCampaign(campaignParams(window.location.search));
+    }, []);
+
+    const stores = PLATFORMS.map(p => p.value).sort((a, b) => Number(b === detected) - Number(a === detected));
+
+    return (
+        <div className="flex flex-col md:flex-row items-center gap-4">
+            {stores.map(store => (
+                <StoreBadge key={store} store={store} highlighted={store === detected} campaign={campaign} onPreregister={onPreregister} />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+import { useState, type FormEvent } from "react";
+import { CheckCircle2 } from "lucide-react";
+import { FieldError } from "./FieldError";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Textarea } from "./ui/textarea";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError, postJson } from "../lib/api";
+import {
+    SUPPORT_CATEGORIES,
+    validateTicket,
+    type SupportCategory,
+    type TicketErrors,
+    type TicketSummary,
+} from "../lib/support";
+
+export function SupportTicketForm() {
+    const [email, setEmail] = useState("");
+    const [category, setCategory] = useState<SupportCategory | "">("");
+    const [subject, setSubject] = useState("");
+    const [message, setMessage] = useState("");
+    const [errors, setErrors] = useState<TicketErrors>({});
+    const [submitting, setSubmitting] = useState(false);
+    const [failure, setFailure] = useState("");
+    const [ticket, setTicket] = useState<TicketSummary | null>(null);
+    const { t } = useI18n();
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+
+        const result = validateTicket({ email, category, subject, message });
+        if (!result.ok) {
+            setErrors(result.errors);
+            return;
+        }
+
+        setErrors({});
+        setFailure("");
+        setSubmitting(true);
+        try {
+            setTicket(await postJson<TicketSummary>("/api/v1/support/tickets", result.value));
+        } catch (err) {
+            if (err instanceof ApiError) {
+                setErrors(err.fields as TicketErrors);
+                setFailure(t(Object.keys(err.fields).length > 0 ? "errors.checkFields" : "errors.generic"));
+            } else {
+                setFailure(t("errors.generic"));
+            }
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (ticket) {
+        return (
+            <Card className="text-center">
+                <CheckCircle2 size={48} className="mx-auto mb-4 text-[var(--color-secondary)]" />
+                <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("support.form.successTitle")}</h3>
+                <p className="text-[var(--color-dark)]/70 font-medium mb-4">
+                    {t("support.form.successBody")}
+                </p>
+                <p className="font-heading font-bold text-3xl tracking-widest text-[var(--color-primary)] select-all">
+                    {ticket.reference}
+                </p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card>
+            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-5 text-left">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="ticket-email" className="font-heading font-bold text-[var(--color-dark)]">{t("support.form.email")}</Label>
+                        <Input
+                            id="ticket-email"
+                            type="email"
+                            autoComplete="email"
+                            value={email}
+                            onChange={e => setEmail(e.target.value)}
+                            aria-invalid={!!errors.email}
+                            className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                        />
+                        <FieldError message={errors.email && t(errors.email)} />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Label htmlFor="ticket-category" className="font-heading font-bold text-[var(--color-dark)]">{t("support.form.category")}</Label>
+                        <Select value={category} onValueChange={value => setCategory(value as SupportCategory)}>
+                            <SelectTrigger
+                                id="ticket-category"
+                                aria-invalid={!!errors.category}
+                                className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]"
+                            >
+                                <SelectValue placeholder={t("support.form.categoryPlaceholder")} />
+                            </SelectTrigger>
+                            <SelectContent className="bg-[var(--color-surface)]">
+                                {SUPPORT_CATEGORIES.map(c => (
+                                    <SelectItem key={c} value={c}>{t(`support.categories.${c}`)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <FieldError message={errors.category && t(errors.category)} />
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="ticket-subject" className="font-heading font-bold text-[var(--color-dark)]">{t("support.form.subject")}</Label>
+                    <Input
+                        id="ticket-subject"
+                        value={subject}
+                        onChange={e => setSubject(e.target.value)}
+                        aria-invalid={!!errors.subject}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                    />
+                    <FieldError message={errors.subject && t(errors.subject)} />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="ticket-message" className="font-heading font-bold text-[var(--color-dark)]">{t("support.form.message")}</Label>
+                    <Textarea
+                        id="ticket-message"
+                        rows={6}
+                        placeholder={t("support.form.messagePlaceholder")}
+                        value={message}
+                        onChange={e => setMessage(e.target.value)}
+                        aria-invalid={!!errors.message}
+                        className="rounded-2xl bg-[var(--color-surface)]"
+                    />
+                    <FieldError message={errors.message && t(errors.message)} />
+                </div>
+
+                {failure && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{failure}</p>}
+
+                <Button type="submit" size="lg" disabled={submitting} className="w-full disabled:opacity-60">
+                    {submitting ? t("support.form.submitting") : t("support.form.submit")}
+                </Button>
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,86 @@
+import { useState, type FormEvent } from "react";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError, getJson } from "../lib/api";
+import type { TicketSummary } from "../lib/support";
+
+export function TicketStatusLookup() {
+    const [reference, setReference] = useState("");
+    const [email, setEmail] = useState("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    const [ticket, setTicket] = useState<TicketSummary | null>(null);
+    const { t, locale } = useI18n();
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!reference.trim() || !email.trim()) {
+            setError(t("support.lookup.missing"));
+            return;
+        }
+
+        setLoading(true);
+        setError("");
+        setTicket(null);
+        try {
+            const query = new URLSearchParams({ email: email.trim() });
+            setTicket(await getJson<TicketSummary>(`/api/v1/support/tickets/${encodeURIComponent(reference.trim())}?${query}`));
+        } catch (err) {
+            setError(t(err instanceof ApiError && err.status === 404 ? "support.lookup.notFound" : "errors.generic"));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Card variant="glass">
+            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4 text-left">
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="lookup-reference" className="font-heading font-bold text-[var(--color-dark)]">{t("support.lookup.reference")}</Label>
+                    <Input
+                        id="lookup-reference"
+                        placeholder="MM-XXXXXXXX"
+                        value={reference}
+                        onChange={e => setReference(e.target.value)}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)] uppercase"
+                    />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="lookup-email" className="font-heading font-bold text-[var(--color-dark)]">{t("support.lookup.email")}</Label>
+                    <Input
+                        id="lookup-email"
+                        type="email"
+                        autoComplete="email"
+                        value={email}
+                        onChange={e => setEmail(e.target.value)}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                    />
+                </div>
+
+                {error && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{error}</p>}
+
+                <Button type="submit" variant="secondary" disabled={loading} className="w-full disabled:opacity-60">
+                    {loading ? t("support.lookup.submitting") : t("support.lookup.submit")}
+                </Button>
+            </form>
+
+            {ticket && (
+                <dl className="mt-6 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm text-[var(--color-dark)]">
+                    <dt className="font-bold">{t("support.lookup.status")}</dt>
+                    <dd className="font-heading font-bold text-[var(--color-secondary-dark)]">{t(`support.status.${ticket.status}`)}</dd>
+                    <dt className="font-bold">{t("support.lookup.subject")}</dt>
+                    <dd>{ticket.subject}</dd>
+                    <dt className="font-bold">{t("support.lookup.category")}</dt>
+                    <dd>{t(`support.categories.${ticket.category}`)}</dd>
+                    <dt className="font-bold">{t("support.lookup.opened")}</dt>
+                    <dd>{new Date(ticket.createdAt).toLocaleString(locale)}</dd>
+                    <dt className="font-bold">{t("support.lookup.updated")}</dt>
+                    <dd>{new Date(ticket.updatedAt).toLocaleString(locale)}</dd>
+                </dl>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,159 @@
+import { useState, type ReactNode } from "react";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { STATS_RANGES, fetchAnalyticsStats, type StatsRange } from "../lib/analytics";
+import { PLATFORMS } from "../lib/preregister";
+
+/** Daily pageviews per route, referrers and store button click-through, from the cookieless counters. */
+export function TrafficStats() {
+    const { t, locale } = useI18n();
+    const [range, setRange] = useState<StatsRange>(30);
+    const { data, error, loading } = useAsync(() => fetchAnalyticsStats(range), [range]);
+
+    const number = (value: number) => value.toLocaleString(locale);
+    const percent = (value: number) => value.toLocaleString(locale, { style: "percent", maximumFractionDigits: 1 });
+    const storeName = (store: string) => PLATFORMS.find(p => p.value === store)?.label ?? store;
+
+    const dailyTotals = data ? data.days.map((_, i) => data.routes.reduce((sum, route) => sum + route.daily[i]!, 0)) : [];
+    const peak = Math.max(1, ...dailyTotals);
+    const totalViews = dailyTotals.reduce((sum, n) => sum + n, 0);
+    const totalClicks = data?.storeClicks.reduce((sum, s) => sum + s.clicks, 0) ?? 0;
+
+    return (
+        <Card className={`text-left transition-opacity ${loading && data ? "opacity-60" : ""}`} aria-busy={loading}>
+            <div className="flex flex-col md:flex-row md:items-end gap-4 justify-between mb-6">
+                <div>
+                    <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("admin.stats.title")}</h2>
+                    <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.stats.subtitle")}</p>
+                </div>
+                <div className="flex flex-col gap-2 md:w-48">
+                    <Label htmlFor="stats-range" className="font-heading font-bold text-[var(--color-dark)]">{t("admin.stats.range")}</Label>
+                    <Select value={String(range)} onValueChange={value => setRange(Number(value) as StatsRange)}>
+                        <SelectTrigger id="stats-range" className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[var(--color-surface)]">
+                            {STATS_RANGES.map(days => <SelectItem key={days} value={String(days)}>{t("admin.stats.lastDays", { days })}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            {error ? (
+                <p role="alert" className="text-[var(--color-primary)] font-medium">{t("errors.generic")}</p>
+            ) : !data ? (
+                <p className="text-[var(--color-dark)]/70 font-medium">{t("admin.stats.loading")}</p>
+            ) : (
+                <div className="flex flex-col gap-8">
+                    {/* Totals */}
+                    <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <Stat label={t("admin.stats.pageviews")} value={number(totalViews)} />
+                        <Stat label={t("admin.stats.homePageviews")} value={number(data.homePageviews)} />
+                        <Stat label={t("admin.stats.storeClicks")} value={number(totalClicks)} />
+                        <Stat label={t("admin.stats.ctr")} value={percent(data.homePageviews > 0 ? totalClicks / data.homePageviews : 0)} />
+                    </dl>
+
+                    {/* Daily Pageviews */}
+                    <div>
+                        <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("admin.stats.daily")}</h3>
+                        <div className="flex items-end gap-px h-32" role="img" aria-label={t("admin.stats.dailyChart", { total: number(totalViews) })}>
+                            {data.days.map((day, i) => (
+                                <div
+                                    key={day}
+                                    title={`${day}: ${number(dailyTotals[i]!)}`}
+                                    style={{ height: `${(dailyTotals[i]! / peak) * 100}%` }}
+                                    className="flex-1 min-h-px rounded-t bg-[var(--color-secondary)]"
+                                />
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-xs font-medium text-[var(--color-wood)] mt-1">
+                            <span>{data.days[0]}</span>
+                            <span>{data.days.at(-1)}</span>
+                        </div>
+                    </div>
+
+                    {/* Routes */}
+                    <StatsTable
+                        title={t("admin.stats.routes")}
+                        columns={[t("admin.stats.route"), t("admin.stats.perDay"), t("admin.stats.pageviews")]}
+                        empty={t("admin.stats.empty")}
+                        rows={data.routes.map(route => [
+                            <code key="route">{route.route}</code>,
+                            <Sparkline key="daily" days={data.days} values={route.daily} />,
+                            number(route.total),
+                        ])}
+                    />
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                        <StatsTable
+                            title={t("admin.stats.referrers")}
+                            columns={[t("admin.stats.site"), t("admin.stats.pageviews")]}
+                            empty={t("admin.stats.empty")}
+                            rows={data.referrers.map(r => [r.host, number(r.pageviews)])}
+                        />
+                        <StatsTable
+                            title={t("admin.stats.storeButtons")}
+                            columns={[t("admin.stats.store"), t("admin.stats.clicks"), t("admin.stats.ctr")]}
+                            empty={t("admin.stats.empty")}
+                            rows={data.storeClicks.map(s => [storeName(s.store), number(s.clicks), percent(s.ctr)])}
+                        />
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+}
+
+function Stat({ label, value }: { label: string, value: string }) {
+    return (
+        <div className="rounded-2xl bg-[var(--color-surface-muted)] p-4">
+            <dt className="text-sm font-heading font-bold text-[var(--color-wood)]">{label}</dt>
+            <dd className="text-3xl font-heading font-extrabold text-[var(--color-dark)]">{value}</dd>
+        </div>
+    );
+}
+
+/** Tiny per-day bar chart for a table cell; hover a bar for its date and count. */
+function Sparkline({ days, values }: { days: string[], values: number[] }) {
+    const peak = Math.max(1, ...values);
+    return (
+        <div className="inline-flex items-end gap-px h-6 w-32 md:w-48 align-middle" aria-hidden="true">
+            {values.map((value, i) => (
+                <div key={days[i]} title={`${days[i]}: ${value}`} style={{ height: `${(value / peak) * 100}%` }} className="flex-1 min-h-px bg-[var(--color-accent)]" />
+            ))}
+        </div>
+    );
+}
+
+function StatsTable({ title, columns, rows, empty }: { title: string, columns: string[], rows: ReactNode[][], empty: string }) {
+    return (
+        <div>
+            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{title}</h3>
+            {rows.length === 0 ? (
+                <p className="text-[var(--color-dark)]/70 font-medium">{empty}</p>
+            ) : (
+                <table className="w-full text-[var(--color-dark)]">
+                    <thead>
+                        <tr className="text-sm text-[var(--color-wood)] font-heading">
+                            {columns.map((column, i) => (
+                                <th key={column} scope="col" className={`font-bold pb-2 ${i === 0 ? "text-left" : "text-right"}`}>{column}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="font-medium">
+                        {rows.map((cells, i) => (
+                            <tr key={i} className="border-t-2 border-[var(--color-border)]">
+                                {cells.map((cell, j) => (
+                                    <td key={j} className={`py-2 ${j === 0 ? "break-all" : "text-right"}`}>{cell}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
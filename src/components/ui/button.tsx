@@ -6,6 +6,7 @@ import React from "react";
 
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Rarity } from "../../lib/rarity";
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -14,10 +15,12 @@ function cn(...inputs: ClassValue[]) {
 interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: "primary" | "secondary" | "accent" | "ghost";
   size?: "sm" | "md" | "lg";
+  /** Paints the button in the rarity's gradient instead of the variant colors. */
+  rarity?: Rarity;
 }
 
 export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
-  ({ className, variant = "primary", size = "md", children, ...props }, ref) => {
+  ({ className, variant = "primary", size = "md", rarity, children, ...props }, ref) => {
 
     const variants = {
       primary: "bg-[var(--color-primary)] text-white border-b-4 border-[var(--color-primary-dark)] active:border-b-0 active:translate-y-1 hover:brightness-110",
@@ -25,6 +28,7 @@ export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
       accent: "bg-[var(--color-accent)] text-white border-b-4 border-[var(--color-accent-dark)] active:border-b-0 active:translate-y-1 hover:brightness-110",
       ghost: "bg-transparent hover:bg-black/5 text-current border-none shadow-none",
     };
+    const rarityClasses = "rarity-gradient text-white [text-shadow:0_1px_2px_rgba(0,0,0,0.35)] border-b-4 border-[var(--rarity-dark)] active:border-b-0 active:translate-y-1 hover:brightness-110";
 
     const sizes = {
       sm: "h-8 px-3 text-sm rounded-xl",
@@ -35,9 +39,10 @@ export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
     return (
       <button
         ref={ref}
+        data-rarity={rarity}
         className={cn(
           "font-heading font-bold transition-all duration-100 flex items-center justify-center gap-2 outline-none",
-          variants[variant],
+          rarity ? rarityClasses : variants[variant],
           sizes[size],
           className
         )}
@@ -1,6 +1,7 @@
 import React from "react";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Rarity } from "../../lib/rarity";
 
 function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -8,24 +9,28 @@ function cn(...inputs: ClassValue[]) {
 
 interface CardProps extends React.HTMLAttributes<HTMLDivElement> {
   variant?: "default" | "glass";
+  /** Draws the border in the rarity's colors (default variant only). */
+  rarity?: Rarity;
 }
 
 export const Card = React.forwardRef<HTMLDivElement, CardProps>(
-  ({ className, variant = "default", children, ...props }, ref) => {
+  ({ className, variant = "default", rarity, children, ...props }, ref) => {
     return (
       <div
         ref={ref}
+        data-rarity={rarity}
         className={cn(
           "rounded-[2rem] p-6 relative overflow-hidden",
-          variant === "default" && "bg-white border-4 border-amber-100 shadow-xl shadow-amber-900/10",
-          variant === "glass" && "bg-white/60 backdrop-blur-md border border-white/50 shadow-lg",
+          variant === "default" && "bg-[var(--color-surface)] border-4 border-[var(--color-border)] shadow-xl shadow-amber-900/10",
+          variant === "glass" && "bg-[var(--color-surface)]/60 backdrop-blur-md border border-[var(--color-surface)]/50 shadow-lg",
+          variant === "default" && rarity && "rarity-border",
           className
         )}
         {...props}
       >
         {/* Decorative top stitch/line */}
         {variant === "default" && (
-          <div className="absolute top-3 left-6 right-6 h-0.5 bg-amber-100/50 dashed-line"></div>
+          <div className="absolute top-3 left-6 right-6 h-0.5 bg-[var(--color-border)]/50 dashed-line"></div>
         )}
         {children}
       </div>
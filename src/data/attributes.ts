@@ -0,0 +1,94 @@
+/**
+ * Character attributes, mirroring `Attribute` in the game server
+ * (docs/ARCH.md, "Attribute Enum"). Labels are the in-game abbreviations,
+ * which stay the same in every language.
+ */
+
+export const ATTRIBUTES = {
+  hp: { label: "HP", unit: "flat" },
+  atk: { label: "ATK", unit: "flat" },
+  def: { label: "DEF", unit: "flat" },
+  moveSpeed: { label: "Move SPD", unit: "ratio" },
+  atkSpeed: { label: "ATK SPD", unit: "ratio" },
+  skillRechargeSpeed: { label: "Skill Recharge SPD", unit: "ratio" },
+  palAtkSpeed: { label: "Pal ATK SPD", unit: "ratio" },
+  basicAtkCrit: { label: "Basic ATK Crit%", unit: "percent" },
+  skillCrit: { label: "Skill Crit%", unit: "percent" },
+  palCrit: { label: "Pal Crit%", unit: "percent" },
+  basicAtkCritDmg: { label: "Basic ATK Crit DMG", unit: "percent" },
+  skillCritDmg: { label: "Skill Crit DMG", unit: "percent" },
+  palCritDmg: { label: "Pal Crit DMG", unit: "percent" },
+  basicAtkDmg: { label: "Basic ATK DMG", unit: "percent" },
+  attrDmg: { label: "Attr DMG", unit: "percent" },
+  bossDmg: { label: "Boss DMG", unit: "percent" },
+  bossDmgRed: { label: "Boss DMG Red", unit: "percent" },
+  totalDmgRed: { label: "Total DMG Red", unit: "percent" },
+  evasion: { label: "EVA%", unit: "percent" },
+  regenPerSec: { label: "Regen/s", unit: "flat" },
+  regen: { label: "Regen", unit: "flat" },
+  attrFollowUp: { label: "Attr Follow-up", unit: "percent" },
+  attrBoost: { label: "Attr Boost", unit: "percent" },
+  ignoreCritDmg: { label: "Ignore Crit DMG", unit: "percent" },
+  ignoreCrit: { label: "Ignore Crit", unit: "percent" },
+  basicAtkDmgRed: { label: "Basic ATK DMG Red", unit: "percent" },
+  skillDmgRed: { label: "Skill DMG Red", unit: "percent" },
+  palDmgRed: { label: "Pal DMG Red", unit: "percent" },
+  attrDmgRed: { label: "Attr DMG Red", unit: "percent" },
+  ignoreEvasion: { label: "Ignore Evasion", unit: "percent" },
+  playerDmg: { label: "Player DMG", unit: "percent" },
+  playerDmgRed: { label: "Player DMG Red", unit: "percent" },
+} as const satisfies Record<string, { label: string, unit: "flat" | "percent" | "ratio" }>;
+
+export type Attribute = keyof typeof ATTRIBUTES;
+
+/**
+ * `Attribute`, in the server's order. Numbers in the game's JSON (such as the
+ * keys of a `map[Attribute]float64`) index this, not `ATTRIBUTES`.
+ */
+export const ATTRIBUTE_ENUM = [
+  "hp",
+  "atk",
+  "def",
+  "moveSpeed",
+  "atkSpeed",
+  "skillRechargeSpeed",
+  "palAtkSpeed",
+  "basicAtkCrit",
+  "skillCrit",
+  "palCrit",
+  "basicAtkCritDmg",
+  "skillCritDmg",
+  "palCritDmg",
+  "basicAtkDmg",
+  "attrDmg",
+  "bossDmg",
+  "bossDmgRed",
+  "totalDmgRed",
+  "evasion",
+  "regenPerSec",
+  "regen",
+  "attrFollowUp",
+  "attrBoost",
+  "ignoreCritDmg",
+  "ignoreCrit",
+  "basicAtkDmgRed",
+  "skillDmgRed",
+  "palDmgRed",
+  "attrDmgRed",
+  "ignoreEvasion",
+  "playerDmg",
+  "playerDmgRed",
+] as const satisfies readonly Attribute[];
+
+export type StatBlock = Partial<Record<Attribute, number>>;
+
+/**
+ * Formats a bonus the way the game shows it: flat stats as `+50`, percentage
+ * stats as `+5%`. Speeds are stored as ratios, so `0.1` becomes `+10%`.
+ */
+export function formatStat(attribute: Attribute, value: number): string {
+  const { unit } = ATTRIBUTES[attribute];
+  const amount = unit === "ratio" ? Math.round(value * 1000) / 10 : value;
+  const sign = amount >= 0 ? "+" : "";
+  return `${sign}${amount}${unit === "flat" ? "" : "%"}`;
+}
@@ -0,0 +1,128 @@
+import type { Rarity } from "../lib/rarity";
+
+/**
+ * Summon banners and their published odds, mirroring `GachaBanner` in the game
+ * server (docs/ARCH.md, "Gacha System"). The `/rates` disclosure page renders
+ * this file and its simulator uses the same pity rules as the server, so the
+ * numbers here must match what the live game rolls.
+ */
+
+export const BANNER_TYPES = ["standard", "limited", "collab"] as const;
+
+export type BannerType = (typeof BANNER_TYPES)[number];
+
+export interface GachaRate {
+  rarity: Rarity;
+  /** Chance per pull before soft pity, e.g. `0.006` for 0.6%. */
+  baseRate: number;
+  /** Added to `baseRate` for every pull past `softPityStart`. */
+  softPityAdd: number;
+}
+
+export interface GachaBanner {
+  /** Also the anchor on the rates page: `/rates#<id>`. */
+  id: string;
+  name: string;
+  type: BannerType;
+  /** ISO 8601. */
+  startTime: string;
+  /** ISO 8601, or `null` for a permanent banner. */
+  endTime: string | null;
+  /** Gems. */
+  singlePullCost: number;
+  /** Gems, usually a discount on ten singles. */
+  tenPullCost: number;
+  /**
+   * Highest rarity first. Base rates add up to 1; once soft pity raises the
+   * rows above it, the last row gets whatever chance is left.
+   */
+  rateTable: GachaRate[];
+  /** A pull of this rarity or higher resets pity. */
+  pityRarity: Rarity;
+  /** The pull this many pulls after the last `pityRarity` result is guaranteed to be `pityRarity`. */
+  pityThreshold: number;
+  /** Rates start climbing on the pull after this many without a `pityRarity` result. */
+  softPityStart: number;
+  /** Pal ids (see `src/data/pals.ts`). Featured items are all of `pityRarity`. */
+  featuredItems: string[];
+  /** Chance that a `pityRarity` pull is one of `featuredItems` rather than from the standard pool. */
+  featuredRate: number;
+}
+
+export const BANNERS: GachaBanner[] = [
+  {
+    id: "standard",
+    name: "Standard Summon",
+    type: "standard",
+    startTime: "2026-12-01T00:00:00Z",
+    endTime: null,
+    singlePullCost: 160,
+    tenPullCost: 1440,
+    // StandardBannerRates in the design doc, with the remainder spread over the lower tiers.
+    rateTable: [
+      { rarity: "eternal", baseRate: 0.001, softPityAdd: 0.005 },
+      { rarity: "aurous", baseRate: 0.004, softPityAdd: 0.01 },
+      { rarity: "supreme", baseRate: 0.01, softPityAdd: 0.02 },
+      { rarity: "immortal", baseRate: 0.02, softPityAdd: 0.03 },
+      { rarity: "legendary", baseRate: 0.05, softPityAdd: 0.05 },
+      { rarity: "epic", baseRate: 0.1, softPityAdd: 0 },
+      { rarity: "mythic", baseRate: 0.15, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 0.2, softPityAdd: 0 },
+      { rarity: "well", baseRate: 0.215, softPityAdd: 0 },
+      { rarity: "unique", baseRate: 0.15, softPityAdd: 0 },
+      { rarity: "normal", baseRate: 0.1, softPityAdd: 0 },
+    ],
+    pityRarity: "immortal",
+    pityThreshold: 90,
+    softPityStart: 74,
+    featuredItems: [],
+    featuredRate: 0,
+  },
+  {
+    id: "phoenix-rising",
+    name: "Phoenix Rising",
+    type: "limited",
+    startTime: "2026-12-01T00:00:00Z",
+    endTime: "2026-12-22T00:00:00Z",
+    singlePullCost: 160,
+    tenPullCost: 1440,
+    // StandardPalGachaRates; soft pity adds 5% to Legendary and a quarter of that to Immortal.
+    rateTable: [
+      { rarity: "immortal", baseRate: 0.01, softPityAdd: 0.0125 },
+      { rarity: "legendary", baseRate: 0.04, softPityAdd: 0.05 },
+      { rarity: "epic", baseRate: 0.1, softPityAdd: 0 },
+      { rarity: "mythic", baseRate: 0.2, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 0.35, softPityAdd: 0 },
+      { rarity: "well", baseRate: 0.3, softPityAdd: 0 },
+    ],
+    pityRarity: "legendary",
+    pityThreshold: 70,
+    softPityStart: 50,
+    featuredItems: ["phoenix"],
+    featuredRate: 0.5,
+  },
+  {
+    id: "frost-and-thunder",
+    name: "Frost & Thunder",
+    type: "limited",
+    startTime: "2026-12-22T00:00:00Z",
+    endTime: "2027-01-12T00:00:00Z",
+    singlePullCost: 160,
+    tenPullCost: 1440,
+    rateTable: [
+      { rarity: "immortal", baseRate: 0.01, softPityAdd: 0.0125 },
+      { rarity: "legendary", baseRate: 0.04, softPityAdd: 0.05 },
+      { rarity: "epic", baseRate: 0.1, softPityAdd: 0 },
+      { rarity: "mythic", baseRate: 0.2, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 0.35, softPityAdd: 0 },
+      { rarity: "well", baseRate: 0.3, softPityAdd: 0 },
+    ],
+    pityRarity: "legendary",
+    pityThreshold: 70,
+    softPityStart: 50,
+    featuredItems: ["fenrir", "thunder-dragon"],
+    featuredRate: 0.75,
+  },
+];
+
+export const getBanner = (id: string) => BANNERS.find(banner => banner.id === id);
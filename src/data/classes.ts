@@ -0,0 +1,390 @@
+import type { StatBlock } from "./attributes";
+
+/**
+ * The character evolution tree from docs/ARCH.md ("Character Evolution
+ * System"). Heroes start as a Slime, evolve at fixed level milestones and
+ * choose a path at tier 2 and a sub-branch at tier 4. The `/classes` page
+ * renders this file; form names are the design doc's working titles.
+ */
+
+/** Level required to reach each tier; the array index is the tier. */
+export const EVOLUTION_LEVELS = [1, 15, 20, 30, 50, 70, 100] as const;
+
+export type EvolutionTier = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const EVOLUTION_PATHS = ["projectile", "pal", "skill"] as const;
+
+export type EvolutionPath = (typeof EVOLUTION_PATHS)[number];
+
+/** Passives a hero can hold at once (one per tier from 1 to 5). */
+export const MAX_EVOLUTION_PASSIVES = 5;
+
+/** The locked active skill in slot 0 while in this form. */
+export interface EvolutionSkill {
+  id: string;
+  name: string;
+  description: string;
+  /** Seconds. */
+  cooldown: number;
+  baseDamage: number;
+}
+
+export interface EvolutionPassive {
+  id: string;
+  name: string;
+  description: string;
+  /** Final forms don't add a passive; they upgrade one the hero already has. */
+  upgrades?: string;
+}
+
+export interface PathBonus {
+  type: "damage" | "cooldown" | "effect";
+  value: number;
+  description: string;
+}
+
+export interface EvolutionForm {
+  /** Also the URL slug: `/classes/<id>`. */
+  id: string;
+  name: string;
+  tier: EvolutionTier;
+  /** Unset for the shared forms before the tier 2 choice. */
+  path?: EvolutionPath;
+  previous?: string;
+  next: string[];
+  statBonuses: StatBlock;
+  activeSkill?: EvolutionSkill;
+  passive?: EvolutionPassive;
+  pathBonus?: PathBonus;
+}
+
+export const EVOLUTION_FORMS: EvolutionForm[] = [
+  // Tier 0 - Base
+  {
+    id: "slime",
+    name: "Slime",
+    tier: 0,
+    next: ["spirit-slime"],
+    statBonuses: {},
+    activeSkill: { id: "evo_skill_basic_shot", name: "Slime Shot", description: "Fire a basic projectile.", cooldown: 2, baseDamage: 10 },
+  },
+
+  // Tier 1 - First evolution
+  {
+    id: "spirit-slime",
+    name: "Spirit Slime",
+    tier: 1,
+    previous: "slime",
+    next: ["projectile-mimicry", "pal-symbiosis", "skill-mutation"],
+    statBonuses: { atk: 10, hp: 50 },
+    activeSkill: { id: "evo_skill_spirit_blast", name: "Spirit Blast", description: "Fire an enhanced spirit projectile.", cooldown: 2.5, baseDamage: 25 },
+    passive: { id: "passive_spirit_bond", name: "Spirit Bond", description: "Increases all damage by 5%." },
+  },
+
+  // Tier 2 - First branch
+  {
+    id: "projectile-mimicry",
+    name: "Projectile Mimicry",
+    tier: 2,
+    path: "projectile",
+    previous: "spirit-slime",
+    next: ["projectile-mimicry-ii"],
+    statBonuses: { atk: 25, atkSpeed: 0.1, basicAtkCrit: 5 },
+    activeSkill: { id: "evo_skill_rapid_fire", name: "Rapid Fire", description: "Fire multiple projectiles in quick succession.", cooldown: 3, baseDamage: 15 },
+    passive: { id: "passive_proj_mastery", name: "Projectile Mastery", description: "Basic attacks deal 10% more damage." },
+    pathBonus: { type: "damage", value: 15, description: "+15% Basic Attack Damage" },
+  },
+  {
+    id: "pal-symbiosis",
+    name: "Pal Symbiosis",
+    tier: 2,
+    path: "pal",
+    previous: "spirit-slime",
+    next: ["pal-symbiosis-ii"],
+    statBonuses: { palAtkSpeed: 0.15, palCrit: 10 },
+    activeSkill: { id: "evo_skill_pal_rally", name: "Pal Rally", description: "Your Pals charge the nearest enemy together.", cooldown: 6, baseDamage: 20 },
+    passive: { id: "passive_pal_synergy", name: "Pal Synergy", description: "Pals attack 10% faster." },
+    pathBonus: { type: "damage", value: 20, description: "+20% Pal Damage" },
+  },
+  {
+    id: "skill-mutation",
+    name: "Skill Mutation",
+    tier: 2,
+    path: "skill",
+    previous: "spirit-slime",
+    next: ["skill-mutation-ii"],
+    statBonuses: { skillRechargeSpeed: 0.15, skillCrit: 10 },
+    activeSkill: { id: "evo_skill_arcane_surge", name: "Arcane Surge", description: "Release a burst of energy around you.", cooldown: 5, baseDamage: 30 },
+    passive: { id: "passive_skill_affinity", name: "Skill Affinity", description: "Skills cool down 10% faster." },
+    pathBonus: { type: "cooldown", value: -10, description: "-10% Skill Cooldown" },
+  },
+
+  // Tier 3 - Branch II (locked to the chosen path)
+  {
+    id: "projectile-mimicry-ii",
+    name: "Projectile Mimicry II",
+    tier: 3,
+    path: "projectile",
+    previous: "projectile-mimicry",
+    next: ["mimic-cat", "mimic-plant"],
+    statBonuses: { atk: 50, basicAtkCritDmg: 20 },
+    activeSkill: { id: "evo_skill_triple_volley", name: "Triple Volley", description: "Fire three projectiles in a fan.", cooldown: 3, baseDamage: 22 },
+    passive: { id: "passive_rapid_fire", name: "Rapid Fire", description: "Attack speed +15%." },
+  },
+  {
+    id: "pal-symbiosis-ii",
+    name: "Pal Symbiosis II",
+    tier: 3,
+    path: "pal",
+    previous: "pal-symbiosis",
+    next: ["mimic-fox", "mimic-mushroom"],
+    statBonuses: { hp: 150, palCritDmg: 25 },
+    activeSkill: { id: "evo_skill_pack_howl", name: "Pack Howl", description: "Rally your Pals, boosting their damage for 5 seconds.", cooldown: 12, baseDamage: 0 },
+    passive: { id: "passive_kindred_spirits", name: "Kindred Spirits", description: "Pals gain 15% of your max HP." },
+  },
+  {
+    id: "skill-mutation-ii",
+    name: "Skill Mutation II",
+    tier: 3,
+    path: "skill",
+    previous: "skill-mutation",
+    next: ["mimic-owl", "mimic-crystal"],
+    statBonuses: { atk: 30, skillCritDmg: 25 },
+    activeSkill: { id: "evo_skill_arcane_nova", name: "Arcane Nova", description: "Detonate a ring of arcane energy.", cooldown: 6, baseDamage: 45 },
+    passive: { id: "passive_overflow", name: "Overflow", description: "Skill damage +15%." },
+  },
+
+  // Tier 4 - Sub-branch (two choices per path)
+  {
+    id: "mimic-cat",
+    name: "Mimic Cat",
+    tier: 4,
+    path: "projectile",
+    previous: "projectile-mimicry-ii",
+    next: ["shadow-panther"],
+    statBonuses: { atk: 80, basicAtkCrit: 10, moveSpeed: 0.1 },
+    activeSkill: { id: "evo_skill_pierce_shot", name: "Pierce Shot", description: "A shot that passes through every enemy in a line.", cooldown: 4, baseDamage: 60 },
+    passive: { id: "passive_burst_power", name: "Burst Power", description: "Basic attack crit damage +20%." },
+  },
+  {
+    id: "mimic-plant",
+    name: "Mimic Plant",
+    tier: 4,
+    path: "projectile",
+    previous: "projectile-mimicry-ii",
+    next: ["thorn-dryad"],
+    statBonuses: { atk: 60, hp: 300, regenPerSec: 5 },
+    activeSkill: { id: "evo_skill_homing_seed", name: "Homing Seed", description: "Launch seeds that seek out nearby enemies.", cooldown: 4, baseDamage: 40 },
+    passive: { id: "passive_spread_shot", name: "Spread Shot", description: "Basic attacks split into two on hit for 40% damage." },
+  },
+  {
+    id: "mimic-fox",
+    name: "Mimic Fox",
+    tier: 4,
+    path: "pal",
+    previous: "pal-symbiosis-ii",
+    next: ["moon-fox"],
+    statBonuses: { palAtkSpeed: 0.2, palCrit: 10, evasion: 5 },
+    activeSkill: { id: "evo_skill_fox_fire", name: "Fox Fire", description: "Summon spirit flames that orbit you and your Pals.", cooldown: 8, baseDamage: 35 },
+    passive: { id: "passive_trickster", name: "Trickster", description: "Pals have a 10% chance to strike twice." },
+  },
+  {
+    id: "mimic-mushroom",
+    name: "Mimic Mushroom",
+    tier: 4,
+    path: "pal",
+    previous: "pal-symbiosis-ii",
+    next: ["spore-sage"],
+    statBonuses: { hp: 400, def: 40, palDmgRed: 10 },
+    activeSkill: { id: "evo_skill_spore_cloud", name: "Spore Cloud", description: "Release spores that heal your Pals over time.", cooldown: 10, baseDamage: 0 },
+    passive: { id: "passive_mycorrhiza", name: "Mycorrhiza", description: "Pals regenerate 2% HP per second." },
+  },
+  {
+    id: "mimic-owl",
+    name: "Mimic Owl",
+    tier: 4,
+    path: "skill",
+    previous: "skill-mutation-ii",
+    next: ["storm-owl"],
+    statBonuses: { skillCrit: 15, skillRechargeSpeed: 0.1 },
+    activeSkill: { id: "evo_skill_gale_feather", name: "Gale Feather", description: "Hurl razor feathers that knock enemies back.", cooldown: 5, baseDamage: 55 },
+    passive: { id: "passive_keen_eye", name: "Keen Eye", description: "Skill crit chance +10%." },
+  },
+  {
+    id: "mimic-crystal",
+    name: "Mimic Crystal",
+    tier: 4,
+    path: "skill",
+    previous: "skill-mutation-ii",
+    next: ["prism-golem"],
+    statBonuses: { def: 60, attrBoost: 15 },
+    activeSkill: { id: "evo_skill_prism_beam", name: "Prism Beam", description: "Channel a beam that splits into the elements.", cooldown: 7, baseDamage: 70 },
+    passive: { id: "passive_refraction", name: "Refraction", description: "Skills deal 20% bonus attribute damage." },
+  },
+
+  // Tier 5 - Evolution
+  {
+    id: "shadow-panther",
+    name: "Shadow Panther",
+    tier: 5,
+    path: "projectile",
+    previous: "mimic-cat",
+    next: ["frost-seraph"],
+    statBonuses: { atk: 120, basicAtkCritDmg: 40, evasion: 5 },
+    activeSkill: { id: "evo_skill_shadow_pounce", name: "Shadow Pounce", description: "Dash through enemies, then fire a point-blank volley.", cooldown: 5, baseDamage: 110 },
+    passive: { id: "passive_predator", name: "Predator", description: "Basic attacks deal 25% more damage to enemies below half HP." },
+  },
+  {
+    id: "thorn-dryad",
+    name: "Thorn Dryad",
+    tier: 5,
+    path: "projectile",
+    previous: "mimic-plant",
+    next: ["verdant-warden"],
+    statBonuses: { atk: 100, hp: 600, regenPerSec: 10 },
+    activeSkill: { id: "evo_skill_bramble_barrage", name: "Bramble Barrage", description: "Rain thorns across a wide area.", cooldown: 6, baseDamage: 90 },
+    passive: { id: "passive_thornskin", name: "Thornskin", description: "Reflect 10% of damage taken back at the attacker." },
+  },
+  {
+    id: "moon-fox",
+    name: "Moon Fox",
+    tier: 5,
+    path: "pal",
+    previous: "mimic-fox",
+    next: ["nine-tailed-sovereign"],
+    statBonuses: { palAtkSpeed: 0.25, palCritDmg: 40 },
+    activeSkill: { id: "evo_skill_lunar_chorus", name: "Lunar Chorus", description: "Your Pals howl in unison, dealing damage in a wide circle.", cooldown: 9, baseDamage: 100 },
+    passive: { id: "passive_moonlit_pack", name: "Moonlit Pack", description: "Each active Pal increases your damage by 4%." },
+  },
+  {
+    id: "spore-sage",
+    name: "Spore Sage",
+    tier: 5,
+    path: "pal",
+    previous: "mimic-mushroom",
+    next: ["mycelium-ancient"],
+    statBonuses: { hp: 800, def: 80, palDmgRed: 15 },
+    activeSkill: { id: "evo_skill_fungal_bloom", name: "Fungal Bloom", description: "Grow a ring of mushrooms that shields nearby Pals.", cooldown: 12, baseDamage: 0 },
+    passive: { id: "passive_deep_roots", name: "Deep Roots", description: "You and your Pals take 10% less damage." },
+  },
+  {
+    id: "storm-owl",
+    name: "Storm Owl",
+    tier: 5,
+    path: "skill",
+    previous: "mimic-owl",
+    next: ["thunderbird"],
+    statBonuses: { skillCritDmg: 50, skillRechargeSpeed: 0.15 },
+    activeSkill: { id: "evo_skill_tempest", name: "Tempest", description: "Call down a storm that strikes random enemies.", cooldown: 6, baseDamage: 130 },
+    passive: { id: "passive_static_charge", name: "Static Charge", description: "Skill crits reduce all cooldowns by 0.5 seconds." },
+  },
+  {
+    id: "prism-golem",
+    name: "Prism Golem",
+    tier: 5,
+    path: "skill",
+    previous: "mimic-crystal",
+    next: ["diamond-colossus"],
+    statBonuses: { def: 120, hp: 500, attrDmg: 20 },
+    activeSkill: { id: "evo_skill_crystal_quake", name: "Crystal Quake", description: "Slam the ground, erupting crystal spikes.", cooldown: 8, baseDamage: 150 },
+    passive: { id: "passive_faceted", name: "Faceted", description: "Attribute damage +20%." },
+  },
+
+  // Tier 6 - Final form / Ascension (upgrades a passive instead of adding one)
+  {
+    id: "frost-seraph",
+    name: "Frost Seraph",
+    tier: 6,
+    path: "projectile",
+    previous: "shadow-panther",
+    next: [],
+    statBonuses: { atk: 200, basicAtkCrit: 10, basicAtkCritDmg: 60 },
+    activeSkill: { id: "evo_skill_glacial_lance", name: "Glacial Lance", description: "Fire a lance of ice that freezes everything it pierces.", cooldown: 5, baseDamage: 220 },
+    passive: { id: "passive_ascended_proj_mastery", name: "Ascended Projectile Mastery", description: "Basic attacks deal 25% more damage.", upgrades: "passive_proj_mastery" },
+  },
+  {
+    id: "verdant-warden",
+    name: "Verdant Warden",
+    tier: 6,
+    path: "projectile",
+    previous: "thorn-dryad",
+    next: [],
+    statBonuses: { atk: 160, hp: 1200, regenPerSec: 20 },
+    activeSkill: { id: "evo_skill_worldroot", name: "Worldroot", description: "Summon an ancient tree that fires seeds at every enemy in range.", cooldown: 10, baseDamage: 180 },
+    passive: { id: "passive_ascended_proj_mastery", name: "Ascended Projectile Mastery", description: "Basic attacks deal 25% more damage.", upgrades: "passive_proj_mastery" },
+  },
+  {
+    id: "nine-tailed-sovereign",
+    name: "Nine-Tailed Sovereign",
+    tier: 6,
+    path: "pal",
+    previous: "moon-fox",
+    next: [],
+    statBonuses: { palAtkSpeed: 0.3, palCrit: 15, palCritDmg: 60 },
+    activeSkill: { id: "evo_skill_ninefold_flame", name: "Ninefold Flame", description: "Nine spirit flames seek out enemies alongside your Pals.", cooldown: 9, baseDamage: 200 },
+    passive: { id: "passive_ascended_pal_synergy", name: "Ascended Pal Synergy", description: "Pals attack 25% faster.", upgrades: "passive_pal_synergy" },
+  },
+  {
+    id: "mycelium-ancient",
+    name: "Mycelium Ancient",
+    tier: 6,
+    path: "pal",
+    previous: "spore-sage",
+    next: [],
+    statBonuses: { hp: 1500, def: 150, palDmgRed: 20 },
+    activeSkill: { id: "evo_skill_undergrowth", name: "Undergrowth", description: "Link all Pals through the roots, sharing damage and healing.", cooldown: 15, baseDamage: 0 },
+    passive: { id: "passive_ascended_pal_synergy", name: "Ascended Pal Synergy", description: "Pals attack 25% faster.", upgrades: "passive_pal_synergy" },
+  },
+  {
+    id: "thunderbird",
+    name: "Thunderbird",
+    tier: 6,
+    path: "skill",
+    previous: "storm-owl",
+    next: [],
+    statBonuses: { skillCrit: 15, skillCritDmg: 80, skillRechargeSpeed: 0.2 },
+    activeSkill: { id: "evo_skill_skyfall", name: "Skyfall", description: "Dive from the clouds, chaining lightning between enemies.", cooldown: 7, baseDamage: 260 },
+    passive: { id: "passive_ascended_skill_affinity", name: "Ascended Skill Affinity", description: "Skills cool down 25% faster.", upgrades: "passive_skill_affinity" },
+  },
+  {
+    id: "diamond-colossus",
+    name: "Diamond Colossus",
+    tier: 6,
+    path: "skill",
+    previous: "prism-golem",
+    next: [],
+    statBonuses: { def: 250, hp: 1000, attrDmg: 35 },
+    activeSkill: { id: "evo_skill_diamond_storm", name: "Diamond Storm", description: "Shatter into a whirlwind of diamond shards.", cooldown: 10, baseDamage: 240 },
+    passive: { id: "passive_ascended_skill_affinity", name: "Ascended Skill Affinity", description: "Skills cool down 25% faster.", upgrades: "passive_skill_affinity" },
+  },
+];
+
+const FORMS_BY_ID = new Map(EVOLUTION_FORMS.map(form => [form.id, form]));
+
+export const getEvolutionForm = (id: string) => FORMS_BY_ID.get(id);
+
+export const requiredLevel = (form: EvolutionForm) => EVOLUTION_LEVELS[form.tier];
+
+/** Every form from the base Slime up to and including `form`. */
+export function evolutionLine(form: EvolutionForm): EvolutionForm[] {
+  const line = [form];
+  for (let current = form; current.previous; ) {
+    const previous = FORMS_BY_ID.get(current.previous);
+    if (!previous) break;
+    line.unshift(previous);
+    current = previous;
+  }
+  return line;
+}
+
+/** Passives held after evolving into `form`, with final-form upgrades applied. */
+export function heldPassives(form: EvolutionForm): EvolutionPassive[] {
+  const passives: EvolutionPassive[] = [];
+  for (const { passive } of evolutionLine(form)) {
+    if (!passive) continue;
+    const replaced = passive.upgrades ? passives.findIndex(p => p.id === passive.upgrades) : -1;
+    if (replaced >= 0) passives[replaced] = passive;
+    else passives.push(passive);
+  }
+  return passives;
+}
@@ -0,0 +1,117 @@
+import type { Rarity } from "../lib/rarity";
+import type { Attribute, StatBlock } from "./attributes";
+
+/**
+ * Dice Roll equipment, mirroring `Equipment` and `SubAttrRanges` in the game
+ * server (docs/ARCH.md, "Equipment Slot System" and "Equipment
+ * Sub-Attributes"). The `/planner` build calculator uses this file. The five
+ * special slots (Mount, Artifact and so on) have their own systems and
+ * aren't covered here yet.
+ */
+
+/** The ten slots filled by the Dice Roll, in the game's order. */
+export const DICE_SLOTS = ["weapon", "bullet", "attribute", "helmet", "mask", "necklace", "cloak", "gloves", "shield", "boots"] as const;
+
+export type DiceSlot = (typeof DICE_SLOTS)[number];
+
+/** Player level each slot opens at (`SlotUnlockLevels`). */
+export const SLOT_UNLOCK_LEVELS: Record<DiceSlot, number> = {
+  weapon: 1,
+  bullet: 1,
+  attribute: 5,
+  helmet: 1,
+  mask: 10,
+  necklace: 1,
+  cloak: 15,
+  gloves: 1,
+  shield: 1,
+  boots: 1,
+};
+
+/** Aurous and Eternal can't come from the Dice Roll. */
+export const EQUIPMENT_RARITIES = [
+  "normal",
+  "unique",
+  "well",
+  "rare",
+  "mythic",
+  "epic",
+  "legendary",
+  "immortal",
+  "supreme",
+] as const satisfies readonly Rarity[];
+
+export type EquipmentRarity = (typeof EQUIPMENT_RARITIES)[number];
+
+export const isEquipmentRarity = (value: unknown): value is EquipmentRarity => EQUIPMENT_RARITIES.includes(value as EquipmentRarity);
+
+/** How much stronger a piece's base stats are at each rarity (`RarityMultipliers`). */
+export const RARITY_MULTIPLIERS: Record<EquipmentRarity, number> = {
+  normal: 1,
+  unique: 1.15,
+  well: 1.35,
+  rare: 1.6,
+  mythic: 2,
+  epic: 2.5,
+  legendary: 3.5,
+  immortal: 5,
+  supreme: 7.5,
+};
+
+/**
+ * Base stats of a Normal piece in each slot, before the rarity multiplier.
+ * Placeholder values until the equipment balance sheet is final; `/planner`
+ * says so above the calculator, so drop that notice when these are real.
+ */
+export const SLOT_BASE_STATS: Record<DiceSlot, StatBlock> = {
+  weapon: { atk: 20 },
+  bullet: { atk: 10 },
+  attribute: { attrDmg: 2 },
+  helmet: { hp: 50 },
+  mask: { def: 3 },
+  necklace: { atk: 6 },
+  cloak: { def: 4 },
+  gloves: { atkSpeed: 0.01 },
+  shield: { def: 6 },
+  boots: { moveSpeed: 0.01 },
+};
+
+/** Each piece rolls this many different sub-attributes. */
+export const MAX_SUB_ATTRIBUTES = 2;
+
+/** `RollableSubAttributes`, in the game's order. */
+export const SUB_ATTRIBUTES = [
+  "basicAtkCrit",
+  "skillCrit",
+  "palCrit",
+  "attrDmg",
+  "bossDmgRed",
+  "evasion",
+  "regenPerSec",
+] as const satisfies readonly Attribute[];
+
+export type SubAttribute = (typeof SUB_ATTRIBUTES)[number];
+
+export const isSubAttribute = (value: unknown): value is SubAttribute => SUB_ATTRIBUTES.includes(value as SubAttribute);
+
+/** The range a sub-attribute rolls in at each rarity. */
+export const SUB_ATTRIBUTE_RANGES: Record<EquipmentRarity, { min: number, max: number }> = {
+  normal: { min: 0.5, max: 1 },
+  unique: { min: 1, max: 2 },
+  well: { min: 1.5, max: 3 },
+  rare: { min: 2, max: 4 },
+  mythic: { min: 3, max: 6 },
+  epic: { min: 4, max: 8 },
+  legendary: { min: 5, max: 10 },
+  immortal: { min: 7, max: 14 },
+  supreme: { min: 10, max: 20 },
+};
+
+/** A piece's base stats at `rarity`. */
+export function slotStats(slot: DiceSlot, rarity: EquipmentRarity): StatBlock {
+  const stats: StatBlock = {};
+  for (const [attribute, value] of Object.entries(SLOT_BASE_STATS[slot]) as [Attribute, number][]) {
+    stats[attribute] = value * RARITY_MULTIPLIERS[rarity];
+  }
+  return stats;
+}
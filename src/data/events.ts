@@ -0,0 +1,183 @@
+/**
+ * Live events and battle pass seasons, mirroring `Event` and `BattlePass` in
+ * the game server (docs/ARCH.md, "Daily/Weekly Events" and "Battle Pass").
+ * The `/events` calendar renders this file, and `src/server/calendar.ts`
+ * turns it into the `.ics` feeds under `/api/events/`. Times are ISO 8601 in
+ * UTC; the page shows them in the viewer's own timezone.
+ */
+
+/** `EventType`, plus battle pass seasons, which share the calendar. */
+export const EVENT_TYPES = ["login", "spending", "progress", "pvp", "collect", "limited", "battlePass"] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export interface EventTask {
+  description: string;
+  /** How many times it has to be done. */
+  target: number;
+}
+
+export interface EventMilestone {
+  /** Progress towards the task's `target` needed to reach it. */
+  progress: number;
+  rewards: string[];
+}
+
+export interface LiveEvent {
+  /**
+   * Also the anchor on the calendar (`/events#<id>`) and the download name
+   * (`/api/events/<id>.ics`). Calendar apps use it to update their copy, so
+   * never change it once published.
+   */
+  id: string;
+  type: Exclude<EventType, "battlePass">;
+  name: string;
+  description: string;
+  startTime: string;
+  endTime: string;
+  tasks: EventTask[];
+  milestones: EventMilestone[];
+}
+
+export interface BattlePassSeason {
+  /** `SeasonID`; shown on the calendar as `battle-pass-<id>`. */
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  maxLevel: number;
+  xpPerLevel: number;
+  /** Gems. */
+  premiumPrice: number;
+}
+
+export const LIVE_EVENTS: LiveEvent[] = [
+  {
+    id: "closed-beta-weekend",
+    type: "limited",
+    name: "Closed Beta Weekend",
+    description: "Our first public test. Every tester who reaches level 10 keeps an exclusive frame at launch.",
+    startTime: "2026-09-18T16:00:00Z",
+    endTime: "2026-09-21T04:00:00Z",
+    tasks: [{ description: "Reach player level 10", target: 1 }],
+    milestones: [{ progress: 1, rewards: ["Beta Tester frame"] }],
+  },
+  {
+    id: "open-beta-stage-rush",
+    type: "progress",
+    name: "Open Beta Stage Rush",
+    description: "Clear as many stages as you can during the open beta. Rewards are sent to your account at launch.",
+    startTime: "2026-10-12T16:00:00Z",
+    endTime: "2026-10-26T16:00:00Z",
+    tasks: [{ description: "Clear stages", target: 30 }],
+    milestones: [
+      { progress: 10, rewards: ["300 Gems"] },
+      { progress: 20, rewards: ["600 Gems", "Summon Ticket ×1"] },
+      { progress: 30, rewards: ["Summon Ticket ×5", "Stage Rusher title"] },
+    ],
+  },
+  {
+    id: "launch-login-festival",
+    type: "login",
+    name: "Launch Login Festival",
+    description: "Log in each day of launch week to pick up a daily gift, with a Legendary Pal on day 7.",
+    startTime: "2026-12-01T00:00:00Z",
+    endTime: "2026-12-15T00:00:00Z",
+    tasks: [{ description: "Log in", target: 7 }],
+    milestones: [
+      { progress: 1, rewards: ["10,000 Gold"] },
+      { progress: 3, rewards: ["Summon Ticket ×3"] },
+      { progress: 7, rewards: ["Legendary Pal Selector"] },
+    ],
+  },
+  {
+    id: "first-arena-clash",
+    type: "pvp",
+    name: "First Arena Clash",
+    description: "The arena opens. Win battles during the first week to earn the launch arena banner.",
+    startTime: "2026-12-05T00:00:00Z",
+    endTime: "2026-12-12T00:00:00Z",
+    tasks: [{ description: "Win arena battles", target: 20 }],
+    milestones: [
+      { progress: 5, rewards: ["Arena Coins ×200"] },
+      { progress: 10, rewards: ["Arena Coins ×500"] },
+      { progress: 20, rewards: ["Gladiator's Banner", "1,000 Gems"] },
+    ],
+  },
+  {
+    id: "gem-spree",
+    type: "spending",
+    name: "Gem Spree",
+    description: "Spend Gems anywhere in the game and get some back as bonus rewards.",
+    startTime: "2026-12-12T00:00:00Z",
+    endTime: "2026-12-19T00:00:00Z",
+    tasks: [{ description: "Spend Gems", target: 3000 }],
+    milestones: [
+      { progress: 1000, rewards: ["Summon Ticket ×1"] },
+      { progress: 3000, rewards: ["Summon Ticket ×3", "Epic Equipment Chest"] },
+    ],
+  },
+  {
+    id: "winter-gathering",
+    type: "collect",
+    name: "Winter Gathering",
+    description: "Snowflakes drop from every stage over the holidays. Trade them in for winter rewards.",
+    startTime: "2026-12-19T00:00:00Z",
+    endTime: "2027-01-05T00:00:00Z",
+    tasks: [{ description: "Collect Snowflakes", target: 500 }],
+    milestones: [
+      { progress: 100, rewards: ["5,000 Gold"] },
+      { progress: 250, rewards: ["Summon Ticket ×2"] },
+      { progress: 500, rewards: ["Frostbound cosmetic set"] },
+    ],
+  },
+];
+
+export const BATTLE_PASS_SEASONS: BattlePassSeason[] = [
+  {
+    id: "s1",
+    name: "Season 1: Dawn of Mythics",
+    startTime: "2026-12-01T00:00:00Z",
+    endTime: "2027-02-01T00:00:00Z",
+    maxLevel: 50,
+    xpPerLevel: 1000,
+    premiumPrice: 980,
+  },
+];
+
+/** One row on the calendar: a live event, or a battle pass season (which has no tasks or milestones). */
+export interface CalendarEntry extends Omit<LiveEvent, "type"> {
+  type: EventType;
+}
+
+/** Every event and season, earliest start first. */
+export function calendarEntries(): CalendarEntry[] {
+  const seasons = BATTLE_PASS_SEASONS.map((season): CalendarEntry => ({
+    id: `battle-pass-${season.id}`,
+    type: "battlePass",
+    name: season.name,
+    description: `Battle pass season with ${season.maxLevel} levels of free and premium rewards.`,
+    startTime: season.startTime,
+    endTime: season.endTime,
+    tasks: [],
+    milestones: [],
+  }));
+  return [...LIVE_EVENTS, ...seasons].sort(
+    (a, b) => a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime),
+  );
+}
+
+/** The subscribable feed with every entry; `src/server/calendar.ts` renders it. */
+export const EVENTS_CALENDAR_PATH = "/api/events/calendar.ics";
+
+/** A single entry as its own `.ics` file, for "add to calendar". */
+export const eventCalendarPath = (id: string) => `/api/events/${id}.ics`;
+
+export const EVENT_STATUSES = ["live", "upcoming", "past"] as const;
+
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+export function eventStatus(entry: { startTime: string, endTime: string }, now: number): EventStatus {
+  if (now < Date.parse(entry.startTime)) return "upcoming";
+  return now < Date.parse(entry.endTime) ? "live" : "past";
+}
@@ -0,0 +1,74 @@
+import type { SupportCategory } from "../lib/support";
+
+export interface FaqEntry {
+  id: string;
+  category: SupportCategory;
+  question: string;
+  answer: string;
+}
+
+export const FAQ: FaqEntry[] = [
+  {
+    id: "link-account",
+    category: "account",
+    question: "How do I keep my progress if I switch phones?",
+    answer:
+      "Link your account to Game Center, Google Play Games or an email login from Settings > Account. Once linked, sign in with the same method on your new device and your hero, Pals and items will be restored.",
+  },
+  {
+    id: "guest-account",
+    category: "account",
+    question: "I played as a guest and reinstalled the game. Can I recover my account?",
+    answer:
+      "Guest progress is stored on the device only. If you still have your Player ID (shown in Settings), send us a ticket with it and we'll do our best to help.",
+  },
+  {
+    id: "delete-account",
+    category: "account",
+    question: "How do I delete my account and data?",
+    answer:
+      "Go to Settings > Account > Delete Account. Deletion is permanent after a 14-day grace period; signing back in during that time cancels the request.",
+  },
+  {
+    id: "missing-purchase",
+    category: "purchases",
+    question: "I bought gems but didn't receive them.",
+    answer:
+      "Restart the game first: pending purchases are re-checked at login. If they still haven't arrived after an hour, open a ticket with your Player ID and the receipt or order number from your store.",
+  },
+  {
+    id: "refunds",
+    category: "purchases",
+    question: "Can I get a refund?",
+    answer:
+      "Purchases are processed by Apple and Google, so refunds must be requested through the App Store or Google Play. Refunded items will be removed from your account.",
+  },
+  {
+    id: "battle-pass",
+    category: "purchases",
+    question: "Does the Battle Pass carry over between seasons?",
+    answer:
+      "No. Unclaimed Battle Pass rewards are mailed to you when the season ends, but progress and premium status reset with each new season.",
+  },
+  {
+    id: "crash-on-launch",
+    category: "bugs",
+    question: "The game crashes when I open it.",
+    answer:
+      "Make sure the app and your OS are up to date and that you have at least 1 GB of free storage. If it keeps crashing, send a ticket with your device model and OS version.",
+  },
+  {
+    id: "lag",
+    category: "bugs",
+    question: "Battles feel laggy or I keep disconnecting.",
+    answer:
+      "Mini Mythics needs a stable connection during arena and co-op battles. Try switching between Wi-Fi and mobile data. If the problem persists, tell us your region and the time it happened.",
+  },
+  {
+    id: "report-bug",
+    category: "bugs",
+    question: "How do I report a bug?",
+    answer:
+      "Use the contact form below and choose the Bugs category. Screenshots, your Player ID and steps to reproduce help us fix things much faster.",
+  },
+];
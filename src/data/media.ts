@@ -0,0 +1,75 @@
+/**
+ * Media manifest: the single list of screenshots, concept art, wallpapers and
+ * trailers. The `/media` page imports it directly and `/api/v1/media` serves it
+ * as JSON for the launcher and other tools, so add new assets here only.
+ */
+
+export const MEDIA_CATEGORIES = ["screenshots", "concept-art", "wallpapers", "trailers"] as const;
+
+export type MediaCategory = (typeof MEDIA_CATEGORIES)[number];
+
+interface MediaBase {
+  id: string;
+  category: MediaCategory;
+  caption: string;
+  /** Publication date, `YYYY-MM-DD`. */
+  date: string;
+  /** Thumbnail/poster image, relative to the site root. */
+  thumbnail: string;
+  width: number;
+  height: number;
+}
+
+export interface MediaImage extends MediaBase {
+  type: "image";
+  src: string;
+}
+
+export interface MediaVideo extends MediaBase {
+  type: "video";
+  /** Self-hosted video file, relative to the site root. */
+  src: string;
+}
+
+export type MediaItem = MediaImage | MediaVideo;
+
+export const MEDIA: MediaItem[] = [
+  {
+    id: "heroes-lineup",
+    type: "image",
+    category: "concept-art",
+    caption: "The starting heroes, ready to pick their evolution path.",
+    date: "2025-11-14",
+    src: "/images/characters.png",
+    thumbnail: "/images/characters.png",
+    width: 1080,
+    height: 1080,
+  },
+  {
+    id: "first-boss",
+    type: "image",
+    category: "concept-art",
+    caption: "Concept art for the first boss encounter.",
+    date: "2025-12-05",
+    src: "/images/boss.png",
+    thumbnail: "/images/boss.png",
+    width: 1365,
+    height: 768,
+  },
+  {
+    id: "logo-wallpaper",
+    type: "image",
+    category: "wallpapers",
+    caption: "Mini Mythics logo wallpaper.",
+    date: "2025-12-17",
+    src: "/images/logo3.png",
+    thumbnail: "/images/logo3.png",
+    width: 1344,
+    height: 756,
+  },
+];
+
+/** Newest first, the order the gallery and API present items in. */
+export function sortedMedia(items: MediaItem[] = MEDIA): MediaItem[] {
+  return [...items].sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,405 @@
+import { byRarityDescending, type Rarity } from "../lib/rarity";
+import type { StatBlock } from "./attributes";
+
+/**
+ * Pal (companion) definitions, shaped like `Pal` in the game server
+ * (docs/ARCH.md, "Pal System"). The `/companions` bestiary renders this file.
+ * ARCH.md only defines the struct, not the roster, so every Pal below is
+ * provisional: names, stats and buffs are placeholders until the game data
+ * is final, and the companion pages say so. Replace them from a real export
+ * and drop the `companions.provisional` notice then. The full roster size is
+ * `TOTAL_PALS`.
+ */
+
+/** Pals only come in the first eight of the 11 rarity tiers. */
+export const PAL_RARITIES = ["normal", "unique", "well", "rare", "mythic", "epic", "legendary", "immortal"] as const satisfies readonly Rarity[];
+
+export type PalRarity = (typeof PAL_RARITIES)[number];
+
+/** Planned roster size per rarity. */
+export const PAL_COUNT_BY_RARITY: Record<PalRarity, number> = {
+  normal: 3,
+  unique: 4,
+  well: 7,
+  rare: 8,
+  mythic: 10,
+  epic: 11,
+  legendary: 13,
+  immortal: 6,
+};
+
+export const TOTAL_PALS = 62;
+
+export const PAL_TYPES = ["attack", "defense", "support", "utility"] as const;
+
+export type PalType = (typeof PAL_TYPES)[number];
+
+/** Matches the game's damage types. */
+export const PAL_ELEMENTS = ["physical", "fire", "ice", "lightning", "poison"] as const;
+
+export type PalElement = (typeof PAL_ELEMENTS)[number];
+
+export const PAL_MAX_LEVEL = 100;
+export const PAL_MAX_STARS = 5;
+export const MAX_DEPLOYED_PALS = 5;
+
+export interface PalSkill {
+  id: string;
+  name: string;
+  description: string;
+  /** Seconds. */
+  cooldown: number;
+}
+
+export interface PalPassive {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/** How the Pal's AI moves and picks targets (`PalAI` on the server), in world units. */
+export interface PalBehavior {
+  /** Distance kept from the owner while idle. */
+  followDistance: number;
+  attackRange: number;
+  /** Enemies closer than this are targeted, nearest first. */
+  aggroRange: number;
+  summary: string;
+}
+
+export interface Pal {
+  /** Also the URL slug: `/companions/<id>`. */
+  id: string;
+  name: string;
+  /** Placeholder portrait until the sprite art ships. */
+  emoji: string;
+  description: string;
+  rarity: PalRarity;
+  type: PalType;
+  element: PalElement;
+  baseHp: number;
+  baseAtk: number;
+  baseDef: number;
+  baseAtkSpeed: number;
+  skill: PalSkill;
+  passive: PalPassive;
+  /** Bonuses granted to the owner while the Pal is deployed. */
+  ownerBuffs: StatBlock;
+  behavior: PalBehavior;
+}
+
+export const PALS: Pal[] = [
+  {
+    id: "puffball",
+    name: "Puffball",
+    emoji: "🐣",
+    description: "A fluffy chick that pecks at anything that gets too close.",
+    rarity: "normal",
+    type: "attack",
+    element: "physical",
+    baseHp: 180,
+    baseAtk: 24,
+    baseDef: 8,
+    baseAtkSpeed: 1.0,
+    skill: { id: "pal_skill_peck_flurry", name: "Peck Flurry", description: "Pecks the target three times in a row.", cooldown: 8 },
+    passive: { id: "pal_passive_eager", name: "Eager", description: "Attacks 5% faster during the first 10 seconds of a battle." },
+    ownerBuffs: { atk: 5 },
+    behavior: { followDistance: 60, attackRange: 40, aggroRange: 220, summary: "Charges the nearest enemy and fights up close." },
+  },
+  {
+    id: "sproutling",
+    name: "Sproutling",
+    emoji: "🌱",
+    description: "A walking seedling that shares its sunshine with friends.",
+    rarity: "normal",
+    type: "support",
+    element: "poison",
+    baseHp: 220,
+    baseAtk: 14,
+    baseDef: 10,
+    baseAtkSpeed: 0.8,
+    skill: { id: "pal_skill_photosynthesis", name: "Photosynthesis", description: "Heals you for 3% of max HP.", cooldown: 12 },
+    passive: { id: "pal_passive_green_thumb", name: "Green Thumb", description: "Your regeneration is 5% stronger." },
+    ownerBuffs: { regenPerSec: 2 },
+    behavior: { followDistance: 40, attackRange: 160, aggroRange: 200, summary: "Stays at your side and tosses thorny seeds from range." },
+  },
+  {
+    id: "ember-pup",
+    name: "Ember Pup",
+    emoji: "🐶",
+    description: "A playful puppy whose tail smoulders when it gets excited.",
+    rarity: "unique",
+    type: "attack",
+    element: "fire",
+    baseHp: 240,
+    baseAtk: 34,
+    baseDef: 12,
+    baseAtkSpeed: 1.1,
+    skill: { id: "pal_skill_fire_fetch", name: "Fire Fetch", description: "Dashes through enemies, leaving a trail of flames.", cooldown: 9 },
+    passive: { id: "pal_passive_warm_fur", name: "Warm Fur", description: "Attacks have a 10% chance to burn for 3 seconds." },
+    ownerBuffs: { atk: 8, attrDmg: 2 },
+    behavior: { followDistance: 70, attackRange: 45, aggroRange: 260, summary: "Bounds ahead to pick fights before you reach them." },
+  },
+  {
+    id: "frost-bunny",
+    name: "Frost Bunny",
+    emoji: "🐰",
+    description: "Hops so fast it leaves frosty footprints behind.",
+    rarity: "unique",
+    type: "utility",
+    element: "ice",
+    baseHp: 210,
+    baseAtk: 26,
+    baseDef: 14,
+    baseAtkSpeed: 1.2,
+    skill: { id: "pal_skill_snow_hop", name: "Snow Hop", description: "Stomps the ground, slowing nearby enemies by 20% for 3 seconds.", cooldown: 10 },
+    passive: { id: "pal_passive_light_feet", name: "Light Feet", description: "You move 3% faster." },
+    ownerBuffs: { moveSpeed: 0.03 },
+    behavior: { followDistance: 50, attackRange: 50, aggroRange: 200, summary: "Darts around your feet and slows anything that gives chase." },
+  },
+  {
+    id: "spark-squirrel",
+    name: "Spark Squirrel",
+    emoji: "🐿️",
+    description: "Collects static in its tail and lets it all out at once.",
+    rarity: "well",
+    type: "attack",
+    element: "lightning",
+    baseHp: 260,
+    baseAtk: 46,
+    baseDef: 14,
+    baseAtkSpeed: 1.3,
+    skill: { id: "pal_skill_acorn_bolt", name: "Acorn Bolt", description: "Throws a charged acorn that chains to two more enemies.", cooldown: 8 },
+    passive: { id: "pal_passive_static_tail", name: "Static Tail", description: "Every fifth attack deals 50% bonus lightning damage." },
+    ownerBuffs: { palCrit: 3 },
+    behavior: { followDistance: 60, attackRange: 180, aggroRange: 280, summary: "Perches behind you and pelts enemies from range." },
+  },
+  {
+    id: "shell-turtle",
+    name: "Shell Turtle",
+    emoji: "🐢",
+    description: "Slow and steady, and very hard to knock over.",
+    rarity: "well",
+    type: "defense",
+    element: "physical",
+    baseHp: 520,
+    baseAtk: 20,
+    baseDef: 40,
+    baseAtkSpeed: 0.7,
+    skill: { id: "pal_skill_shell_wall", name: "Shell Wall", description: "Blocks the next hit you would take within 5 seconds.", cooldown: 15 },
+    passive: { id: "pal_passive_sturdy", name: "Sturdy", description: "You take 3% less damage." },
+    ownerBuffs: { def: 15, totalDmgRed: 3 },
+    behavior: { followDistance: 30, attackRange: 40, aggroRange: 150, summary: "Sticks close and steps in front of incoming attacks." },
+  },
+  {
+    id: "venom-toad",
+    name: "Venom Toad",
+    emoji: "🐸",
+    description: "Its croak is harmless. Its tongue is not.",
+    rarity: "rare",
+    type: "attack",
+    element: "poison",
+    baseHp: 340,
+    baseAtk: 64,
+    baseDef: 20,
+    baseAtkSpeed: 1.0,
+    skill: { id: "pal_skill_toxic_tongue", name: "Toxic Tongue", description: "Lashes an enemy, poisoning it for 40% ATK per second for 5 seconds.", cooldown: 9 },
+    passive: { id: "pal_passive_corrosive", name: "Corrosive", description: "Poisoned enemies take 8% more damage from you." },
+    ownerBuffs: { attrDmg: 5 },
+    behavior: { followDistance: 80, attackRange: 120, aggroRange: 260, summary: "Hops between targets to keep as many poisoned as possible." },
+  },
+  {
+    id: "glacier-penguin",
+    name: "Glacier Penguin",
+    emoji: "🐧",
+    description: "Belly-slides into battle and freezes whatever it hits.",
+    rarity: "rare",
+    type: "defense",
+    element: "ice",
+    baseHp: 640,
+    baseAtk: 32,
+    baseDef: 52,
+    baseAtkSpeed: 0.8,
+    skill: { id: "pal_skill_belly_slide", name: "Belly Slide", description: "Slides through a line of enemies, freezing them for 1.5 seconds.", cooldown: 12 },
+    passive: { id: "pal_passive_cold_blooded", name: "Cold Blooded", description: "Frozen enemies deal 15% less damage." },
+    ownerBuffs: { hp: 120, bossDmgRed: 3 },
+    behavior: { followDistance: 40, attackRange: 45, aggroRange: 180, summary: "Guards your flank and freezes anything that rushes you." },
+  },
+  {
+    id: "storm-hawk",
+    name: "Storm Hawk",
+    emoji: "🦅",
+    description: "Rides the thunderheads and dives faster than sound.",
+    rarity: "mythic",
+    type: "attack",
+    element: "lightning",
+    baseHp: 380,
+    baseAtk: 92,
+    baseDef: 22,
+    baseAtkSpeed: 1.4,
+    skill: { id: "pal_skill_thunder_dive", name: "Thunder Dive", description: "Dives onto the strongest enemy nearby for 300% ATK.", cooldown: 10 },
+    passive: { id: "pal_passive_tailwind", name: "Tailwind", description: "Pal attack speed +5% for your whole team." },
+    ownerBuffs: { palAtkSpeed: 0.05, palCritDmg: 10 },
+    behavior: { followDistance: 120, attackRange: 200, aggroRange: 360, summary: "Circles overhead and strikes the toughest target in sight." },
+  },
+  {
+    id: "moss-golem",
+    name: "Moss Golem",
+    emoji: "🗿",
+    description: "An ancient guardian overgrown with moss and patience.",
+    rarity: "mythic",
+    type: "defense",
+    element: "physical",
+    baseHp: 980,
+    baseAtk: 40,
+    baseDef: 80,
+    baseAtkSpeed: 0.6,
+    skill: { id: "pal_skill_taunt_quake", name: "Taunting Quake", description: "Forces nearby enemies to attack the golem for 4 seconds.", cooldown: 14 },
+    passive: { id: "pal_passive_overgrowth", name: "Overgrowth", description: "Regenerates 2% of its max HP per second." },
+    ownerBuffs: { hp: 250, totalDmgRed: 4 },
+    behavior: { followDistance: 50, attackRange: 50, aggroRange: 200, summary: "Plants itself between you and the crowd and soaks up hits." },
+  },
+  {
+    id: "kitsune",
+    name: "Kitsune",
+    emoji: "🦊",
+    description: "A clever fox spirit that bends foxfire to its will.",
+    rarity: "epic",
+    type: "utility",
+    element: "fire",
+    baseHp: 460,
+    baseAtk: 110,
+    baseDef: 34,
+    baseAtkSpeed: 1.2,
+    skill: { id: "pal_skill_foxfire", name: "Foxfire", description: "Summons three wisps that seek enemies for 120% ATK each.", cooldown: 9 },
+    passive: { id: "pal_passive_illusion", name: "Illusion", description: "You have a 5% chance to dodge attacks." },
+    ownerBuffs: { evasion: 5, attrDmg: 6 },
+    behavior: { followDistance: 80, attackRange: 220, aggroRange: 320, summary: "Keeps its distance and harries enemies with wisps." },
+  },
+  {
+    id: "night-owl",
+    name: "Night Owl",
+    emoji: "🦉",
+    description: "Sees every weakness in the dark and whispers it to you.",
+    rarity: "epic",
+    type: "support",
+    element: "poison",
+    baseHp: 420,
+    baseAtk: 70,
+    baseDef: 30,
+    baseAtkSpeed: 1.0,
+    skill: { id: "pal_skill_hunters_mark", name: "Hunter's Mark", description: "Marks an enemy; it takes 20% more damage for 6 seconds.", cooldown: 12 },
+    passive: { id: "pal_passive_wisdom", name: "Wisdom", description: "Your skills recharge 6% faster." },
+    ownerBuffs: { skillRechargeSpeed: 0.06, skillCrit: 4 },
+    behavior: { followDistance: 90, attackRange: 240, aggroRange: 340, summary: "Watches from above and marks the most dangerous enemy." },
+  },
+  {
+    id: "phoenix",
+    name: "Phoenix",
+    emoji: "🔥",
+    description: "A firebird that has risen from its own ashes a thousand times.",
+    rarity: "legendary",
+    type: "support",
+    element: "fire",
+    baseHp: 1330,
+    baseAtk: 465,
+    baseDef: 152,
+    baseAtkSpeed: 1.2,
+    skill: { id: "pal_skill_rebirth_flame", name: "Rebirth Flame", description: "Deals fire damage and heals you for 10% of the damage dealt.", cooldown: 10 },
+    passive: { id: "pal_passive_phoenix_blessing", name: "Phoenix Blessing", description: "Revive once per battle with 30% HP." },
+    ownerBuffs: { atk: 60, regenPerSec: 15 },
+    behavior: { followDistance: 100, attackRange: 220, aggroRange: 340, summary: "Soars overhead, burning enemies and mending you as it goes." },
+  },
+  {
+    id: "thunder-dragon",
+    name: "Thunder Dragon",
+    emoji: "🐉",
+    description: "Its roar is the thunder; its breath is the lightning.",
+    rarity: "legendary",
+    type: "attack",
+    element: "lightning",
+    baseHp: 1200,
+    baseAtk: 520,
+    baseDef: 140,
+    baseAtkSpeed: 1.0,
+    skill: { id: "pal_skill_storm_breath", name: "Storm Breath", description: "Breathes a cone of lightning for 450% ATK.", cooldown: 11 },
+    passive: { id: "pal_passive_draconic_might", name: "Draconic Might", description: "Pal damage +12% for your whole team." },
+    ownerBuffs: { palCritDmg: 20, bossDmg: 6 },
+    behavior: { followDistance: 120, attackRange: 200, aggroRange: 380, summary: "Seeks out packs of enemies and scorches them all at once." },
+  },
+  {
+    id: "fenrir",
+    name: "Fenrir",
+    emoji: "🐺",
+    description: "The great wolf of the frozen north, loyal to the end.",
+    rarity: "legendary",
+    type: "attack",
+    element: "ice",
+    baseHp: 1400,
+    baseAtk: 490,
+    baseDef: 170,
+    baseAtkSpeed: 1.3,
+    skill: { id: "pal_skill_glacial_fang", name: "Glacial Fang", description: "Bites for 350% ATK and freezes the target for 2 seconds.", cooldown: 9 },
+    passive: { id: "pal_passive_pack_leader", name: "Pack Leader", description: "Other deployed Pals gain 8% ATK." },
+    ownerBuffs: { palCrit: 6, moveSpeed: 0.05 },
+    behavior: { followDistance: 70, attackRange: 55, aggroRange: 320, summary: "Leads the pack into melee and pins down fleeing enemies." },
+  },
+  {
+    id: "celestial-kirin",
+    name: "Celestial Kirin",
+    emoji: "🦄",
+    description: "A sacred beast said to appear only to heroes of pure heart.",
+    rarity: "immortal",
+    type: "support",
+    element: "lightning",
+    baseHp: 2100,
+    baseAtk: 620,
+    baseDef: 260,
+    baseAtkSpeed: 1.1,
+    skill: { id: "pal_skill_heavens_blessing", name: "Heaven's Blessing", description: "Grants you and your Pals 25% damage for 6 seconds.", cooldown: 18 },
+    passive: { id: "pal_passive_purity", name: "Purity", description: "Cleanses one debuff from you every 8 seconds." },
+    ownerBuffs: { atk: 120, skillCritDmg: 15, totalDmgRed: 5 },
+    behavior: { followDistance: 60, attackRange: 200, aggroRange: 320, summary: "Stays close, keeping you blessed and free of debuffs." },
+  },
+  {
+    id: "seraph",
+    name: "Seraph",
+    emoji: "👼",
+    description: "A guardian of the heavens that descends for the realm's greatest battles.",
+    rarity: "immortal",
+    type: "defense",
+    element: "physical",
+    baseHp: 2600,
+    baseAtk: 480,
+    baseDef: 340,
+    baseAtkSpeed: 0.9,
+    skill: { id: "pal_skill_divine_aegis", name: "Divine Aegis", description: "Shields you for 20% of the Seraph's max HP for 8 seconds.", cooldown: 16 },
+    passive: { id: "pal_passive_guardian_wings", name: "Guardian Wings", description: "You take 12% less damage from bosses." },
+    ownerBuffs: { hp: 600, bossDmgRed: 12 },
+    behavior: { followDistance: 35, attackRange: 60, aggroRange: 220, summary: "Hovers at your shoulder and intercepts the biggest hits." },
+  },
+];
+
+const PALS_BY_ID = new Map(PALS.map(pal => [pal.id, pal]));
+
+export const getPal = (id: string) => PALS_BY_ID.get(id);
+
+/** Highest rarity first, then by name. */
+export function sortedPals(): Pal[] {
+  return [...PALS].sort(
+    (a, b) => byRarityDescending(a.rarity, b.rarity) || a.name.localeCompare(b.name),
+  );
+}
+
+/** Stats at a given level and star count (`PlayerPal.CalculateStats` on the server). */
+export function palStats(pal: Pal, level: number, stars: number) {
+  const levelMultiplier = 1 + (level - 1) * 0.02;
+  const starMultiplier = 1 + (stars - 1) * 0.15;
+  const multiplier = levelMultiplier * starMultiplier;
+  return {
+    hp: Math.round(pal.baseHp * multiplier),
+    atk: Math.round(pal.baseAtk * multiplier),
+    def: Math.round(pal.baseDef * multiplier),
+    atkSpeed: Math.round(pal.baseAtkSpeed * (1 + (level - 1) * 0.005) * 100) / 100,
+  };
+}
@@ -0,0 +1,107 @@
+import { byRarityDescending, type Rarity } from "../lib/rarity";
+import { ATTRIBUTES, type Attribute, type StatBlock } from "./attributes";
+import skills from "./skills.json";
+
+/**
+ * Collectible skills, mirroring `CollectibleSkill` in the game server
+ * (docs/ARCH.md, "Skill Collection"). The `/skills` database renders this
+ * file. The list itself lives in `skills.json`. Its numbers are provisional,
+ * written by hand until the game server has a skill data export; once it
+ * does, `bun run skills:import` (src/server/skills.ts) regenerates the file.
+ */
+
+/** Skills come in the first eight rarity tiers (`SkillRarity`). */
+export const SKILL_RARITIES = ["normal", "unique", "well", "rare", "mythic", "epic", "legendary", "immortal"] as const satisfies readonly Rarity[];
+
+export type SkillRarity = (typeof SKILL_RARITIES)[number];
+
+export const TOTAL_SKILLS = 30;
+
+/** `TargetType`, in the server's order. */
+export const TARGET_TYPES = ["self", "point", "enemy", "ally", "direction"] as const;
+
+export type TargetType = (typeof TARGET_TYPES)[number];
+
+/** `EffectType`, in the server's order. */
+export const SKILL_EFFECT_TYPES = ["damage", "heal", "buff", "debuff", "stun", "slow", "knockback", "dash", "summon", "shield"] as const;
+
+export type SkillEffectType = (typeof SKILL_EFFECT_TYPES)[number];
+
+/** `DamageType` from `CalculateDamage`. True damage ignores DEF. */
+export const DAMAGE_TYPES = ["physical", "magical", "true"] as const;
+
+export type DamageType = (typeof DAMAGE_TYPES)[number];
+
+export interface SkillEffect {
+  type: SkillEffectType;
+  /** Slow is a fraction of move speed (0.5 = 50%); the rest are flat amounts or distances. */
+  value: number;
+  /** Seconds; unset for instant effects. */
+  duration?: number;
+  /** 0–1, for effects that only proc some of the time. */
+  chance?: number;
+}
+
+/** A skill's numbers at one upgrade level. */
+export interface SkillLevel {
+  level: number;
+  baseDamage: number;
+  /** Fraction of each attribute added to the damage, e.g. `{ atk: 0.15 }` for +15% ATK. */
+  scaling: StatBlock;
+  /** Seconds. */
+  cooldown: number;
+  manaCost: number;
+  /** Cost to upgrade to this level from the one before (0 at level 1). */
+  gold: number;
+  fragments: number;
+}
+
+export interface Skill {
+  /** The game's id, also the URL slug: `/skills/<id>`. */
+  id: string;
+  name: string;
+  description: string;
+  rarity: SkillRarity;
+  /** Placeholder icon until the skill art ships. */
+  icon: string;
+  targetType: TargetType;
+  range: number;
+  /** 0 for single-target skills. */
+  areaRadius: number;
+  /** Unset for skills that don't deal damage. */
+  damageType?: DamageType;
+  effects: SkillEffect[];
+  /** Level 1 first; the last entry is the max level. */
+  levels: SkillLevel[];
+}
+
+export const SKILLS = skills as Skill[];
+
+const SKILLS_BY_ID = new Map(SKILLS.map(skill => [skill.id, skill]));
+
+export const getSkill = (id: string) => SKILLS_BY_ID.get(id);
+
+/** Highest rarity first, then by name. */
+export function sortedSkills(): Skill[] {
+  return [...SKILLS].sort(
+    (a, b) => byRarityDescending(a.rarity, b.rarity) || a.name.localeCompare(b.name),
+  );
+}
+
+/** `+15% ATK`, the way the skill tab shows scaling. Empty for skills that don't scale. */
+export function formatScaling(scaling: StatBlock): string {
+  return (Object.entries(scaling) as [Attribute, number][])
+    .map(([attribute, ratio]) => `+${Math.round(ratio * 1000) / 10}% ${ATTRIBUTES[attribute].label}`)
+    .join(", ");
+}
+
+/** Cooldown filter buckets on `/skills`: each holds level 1 cooldowns below its limit in seconds. */
+export const COOLDOWN_BANDS = { short: 5, medium: 15, long: Infinity } as const;
+
+export type CooldownBand = keyof typeof COOLDOWN_BANDS;
+
+export const cooldownBand = (skill: Skill): CooldownBand =>
+  (Object.keys(COOLDOWN_BANDS) as CooldownBand[]).find(band => skill.levels[0]!.cooldown < COOLDOWN_BANDS[band])!;
+
+/** How many skills `/skills` lets players compare side by side. */
+export const MAX_COMPARED_SKILLS = 3;
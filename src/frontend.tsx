@@ -2,12 +2,14 @@
  * This file is the entry point for the React app, it sets up the root
  * element and renders the App component to the DOM.
  *
- * It is included in `src/index.html`.
+ * It is included in `src/index.html`. Production pages are prerendered by
+ * `build.ts`, so when the root already has markup we hydrate it instead.
  */
 
 import { StrictMode } from "react";
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import { App } from "./App";
+import { readPreloadedFromDocument } from "./lib/preload";
 
 const elem = document.getElementById("root")!;
 const app = (
@@ -20,6 +22,10 @@ if (import.meta.hot) {
   // With hot module reloading, `import.meta.hot.data` is persisted.
   const root = (import.meta.hot.data.root ??= createRoot(elem));
   root.render(app);
+} else if (elem.hasChildNodes()) {
+  // Pages prerendered by build.ts ship their markup and data; hydrate them.
+  readPreloadedFromDocument();
+  hydrateRoot(elem, app);
 } else {
   // The hot module reloading API is not available in production.
   createRoot(elem).render(app);
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState, type DependencyList } from "react";
+
+interface AsyncState<T> {
+  data: T | undefined;
+  error: unknown;
+  loading: boolean;
+}
+
+/**
+ * Runs `load` whenever `deps` change and tracks its result. Responses that
+ * arrive after the component unmounts or the deps change are ignored.
+ *
+ * Pass `initial` (typically from `getPreloaded`) to render with data straight
+ * away; the first load is then skipped, unless `revalidate` is set, in which
+ * case it runs in the background and replaces `initial` when it arrives.
+ */
+export function useAsync<T>(load: () => Promise<T>, deps: DependencyList, initial?: T, revalidate = false): AsyncState<T> {
+  const [state, setState] = useState<AsyncState<T>>(() =>
+    initial === undefined
+      ? { data: undefined, error: undefined, loading: true }
+      : { data: initial, error: undefined, loading: false },
+  );
+  const skipNext = useRef(initial !== undefined && !revalidate);
+  const background = useRef(initial !== undefined && revalidate);
+
+  useEffect(() => {
+    if (skipNext.current) {
+      skipNext.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    const quiet = background.current;
+    background.current = false;
+    if (!quiet) setState(prev => ({ ...prev, loading: true, error: undefined }));
+    load().then(
+      data => !cancelled && setState({ data, error: undefined, loading: false }),
+      // A failed background refresh keeps showing the initial data.
+      error => !cancelled && !quiet && setState({ data: undefined, error, loading: false }),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, deps);
+
+  return state;
+}
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { MAX_COMPARED_SKILLS, getSkill, type Skill } from "../data/skills";
+
+const COMPARE_PARAM = "compare";
+
+/**
+ * The skills pinned for side-by-side comparison on `/skills`. They live in
+ * the query string (`?compare=fireball,meteor`) so a comparison can be
+ * shared, and links between the list and detail pages carry them along via
+ * `search`.
+ */
+export function useComparedSkills() {
+  const [params, setParams] = useSearchParams();
+  const compared = useMemo(
+    () => (params.get(COMPARE_PARAM) ?? "")
+      .split(",")
+      .map(getSkill)
+      .filter((skill, i, all): skill is Skill => skill !== undefined && all.indexOf(skill) === i)
+      .slice(0, MAX_COMPARED_SKILLS),
+    [params],
+  );
+
+  const save = (skills: Skill[]) => setParams(current => {
+    const next = new URLSearchParams(current);
+    if (skills.length > 0) next.set(COMPARE_PARAM, skills.map(skill => skill.id).join(","));
+    else next.delete(COMPARE_PARAM);
+    return next;
+  }, { replace: true, preventScrollReset: true });
+
+  const isPinned = (skill: Skill) => compared.includes(skill);
+
+  return {
+    compared,
+    isPinned,
+    /** False once `MAX_COMPARED_SKILLS` are pinned; unpinning still works. */
+    canPin: compared.length < MAX_COMPARED_SKILLS,
+    toggle: (skill: Skill) => save(isPinned(skill) ? compared.filter(other => other !== skill) : [...compared, skill]),
+    clear: () => save([]),
+    /** `?compare=…` for links that should keep the pins, or `""`. */
+    search: compared.length > 0 ? `?${COMPARE_PARAM}=${compared.map(skill => skill.id).join(",")}` : "",
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The current time in milliseconds, updated every `interval`. It's `null`
+ * until the component mounts, so prerendered markup doesn't depend on when
+ * the site was built and hydration sees the same first render.
+ */
+export function useNow(interval = 1000): number | null {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+}
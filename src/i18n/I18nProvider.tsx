@@ -0,0 +1,69 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, type ReactNode } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { translate, type MessageKey, type MessageParams } from "./catalogs";
+import {
+    DEFAULT_LOCALE,
+    detectBrowserLocale,
+    getStoredLocale,
+    localizePath,
+    parseLocalePath,
+    storeLocale,
+    type Locale,
+} from "./locales";
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    /** Localizes an app path for the current locale, for use in `<Link to>`. */
+    path: (to: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Derives the active locale from the URL. Unprefixed (English) URLs are
+ * redirected to the visitor's saved or browser language the first time they
+ * land, unless they've explicitly chosen English before. The redirect runs
+ * after mount so prerendered English markup still hydrates cleanly.
+ */
+export function I18nProvider({ children }: { children: ReactNode }) {
+    const location = useLocation();
+    const navigate = useNavigate();
+    const { locale, path: currentPath } = parseLocalePath(location.pathname);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    useEffect(() => {
+        if (locale !== DEFAULT_LOCALE) return;
+        const preferred = getStoredLocale() ?? detectBrowserLocale() ?? DEFAULT_LOCALE;
+        if (preferred !== DEFAULT_LOCALE) {
+            navigate({ pathname: localizePath(currentPath, preferred), search: location.search, hash: location.hash }, { replace: true });
+        }
+        // Only on first load: afterwards the URL (or the switcher) decides.
+    }, []);
+
+    const setLocale = useCallback((next: Locale) => {
+        storeLocale(next);
+        navigate({ pathname: localizePath(currentPath, next), search: location.search, hash: location.hash });
+    }, [navigate, currentPath, location.search, location.hash]);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+        path: to => localizePath(to, locale),
+    }), [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error("useI18n must be used inside <I18nProvider>");
+    }
+    return context;
+}
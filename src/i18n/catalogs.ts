@@ -0,0 +1,18 @@
+import type { Locale } from "./locales";
+import { en, type MessageKey, type Messages } from "./messages/en";
+import { es } from "./messages/es";
+import { ja } from "./messages/ja";
+import { pt } from "./messages/pt";
+
+export type { MessageKey, Messages };
+
+export const catalogs: Record<Locale, Messages> = { en, es, pt, ja };
+
+export type MessageParams = Record<string, string | number>;
+
+/** Looks up `key` in the locale's catalog (falling back to English) and fills `{name}` placeholders. */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const message = catalogs[locale][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
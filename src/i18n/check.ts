@@ -0,0 +1,49 @@
+/**
+ * Verifies every locale catalog against the English source: no missing keys,
+ * no stray keys, no empty strings and the same `{placeholders}`. The
+ * `.before` / `.after` halves of split headings may be empty. Run with `bun run i18n:check`; build.ts runs it too and
+ * aborts the build on any problem.
+ */
+
+import { catalogs, type Messages } from "./catalogs";
+import { DEFAULT_LOCALE, LOCALES } from "./locales";
+
+const mayBeEmpty = (key: string) => key.endsWith(".before") || key.endsWith(".after");
+const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(",");
+
+export function checkCatalogs(): string[] {
+  const source = catalogs[DEFAULT_LOCALE];
+  const sourceKeys = Object.keys(source) as (keyof Messages)[];
+  const problems: string[] = [];
+
+  for (const { code } of LOCALES) {
+    if (code === DEFAULT_LOCALE) continue;
+    const catalog = catalogs[code];
+
+    for (const key of sourceKeys) {
+      const message = catalog[key];
+      if (typeof message !== "string") {
+        problems.push(`${code}: missing "${key}"`);
+      } else if (!message.trim() && !mayBeEmpty(key)) {
+        problems.push(`${code}: empty "${key}"`);
+      } else if (placeholders(message) !== placeholders(source[key])) {
+        problems.push(`${code}: placeholders in "${key}" don't match English`);
+      }
+    }
+
+    for (const key of Object.keys(catalog)) {
+      if (!(key in source)) problems.push(`${code}: unknown key "${key}"`);
+    }
+  }
+
+  return problems;
+}
+
+if (import.meta.main) {
+  const problems = checkCatalogs();
+  if (problems.length > 0) {
+    console.error(`❌ ${problems.length} i18n problem(s):\n${problems.map(p => `  - ${p}`).join("\n")}`);
+    process.exit(1);
+  }
+  console.log(`✅ ${LOCALES.length} locale catalogs are complete`);
+}
@@ -0,0 +1,65 @@
+/**
+ * Supported locales and the URL scheme that carries them. English lives at the
+ * site root; every other locale is served under a `/<code>` prefix, e.g.
+ * `/es/media`.
+ */
+
+export const LOCALES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Español" },
+  { code: "pt", label: "Português" },
+  { code: "ja", label: "日本語" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const STORAGE_KEY = "mm-locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(l => l.code === value);
+}
+
+/** Splits `/es/media` into `{ locale: "es", path: "/media" }`; unprefixed paths are English. */
+export function parseLocalePath(pathname: string): { locale: Locale, path: string } {
+  const [, first, ...rest] = pathname.split("/");
+  if (first !== DEFAULT_LOCALE && isLocale(first)) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname || "/" };
+}
+
+/** Prefixes an app path with the locale segment, e.g. `("/media", "ja")` → `/ja/media`. */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+export function getStoredLocale(): Locale | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies); the URL still carries the locale.
+  }
+}
+
+/** Picks the first supported language from the browser's preference list, matching on the primary subtag. */
+export function detectBrowserLocale(): Locale | null {
+  const languages = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    if (!language) continue;
+    const code = language.toLowerCase().split("-")[0];
+    if (isLocale(code)) return code;
+  }
+  return null;
+}
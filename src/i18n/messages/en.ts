@@ -0,0 +1,616 @@
+/**
+ * English source catalog. Every other locale is typed against these keys, and
+ * `bun run i18n:check` (also run by build.ts) fails if a catalog drifts.
+ *
+ * Headings that highlight a word are split into `.before` / `.highlight` /
+ * `.after` so each language can place the highlight where its grammar needs it.
+ */
+export const en = {
+  "nav.support": "FAQ & Support",
+  "nav.rates": "Drop Rates",
+  "nav.redeem": "Redeem Code",
+  "nav.language": "Language",
+  "nav.darkMode": "Switch to dark mode",
+  "nav.lightMode": "Switch to light mode",
+  "nav.reduceMotion": "Reduce motion",
+  "nav.skipToContent": "Skip to content",
+  "nav.main": "Main",
+  "nav.menu": "Menu",
+  "nav.openMenu": "Open menu",
+  "nav.closeMenu": "Close menu",
+  "nav.gameInfo": "GAME INFO",
+  "nav.media": "MEDIA",
+  "nav.community": "COMMUNITY",
+  "nav.news": "NEWS",
+  "nav.events": "EVENTS",
+  "nav.classes": "CLASSES",
+  "nav.companions": "COMPANIONS",
+  "nav.skills": "SKILLS",
+  "nav.planner": "PLANNER",
+  "nav.leaderboard": "LEADERBOARD",
+
+  "home.preregister.title": "Pre-register Now",
+  "home.preregister.subtitle": "Be first in line when the gates open. Pre-registered heroes get notified the moment Mini Mythics launches.",
+  "home.features.explore": "Explore",
+  "home.scrollToFeatures": "Scroll to features",
+  "home.footer": "© 2024 Mini Mythics. Crafted with ❤️ and Magic.",
+  "home.bossAlt": "Boss",
+  "home.charactersAlt": "Characters",
+
+  "stores.appStore": "Download on the App Store",
+  "stores.googlePlay": "Get it on Google Play",
+  "stores.comingSoon": "{store} (coming soon: pre-register now)",
+
+  "milestones.title": "Pre-registration rewards",
+  "milestones.count": "{count} heroes signed up",
+  "milestones.gems": "{amount} Gems",
+  "milestones.unlocked": "Unlocked",
+  "milestones.locked": "Locked",
+  "milestones.next": "{remaining} more sign-ups to unlock {reward}",
+  "milestones.allUnlocked": "Every reward is unlocked. Thank you, heroes!",
+
+  "preregister.email": "Email",
+  "preregister.emailPlaceholder": "hero@example.com",
+  "preregister.platform": "Platform",
+  "preregister.platformPlaceholder": "Choose platform",
+  "preregister.region": "Region",
+  "preregister.regionPlaceholder": "Choose region",
+  "preregister.submit": "Pre-register",
+  "preregister.submitting": "Signing up...",
+  "preregister.successTitle": "You're on the list!",
+  "preregister.successBody": "We'll email you as soon as Mini Mythics launches in your region.",
+
+  "regions.na": "North America",
+  "regions.latam": "Latin America",
+  "regions.eu": "Europe",
+  "regions.mena": "Middle East & Africa",
+  "regions.sea": "Southeast Asia",
+  "regions.jp": "Japan",
+  "regions.kr": "Korea",
+  "regions.oce": "Oceania",
+
+  "media.title.before": "Media ",
+  "media.title.highlight": "Gallery",
+  "media.title.after": "",
+  "media.subtitle": "Screenshots, concept art, wallpapers and trailers from the world of Mini Mythics.",
+  "media.all": "All",
+  "media.categories.screenshots": "Screenshots",
+  "media.categories.concept-art": "Concept Art",
+  "media.categories.wallpapers": "Wallpapers",
+  "media.categories.trailers": "Trailers",
+  "media.empty": "Nothing here yet. Check back soon!",
+  "media.playTrailer": "Play trailer",
+  "media.lightbox.close": "Close",
+  "media.lightbox.previous": "Previous",
+  "media.lightbox.next": "Next",
+  "media.lightbox.counter": "{current} of {total}",
+
+  "community.title.before": "Join the ",
+  "community.title.highlight": "Community",
+  "community.title.after": "",
+  "community.comingSoon": "Forums & Discord Coming Soon!",
+
+  "news.title.before": "Latest ",
+  "news.title.highlight": "News",
+  "news.title.after": "",
+  "news.subtitle": "Dev updates, patch notes and announcements from the team.",
+  "news.subscribe": "Subscribe:",
+  "news.all": "All",
+  "news.latest": "Latest News",
+  "news.viewAll": "View all news",
+  "news.readMore": "Read more",
+  "news.by": "By {author}",
+  "news.back": "Back to news",
+  "news.loading": "Loading...",
+  "news.empty": "No posts yet. Check back soon!",
+  "news.notFound": "We couldn't find that post.",
+
+  "events.title.before": "Events ",
+  "events.title.highlight": "Calendar",
+  "events.title.after": "",
+  "events.subtitle": "What's on now, what's coming next, and what you missed.",
+  "events.types.login": "Login",
+  "events.types.spending": "Spending",
+  "events.types.progress": "Progress",
+  "events.types.pvp": "PvP",
+  "events.types.collect": "Collect",
+  "events.types.limited": "Limited",
+  "events.types.battlePass": "Battle Pass",
+  "events.endsIn": "Ends in {time}",
+  "events.startsIn": "Starts in {time}",
+  "events.ended": "Ended",
+  "events.durationDays": "{days}d {hours}h {minutes}m",
+  "events.durationHours": "{hours}h {minutes}m {seconds}s",
+  "events.task": "{task}: {target}",
+  "events.milestones": "Rewards",
+  "events.milestone": "{progress}: {rewards}",
+  "events.addToCalendar": "Add to calendar",
+  "events.subscribeTitle": "Never miss an event",
+  "events.subscribe": "Subscribe",
+  "events.download": "Download .ics",
+  "events.timezone": "Times are shown in your timezone ({timeZone}).",
+  "events.timezoneUtc": "Times are shown in UTC.",
+  "events.schedule": "Schedule",
+  "events.timeline": "Timeline",
+  "events.now": "Now",
+  "events.sections.live": "Live Now",
+  "events.sections.upcoming": "Upcoming",
+  "events.sections.past": "Past Events",
+  "events.empty.live": "Nothing is running right now.",
+  "events.empty.upcoming": "Nothing else is scheduled yet. Check back soon!",
+  "events.empty.past": "No events have ended yet.",
+
+  "support.title.before": "FAQ & ",
+  "support.title.highlight": "Support",
+  "support.title.after": "",
+  "support.subtitle": "Answers to common questions, or get in touch with our team.",
+  "support.search": "Search the FAQ...",
+  "support.searchLabel": "Search FAQ",
+  "support.all": "All",
+  "support.noResults": "No answers match your search. Send us a ticket below!",
+  "support.contactTitle": "Contact Support",
+  "support.statusTitle": "Ticket Status",
+  "support.categories.account": "Account",
+  "support.categories.purchases": "Purchases",
+  "support.categories.bugs": "Bugs",
+  "support.form.email": "Email",
+  "support.form.category": "Category",
+  "support.form.categoryPlaceholder": "What's this about?",
+  "support.form.subject": "Subject",
+  "support.form.message": "Message",
+  "support.form.messagePlaceholder": "Include your Player ID, device and what happened.",
+  "support.form.submit": "Send Ticket",
+  "support.form.submitting": "Sending...",
+  "support.form.successTitle": "Ticket received!",
+  "support.form.successBody": "Keep this reference to check on your ticket later:",
+  "support.lookup.reference": "Ticket Reference",
+  "support.lookup.email": "Email",
+  "support.lookup.submit": "Check Status",
+  "support.lookup.submitting": "Checking...",
+  "support.lookup.missing": "Enter both your ticket reference and email.",
+  "support.lookup.notFound": "No ticket found for that reference and email.",
+  "support.lookup.status": "Status",
+  "support.lookup.subject": "Subject",
+  "support.lookup.category": "Category",
+  "support.lookup.opened": "Opened",
+  "support.lookup.updated": "Last Update",
+  "support.status.open": "Open",
+  "support.status.in_progress": "In Progress",
+  "support.status.resolved": "Resolved",
+  "support.status.closed": "Closed",
+
+  "classes.title.before": "Class ",
+  "classes.title.highlight": "Evolution",
+  "classes.title.after": "",
+  "classes.subtitle": "Every hero starts as a humble Slime. Choose a path at level 20, specialise at level 50 and ascend at level 100.",
+  "classes.treeLabel": "Evolution tree",
+  "classes.level": "Lv {level}",
+  "classes.tiers.0": "Base Form",
+  "classes.tiers.1": "First Evolution",
+  "classes.tiers.2": "Branch",
+  "classes.tiers.3": "Branch II",
+  "classes.tiers.4": "Sub-Branch",
+  "classes.tiers.5": "Evolution",
+  "classes.tiers.6": "Final Form",
+  "classes.paths.projectile": "Projectile path",
+  "classes.paths.pal": "Pal path",
+  "classes.paths.skill": "Skill path",
+  "classes.select": "Select a form in the tree to see its bonuses.",
+  "classes.tier": "Tier {tier} · {name}",
+  "classes.unlocksAt": "Unlocks at level {level}",
+  "classes.stats": "Stat bonuses",
+  "classes.noStats": "No stat bonuses",
+  "classes.activeSkill": "Evolution skill",
+  "classes.skillStats": "{cooldown}s cooldown · {damage} base damage",
+  "classes.passive": "Passive",
+  "classes.passiveUpgrade": "Upgrades {name}",
+  "classes.heldPassives": "Passives held ({count}/{max})",
+  "classes.pathBonus": "Path bonus",
+  "classes.evolvesFrom": "Evolves from",
+  "classes.evolvesInto": "Evolves into",
+  "classes.notFound": "We couldn't find that class.",
+
+  "companions.title.before": "Pal ",
+  "companions.title.highlight": "Bestiary",
+  "companions.title.after": "",
+  "companions.subtitle": "Meet the companions who fight at your side. {revealed} of {total} Pals revealed so far.",
+  "companions.provisional": "Provisional: these Pals, their stats and their buffs are placeholders while the roster is being designed, and they will change before launch.",
+  "companions.search": "Search Pals by name...",
+  "companions.searchLabel": "Search Pals",
+  "companions.rarityFilter": "Rarity",
+  "companions.elementFilter": "Element",
+  "companions.allRarities": "All rarities",
+  "companions.allElements": "All elements",
+  "companions.empty": "No Pals match those filters.",
+  "companions.back": "Back to the bestiary",
+  "companions.notFound": "We couldn't find that Pal.",
+  "companions.types.attack": "Attack",
+  "companions.types.defense": "Defense",
+  "companions.types.support": "Support",
+  "companions.types.utility": "Utility",
+  "companions.skill": "Skill",
+  "companions.cooldown": "{cooldown}s cooldown",
+  "companions.passive": "Passive",
+  "companions.buffs": "Buffs while deployed",
+  "companions.deployNote": "Deploy up to {max} Pals at once; every deployed Pal grants its buffs.",
+  "companions.stats": "Stats",
+  "companions.stat": "Stat",
+  "companions.statsAt": "Lv {level} · {stars}★",
+  "companions.behavior": "Behavior",
+  "companions.attackRange": "Attack range",
+  "companions.aggroRange": "Aggro range",
+  "companions.followDistance": "Follow distance",
+
+  "skills.title.before": "Skill ",
+  "skills.title.highlight": "Database",
+  "skills.title.after": "",
+  "skills.subtitle": "All {total} collectible skills, with their numbers at every level. Pin up to three to compare them.",
+  "skills.search": "Search skills by name or effect...",
+  "skills.searchLabel": "Search skills",
+  "skills.rarityFilter": "Rarity",
+  "skills.damageTypeFilter": "Damage type",
+  "skills.cooldownFilter": "Cooldown",
+  "skills.allRarities": "All rarities",
+  "skills.allDamageTypes": "All damage types",
+  "skills.allCooldowns": "Any cooldown",
+  "skills.cooldownBands.short": "Under 5s",
+  "skills.cooldownBands.medium": "5–15s",
+  "skills.cooldownBands.long": "15s or more",
+  "skills.empty": "No skills match those filters.",
+  "skills.back": "Back to the skill database",
+  "skills.notFound": "We couldn't find that skill.",
+  "skills.damageTypes.physical": "Physical",
+  "skills.damageTypes.magical": "Magical",
+  "skills.damageTypes.true": "True damage",
+  "skills.utility": "Utility",
+  "skills.cooldown": "{cooldown}s cooldown",
+  "skills.seconds": "{seconds}s",
+  "skills.targets.self": "Self",
+  "skills.targets.point": "Ground target",
+  "skills.targets.enemy": "Single enemy",
+  "skills.targets.ally": "Ally",
+  "skills.targets.direction": "Direction",
+  "skills.effects.damage": "Deals {value} damage",
+  "skills.effects.heal": "Restores {value} HP",
+  "skills.effects.buff": "Buff of {value}",
+  "skills.effects.debuff": "Debuff of {value}",
+  "skills.effects.stun": "Stuns",
+  "skills.effects.slow": "Slows by {value}",
+  "skills.effects.knockback": "Knocks back {value} units",
+  "skills.effects.dash": "Dashes {value} units",
+  "skills.effects.summon": "Summons {value}",
+  "skills.effects.shield": "Shields for {value}",
+  "skills.effectFor": "{effect} for {seconds}s",
+  "skills.effectChance": "{effect} ({chance} chance)",
+  "skills.effectsNote": "Values are at level 1. Damage grows with each level; see the table below.",
+  "skills.pin": "Pin {name} to compare",
+  "skills.unpin": "Unpin {name}",
+  "skills.remove": "Remove",
+  "skills.comparisonFull": "You can compare up to three skills. Unpin one first.",
+  "skills.comparison": "Comparison",
+  "skills.comparisonHint": "Pin another skill to compare them side by side.",
+  "skills.comparisonCount": "Comparing {count} of up to {max} skills.",
+  "skills.clearComparison": "Clear",
+  "skills.viewComparison": "Compare {count} skills",
+  "skills.details": "Details",
+  "skills.rarity": "Rarity",
+  "skills.damageType": "Damage type",
+  "skills.target": "Target",
+  "skills.cooldownHeader": "Cooldown",
+  "skills.mana": "Mana",
+  "skills.range": "Range",
+  "skills.areaRadius": "Area radius",
+  "skills.maxLevel": "Max level",
+  "skills.effectsHeader": "Effects",
+  "skills.perLevel": "Scaling per level",
+  "skills.levelsCaption": "{name} at each level",
+  "skills.level": "Level",
+  "skills.damage": "Damage",
+  "skills.scaling": "Scaling",
+  "skills.upgradeCost": "Upgrade cost",
+  "skills.cost": "{gold} gold · {fragments} fragments",
+
+  "leaderboard.title.before": "Arena ",
+  "leaderboard.title.highlight": "Leaderboard",
+  "leaderboard.title.after": "",
+  "leaderboard.subtitle": "The strongest Mythics of each arena season. Rankings update every minute.",
+  "leaderboard.seasonFilter": "Season",
+  "leaderboard.categoryFilter": "Ranking",
+  "leaderboard.endsOn": "Season ends {date}",
+  "leaderboard.endedOn": "Season ended {date}",
+  "leaderboard.categories.rating": "Arena Rating",
+  "leaderboard.categories.wins": "Arena Wins",
+  "leaderboard.categories.power": "Combat Power",
+  "leaderboard.categories.level": "Level",
+  "leaderboard.search": "Search players by name...",
+  "leaderboard.searchLabel": "Search players",
+  "leaderboard.searchSubmit": "Search",
+  "leaderboard.rank": "Rank",
+  "leaderboard.player": "Player",
+  "leaderboard.level": "Level",
+  "leaderboard.loading": "Loading rankings...",
+  "leaderboard.empty": "No players match that name.",
+  "leaderboard.noSeason": "Rankings open when the first arena season begins.",
+  "leaderboard.pagination": "Leaderboard pages",
+  "leaderboard.previous": "Previous",
+  "leaderboard.next": "Next",
+  "leaderboard.pageOf": "Page {page} of {pages}",
+
+  "rates.title.before": "Drop ",
+  "rates.title.highlight": "Rates",
+  "rates.title.after": "",
+  "rates.subtitle": "The exact odds for every summon banner, including how pity works.",
+  "rates.types.standard": "Standard banner",
+  "rates.types.limited": "Limited banner",
+  "rates.types.collab": "Collab banner",
+  "rates.window": "{from} – {until}",
+  "rates.permanent": "Always available",
+  "rates.cost": "Cost: {single} Gems per pull, or {ten} Gems for 10 pulls.",
+  "rates.pity": "Soft pity: odds for {rarity} and above rise from pull {soft}. Hard pity: pull {hard} is a guaranteed {rarity}.",
+  "rates.averagePity": "On average, one {rarity} or better every {pulls} pulls.",
+  "rates.featured": "Featured: {items}. {share} of {rarity} pulls are featured.",
+  "rates.averageFeatured": "On average, one featured Pal every {pulls} pulls.",
+  "rates.tableCaption": "Odds per pull on {banner}",
+  "rates.rarity": "Rarity",
+  "rates.baseRate": "Base rate",
+  "rates.softPityAdd": "Soft pity bonus per pull",
+  "rates.consolidated": "Overall rate with pity",
+  "rates.footnote": "Overall rates are the long-run chance per pull once soft and hard pity are counted. Pity is tracked separately for each banner, and a 10-pull has the same odds as 10 single pulls.",
+  "rates.simulator.title": "Pull Simulator",
+  "rates.simulator.subtitle": "Simulates {trials} players summoning until they get a featured Pal, with the same pity rules as the game.",
+  "rates.simulator.banner": "Banner",
+  "rates.simulator.pity": "Current pity",
+  "rates.simulator.pityHint": "Pulls since pity last reset on this banner, from 0 to {max}.",
+  "rates.simulator.run": "Run simulation",
+  "rates.simulator.resultsFor": "{banner}, starting at pity {pity}",
+  "rates.simulator.expected": "Exact average",
+  "rates.simulator.average": "Simulated average",
+  "rates.simulator.median": "Half got it within",
+  "rates.simulator.p90": "90% got it within",
+  "rates.simulator.chart": "How many pulls players needed, up to {p99} pulls (99% of players)",
+  "rates.simulator.bin": "Pulls {from}–{to}: {share} of players ({cumulative} by pull {to})",
+  "rates.simulator.axis": "Pulls needed",
+
+  "redeem.title.before": "Redeem a ",
+  "redeem.title.highlight": "Code",
+  "redeem.title.after": "",
+  "redeem.subtitle": "Got a gift code from a stream, event or newsletter? Claim it here.",
+  "redeem.playerId": "Player ID",
+  "redeem.playerIdHint": "Find it in the game under Settings → Account, and tap to copy.",
+  "redeem.region": "Server region",
+  "redeem.regionPlaceholder": "Select your region",
+  "redeem.code": "Code",
+  "redeem.submit": "Redeem",
+  "redeem.submitting": "Redeeming...",
+  "redeem.successTitle": "Code redeemed!",
+  "redeem.successBody": "The rewards from {code} are on their way:",
+  "redeem.reward": "{item} ×{amount}",
+  "redeem.another": "Redeem another code",
+  "redeem.mailbox": "Rewards arrive in your in-game mailbox within a few minutes. Restart the game if you don't see them.",
+  "redeem.unavailable": "We couldn't confirm your rewards with the game server. Please try again in a few minutes; you won't receive them twice.",
+  "redeem.tooManyAttempts": "Too many invalid codes. Please wait a few minutes before trying again.",
+  "redeem.items.gold": "Gold",
+  "redeem.items.gems": "Gems",
+  "redeem.items.stamina": "Stamina",
+  "redeem.items.arena": "Arena Coins",
+  "redeem.items.summon_ticket": "Summon Ticket",
+  "redeem.errors.playerIdRequired": "Enter your player ID.",
+  "redeem.errors.playerIdInvalid": "That doesn't look like a player ID. Copy it from Settings → Account.",
+  "redeem.errors.unknownPlayer": "We couldn't find a player with that ID in this region.",
+  "redeem.errors.codeRequired": "Enter a code.",
+  "redeem.errors.codeInvalid": "That code isn't valid. Check it for typos.",
+  "redeem.errors.expired": "That code has expired.",
+  "redeem.errors.usedUp": "That code has already been fully claimed.",
+  "redeem.errors.alreadyRedeemed": "You've already claimed a code from this giveaway.",
+  "redeem.errors.wrongRegion": "That code can't be used in your region.",
+  "redeem.errors.regionMismatch": "That player ID belongs to a different region. Pick the region your account plays on.",
+
+  "planner.title.before": "Build ",
+  "planner.title.highlight": "Planner",
+  "planner.title.after": "",
+  "planner.subtitle": "Try out a class and gear before you roll for it, and see which upgrade raises your damage the most.",
+  "planner.provisional": "Provisional numbers: gear base stats are placeholders until the equipment balance sheet is final, so every result here will change before launch.",
+  "planner.character": "Character",
+  "planner.form": "Class",
+  "planner.formOption": "Tier {tier} · {name}",
+  "planner.level": "Level",
+  "planner.enemyDef": "Enemy DEF",
+  "planner.gear": "Gear",
+  "planner.gearHint": "Pick a rarity and up to two sub-attributes for each Dice Roll slot.",
+  "planner.slots.weapon": "Weapon",
+  "planner.slots.bullet": "Bullet",
+  "planner.slots.attribute": "Attribute",
+  "planner.slots.helmet": "Helmet",
+  "planner.slots.mask": "Mask",
+  "planner.slots.necklace": "Necklace",
+  "planner.slots.cloak": "Cloak",
+  "planner.slots.gloves": "Gloves",
+  "planner.slots.shield": "Shield",
+  "planner.slots.boots": "Boots",
+  "planner.unlocksAt": "Unlocks at Lv. {level}",
+  "planner.empty": "Empty",
+  "planner.subAttribute": "{slot} sub-attribute {n}",
+  "planner.noSubAttribute": "No sub-attribute",
+  "planner.subValue": "{attribute} value, from {min} to {max}",
+  "planner.dps": "Expected damage per second",
+  "planner.basicAttack": "Basic attack",
+  "planner.perSecond": "{value} / s",
+  "planner.hit": "{normal} per hit, {critical} on a crit, {rate} hits per second",
+  "planner.copyLink": "Copy link to this build",
+  "planner.copied": "Link copied",
+  "planner.upgrades": "Best upgrades",
+  "planner.upgradesHint": "How much each bump would raise your damage per second.",
+  "planner.stats": "Total stats",
+  "planner.footnote": "Estimates against a single target from the game's damage formula. Evolution passives, Pals and special slots aren't counted yet.",
+
+  "rarities.normal": "Normal",
+  "rarities.unique": "Unique",
+  "rarities.well": "Well",
+  "rarities.rare": "Rare",
+  "rarities.mythic": "Mythic",
+  "rarities.epic": "Epic",
+  "rarities.legendary": "Legendary",
+  "rarities.immortal": "Immortal",
+  "rarities.supreme": "Supreme",
+  "rarities.aurous": "Aurous",
+  "rarities.eternal": "Eternal",
+  "elements.physical": "Physical",
+  "elements.fire": "Fire",
+  "elements.ice": "Ice",
+  "elements.lightning": "Lightning",
+  "elements.poison": "Poison",
+
+  "admin.title.before": "Staff ",
+  "admin.title.highlight": "Console",
+  "admin.title.after": "",
+  "admin.checking": "Checking your session…",
+  "admin.signedInAs": "Signed in as {name}",
+  "admin.logout": "Sign out",
+  "admin.sessionExpired": "Your session has expired. Please sign in again.",
+  "admin.login.title": "Sign in",
+  "admin.login.username": "Username",
+  "admin.login.password": "Password",
+  "admin.login.submit": "Sign in",
+  "admin.login.submitting": "Signing in…",
+  "admin.login.failed": "Wrong username or password.",
+  "admin.login.locked": "Too many failed attempts. Try again in a few minutes.",
+  "admin.home.title": "Home page",
+  "admin.home.subtitle": "Hero copy and feature cards shown on the home page.",
+  "admin.home.loading": "Loading content…",
+  "admin.home.language": "Editing language",
+  "admin.home.fallbackHint": "Fields left blank show the English text.",
+  "admin.home.badge": "Badge",
+  "admin.home.headline": "Headline",
+  "admin.home.headlineHint": "Wrap the highlighted words in *asterisks*.",
+  "admin.home.heroSubtitle": "Subtitle",
+  "admin.home.featuresTitle": "Features heading",
+  "admin.home.features": "Feature cards",
+  "admin.home.addCard": "Add card",
+  "admin.home.card": "Card {number}",
+  "admin.home.moveUp": "Move up",
+  "admin.home.moveDown": "Move down",
+  "admin.home.removeCard": "Remove card",
+  "admin.home.icon": "Icon",
+  "admin.home.color": "Color",
+  "admin.home.link": "Link",
+  "admin.home.noLink": "No link",
+  "admin.home.cardTitle": "Title",
+  "admin.home.cardDescription": "Description",
+  "admin.home.icons.shield": "Shield",
+  "admin.home.icons.zap": "Lightning",
+  "admin.home.icons.heart": "Heart",
+  "admin.home.icons.sparkles": "Sparkles",
+  "admin.home.icons.swords": "Swords",
+  "admin.home.icons.star": "Star",
+  "admin.home.icons.crown": "Crown",
+  "admin.home.icons.gem": "Gem",
+  "admin.home.colors.blue": "Blue",
+  "admin.home.colors.primary": "Coral",
+  "admin.home.colors.secondary": "Teal",
+  "admin.home.colors.accent": "Orange",
+  "admin.home.colors.wood": "Wood",
+  "admin.home.preview": "Preview",
+  "admin.home.invalid": "Required in English, up to {max} characters.",
+  "admin.home.conflict": "Someone else saved in the meantime. Discard your changes to load theirs, then redo your edits.",
+  "admin.home.save": "Save changes",
+  "admin.home.saving": "Saving…",
+  "admin.home.saved": "Saved. The home page shows the new copy right away.",
+  "admin.home.discard": "Discard changes",
+  "admin.stats.title": "Traffic",
+  "admin.stats.subtitle": "Cookieless counts of pageviews and store button clicks. Visitors with Do-Not-Track are never counted.",
+  "admin.stats.range": "Range",
+  "admin.stats.lastDays": "Last {days} days",
+  "admin.stats.loading": "Loading traffic…",
+  "admin.stats.pageviews": "Pageviews",
+  "admin.stats.homePageviews": "Home pageviews",
+  "admin.stats.storeClicks": "Store clicks",
+  "admin.stats.ctr": "Click-through",
+  "admin.stats.daily": "Daily pageviews",
+  "admin.stats.dailyChart": "{total} pageviews in this range",
+  "admin.stats.routes": "Pages",
+  "admin.stats.route": "Route",
+  "admin.stats.perDay": "Per day",
+  "admin.stats.empty": "Nothing recorded yet.",
+  "admin.stats.referrers": "Referrers",
+  "admin.stats.site": "Site",
+  "admin.stats.storeButtons": "Store buttons",
+  "admin.stats.store": "Store",
+  "admin.stats.clicks": "Clicks",
+  "admin.milestones.title": "Milestone count",
+  "admin.milestones.subtitle": "The sign-up count behind the home page's reward tracker.",
+  "admin.milestones.loading": "Loading the count…",
+  "admin.milestones.signups": "Sign-ups on this server",
+  "admin.milestones.adjustment": "Adjustment",
+  "admin.milestones.shown": "Count shown",
+  "admin.milestones.hint": "Add sign-ups collected elsewhere, such as at events, or enter a negative number to correct the count.",
+  "admin.milestones.invalid": "Enter a whole number, e.g. 1500 or -200.",
+  "admin.milestones.save": "Save adjustment",
+  "admin.milestones.saved": "Saved. The home page shows the new count within a minute.",
+  "admin.audit.title": "Audit log",
+  "admin.audit.loading": "Loading the audit log…",
+  "admin.audit.empty": "Nothing recorded yet.",
+  "admin.audit.when": "When",
+  "admin.audit.who": "Who",
+  "admin.audit.what": "What",
+  "admin.audit.actions.login": "Signed in",
+  "admin.audit.actions.logout": "Signed out",
+  "admin.audit.actions.content.update": "Edited content",
+  "admin.audit.actions.milestones.adjust": "Adjusted the milestone count",
+  "admin.audit.emptyValue": "(empty)",
+  "admin.audit.pagination": "Audit log pages",
+  "admin.audit.newer": "Newer",
+  "admin.audit.older": "Older",
+  "admin.audit.pageOf": "Page {page} of {pages}",
+
+  "notFound.title.before": "Page ",
+  "notFound.title.highlight": "Not Found",
+  "notFound.title.after": "",
+  "notFound.body": "This path leads nowhere, hero. Let's get you back on track.",
+  "notFound.home": "Back to home",
+
+  "meta.home.description": "Mini Mythics is the cutest mobile RPG adventure. Evolve your hero, befriend mystical companions and save the realm. Pre-register now!",
+  "meta.media.title": "Media Gallery",
+  "meta.media.description": "Screenshots, concept art, wallpapers and trailers from Mini Mythics.",
+  "meta.community.title": "Community",
+  "meta.community.description": "Join the Mini Mythics community of heroes.",
+  "meta.news.title": "News",
+  "meta.news.description": "Dev updates, patch notes and announcements from the Mini Mythics team.",
+  "meta.events.title": "Events Calendar",
+  "meta.events.description": "Current and upcoming Mini Mythics events and battle pass seasons, with countdowns and calendar downloads.",
+  "meta.classes.title": "Class Evolution",
+  "meta.classes.description": "Explore the Mini Mythics evolution tree: every form, stat bonus and passive from Slime to Final Form.",
+  "meta.companions.title": "Pal Bestiary",
+  "meta.companions.description": "Browse every revealed Mini Mythics Pal by rarity and element, with skills, buffs and combat behavior.",
+  "meta.skills.title": "Skill Database",
+  "meta.skills.description": "Search every Mini Mythics skill by rarity, damage type and cooldown, and compare skills side by side level by level.",
+  "meta.leaderboard.title": "Arena Leaderboard",
+  "meta.leaderboard.description": "Season rankings for the Mini Mythics arena: the top players by rating, wins, combat power and level.",
+  "meta.rates.title": "Drop Rates",
+  "meta.rates.description": "Published odds for every Mini Mythics summon banner, with pity rules and a pull simulator.",
+  "meta.redeem.title": "Redeem a Code",
+  "meta.redeem.description": "Enter a Mini Mythics gift code and your player ID to send the rewards to your in-game mailbox.",
+  "meta.planner.title": "Build Planner",
+  "meta.planner.description": "Plan a Mini Mythics build: pick a class, gear rarities and sub-stats, and see total stats and expected damage per second.",
+  "meta.admin.title": "Staff Console",
+  "meta.admin.description": "Sign in to edit Mini Mythics site content.",
+  "meta.support.title": "FAQ & Support",
+  "meta.support.description": "Answers to common Mini Mythics questions about accounts, purchases and bugs, plus a way to contact support.",
+  "meta.notFound.title": "Page Not Found",
+  "meta.notFound.description": "The page you're looking for doesn't exist.",
+
+  "validation.emailRequired": "Email is required.",
+  "validation.emailInvalid": "Enter a valid email address.",
+  "validation.platformRequired": "Choose iOS or Android.",
+  "validation.regionRequired": "Choose your region.",
+  "validation.categoryRequired": "Choose a category.",
+  "validation.subjectRequired": "Subject is required.",
+  "validation.subjectTooLong": "Keep the subject under 120 characters.",
+  "validation.messageTooShort": "Tell us a bit more (at least 10 characters).",
+  "validation.messageTooLong": "Keep the message under 5000 characters.",
+
+  "errors.checkFields": "Please check the highlighted fields.",
+  "errors.generic": "Something went wrong. Please try again.",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,608 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  "nav.support": "FAQ y Soporte",
+  "nav.rates": "Probabilidades",
+  "nav.redeem": "Canjear código",
+  "nav.language": "Idioma",
+  "nav.darkMode": "Cambiar al modo oscuro",
+  "nav.lightMode": "Cambiar al modo claro",
+  "nav.reduceMotion": "Reducir movimiento",
+  "nav.skipToContent": "Saltar al contenido",
+  "nav.main": "Principal",
+  "nav.menu": "Menú",
+  "nav.openMenu": "Abrir menú",
+  "nav.closeMenu": "Cerrar menú",
+  "nav.gameInfo": "EL JUEGO",
+  "nav.media": "MULTIMEDIA",
+  "nav.community": "COMUNIDAD",
+  "nav.news": "NOTICIAS",
+  "nav.events": "EVENTOS",
+  "nav.classes": "CLASES",
+  "nav.companions": "COMPAÑEROS",
+  "nav.skills": "HABILIDADES",
+  "nav.planner": "PLANIFICADOR",
+  "nav.leaderboard": "CLASIFICACIÓN",
+
+  "home.preregister.title": "Pre-regístrate Ya",
+  "home.preregister.subtitle": "Sé de los primeros cuando se abran las puertas. Los héroes pre-registrados recibirán un aviso en cuanto se lance Mini Mythics.",
+  "home.features.explore": "Explorar",
+  "home.scrollToFeatures": "Ir a las características",
+  "home.footer": "© 2024 Mini Mythics. Hecho con ❤️ y Magia.",
+  "home.bossAlt": "Jefe",
+  "home.charactersAlt": "Personajes",
+
+  "stores.appStore": "Descárgalo en el App Store",
+  "stores.googlePlay": "Disponible en Google Play",
+  "stores.comingSoon": "{store} (próximamente: pre-regístrate ya)",
+
+  "milestones.title": "Recompensas de pre-registro",
+  "milestones.count": "{count} héroes registrados",
+  "milestones.gems": "{amount} gemas",
+  "milestones.unlocked": "Desbloqueada",
+  "milestones.locked": "Bloqueada",
+  "milestones.next": "Faltan {remaining} registros para desbloquear {reward}",
+  "milestones.allUnlocked": "¡Todas las recompensas están desbloqueadas! Gracias, héroes.",
+
+  "preregister.email": "Correo electrónico",
+  "preregister.emailPlaceholder": "heroe@ejemplo.com",
+  "preregister.platform": "Plataforma",
+  "preregister.platformPlaceholder": "Elige plataforma",
+  "preregister.region": "Región",
+  "preregister.regionPlaceholder": "Elige región",
+  "preregister.submit": "Pre-registrarme",
+  "preregister.submitting": "Registrando...",
+  "preregister.successTitle": "¡Ya estás en la lista!",
+  "preregister.successBody": "Te enviaremos un correo en cuanto Mini Mythics se lance en tu región.",
+
+  "regions.na": "Norteamérica",
+  "regions.latam": "Latinoamérica",
+  "regions.eu": "Europa",
+  "regions.mena": "Oriente Medio y África",
+  "regions.sea": "Sudeste Asiático",
+  "regions.jp": "Japón",
+  "regions.kr": "Corea",
+  "regions.oce": "Oceanía",
+
+  "media.title.before": "Galería ",
+  "media.title.highlight": "Multimedia",
+  "media.title.after": "",
+  "media.subtitle": "Capturas, arte conceptual, fondos de pantalla y tráileres del mundo de Mini Mythics.",
+  "media.all": "Todo",
+  "media.categories.screenshots": "Capturas",
+  "media.categories.concept-art": "Arte Conceptual",
+  "media.categories.wallpapers": "Fondos de Pantalla",
+  "media.categories.trailers": "Tráileres",
+  "media.empty": "Aún no hay nada aquí. ¡Vuelve pronto!",
+  "media.playTrailer": "Reproducir tráiler",
+  "media.lightbox.close": "Cerrar",
+  "media.lightbox.previous": "Anterior",
+  "media.lightbox.next": "Siguiente",
+  "media.lightbox.counter": "{current} de {total}",
+
+  "community.title.before": "Únete a la ",
+  "community.title.highlight": "Comunidad",
+  "community.title.after": "",
+  "community.comingSoon": "¡Foros y Discord Muy Pronto!",
+
+  "news.title.before": "Últimas ",
+  "news.title.highlight": "Noticias",
+  "news.title.after": "",
+  "news.subtitle": "Novedades de desarrollo, notas de parche y anuncios del equipo.",
+  "news.subscribe": "Suscríbete:",
+  "news.all": "Todas",
+  "news.latest": "Últimas Noticias",
+  "news.viewAll": "Ver todas las noticias",
+  "news.readMore": "Leer más",
+  "news.by": "Por {author}",
+  "news.back": "Volver a noticias",
+  "news.loading": "Cargando...",
+  "news.empty": "Aún no hay publicaciones. ¡Vuelve pronto!",
+  "news.notFound": "No encontramos esa publicación.",
+
+  "events.title.before": "Calendario de ",
+  "events.title.highlight": "eventos",
+  "events.title.after": "",
+  "events.subtitle": "Lo que está activo, lo que viene y lo que te perdiste.",
+  "events.types.login": "Conexión",
+  "events.types.spending": "Gasto",
+  "events.types.progress": "Progreso",
+  "events.types.pvp": "JcJ",
+  "events.types.collect": "Recolección",
+  "events.types.limited": "Limitado",
+  "events.types.battlePass": "Pase de batalla",
+  "events.endsIn": "Termina en {time}",
+  "events.startsIn": "Empieza en {time}",
+  "events.ended": "Terminado",
+  "events.durationDays": "{days} d {hours} h {minutes} min",
+  "events.durationHours": "{hours} h {minutes} min {seconds} s",
+  "events.task": "{task}: {target}",
+  "events.milestones": "Recompensas",
+  "events.milestone": "{progress}: {rewards}",
+  "events.addToCalendar": "Añadir al calendario",
+  "events.subscribeTitle": "No te pierdas ningún evento",
+  "events.subscribe": "Suscribirse",
+  "events.download": "Descargar .ics",
+  "events.timezone": "Las horas se muestran en tu zona horaria ({timeZone}).",
+  "events.timezoneUtc": "Las horas se muestran en UTC.",
+  "events.schedule": "Programación",
+  "events.timeline": "Cronología",
+  "events.now": "Ahora",
+  "events.sections.live": "En curso",
+  "events.sections.upcoming": "Próximamente",
+  "events.sections.past": "Eventos pasados",
+  "events.empty.live": "No hay nada activo ahora mismo.",
+  "events.empty.upcoming": "Aún no hay nada más programado. ¡Vuelve pronto!",
+  "events.empty.past": "Todavía no ha terminado ningún evento.",
+
+  "support.title.before": "FAQ y ",
+  "support.title.highlight": "Soporte",
+  "support.title.after": "",
+  "support.subtitle": "Respuestas a preguntas frecuentes, o ponte en contacto con nuestro equipo.",
+  "support.search": "Buscar en las FAQ...",
+  "support.searchLabel": "Buscar en las FAQ",
+  "support.all": "Todas",
+  "support.noResults": "Ninguna respuesta coincide con tu búsqueda. ¡Envíanos un ticket abajo!",
+  "support.contactTitle": "Contactar con Soporte",
+  "support.statusTitle": "Estado del Ticket",
+  "support.categories.account": "Cuenta",
+  "support.categories.purchases": "Compras",
+  "support.categories.bugs": "Errores",
+  "support.form.email": "Correo electrónico",
+  "support.form.category": "Categoría",
+  "support.form.categoryPlaceholder": "¿De qué se trata?",
+  "support.form.subject": "Asunto",
+  "support.form.message": "Mensaje",
+  "support.form.messagePlaceholder": "Incluye tu ID de jugador, tu dispositivo y lo que ocurrió.",
+  "support.form.submit": "Enviar Ticket",
+  "support.form.submitting": "Enviando...",
+  "support.form.successTitle": "¡Ticket recibido!",
+  "support.form.successBody": "Guarda esta referencia para consultar tu ticket más tarde:",
+  "support.lookup.reference": "Referencia del Ticket",
+  "support.lookup.email": "Correo electrónico",
+  "support.lookup.submit": "Consultar Estado",
+  "support.lookup.submitting": "Consultando...",
+  "support.lookup.missing": "Introduce la referencia del ticket y tu correo.",
+  "support.lookup.notFound": "No hay ningún ticket con esa referencia y correo.",
+  "support.lookup.status": "Estado",
+  "support.lookup.subject": "Asunto",
+  "support.lookup.category": "Categoría",
+  "support.lookup.opened": "Abierto",
+  "support.lookup.updated": "Última Actualización",
+  "support.status.open": "Abierto",
+  "support.status.in_progress": "En Curso",
+  "support.status.resolved": "Resuelto",
+  "support.status.closed": "Cerrado",
+
+  "classes.title.before": "Evolución de ",
+  "classes.title.highlight": "Clases",
+  "classes.title.after": "",
+  "classes.subtitle": "Todo héroe empieza como un humilde Slime. Elige un camino en el nivel 20, especialízate en el nivel 50 y asciende en el nivel 100.",
+  "classes.treeLabel": "Árbol de evolución",
+  "classes.level": "Nv {level}",
+  "classes.tiers.0": "Forma Base",
+  "classes.tiers.1": "Primera Evolución",
+  "classes.tiers.2": "Rama",
+  "classes.tiers.3": "Rama II",
+  "classes.tiers.4": "Subrama",
+  "classes.tiers.5": "Evolución",
+  "classes.tiers.6": "Forma Final",
+  "classes.paths.projectile": "Camino de proyectiles",
+  "classes.paths.pal": "Camino de Pals",
+  "classes.paths.skill": "Camino de habilidades",
+  "classes.select": "Selecciona una forma del árbol para ver sus bonificaciones.",
+  "classes.tier": "Nivel {tier} · {name}",
+  "classes.unlocksAt": "Se desbloquea en el nivel {level}",
+  "classes.stats": "Bonificaciones de estadísticas",
+  "classes.noStats": "Sin bonificaciones de estadísticas",
+  "classes.activeSkill": "Habilidad de evolución",
+  "classes.skillStats": "{cooldown} s de recarga · {damage} de daño base",
+  "classes.passive": "Pasiva",
+  "classes.passiveUpgrade": "Mejora {name}",
+  "classes.heldPassives": "Pasivas obtenidas ({count}/{max})",
+  "classes.pathBonus": "Bonificación de camino",
+  "classes.evolvesFrom": "Evoluciona de",
+  "classes.evolvesInto": "Evoluciona a",
+  "classes.notFound": "No encontramos esa clase.",
+
+  "companions.title.before": "Bestiario de ",
+  "companions.title.highlight": "Pals",
+  "companions.title.after": "",
+  "companions.subtitle": "Conoce a los compañeros que luchan a tu lado. {revealed} de {total} Pals revelados hasta ahora.",
+  "companions.provisional": "Provisional: estos Pals, sus estadísticas y sus mejoras son valores temporales mientras se diseña el plantel, y cambiarán antes del lanzamiento.",
+  "companions.search": "Busca Pals por nombre...",
+  "companions.searchLabel": "Buscar Pals",
+  "companions.rarityFilter": "Rareza",
+  "companions.elementFilter": "Elemento",
+  "companions.allRarities": "Todas las rarezas",
+  "companions.allElements": "Todos los elementos",
+  "companions.empty": "Ningún Pal coincide con esos filtros.",
+  "companions.back": "Volver al bestiario",
+  "companions.notFound": "No encontramos ese Pal.",
+  "companions.types.attack": "Ataque",
+  "companions.types.defense": "Defensa",
+  "companions.types.support": "Apoyo",
+  "companions.types.utility": "Utilidad",
+  "companions.skill": "Habilidad",
+  "companions.cooldown": "{cooldown} s de recarga",
+  "companions.passive": "Pasiva",
+  "companions.buffs": "Mejoras al desplegarlo",
+  "companions.deployNote": "Despliega hasta {max} Pals a la vez; cada Pal desplegado otorga sus mejoras.",
+  "companions.stats": "Estadísticas",
+  "companions.stat": "Estadística",
+  "companions.statsAt": "Nv {level} · {stars}★",
+  "companions.behavior": "Comportamiento",
+  "companions.attackRange": "Alcance de ataque",
+  "companions.aggroRange": "Alcance de agresión",
+  "companions.followDistance": "Distancia de seguimiento",
+
+  "skills.title.before": "Base de datos de ",
+  "skills.title.highlight": "habilidades",
+  "skills.title.after": "",
+  "skills.subtitle": "Las {total} habilidades coleccionables, con sus valores en cada nivel. Fija hasta tres para compararlas.",
+  "skills.search": "Busca habilidades por nombre o efecto...",
+  "skills.searchLabel": "Buscar habilidades",
+  "skills.rarityFilter": "Rareza",
+  "skills.damageTypeFilter": "Tipo de daño",
+  "skills.cooldownFilter": "Enfriamiento",
+  "skills.allRarities": "Todas las rarezas",
+  "skills.allDamageTypes": "Todos los tipos de daño",
+  "skills.allCooldowns": "Cualquier enfriamiento",
+  "skills.cooldownBands.short": "Menos de 5 s",
+  "skills.cooldownBands.medium": "5–15 s",
+  "skills.cooldownBands.long": "15 s o más",
+  "skills.empty": "Ninguna habilidad coincide con esos filtros.",
+  "skills.back": "Volver a la base de datos de habilidades",
+  "skills.notFound": "No encontramos esa habilidad.",
+  "skills.damageTypes.physical": "Físico",
+  "skills.damageTypes.magical": "Mágico",
+  "skills.damageTypes.true": "Daño verdadero",
+  "skills.utility": "Utilidad",
+  "skills.cooldown": "Enfriamiento de {cooldown} s",
+  "skills.seconds": "{seconds} s",
+  "skills.targets.self": "Uno mismo",
+  "skills.targets.point": "Zona del suelo",
+  "skills.targets.enemy": "Un enemigo",
+  "skills.targets.ally": "Aliado",
+  "skills.targets.direction": "Dirección",
+  "skills.effects.damage": "Inflige {value} de daño",
+  "skills.effects.heal": "Restaura {value} de PV",
+  "skills.effects.buff": "Mejora de {value}",
+  "skills.effects.debuff": "Penalización de {value}",
+  "skills.effects.stun": "Aturde",
+  "skills.effects.slow": "Ralentiza un {value}",
+  "skills.effects.knockback": "Empuja {value} unidades",
+  "skills.effects.dash": "Se desplaza {value} unidades",
+  "skills.effects.summon": "Invoca {value}",
+  "skills.effects.shield": "Escudo de {value}",
+  "skills.effectFor": "{effect} durante {seconds} s",
+  "skills.effectChance": "{effect} ({chance} de probabilidad)",
+  "skills.effectsNote": "Valores a nivel 1. El daño aumenta con cada nivel; consulta la tabla de abajo.",
+  "skills.pin": "Fijar {name} para comparar",
+  "skills.unpin": "Quitar {name}",
+  "skills.remove": "Quitar",
+  "skills.comparisonFull": "Puedes comparar hasta tres habilidades. Quita una primero.",
+  "skills.comparison": "Comparación",
+  "skills.comparisonHint": "Fija otra habilidad para compararlas lado a lado.",
+  "skills.comparisonCount": "Comparando {count} de un máximo de {max} habilidades.",
+  "skills.clearComparison": "Borrar",
+  "skills.viewComparison": "Comparar {count} habilidades",
+  "skills.details": "Detalles",
+  "skills.rarity": "Rareza",
+  "skills.damageType": "Tipo de daño",
+  "skills.target": "Objetivo",
+  "skills.cooldownHeader": "Enfriamiento",
+  "skills.mana": "Maná",
+  "skills.range": "Alcance",
+  "skills.areaRadius": "Radio de área",
+  "skills.maxLevel": "Nivel máximo",
+  "skills.effectsHeader": "Efectos",
+  "skills.perLevel": "Escalado por nivel",
+  "skills.levelsCaption": "{name} en cada nivel",
+  "skills.level": "Nivel",
+  "skills.damage": "Daño",
+  "skills.scaling": "Escalado",
+  "skills.upgradeCost": "Coste de mejora",
+  "skills.cost": "{gold} de oro · {fragments} fragmentos",
+
+  "leaderboard.title.before": "Clasificación de la ",
+  "leaderboard.title.highlight": "Arena",
+  "leaderboard.title.after": "",
+  "leaderboard.subtitle": "Los Mythics más fuertes de cada temporada de la arena. La clasificación se actualiza cada minuto.",
+  "leaderboard.seasonFilter": "Temporada",
+  "leaderboard.categoryFilter": "Clasificación",
+  "leaderboard.endsOn": "La temporada termina el {date}",
+  "leaderboard.endedOn": "La temporada terminó el {date}",
+  "leaderboard.categories.rating": "Puntuación de arena",
+  "leaderboard.categories.wins": "Victorias en arena",
+  "leaderboard.categories.power": "Poder de combate",
+  "leaderboard.categories.level": "Nivel",
+  "leaderboard.search": "Busca jugadores por nombre...",
+  "leaderboard.searchLabel": "Buscar jugadores",
+  "leaderboard.searchSubmit": "Buscar",
+  "leaderboard.rank": "Puesto",
+  "leaderboard.player": "Jugador",
+  "leaderboard.level": "Nivel",
+  "leaderboard.loading": "Cargando clasificación...",
+  "leaderboard.empty": "Ningún jugador coincide con ese nombre.",
+  "leaderboard.noSeason": "La clasificación se abrirá cuando empiece la primera temporada de la arena.",
+  "leaderboard.pagination": "Páginas de la clasificación",
+  "leaderboard.previous": "Anterior",
+  "leaderboard.next": "Siguiente",
+  "leaderboard.pageOf": "Página {page} de {pages}",
+
+  "rates.title.before": "",
+  "rates.title.highlight": "Probabilidades",
+  "rates.title.after": "",
+  "rates.subtitle": "Las probabilidades exactas de cada banner de invocación, incluido cómo funciona el pity.",
+  "rates.types.standard": "Banner estándar",
+  "rates.types.limited": "Banner limitado",
+  "rates.types.collab": "Banner de colaboración",
+  "rates.window": "{from} – {until}",
+  "rates.permanent": "Siempre disponible",
+  "rates.cost": "Coste: {single} gemas por tirada o {ten} gemas por 10 tiradas.",
+  "rates.pity": "Pity suave: las probabilidades de {rarity} o superior suben desde la tirada {soft}. Pity garantizado: la tirada {hard} es un {rarity} asegurado.",
+  "rates.averagePity": "De media, un {rarity} o mejor cada {pulls} tiradas.",
+  "rates.featured": "Destacados: {items}. El {share} de las tiradas {rarity} son destacadas.",
+  "rates.averageFeatured": "De media, un Pal destacado cada {pulls} tiradas.",
+  "rates.tableCaption": "Probabilidades por tirada en {banner}",
+  "rates.rarity": "Rareza",
+  "rates.baseRate": "Probabilidad base",
+  "rates.softPityAdd": "Bonificación de pity suave por tirada",
+  "rates.consolidated": "Probabilidad total con pity",
+  "rates.footnote": "La probabilidad total es la probabilidad media por tirada a largo plazo contando el pity suave y el garantizado. El pity se cuenta por separado en cada banner, y una tirada x10 tiene las mismas probabilidades que 10 tiradas sueltas.",
+  "rates.simulator.title": "Simulador de tiradas",
+  "rates.simulator.subtitle": "Simula a {trials} jugadores invocando hasta conseguir un Pal destacado, con las mismas reglas de pity que el juego.",
+  "rates.simulator.banner": "Banner",
+  "rates.simulator.pity": "Pity actual",
+  "rates.simulator.pityHint": "Tiradas desde el último reinicio del pity en este banner, de 0 a {max}.",
+  "rates.simulator.run": "Simular",
+  "rates.simulator.resultsFor": "{banner}, empezando con pity {pity}",
+  "rates.simulator.expected": "Media exacta",
+  "rates.simulator.average": "Media simulada",
+  "rates.simulator.median": "La mitad lo consiguió en",
+  "rates.simulator.p90": "El 90% lo consiguió en",
+  "rates.simulator.chart": "Cuántas tiradas necesitaron los jugadores, hasta {p99} tiradas (el 99% de los jugadores)",
+  "rates.simulator.bin": "Tiradas {from}–{to}: {share} de los jugadores ({cumulative} en la tirada {to})",
+  "rates.simulator.axis": "Tiradas necesarias",
+
+  "redeem.title.before": "Canjear un ",
+  "redeem.title.highlight": "código",
+  "redeem.title.after": "",
+  "redeem.subtitle": "¿Tienes un código de regalo de un directo, evento o boletín? Canjéalo aquí.",
+  "redeem.playerId": "ID de jugador",
+  "redeem.playerIdHint": "Lo encontrarás en el juego en Ajustes → Cuenta; tócalo para copiarlo.",
+  "redeem.region": "Región del servidor",
+  "redeem.regionPlaceholder": "Selecciona tu región",
+  "redeem.code": "Código",
+  "redeem.submit": "Canjear",
+  "redeem.submitting": "Canjeando...",
+  "redeem.successTitle": "¡Código canjeado!",
+  "redeem.successBody": "Las recompensas de {code} están en camino:",
+  "redeem.reward": "{item} ×{amount}",
+  "redeem.another": "Canjear otro código",
+  "redeem.mailbox": "Las recompensas llegan al buzón del juego en unos minutos. Reinicia el juego si no las ves.",
+  "redeem.unavailable": "No pudimos confirmar tus recompensas con el servidor del juego. Inténtalo de nuevo en unos minutos; no las recibirás dos veces.",
+  "redeem.tooManyAttempts": "Demasiados códigos no válidos. Espera unos minutos antes de volver a intentarlo.",
+  "redeem.items.gold": "Oro",
+  "redeem.items.gems": "Gemas",
+  "redeem.items.stamina": "Energía",
+  "redeem.items.arena": "Monedas de arena",
+  "redeem.items.summon_ticket": "Ticket de invocación",
+  "redeem.errors.playerIdRequired": "Introduce tu ID de jugador.",
+  "redeem.errors.playerIdInvalid": "Eso no parece un ID de jugador. Cópialo desde Ajustes → Cuenta.",
+  "redeem.errors.unknownPlayer": "No encontramos ningún jugador con ese ID en esta región.",
+  "redeem.errors.codeRequired": "Introduce un código.",
+  "redeem.errors.codeInvalid": "Ese código no es válido. Revisa que esté bien escrito.",
+  "redeem.errors.expired": "Ese código ha caducado.",
+  "redeem.errors.usedUp": "Ese código ya se ha canjeado todas las veces posibles.",
+  "redeem.errors.alreadyRedeemed": "Ya has canjeado un código de este sorteo.",
+  "redeem.errors.wrongRegion": "Ese código no se puede usar en tu región.",
+  "redeem.errors.regionMismatch": "Ese ID de jugador pertenece a otra región. Elige la región en la que juega tu cuenta.",
+
+  "planner.title.before": "Planificador de ",
+  "planner.title.highlight": "builds",
+  "planner.title.after": "",
+  "planner.subtitle": "Prueba una clase y un equipo antes de tirar por ellos, y descubre qué mejora sube más tu daño.",
+  "planner.provisional": "Cifras provisionales: las estadísticas base del equipo son valores temporales hasta que se cierre el balance del equipamiento, así que todos los resultados cambiarán antes del lanzamiento.",
+  "planner.character": "Personaje",
+  "planner.form": "Clase",
+  "planner.formOption": "Nivel {tier} · {name}",
+  "planner.level": "Nivel",
+  "planner.enemyDef": "DEF del enemigo",
+  "planner.gear": "Equipo",
+  "planner.gearHint": "Elige una rareza y hasta dos atributos secundarios para cada ranura de la tirada de dados.",
+  "planner.slots.weapon": "Arma",
+  "planner.slots.bullet": "Bala",
+  "planner.slots.attribute": "Atributo",
+  "planner.slots.helmet": "Casco",
+  "planner.slots.mask": "Máscara",
+  "planner.slots.necklace": "Collar",
+  "planner.slots.cloak": "Capa",
+  "planner.slots.gloves": "Guantes",
+  "planner.slots.shield": "Escudo",
+  "planner.slots.boots": "Botas",
+  "planner.unlocksAt": "Se desbloquea en Nv. {level}",
+  "planner.empty": "Vacío",
+  "planner.subAttribute": "{slot}: atributo secundario {n}",
+  "planner.noSubAttribute": "Sin atributo secundario",
+  "planner.subValue": "Valor de {attribute}, de {min} a {max}",
+  "planner.dps": "Daño por segundo esperado",
+  "planner.basicAttack": "Ataque básico",
+  "planner.perSecond": "{value} / s",
+  "planner.hit": "{normal} por golpe, {critical} con crítico, {rate} golpes por segundo",
+  "planner.copyLink": "Copiar enlace a esta build",
+  "planner.copied": "Enlace copiado",
+  "planner.upgrades": "Mejores mejoras",
+  "planner.upgradesHint": "Cuánto subiría tu daño por segundo cada mejora.",
+  "planner.stats": "Estadísticas totales",
+  "planner.footnote": "Estimaciones contra un solo objetivo con la fórmula de daño del juego. Aún no se cuentan las pasivas de evolución, los Pals ni las ranuras especiales.",
+
+  "rarities.normal": "Normal",
+  "rarities.unique": "Única",
+  "rarities.well": "Buena",
+  "rarities.rare": "Rara",
+  "rarities.mythic": "Mítica",
+  "rarities.epic": "Épica",
+  "rarities.legendary": "Legendaria",
+  "rarities.immortal": "Inmortal",
+  "rarities.supreme": "Suprema",
+  "rarities.aurous": "Áurea",
+  "rarities.eternal": "Eterna",
+  "elements.physical": "Físico",
+  "elements.fire": "Fuego",
+  "elements.ice": "Hielo",
+  "elements.lightning": "Rayo",
+  "elements.poison": "Veneno",
+
+  "admin.title.before": "Consola de ",
+  "admin.title.highlight": "Staff",
+  "admin.title.after": "",
+  "admin.checking": "Comprobando tu sesión…",
+  "admin.signedInAs": "Sesión iniciada como {name}",
+  "admin.logout": "Cerrar sesión",
+  "admin.sessionExpired": "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+  "admin.login.title": "Iniciar sesión",
+  "admin.login.username": "Usuario",
+  "admin.login.password": "Contraseña",
+  "admin.login.submit": "Iniciar sesión",
+  "admin.login.submitting": "Iniciando sesión…",
+  "admin.login.failed": "Usuario o contraseña incorrectos.",
+  "admin.login.locked": "Demasiados intentos fallidos. Inténtalo de nuevo en unos minutos.",
+  "admin.home.title": "Página de inicio",
+  "admin.home.subtitle": "Textos del encabezado y tarjetas de características de la página de inicio.",
+  "admin.home.loading": "Cargando contenido…",
+  "admin.home.language": "Idioma de edición",
+  "admin.home.fallbackHint": "Los campos vacíos muestran el texto en inglés.",
+  "admin.home.badge": "Insignia",
+  "admin.home.headline": "Titular",
+  "admin.home.headlineHint": "Rodea las palabras destacadas con *asteriscos*.",
+  "admin.home.heroSubtitle": "Subtítulo",
+  "admin.home.featuresTitle": "Título de características",
+  "admin.home.features": "Tarjetas de características",
+  "admin.home.addCard": "Añadir tarjeta",
+  "admin.home.card": "Tarjeta {number}",
+  "admin.home.moveUp": "Subir",
+  "admin.home.moveDown": "Bajar",
+  "admin.home.removeCard": "Eliminar tarjeta",
+  "admin.home.icon": "Icono",
+  "admin.home.color": "Color",
+  "admin.home.link": "Enlace",
+  "admin.home.noLink": "Sin enlace",
+  "admin.home.cardTitle": "Título",
+  "admin.home.cardDescription": "Descripción",
+  "admin.home.icons.shield": "Escudo",
+  "admin.home.icons.zap": "Rayo",
+  "admin.home.icons.heart": "Corazón",
+  "admin.home.icons.sparkles": "Destellos",
+  "admin.home.icons.swords": "Espadas",
+  "admin.home.icons.star": "Estrella",
+  "admin.home.icons.crown": "Corona",
+  "admin.home.icons.gem": "Gema",
+  "admin.home.colors.blue": "Azul",
+  "admin.home.colors.primary": "Coral",
+  "admin.home.colors.secondary": "Turquesa",
+  "admin.home.colors.accent": "Naranja",
+  "admin.home.colors.wood": "Madera",
+  "admin.home.preview": "Vista previa",
+  "admin.home.invalid": "Obligatorio en inglés, hasta {max} caracteres.",
+  "admin.home.conflict": "Alguien más guardó cambios mientras tanto. Descarta los tuyos para cargar los suyos y vuelve a hacer tus cambios.",
+  "admin.home.save": "Guardar cambios",
+  "admin.home.saving": "Guardando…",
+  "admin.home.saved": "Guardado. La página de inicio ya muestra los nuevos textos.",
+  "admin.home.discard": "Descartar cambios",
+  "admin.stats.title": "Tráfico",
+  "admin.stats.subtitle": "Recuentos sin cookies de visitas y clics en los botones de tienda. Nunca se cuentan los visitantes con «No rastrear».",
+  "admin.stats.range": "Periodo",
+  "admin.stats.lastDays": "Últimos {days} días",
+  "admin.stats.loading": "Cargando tráfico…",
+  "admin.stats.pageviews": "Visitas",
+  "admin.stats.homePageviews": "Visitas a inicio",
+  "admin.stats.storeClicks": "Clics en tiendas",
+  "admin.stats.ctr": "Tasa de clics",
+  "admin.stats.daily": "Visitas diarias",
+  "admin.stats.dailyChart": "{total} visitas en este periodo",
+  "admin.stats.routes": "Páginas",
+  "admin.stats.route": "Ruta",
+  "admin.stats.perDay": "Por día",
+  "admin.stats.empty": "Aún no hay datos.",
+  "admin.stats.referrers": "Referencias",
+  "admin.stats.site": "Sitio",
+  "admin.stats.storeButtons": "Botones de tienda",
+  "admin.stats.store": "Tienda",
+  "admin.stats.clicks": "Clics",
+  "admin.milestones.title": "Contador de hitos",
+  "admin.milestones.subtitle": "El número de registros que usa el marcador de recompensas de la página de inicio.",
+  "admin.milestones.loading": "Cargando el contador…",
+  "admin.milestones.signups": "Registros en este servidor",
+  "admin.milestones.adjustment": "Ajuste",
+  "admin.milestones.shown": "Cifra mostrada",
+  "admin.milestones.hint": "Suma registros obtenidos en otros sitios, como eventos, o introduce un número negativo para corregir la cifra.",
+  "admin.milestones.invalid": "Introduce un número entero, p. ej. 1500 o -200.",
+  "admin.milestones.save": "Guardar ajuste",
+  "admin.milestones.saved": "Guardado. La página de inicio mostrará la nueva cifra en menos de un minuto.",
+  "admin.audit.title": "Registro de auditoría",
+  "admin.audit.loading": "Cargando el registro de auditoría…",
+  "admin.audit.empty": "Todavía no hay nada registrado.",
+  "admin.audit.when": "Cuándo",
+  "admin.audit.who": "Quién",
+  "admin.audit.what": "Qué",
+  "admin.audit.actions.login": "Inició sesión",
+  "admin.audit.actions.logout": "Cerró sesión",
+  "admin.audit.actions.content.update": "Editó contenido",
+  "admin.audit.actions.milestones.adjust": "Ajustó el contador de hitos",
+  "admin.audit.emptyValue": "(vacío)",
+  "admin.audit.pagination": "Páginas del registro de auditoría",
+  "admin.audit.newer": "Más recientes",
+  "admin.audit.older": "Más antiguos",
+  "admin.audit.pageOf": "Página {page} de {pages}",
+
+  "notFound.title.before": "Página ",
+  "notFound.title.highlight": "No Encontrada",
+  "notFound.title.after": "",
+  "notFound.body": "Este camino no lleva a ninguna parte, héroe. Volvamos al buen rumbo.",
+  "notFound.home": "Volver al inicio",
+
+  "meta.home.description": "Mini Mythics es la aventura RPG para móviles más adorable. Evoluciona a tu héroe, hazte amigo de compañeros místicos y salva el reino. ¡Pre-regístrate ya!",
+  "meta.media.title": "Galería Multimedia",
+  "meta.media.description": "Capturas, arte conceptual, fondos de pantalla y tráileres de Mini Mythics.",
+  "meta.community.title": "Comunidad",
+  "meta.community.description": "Únete a la comunidad de héroes de Mini Mythics.",
+  "meta.news.title": "Noticias",
+  "meta.news.description": "Novedades de desarrollo, notas de parche y anuncios del equipo de Mini Mythics.",
+  "meta.events.title": "Calendario de eventos",
+  "meta.events.description": "Eventos y temporadas del pase de batalla de Mini Mythics, actuales y próximos, con cuentas atrás y descargas para tu calendario.",
+  "meta.classes.title": "Evolución de Clases",
+  "meta.classes.description": "Explora el árbol de evolución de Mini Mythics: cada forma, bonificación y pasiva desde Slime hasta la Forma Final.",
+  "meta.companions.title": "Bestiario de Pals",
+  "meta.companions.description": "Explora todos los Pals revelados de Mini Mythics por rareza y elemento, con habilidades, mejoras y comportamiento en combate.",
+  "meta.skills.title": "Base de datos de habilidades",
+  "meta.skills.description": "Busca todas las habilidades de Mini Mythics por rareza, tipo de daño y enfriamiento, y compáralas nivel a nivel.",
+  "meta.leaderboard.title": "Clasificación de la Arena",
+  "meta.leaderboard.description": "Clasificaciones de temporada de la arena de Mini Mythics: los mejores jugadores por puntuación, victorias, poder de combate y nivel.",
+  "meta.rates.title": "Probabilidades",
+  "meta.rates.description": "Probabilidades publicadas de cada banner de invocación de Mini Mythics, con reglas de pity y un simulador de tiradas.",
+  "meta.redeem.title": "Canjear un código",
+  "meta.redeem.description": "Introduce un código de regalo de Mini Mythics y tu ID de jugador para recibir las recompensas en tu buzón del juego.",
+  "meta.planner.title": "Planificador de builds",
+  "meta.planner.description": "Planifica una build de Mini Mythics: elige clase, rarezas de equipo y atributos secundarios, y mira las estadísticas totales y el daño por segundo esperado.",
+  "meta.admin.title": "Consola de Staff",
+  "meta.admin.description": "Inicia sesión para editar el contenido del sitio de Mini Mythics.",
+  "meta.support.title": "FAQ y Soporte",
+  "meta.support.description": "Respuestas a preguntas frecuentes sobre cuentas, compras y errores de Mini Mythics, y contacto con soporte.",
+  "meta.notFound.title": "Página No Encontrada",
+  "meta.notFound.description": "La página que buscas no existe.",
+
+  "validation.emailRequired": "El correo es obligatorio.",
+  "validation.emailInvalid": "Introduce un correo válido.",
+  "validation.platformRequired": "Elige iOS o Android.",
+  "validation.regionRequired": "Elige tu región.",
+  "validation.categoryRequired": "Elige una categoría.",
+  "validation.subjectRequired": "El asunto es obligatorio.",
+  "validation.subjectTooLong": "El asunto debe tener menos de 120 caracteres.",
+  "validation.messageTooShort": "Cuéntanos un poco más (al menos 10 caracteres).",
+  "validation.messageTooLong": "El mensaje debe tener menos de 5000 caracteres.",
+
+  "errors.checkFields": "Revisa los campos marcados.",
+  "errors.generic": "Algo salió mal. Inténtalo de nuevo.",
+};
@@ -0,0 +1,608 @@
+import type { Messages } from "./en";
+
+export const ja: Messages = {
+  "nav.support": "FAQ・サポート",
+  "nav.rates": "提供割合",
+  "nav.redeem": "シリアルコード",
+  "nav.language": "言語",
+  "nav.darkMode": "ダークモードに切り替え",
+  "nav.lightMode": "ライトモードに切り替え",
+  "nav.reduceMotion": "動きを減らす",
+  "nav.skipToContent": "本文へスキップ",
+  "nav.main": "メイン",
+  "nav.menu": "メニュー",
+  "nav.openMenu": "メニューを開く",
+  "nav.closeMenu": "メニューを閉じる",
+  "nav.gameInfo": "ゲーム紹介",
+  "nav.media": "メディア",
+  "nav.community": "コミュニティ",
+  "nav.news": "ニュース",
+  "nav.events": "イベント",
+  "nav.classes": "クラス",
+  "nav.companions": "パル",
+  "nav.skills": "スキル",
+  "nav.planner": "ビルド",
+  "nav.leaderboard": "ランキング",
+
+  "home.preregister.title": "事前登録受付中",
+  "home.preregister.subtitle": "門が開く瞬間にいち早く冒険へ。事前登録した英雄には、Mini Mythics のリリース時にすぐお知らせします。",
+  "home.features.explore": "詳しく見る",
+  "home.scrollToFeatures": "特徴へスクロール",
+  "home.footer": "© 2024 Mini Mythics. ❤️ と魔法を込めて。",
+  "home.bossAlt": "ボス",
+  "home.charactersAlt": "キャラクター",
+
+  "stores.appStore": "App Store からダウンロード",
+  "stores.googlePlay": "Google Play で手に入れよう",
+  "stores.comingSoon": "{store}（近日公開：今すぐ事前登録）",
+
+  "milestones.title": "事前登録報酬",
+  "milestones.count": "{count} 人の勇者が登録済み",
+  "milestones.gems": "ジェム {amount} 個",
+  "milestones.unlocked": "解放済み",
+  "milestones.locked": "未解放",
+  "milestones.next": "あと {remaining} 人の登録で {reward} を解放",
+  "milestones.allUnlocked": "すべての報酬が解放されました。勇者のみなさん、ありがとう！",
+
+  "preregister.email": "メールアドレス",
+  "preregister.emailPlaceholder": "hero@example.com",
+  "preregister.platform": "プラットフォーム",
+  "preregister.platformPlaceholder": "プラットフォームを選択",
+  "preregister.region": "地域",
+  "preregister.regionPlaceholder": "地域を選択",
+  "preregister.submit": "事前登録する",
+  "preregister.submitting": "登録中...",
+  "preregister.successTitle": "登録が完了しました！",
+  "preregister.successBody": "お住まいの地域で Mini Mythics がリリースされたら、すぐにメールでお知らせします。",
+
+  "regions.na": "北米",
+  "regions.latam": "中南米",
+  "regions.eu": "ヨーロッパ",
+  "regions.mena": "中東・アフリカ",
+  "regions.sea": "東南アジア",
+  "regions.jp": "日本",
+  "regions.kr": "韓国",
+  "regions.oce": "オセアニア",
+
+  "media.title.before": "",
+  "media.title.highlight": "メディア",
+  "media.title.after": "ギャラリー",
+  "media.subtitle": "Mini Mythics の世界のスクリーンショット、コンセプトアート、壁紙、トレーラー。",
+  "media.all": "すべて",
+  "media.categories.screenshots": "スクリーンショット",
+  "media.categories.concept-art": "コンセプトアート",
+  "media.categories.wallpapers": "壁紙",
+  "media.categories.trailers": "トレーラー",
+  "media.empty": "まだ何もありません。お楽しみに！",
+  "media.playTrailer": "トレーラーを再生",
+  "media.lightbox.close": "閉じる",
+  "media.lightbox.previous": "前へ",
+  "media.lightbox.next": "次へ",
+  "media.lightbox.counter": "{current} / {total}",
+
+  "community.title.before": "",
+  "community.title.highlight": "コミュニティ",
+  "community.title.after": "に参加しよう",
+  "community.comingSoon": "フォーラムと Discord は近日公開！",
+
+  "news.title.before": "",
+  "news.title.highlight": "最新",
+  "news.title.after": "ニュース",
+  "news.subtitle": "開発チームからの開発情報、パッチノート、お知らせ。",
+  "news.subscribe": "購読：",
+  "news.all": "すべて",
+  "news.latest": "最新ニュース",
+  "news.viewAll": "ニュース一覧へ",
+  "news.readMore": "続きを読む",
+  "news.by": "{author}",
+  "news.back": "ニュース一覧に戻る",
+  "news.loading": "読み込み中...",
+  "news.empty": "まだ投稿はありません。お楽しみに！",
+  "news.notFound": "記事が見つかりませんでした。",
+
+  "events.title.before": "イベント",
+  "events.title.highlight": "カレンダー",
+  "events.title.after": "",
+  "events.subtitle": "開催中のイベント、これからのイベント、終了したイベント。",
+  "events.types.login": "ログイン",
+  "events.types.spending": "消費",
+  "events.types.progress": "進行",
+  "events.types.pvp": "PvP",
+  "events.types.collect": "収集",
+  "events.types.limited": "期間限定",
+  "events.types.battlePass": "バトルパス",
+  "events.endsIn": "終了まで {time}",
+  "events.startsIn": "開始まで {time}",
+  "events.ended": "終了",
+  "events.durationDays": "{days}日 {hours}時間 {minutes}分",
+  "events.durationHours": "{hours}時間 {minutes}分 {seconds}秒",
+  "events.task": "{task}：{target}",
+  "events.milestones": "報酬",
+  "events.milestone": "{progress}：{rewards}",
+  "events.addToCalendar": "カレンダーに追加",
+  "events.subscribeTitle": "イベントを見逃さない",
+  "events.subscribe": "購読する",
+  "events.download": ".icsをダウンロード",
+  "events.timezone": "時刻はお使いのタイムゾーン（{timeZone}）で表示しています。",
+  "events.timezoneUtc": "時刻はUTCで表示しています。",
+  "events.schedule": "スケジュール",
+  "events.timeline": "タイムライン",
+  "events.now": "現在",
+  "events.sections.live": "開催中",
+  "events.sections.upcoming": "開催予定",
+  "events.sections.past": "終了したイベント",
+  "events.empty.live": "現在開催中のイベントはありません。",
+  "events.empty.upcoming": "今後の予定はまだありません。お楽しみに！",
+  "events.empty.past": "終了したイベントはまだありません。",
+
+  "support.title.before": "FAQ・",
+  "support.title.highlight": "サポート",
+  "support.title.after": "",
+  "support.subtitle": "よくある質問への回答はこちら。サポートチームへのお問い合わせもできます。",
+  "support.search": "FAQを検索...",
+  "support.searchLabel": "FAQを検索",
+  "support.all": "すべて",
+  "support.noResults": "該当する回答が見つかりません。下のフォームからお問い合わせください！",
+  "support.contactTitle": "お問い合わせ",
+  "support.statusTitle": "チケットの状況",
+  "support.categories.account": "アカウント",
+  "support.categories.purchases": "購入",
+  "support.categories.bugs": "不具合",
+  "support.form.email": "メールアドレス",
+  "support.form.category": "カテゴリ",
+  "support.form.categoryPlaceholder": "お問い合わせの種類",
+  "support.form.subject": "件名",
+  "support.form.message": "内容",
+  "support.form.messagePlaceholder": "プレイヤーID、ご利用の端末、発生した状況をご記入ください。",
+  "support.form.submit": "送信する",
+  "support.form.submitting": "送信中...",
+  "support.form.successTitle": "お問い合わせを受け付けました！",
+  "support.form.successBody": "状況確認のため、こちらの受付番号を控えてください：",
+  "support.lookup.reference": "受付番号",
+  "support.lookup.email": "メールアドレス",
+  "support.lookup.submit": "状況を確認",
+  "support.lookup.submitting": "確認中...",
+  "support.lookup.missing": "受付番号とメールアドレスを入力してください。",
+  "support.lookup.notFound": "その受付番号とメールアドレスに一致するチケットはありません。",
+  "support.lookup.status": "状況",
+  "support.lookup.subject": "件名",
+  "support.lookup.category": "カテゴリ",
+  "support.lookup.opened": "受付日時",
+  "support.lookup.updated": "最終更新",
+  "support.status.open": "受付済み",
+  "support.status.in_progress": "対応中",
+  "support.status.resolved": "解決済み",
+  "support.status.closed": "クローズ",
+
+  "classes.title.before": "クラス",
+  "classes.title.highlight": "進化",
+  "classes.title.after": "",
+  "classes.subtitle": "すべての英雄は小さなスライムから始まります。レベル20で道を選び、レベル50で特化し、レベル100で昇華しよう。",
+  "classes.treeLabel": "進化ツリー",
+  "classes.level": "Lv {level}",
+  "classes.tiers.0": "基本形態",
+  "classes.tiers.1": "第一進化",
+  "classes.tiers.2": "分岐",
+  "classes.tiers.3": "分岐II",
+  "classes.tiers.4": "サブ分岐",
+  "classes.tiers.5": "進化",
+  "classes.tiers.6": "最終形態",
+  "classes.paths.projectile": "射撃の道",
+  "classes.paths.pal": "パルの道",
+  "classes.paths.skill": "スキルの道",
+  "classes.select": "ツリーの形態を選ぶとボーナスが表示されます。",
+  "classes.tier": "段階 {tier}・{name}",
+  "classes.unlocksAt": "レベル {level} で解放",
+  "classes.stats": "ステータスボーナス",
+  "classes.noStats": "ステータスボーナスなし",
+  "classes.activeSkill": "進化スキル",
+  "classes.skillStats": "クールダウン {cooldown}秒・基礎ダメージ {damage}",
+  "classes.passive": "パッシブ",
+  "classes.passiveUpgrade": "{name} を強化",
+  "classes.heldPassives": "所持パッシブ（{count}/{max}）",
+  "classes.pathBonus": "道ボーナス",
+  "classes.evolvesFrom": "進化元",
+  "classes.evolvesInto": "進化先",
+  "classes.notFound": "そのクラスは見つかりませんでした。",
+
+  "companions.title.before": "パル",
+  "companions.title.highlight": "図鑑",
+  "companions.title.after": "",
+  "companions.subtitle": "あなたと共に戦う仲間たち。全{total}体中{revealed}体を公開中。",
+  "companions.provisional": "暫定情報：ここに載っているパルとそのステータス、バフはラインナップ設計中の仮のものです。リリースまでに変わります。",
+  "companions.search": "名前でパルを検索...",
+  "companions.searchLabel": "パルを検索",
+  "companions.rarityFilter": "レアリティ",
+  "companions.elementFilter": "属性",
+  "companions.allRarities": "すべてのレアリティ",
+  "companions.allElements": "すべての属性",
+  "companions.empty": "条件に合うパルはいません。",
+  "companions.back": "図鑑に戻る",
+  "companions.notFound": "そのパルは見つかりませんでした。",
+  "companions.types.attack": "攻撃",
+  "companions.types.defense": "防御",
+  "companions.types.support": "サポート",
+  "companions.types.utility": "ユーティリティ",
+  "companions.skill": "スキル",
+  "companions.cooldown": "クールダウン {cooldown}秒",
+  "companions.passive": "パッシブ",
+  "companions.buffs": "編成中のバフ",
+  "companions.deployNote": "パルは最大{max}体まで同時に編成でき、編成中のパルはそれぞれバフを付与します。",
+  "companions.stats": "ステータス",
+  "companions.stat": "ステータス",
+  "companions.statsAt": "Lv {level}・{stars}★",
+  "companions.behavior": "行動",
+  "companions.attackRange": "攻撃範囲",
+  "companions.aggroRange": "索敵範囲",
+  "companions.followDistance": "追従距離",
+
+  "skills.title.before": "スキル",
+  "skills.title.highlight": "データベース",
+  "skills.title.after": "",
+  "skills.subtitle": "収集できる全 {total} スキルと各レベルの数値。最大 3 つまでピン留めして比較できます。",
+  "skills.search": "名前や効果でスキルを検索...",
+  "skills.searchLabel": "スキルを検索",
+  "skills.rarityFilter": "レアリティ",
+  "skills.damageTypeFilter": "ダメージタイプ",
+  "skills.cooldownFilter": "クールダウン",
+  "skills.allRarities": "すべてのレアリティ",
+  "skills.allDamageTypes": "すべてのダメージタイプ",
+  "skills.allCooldowns": "すべてのクールダウン",
+  "skills.cooldownBands.short": "5 秒未満",
+  "skills.cooldownBands.medium": "5〜15 秒",
+  "skills.cooldownBands.long": "15 秒以上",
+  "skills.empty": "条件に合うスキルはありません。",
+  "skills.back": "スキルデータベースに戻る",
+  "skills.notFound": "そのスキルは見つかりませんでした。",
+  "skills.damageTypes.physical": "物理",
+  "skills.damageTypes.magical": "魔法",
+  "skills.damageTypes.true": "確定ダメージ",
+  "skills.utility": "補助",
+  "skills.cooldown": "クールダウン {cooldown} 秒",
+  "skills.seconds": "{seconds} 秒",
+  "skills.targets.self": "自分",
+  "skills.targets.point": "地点指定",
+  "skills.targets.enemy": "敵単体",
+  "skills.targets.ally": "味方",
+  "skills.targets.direction": "方向指定",
+  "skills.effects.damage": "{value} ダメージを与える",
+  "skills.effects.heal": "HP を {value} 回復",
+  "skills.effects.buff": "強化 {value}",
+  "skills.effects.debuff": "弱体 {value}",
+  "skills.effects.stun": "スタン",
+  "skills.effects.slow": "{value} スロー",
+  "skills.effects.knockback": "{value} ノックバック",
+  "skills.effects.dash": "{value} ダッシュ",
+  "skills.effects.summon": "{value} 体召喚",
+  "skills.effects.shield": "{value} のシールド",
+  "skills.effectFor": "{effect}（{seconds} 秒）",
+  "skills.effectChance": "{effect}（確率 {chance}）",
+  "skills.effectsNote": "数値はレベル 1 のものです。ダメージはレベルごとに上がります。下の表を参照してください。",
+  "skills.pin": "{name} をピン留めして比較",
+  "skills.unpin": "{name} のピンを外す",
+  "skills.remove": "外す",
+  "skills.comparisonFull": "比較できるのは 3 つまでです。先にどれかのピンを外してください。",
+  "skills.comparison": "比較",
+  "skills.comparisonHint": "もう 1 つスキルをピン留めすると並べて比較できます。",
+  "skills.comparisonCount": "{count} / {max} スキルを比較中。",
+  "skills.clearComparison": "クリア",
+  "skills.viewComparison": "{count} スキルを比較",
+  "skills.details": "詳細",
+  "skills.rarity": "レアリティ",
+  "skills.damageType": "ダメージタイプ",
+  "skills.target": "対象",
+  "skills.cooldownHeader": "クールダウン",
+  "skills.mana": "マナ",
+  "skills.range": "射程",
+  "skills.areaRadius": "効果範囲",
+  "skills.maxLevel": "最大レベル",
+  "skills.effectsHeader": "効果",
+  "skills.perLevel": "レベルごとの数値",
+  "skills.levelsCaption": "{name} の各レベル",
+  "skills.level": "レベル",
+  "skills.damage": "ダメージ",
+  "skills.scaling": "ステータス補正",
+  "skills.upgradeCost": "強化コスト",
+  "skills.cost": "{gold} ゴールド · {fragments} 欠片",
+
+  "leaderboard.title.before": "アリーナ",
+  "leaderboard.title.highlight": "ランキング",
+  "leaderboard.title.after": "",
+  "leaderboard.subtitle": "アリーナの各シーズンで最強の Mythics たち。ランキングは毎分更新されます。",
+  "leaderboard.seasonFilter": "シーズン",
+  "leaderboard.categoryFilter": "ランキング種別",
+  "leaderboard.endsOn": "シーズン終了：{date}",
+  "leaderboard.endedOn": "シーズン終了済み：{date}",
+  "leaderboard.categories.rating": "アリーナレート",
+  "leaderboard.categories.wins": "アリーナ勝利数",
+  "leaderboard.categories.power": "戦闘力",
+  "leaderboard.categories.level": "レベル",
+  "leaderboard.search": "プレイヤー名で検索...",
+  "leaderboard.searchLabel": "プレイヤーを検索",
+  "leaderboard.searchSubmit": "検索",
+  "leaderboard.rank": "順位",
+  "leaderboard.player": "プレイヤー",
+  "leaderboard.level": "レベル",
+  "leaderboard.loading": "ランキングを読み込み中...",
+  "leaderboard.empty": "その名前のプレイヤーは見つかりませんでした。",
+  "leaderboard.noSeason": "最初のアリーナシーズンが始まるとランキングが公開されます。",
+  "leaderboard.pagination": "ランキングのページ",
+  "leaderboard.previous": "前へ",
+  "leaderboard.next": "次へ",
+  "leaderboard.pageOf": "{page} / {pages} ページ",
+
+  "rates.title.before": "",
+  "rates.title.highlight": "提供割合",
+  "rates.title.after": "",
+  "rates.subtitle": "各召喚バナーの正確な確率と、天井の仕組みを公開しています。",
+  "rates.types.standard": "通常バナー",
+  "rates.types.limited": "期間限定バナー",
+  "rates.types.collab": "コラボバナー",
+  "rates.window": "{from}〜{until}",
+  "rates.permanent": "常設",
+  "rates.cost": "費用：1回{single}ジェム、10回{ten}ジェム。",
+  "rates.pity": "ソフト天井：{soft}回目から{rarity}以上の確率が上がります。天井：{hard}回目は{rarity}確定です。",
+  "rates.averagePity": "平均して{pulls}回に1回、{rarity}以上が出ます。",
+  "rates.featured": "ピックアップ：{items}。{rarity}のうち{share}がピックアップです。",
+  "rates.averageFeatured": "平均して{pulls}回に1回、ピックアップPalが出ます。",
+  "rates.tableCaption": "{banner}の1回あたりの確率",
+  "rates.rarity": "レアリティ",
+  "rates.baseRate": "基本確率",
+  "rates.softPityAdd": "ソフト天井の1回ごとの上昇",
+  "rates.consolidated": "天井込みの総合確率",
+  "rates.footnote": "総合確率は、ソフト天井と天井を含めた長期的な1回あたりの確率です。天井はバナーごとに別々に数えられ、10連は単発10回と同じ確率です。",
+  "rates.simulator.title": "召喚シミュレーター",
+  "rates.simulator.subtitle": "ゲームと同じ天井ルールで、{trials}人のプレイヤーがピックアップPalを引くまで召喚した結果をシミュレートします。",
+  "rates.simulator.banner": "バナー",
+  "rates.simulator.pity": "現在の天井カウント",
+  "rates.simulator.pityHint": "このバナーで天井が最後にリセットされてからの召喚回数（0〜{max}）。",
+  "rates.simulator.run": "シミュレート",
+  "rates.simulator.resultsFor": "{banner}、天井カウント{pity}から",
+  "rates.simulator.expected": "正確な平均",
+  "rates.simulator.average": "シミュレーション平均",
+  "rates.simulator.median": "半数が入手した回数",
+  "rates.simulator.p90": "90%が入手した回数",
+  "rates.simulator.chart": "プレイヤーが必要とした召喚回数の分布（{p99}回まで、全体の99%）",
+  "rates.simulator.bin": "{from}〜{to}回：プレイヤーの{share}（{to}回までに{cumulative}）",
+  "rates.simulator.axis": "必要な召喚回数",
+
+  "redeem.title.before": "シリアル",
+  "redeem.title.highlight": "コード",
+  "redeem.title.after": "入力",
+  "redeem.subtitle": "配信・イベント・ニュースレターで配布されたコードはこちらで受け取れます。",
+  "redeem.playerId": "プレイヤーID",
+  "redeem.playerIdHint": "ゲーム内の「設定 → アカウント」で確認できます。タップでコピーできます。",
+  "redeem.region": "サーバー地域",
+  "redeem.regionPlaceholder": "地域を選択",
+  "redeem.code": "コード",
+  "redeem.submit": "受け取る",
+  "redeem.submitting": "処理中...",
+  "redeem.successTitle": "コードを受け取りました！",
+  "redeem.successBody": "{code} の報酬をお送りします：",
+  "redeem.reward": "{item} ×{amount}",
+  "redeem.another": "別のコードを入力",
+  "redeem.mailbox": "報酬は数分以内にゲーム内のメールボックスに届きます。表示されない場合はゲームを再起動してください。",
+  "redeem.unavailable": "ゲームサーバーで報酬を確認できませんでした。数分後にもう一度お試しください。報酬が二重に届くことはありません。",
+  "redeem.tooManyAttempts": "無効なコードが多すぎます。数分待ってからもう一度お試しください。",
+  "redeem.items.gold": "ゴールド",
+  "redeem.items.gems": "ジェム",
+  "redeem.items.stamina": "スタミナ",
+  "redeem.items.arena": "アリーナコイン",
+  "redeem.items.summon_ticket": "召喚チケット",
+  "redeem.errors.playerIdRequired": "プレイヤーIDを入力してください。",
+  "redeem.errors.playerIdInvalid": "プレイヤーIDの形式が正しくありません。「設定 → アカウント」からコピーしてください。",
+  "redeem.errors.unknownPlayer": "この地域にそのIDのプレイヤーは見つかりませんでした。",
+  "redeem.errors.codeRequired": "コードを入力してください。",
+  "redeem.errors.codeInvalid": "無効なコードです。入力ミスがないか確認してください。",
+  "redeem.errors.expired": "このコードは有効期限が切れています。",
+  "redeem.errors.usedUp": "このコードは配布上限に達しました。",
+  "redeem.errors.alreadyRedeemed": "このキャンペーンのコードはすでに受け取っています。",
+  "redeem.errors.wrongRegion": "このコードはお住まいの地域では使用できません。",
+  "redeem.errors.regionMismatch": "このプレイヤーIDは別の地域のものです。アカウントがプレイしている地域を選んでください。",
+
+  "planner.title.before": "ビルド",
+  "planner.title.highlight": "プランナー",
+  "planner.title.after": "",
+  "planner.subtitle": "ダイスを振る前にクラスと装備を試して、どの強化が一番ダメージを伸ばすか確認しましょう。",
+  "planner.provisional": "暫定値：装備の基本ステータスはバランス調整が確定するまでの仮の数値です。ここでの結果はすべてリリースまでに変わります。",
+  "planner.character": "キャラクター",
+  "planner.form": "クラス",
+  "planner.formOption": "ティア {tier} · {name}",
+  "planner.level": "レベル",
+  "planner.enemyDef": "敵の DEF",
+  "planner.gear": "装備",
+  "planner.gearHint": "ダイスロールの各スロットにレアリティとサブ属性（最大 2 つ）を選びます。",
+  "planner.slots.weapon": "武器",
+  "planner.slots.bullet": "弾",
+  "planner.slots.attribute": "属性",
+  "planner.slots.helmet": "ヘルメット",
+  "planner.slots.mask": "マスク",
+  "planner.slots.necklace": "ネックレス",
+  "planner.slots.cloak": "マント",
+  "planner.slots.gloves": "グローブ",
+  "planner.slots.shield": "盾",
+  "planner.slots.boots": "ブーツ",
+  "planner.unlocksAt": "Lv. {level} で解放",
+  "planner.empty": "なし",
+  "planner.subAttribute": "{slot} のサブ属性 {n}",
+  "planner.noSubAttribute": "サブ属性なし",
+  "planner.subValue": "{attribute} の値（{min}〜{max}）",
+  "planner.dps": "期待 DPS",
+  "planner.basicAttack": "通常攻撃",
+  "planner.perSecond": "{value} / 秒",
+  "planner.hit": "1 ヒット {normal}、クリティカル {critical}、毎秒 {rate} ヒット",
+  "planner.copyLink": "このビルドのリンクをコピー",
+  "planner.copied": "リンクをコピーしました",
+  "planner.upgrades": "おすすめの強化",
+  "planner.upgradesHint": "それぞれの強化で DPS がどれだけ伸びるか。",
+  "planner.stats": "合計ステータス",
+  "planner.footnote": "ゲームのダメージ計算式による単体ターゲットへの推定値です。進化パッシブ、パル、特殊スロットはまだ含まれません。",
+
+  "rarities.normal": "ノーマル",
+  "rarities.unique": "ユニーク",
+  "rarities.well": "ウェル",
+  "rarities.rare": "レア",
+  "rarities.mythic": "ミシック",
+  "rarities.epic": "エピック",
+  "rarities.legendary": "レジェンダリー",
+  "rarities.immortal": "イモータル",
+  "rarities.supreme": "シュプリーム",
+  "rarities.aurous": "オーラス",
+  "rarities.eternal": "エターナル",
+  "elements.physical": "物理",
+  "elements.fire": "炎",
+  "elements.ice": "氷",
+  "elements.lightning": "雷",
+  "elements.poison": "毒",
+
+  "admin.title.before": "スタッフ",
+  "admin.title.highlight": "コンソール",
+  "admin.title.after": "",
+  "admin.checking": "セッションを確認中…",
+  "admin.signedInAs": "{name} としてログイン中",
+  "admin.logout": "ログアウト",
+  "admin.sessionExpired": "セッションの有効期限が切れました。もう一度ログインしてください。",
+  "admin.login.title": "ログイン",
+  "admin.login.username": "ユーザー名",
+  "admin.login.password": "パスワード",
+  "admin.login.submit": "ログイン",
+  "admin.login.submitting": "ログイン中…",
+  "admin.login.failed": "ユーザー名またはパスワードが正しくありません。",
+  "admin.login.locked": "ログインの失敗が多すぎます。数分後にもう一度お試しください。",
+  "admin.home.title": "ホームページ",
+  "admin.home.subtitle": "ホームページのヒーロー文と特徴カード。",
+  "admin.home.loading": "コンテンツを読み込み中…",
+  "admin.home.language": "編集する言語",
+  "admin.home.fallbackHint": "空欄の項目には英語のテキストが表示されます。",
+  "admin.home.badge": "バッジ",
+  "admin.home.headline": "見出し",
+  "admin.home.headlineHint": "強調する語句を *アスタリスク* で囲んでください。",
+  "admin.home.heroSubtitle": "サブタイトル",
+  "admin.home.featuresTitle": "特徴セクションの見出し",
+  "admin.home.features": "特徴カード",
+  "admin.home.addCard": "カードを追加",
+  "admin.home.card": "カード {number}",
+  "admin.home.moveUp": "上へ移動",
+  "admin.home.moveDown": "下へ移動",
+  "admin.home.removeCard": "カードを削除",
+  "admin.home.icon": "アイコン",
+  "admin.home.color": "色",
+  "admin.home.link": "リンク",
+  "admin.home.noLink": "リンクなし",
+  "admin.home.cardTitle": "タイトル",
+  "admin.home.cardDescription": "説明",
+  "admin.home.icons.shield": "盾",
+  "admin.home.icons.zap": "稲妻",
+  "admin.home.icons.heart": "ハート",
+  "admin.home.icons.sparkles": "きらめき",
+  "admin.home.icons.swords": "剣",
+  "admin.home.icons.star": "星",
+  "admin.home.icons.crown": "王冠",
+  "admin.home.icons.gem": "宝石",
+  "admin.home.colors.blue": "青",
+  "admin.home.colors.primary": "コーラル",
+  "admin.home.colors.secondary": "ティール",
+  "admin.home.colors.accent": "オレンジ",
+  "admin.home.colors.wood": "ウッド",
+  "admin.home.preview": "プレビュー",
+  "admin.home.invalid": "英語は必須です（{max}文字以内）。",
+  "admin.home.conflict": "他の人が先に保存しました。変更を破棄して最新の内容を読み込み、もう一度編集してください。",
+  "admin.home.save": "変更を保存",
+  "admin.home.saving": "保存中…",
+  "admin.home.saved": "保存しました。ホームページにすぐ反映されます。",
+  "admin.home.discard": "変更を破棄",
+  "admin.stats.title": "トラフィック",
+  "admin.stats.subtitle": "Cookie を使わないページビューとストアボタンのクリック数です。トラッキング拒否を設定した訪問者は集計しません。",
+  "admin.stats.range": "期間",
+  "admin.stats.lastDays": "過去 {days} 日間",
+  "admin.stats.loading": "トラフィックを読み込み中…",
+  "admin.stats.pageviews": "ページビュー",
+  "admin.stats.homePageviews": "ホームのページビュー",
+  "admin.stats.storeClicks": "ストアのクリック",
+  "admin.stats.ctr": "クリック率",
+  "admin.stats.daily": "日別ページビュー",
+  "admin.stats.dailyChart": "この期間のページビュー {total} 件",
+  "admin.stats.routes": "ページ",
+  "admin.stats.route": "ルート",
+  "admin.stats.perDay": "日別",
+  "admin.stats.empty": "まだ記録がありません。",
+  "admin.stats.referrers": "参照元",
+  "admin.stats.site": "サイト",
+  "admin.stats.storeButtons": "ストアボタン",
+  "admin.stats.store": "ストア",
+  "admin.stats.clicks": "クリック",
+  "admin.milestones.title": "マイルストーンのカウント",
+  "admin.milestones.subtitle": "ホームページの報酬トラッカーに表示する事前登録数です。",
+  "admin.milestones.loading": "カウントを読み込み中…",
+  "admin.milestones.signups": "このサーバーの登録数",
+  "admin.milestones.adjustment": "調整値",
+  "admin.milestones.shown": "表示される数",
+  "admin.milestones.hint": "イベントなど他の場所で集めた登録数を加算するか、負の数を入力して補正します。",
+  "admin.milestones.invalid": "整数を入力してください（例：1500、-200）。",
+  "admin.milestones.save": "調整値を保存",
+  "admin.milestones.saved": "保存しました。1 分以内にホームページへ反映されます。",
+  "admin.audit.title": "監査ログ",
+  "admin.audit.loading": "監査ログを読み込み中…",
+  "admin.audit.empty": "まだ記録はありません。",
+  "admin.audit.when": "日時",
+  "admin.audit.who": "担当者",
+  "admin.audit.what": "内容",
+  "admin.audit.actions.login": "ログイン",
+  "admin.audit.actions.logout": "ログアウト",
+  "admin.audit.actions.content.update": "コンテンツを編集",
+  "admin.audit.actions.milestones.adjust": "マイルストーンのカウントを調整",
+  "admin.audit.emptyValue": "（空）",
+  "admin.audit.pagination": "監査ログのページ",
+  "admin.audit.newer": "新しい記録",
+  "admin.audit.older": "古い記録",
+  "admin.audit.pageOf": "{page} / {pages} ページ",
+
+  "notFound.title.before": "ページが",
+  "notFound.title.highlight": "見つかりません",
+  "notFound.title.after": "",
+  "notFound.body": "この道はどこにも続いていないようです。元の道に戻りましょう。",
+  "notFound.home": "ホームに戻る",
+
+  "meta.home.description": "Mini Mythics は、いちばんかわいいモバイルRPG。英雄を進化させ、神秘的な仲間と絆を結び、王国を救おう。事前登録受付中！",
+  "meta.media.title": "メディアギャラリー",
+  "meta.media.description": "Mini Mythics のスクリーンショット、コンセプトアート、壁紙、トレーラー。",
+  "meta.community.title": "コミュニティ",
+  "meta.community.description": "Mini Mythics の英雄たちのコミュニティに参加しよう。",
+  "meta.news.title": "ニュース",
+  "meta.news.description": "Mini Mythics 開発チームからの開発情報、パッチノート、お知らせ。",
+  "meta.events.title": "イベントカレンダー",
+  "meta.events.description": "Mini Mythicsの開催中・開催予定のイベントとバトルパスシーズン。カウントダウンとカレンダー登録に対応。",
+  "meta.classes.title": "クラス進化",
+  "meta.classes.description": "Mini Mythics の進化ツリー。スライムから最終形態まで、すべての形態・ボーナス・パッシブを紹介。",
+  "meta.companions.title": "パル図鑑",
+  "meta.companions.description": "公開済みの Mini Mythics のパルをレアリティと属性で一覧。スキル、バフ、戦闘中の行動も紹介。",
+  "meta.skills.title": "スキルデータベース",
+  "meta.skills.description": "Mini Mythics の全スキルをレアリティ、ダメージタイプ、クールダウンで検索し、レベルごとに並べて比較できます。",
+  "meta.leaderboard.title": "アリーナランキング",
+  "meta.leaderboard.description": "Mini Mythics アリーナのシーズンランキング。レート、勝利数、戦闘力、レベル別のトッププレイヤー。",
+  "meta.rates.title": "提供割合",
+  "meta.rates.description": "Mini Mythicsの各召喚バナーの提供割合、天井の仕組み、召喚シミュレーター。",
+  "meta.redeem.title": "シリアルコード入力",
+  "meta.redeem.description": "Mini MythicsのシリアルコードとプレイヤーIDを入力すると、報酬がゲーム内のメールボックスに届きます。",
+  "meta.planner.title": "ビルドプランナー",
+  "meta.planner.description": "Mini Mythics のビルドを計画。クラス、装備のレアリティとサブ属性を選んで、合計ステータスと期待 DPS を確認できます。",
+  "meta.admin.title": "スタッフコンソール",
+  "meta.admin.description": "ログインして Mini Mythics サイトのコンテンツを編集します。",
+  "meta.support.title": "FAQ・サポート",
+  "meta.support.description": "Mini Mythics のアカウント、購入、不具合に関するよくある質問と、サポートへのお問い合わせ。",
+  "meta.notFound.title": "ページが見つかりません",
+  "meta.notFound.description": "お探しのページは存在しません。",
+
+  "validation.emailRequired": "メールアドレスを入力してください。",
+  "validation.emailInvalid": "有効なメールアドレスを入力してください。",
+  "validation.platformRequired": "iOS または Android を選択してください。",
+  "validation.regionRequired": "地域を選択してください。",
+  "validation.categoryRequired": "カテゴリを選択してください。",
+  "validation.subjectRequired": "件名を入力してください。",
+  "validation.subjectTooLong": "件名は120文字以内で入力してください。",
+  "validation.messageTooShort": "もう少し詳しく教えてください（10文字以上）。",
+  "validation.messageTooLong": "内容は5000文字以内で入力してください。",
+
+  "errors.checkFields": "入力内容をご確認ください。",
+  "errors.generic": "エラーが発生しました。もう一度お試しください。",
+};
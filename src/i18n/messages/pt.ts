@@ -0,0 +1,608 @@
+import type { Messages } from "./en";
+
+export const pt: Messages = {
+  "nav.support": "FAQ e Suporte",
+  "nav.rates": "Probabilidades",
+  "nav.redeem": "Resgatar código",
+  "nav.language": "Idioma",
+  "nav.darkMode": "Mudar para o modo escuro",
+  "nav.lightMode": "Mudar para o modo claro",
+  "nav.reduceMotion": "Reduzir movimento",
+  "nav.skipToContent": "Pular para o conteúdo",
+  "nav.main": "Principal",
+  "nav.menu": "Menu",
+  "nav.openMenu": "Abrir menu",
+  "nav.closeMenu": "Fechar menu",
+  "nav.gameInfo": "O JOGO",
+  "nav.media": "MÍDIA",
+  "nav.community": "COMUNIDADE",
+  "nav.news": "NOTÍCIAS",
+  "nav.events": "EVENTOS",
+  "nav.classes": "CLASSES",
+  "nav.companions": "COMPANHEIROS",
+  "nav.skills": "HABILIDADES",
+  "nav.planner": "PLANEJADOR",
+  "nav.leaderboard": "RANKING",
+
+  "home.preregister.title": "Pré-registre-se Agora",
+  "home.preregister.subtitle": "Seja um dos primeiros quando os portões se abrirem. Heróis pré-registrados serão avisados assim que Mini Mythics for lançado.",
+  "home.features.explore": "Explorar",
+  "home.scrollToFeatures": "Ir para os recursos",
+  "home.footer": "© 2024 Mini Mythics. Feito com ❤️ e Magia.",
+  "home.bossAlt": "Chefe",
+  "home.charactersAlt": "Personagens",
+
+  "stores.appStore": "Baixar na App Store",
+  "stores.googlePlay": "Disponível no Google Play",
+  "stores.comingSoon": "{store} (em breve: faça o pré-registro)",
+
+  "milestones.title": "Recompensas de pré-registro",
+  "milestones.count": "{count} heróis inscritos",
+  "milestones.gems": "{amount} gemas",
+  "milestones.unlocked": "Desbloqueada",
+  "milestones.locked": "Bloqueada",
+  "milestones.next": "Faltam {remaining} inscrições para desbloquear {reward}",
+  "milestones.allUnlocked": "Todas as recompensas foram desbloqueadas. Obrigado, heróis!",
+
+  "preregister.email": "E-mail",
+  "preregister.emailPlaceholder": "heroi@exemplo.com",
+  "preregister.platform": "Plataforma",
+  "preregister.platformPlaceholder": "Escolha a plataforma",
+  "preregister.region": "Região",
+  "preregister.regionPlaceholder": "Escolha a região",
+  "preregister.submit": "Pré-registrar",
+  "preregister.submitting": "Registrando...",
+  "preregister.successTitle": "Você está na lista!",
+  "preregister.successBody": "Enviaremos um e-mail assim que Mini Mythics for lançado na sua região.",
+
+  "regions.na": "América do Norte",
+  "regions.latam": "América Latina",
+  "regions.eu": "Europa",
+  "regions.mena": "Oriente Médio e África",
+  "regions.sea": "Sudeste Asiático",
+  "regions.jp": "Japão",
+  "regions.kr": "Coreia",
+  "regions.oce": "Oceania",
+
+  "media.title.before": "Galeria de ",
+  "media.title.highlight": "Mídia",
+  "media.title.after": "",
+  "media.subtitle": "Capturas de tela, artes conceituais, papéis de parede e trailers do mundo de Mini Mythics.",
+  "media.all": "Tudo",
+  "media.categories.screenshots": "Capturas de Tela",
+  "media.categories.concept-art": "Arte Conceitual",
+  "media.categories.wallpapers": "Papéis de Parede",
+  "media.categories.trailers": "Trailers",
+  "media.empty": "Nada por aqui ainda. Volte em breve!",
+  "media.playTrailer": "Reproduzir trailer",
+  "media.lightbox.close": "Fechar",
+  "media.lightbox.previous": "Anterior",
+  "media.lightbox.next": "Próximo",
+  "media.lightbox.counter": "{current} de {total}",
+
+  "community.title.before": "Junte-se à ",
+  "community.title.highlight": "Comunidade",
+  "community.title.after": "",
+  "community.comingSoon": "Fóruns e Discord em Breve!",
+
+  "news.title.before": "Últimas ",
+  "news.title.highlight": "Notícias",
+  "news.title.after": "",
+  "news.subtitle": "Atualizações de desenvolvimento, notas de atualização e anúncios da equipe.",
+  "news.subscribe": "Assine:",
+  "news.all": "Todas",
+  "news.latest": "Últimas Notícias",
+  "news.viewAll": "Ver todas as notícias",
+  "news.readMore": "Ler mais",
+  "news.by": "Por {author}",
+  "news.back": "Voltar para notícias",
+  "news.loading": "Carregando...",
+  "news.empty": "Nenhuma publicação ainda. Volte em breve!",
+  "news.notFound": "Não encontramos essa publicação.",
+
+  "events.title.before": "Calendário de ",
+  "events.title.highlight": "eventos",
+  "events.title.after": "",
+  "events.subtitle": "O que está rolando, o que vem por aí e o que você perdeu.",
+  "events.types.login": "Login",
+  "events.types.spending": "Gastos",
+  "events.types.progress": "Progresso",
+  "events.types.pvp": "JxJ",
+  "events.types.collect": "Coleta",
+  "events.types.limited": "Limitado",
+  "events.types.battlePass": "Passe de batalha",
+  "events.endsIn": "Termina em {time}",
+  "events.startsIn": "Começa em {time}",
+  "events.ended": "Encerrado",
+  "events.durationDays": "{days} d {hours} h {minutes} min",
+  "events.durationHours": "{hours} h {minutes} min {seconds} s",
+  "events.task": "{task}: {target}",
+  "events.milestones": "Recompensas",
+  "events.milestone": "{progress}: {rewards}",
+  "events.addToCalendar": "Adicionar ao calendário",
+  "events.subscribeTitle": "Não perca nenhum evento",
+  "events.subscribe": "Assinar",
+  "events.download": "Baixar .ics",
+  "events.timezone": "Os horários estão no seu fuso horário ({timeZone}).",
+  "events.timezoneUtc": "Os horários estão em UTC.",
+  "events.schedule": "Programação",
+  "events.timeline": "Linha do tempo",
+  "events.now": "Agora",
+  "events.sections.live": "Acontecendo agora",
+  "events.sections.upcoming": "Em breve",
+  "events.sections.past": "Eventos anteriores",
+  "events.empty.live": "Nada acontecendo agora.",
+  "events.empty.upcoming": "Nada mais programado por enquanto. Volte em breve!",
+  "events.empty.past": "Nenhum evento terminou ainda.",
+
+  "support.title.before": "FAQ e ",
+  "support.title.highlight": "Suporte",
+  "support.title.after": "",
+  "support.subtitle": "Respostas para perguntas comuns, ou fale com a nossa equipe.",
+  "support.search": "Pesquisar no FAQ...",
+  "support.searchLabel": "Pesquisar no FAQ",
+  "support.all": "Todas",
+  "support.noResults": "Nenhuma resposta corresponde à sua pesquisa. Envie um ticket abaixo!",
+  "support.contactTitle": "Falar com o Suporte",
+  "support.statusTitle": "Status do Ticket",
+  "support.categories.account": "Conta",
+  "support.categories.purchases": "Compras",
+  "support.categories.bugs": "Bugs",
+  "support.form.email": "E-mail",
+  "support.form.category": "Categoria",
+  "support.form.categoryPlaceholder": "Sobre o que é?",
+  "support.form.subject": "Assunto",
+  "support.form.message": "Mensagem",
+  "support.form.messagePlaceholder": "Inclua seu ID de jogador, seu aparelho e o que aconteceu.",
+  "support.form.submit": "Enviar Ticket",
+  "support.form.submitting": "Enviando...",
+  "support.form.successTitle": "Ticket recebido!",
+  "support.form.successBody": "Guarde esta referência para acompanhar seu ticket depois:",
+  "support.lookup.reference": "Referência do Ticket",
+  "support.lookup.email": "E-mail",
+  "support.lookup.submit": "Ver Status",
+  "support.lookup.submitting": "Verificando...",
+  "support.lookup.missing": "Informe a referência do ticket e o seu e-mail.",
+  "support.lookup.notFound": "Nenhum ticket encontrado para essa referência e e-mail.",
+  "support.lookup.status": "Status",
+  "support.lookup.subject": "Assunto",
+  "support.lookup.category": "Categoria",
+  "support.lookup.opened": "Aberto em",
+  "support.lookup.updated": "Última Atualização",
+  "support.status.open": "Aberto",
+  "support.status.in_progress": "Em Andamento",
+  "support.status.resolved": "Resolvido",
+  "support.status.closed": "Fechado",
+
+  "classes.title.before": "Evolução de ",
+  "classes.title.highlight": "Classes",
+  "classes.title.after": "",
+  "classes.subtitle": "Todo herói começa como um humilde Slime. Escolha um caminho no nível 20, especialize-se no nível 50 e ascenda no nível 100.",
+  "classes.treeLabel": "Árvore de evolução",
+  "classes.level": "Nv {level}",
+  "classes.tiers.0": "Forma Base",
+  "classes.tiers.1": "Primeira Evolução",
+  "classes.tiers.2": "Ramo",
+  "classes.tiers.3": "Ramo II",
+  "classes.tiers.4": "Sub-ramo",
+  "classes.tiers.5": "Evolução",
+  "classes.tiers.6": "Forma Final",
+  "classes.paths.projectile": "Caminho de projéteis",
+  "classes.paths.pal": "Caminho de Pals",
+  "classes.paths.skill": "Caminho de habilidades",
+  "classes.select": "Selecione uma forma na árvore para ver seus bônus.",
+  "classes.tier": "Estágio {tier} · {name}",
+  "classes.unlocksAt": "Desbloqueia no nível {level}",
+  "classes.stats": "Bônus de atributos",
+  "classes.noStats": "Sem bônus de atributos",
+  "classes.activeSkill": "Habilidade de evolução",
+  "classes.skillStats": "{cooldown}s de recarga · {damage} de dano base",
+  "classes.passive": "Passiva",
+  "classes.passiveUpgrade": "Melhora {name}",
+  "classes.heldPassives": "Passivas obtidas ({count}/{max})",
+  "classes.pathBonus": "Bônus de caminho",
+  "classes.evolvesFrom": "Evolui de",
+  "classes.evolvesInto": "Evolui para",
+  "classes.notFound": "Não encontramos essa classe.",
+
+  "companions.title.before": "Bestiário de ",
+  "companions.title.highlight": "Pals",
+  "companions.title.after": "",
+  "companions.subtitle": "Conheça os companheiros que lutam ao seu lado. {revealed} de {total} Pals revelados até agora.",
+  "companions.provisional": "Provisório: estes Pals, seus atributos e bônus são temporários enquanto o elenco é projetado, e vão mudar antes do lançamento.",
+  "companions.search": "Busque Pals pelo nome...",
+  "companions.searchLabel": "Buscar Pals",
+  "companions.rarityFilter": "Raridade",
+  "companions.elementFilter": "Elemento",
+  "companions.allRarities": "Todas as raridades",
+  "companions.allElements": "Todos os elementos",
+  "companions.empty": "Nenhum Pal corresponde a esses filtros.",
+  "companions.back": "Voltar ao bestiário",
+  "companions.notFound": "Não encontramos esse Pal.",
+  "companions.types.attack": "Ataque",
+  "companions.types.defense": "Defesa",
+  "companions.types.support": "Suporte",
+  "companions.types.utility": "Utilidade",
+  "companions.skill": "Habilidade",
+  "companions.cooldown": "{cooldown}s de recarga",
+  "companions.passive": "Passiva",
+  "companions.buffs": "Bônus quando implantado",
+  "companions.deployNote": "Implante até {max} Pals ao mesmo tempo; cada Pal implantado concede seus bônus.",
+  "companions.stats": "Atributos",
+  "companions.stat": "Atributo",
+  "companions.statsAt": "Nv {level} · {stars}★",
+  "companions.behavior": "Comportamento",
+  "companions.attackRange": "Alcance de ataque",
+  "companions.aggroRange": "Alcance de agressão",
+  "companions.followDistance": "Distância de acompanhamento",
+
+  "skills.title.before": "Banco de ",
+  "skills.title.highlight": "habilidades",
+  "skills.title.after": "",
+  "skills.subtitle": "Todas as {total} habilidades colecionáveis, com os valores em cada nível. Fixe até três para compará-las.",
+  "skills.search": "Pesquise habilidades por nome ou efeito...",
+  "skills.searchLabel": "Pesquisar habilidades",
+  "skills.rarityFilter": "Raridade",
+  "skills.damageTypeFilter": "Tipo de dano",
+  "skills.cooldownFilter": "Recarga",
+  "skills.allRarities": "Todas as raridades",
+  "skills.allDamageTypes": "Todos os tipos de dano",
+  "skills.allCooldowns": "Qualquer recarga",
+  "skills.cooldownBands.short": "Menos de 5 s",
+  "skills.cooldownBands.medium": "5–15 s",
+  "skills.cooldownBands.long": "15 s ou mais",
+  "skills.empty": "Nenhuma habilidade corresponde a esses filtros.",
+  "skills.back": "Voltar ao banco de habilidades",
+  "skills.notFound": "Não encontramos essa habilidade.",
+  "skills.damageTypes.physical": "Físico",
+  "skills.damageTypes.magical": "Mágico",
+  "skills.damageTypes.true": "Dano verdadeiro",
+  "skills.utility": "Utilidade",
+  "skills.cooldown": "Recarga de {cooldown} s",
+  "skills.seconds": "{seconds} s",
+  "skills.targets.self": "Si mesmo",
+  "skills.targets.point": "Área no chão",
+  "skills.targets.enemy": "Um inimigo",
+  "skills.targets.ally": "Aliado",
+  "skills.targets.direction": "Direção",
+  "skills.effects.damage": "Causa {value} de dano",
+  "skills.effects.heal": "Restaura {value} de PV",
+  "skills.effects.buff": "Bônus de {value}",
+  "skills.effects.debuff": "Penalidade de {value}",
+  "skills.effects.stun": "Atordoa",
+  "skills.effects.slow": "Desacelera em {value}",
+  "skills.effects.knockback": "Empurra {value} unidades",
+  "skills.effects.dash": "Avança {value} unidades",
+  "skills.effects.summon": "Invoca {value}",
+  "skills.effects.shield": "Escudo de {value}",
+  "skills.effectFor": "{effect} por {seconds} s",
+  "skills.effectChance": "{effect} ({chance} de chance)",
+  "skills.effectsNote": "Valores no nível 1. O dano aumenta a cada nível; veja a tabela abaixo.",
+  "skills.pin": "Fixar {name} para comparar",
+  "skills.unpin": "Desafixar {name}",
+  "skills.remove": "Remover",
+  "skills.comparisonFull": "Você pode comparar até três habilidades. Desafixe uma primeiro.",
+  "skills.comparison": "Comparação",
+  "skills.comparisonHint": "Fixe outra habilidade para compará-las lado a lado.",
+  "skills.comparisonCount": "Comparando {count} de até {max} habilidades.",
+  "skills.clearComparison": "Limpar",
+  "skills.viewComparison": "Comparar {count} habilidades",
+  "skills.details": "Detalhes",
+  "skills.rarity": "Raridade",
+  "skills.damageType": "Tipo de dano",
+  "skills.target": "Alvo",
+  "skills.cooldownHeader": "Recarga",
+  "skills.mana": "Mana",
+  "skills.range": "Alcance",
+  "skills.areaRadius": "Raio de área",
+  "skills.maxLevel": "Nível máximo",
+  "skills.effectsHeader": "Efeitos",
+  "skills.perLevel": "Escalonamento por nível",
+  "skills.levelsCaption": "{name} em cada nível",
+  "skills.level": "Nível",
+  "skills.damage": "Dano",
+  "skills.scaling": "Escalonamento",
+  "skills.upgradeCost": "Custo de melhoria",
+  "skills.cost": "{gold} de ouro · {fragments} fragmentos",
+
+  "leaderboard.title.before": "Ranking da ",
+  "leaderboard.title.highlight": "Arena",
+  "leaderboard.title.after": "",
+  "leaderboard.subtitle": "Os Mythics mais fortes de cada temporada da arena. O ranking é atualizado a cada minuto.",
+  "leaderboard.seasonFilter": "Temporada",
+  "leaderboard.categoryFilter": "Ranking",
+  "leaderboard.endsOn": "A temporada termina em {date}",
+  "leaderboard.endedOn": "A temporada terminou em {date}",
+  "leaderboard.categories.rating": "Pontuação na arena",
+  "leaderboard.categories.wins": "Vitórias na arena",
+  "leaderboard.categories.power": "Poder de combate",
+  "leaderboard.categories.level": "Nível",
+  "leaderboard.search": "Busque jogadores pelo nome...",
+  "leaderboard.searchLabel": "Buscar jogadores",
+  "leaderboard.searchSubmit": "Buscar",
+  "leaderboard.rank": "Posição",
+  "leaderboard.player": "Jogador",
+  "leaderboard.level": "Nível",
+  "leaderboard.loading": "Carregando ranking...",
+  "leaderboard.empty": "Nenhum jogador corresponde a esse nome.",
+  "leaderboard.noSeason": "O ranking abre quando a primeira temporada da arena começar.",
+  "leaderboard.pagination": "Páginas do ranking",
+  "leaderboard.previous": "Anterior",
+  "leaderboard.next": "Próxima",
+  "leaderboard.pageOf": "Página {page} de {pages}",
+
+  "rates.title.before": "",
+  "rates.title.highlight": "Probabilidades",
+  "rates.title.after": "",
+  "rates.subtitle": "As probabilidades exatas de cada banner de invocação, incluindo como o pity funciona.",
+  "rates.types.standard": "Banner padrão",
+  "rates.types.limited": "Banner limitado",
+  "rates.types.collab": "Banner de colaboração",
+  "rates.window": "{from} – {until}",
+  "rates.permanent": "Sempre disponível",
+  "rates.cost": "Custo: {single} gemas por invocação ou {ten} gemas por 10 invocações.",
+  "rates.pity": "Pity suave: as chances de {rarity} ou superior aumentam a partir da invocação {soft}. Pity garantido: a invocação {hard} é um {rarity} garantido.",
+  "rates.averagePity": "Em média, um {rarity} ou melhor a cada {pulls} invocações.",
+  "rates.featured": "Em destaque: {items}. {share} das invocações {rarity} são em destaque.",
+  "rates.averageFeatured": "Em média, um Pal em destaque a cada {pulls} invocações.",
+  "rates.tableCaption": "Probabilidades por invocação em {banner}",
+  "rates.rarity": "Raridade",
+  "rates.baseRate": "Chance base",
+  "rates.softPityAdd": "Bônus de pity suave por invocação",
+  "rates.consolidated": "Chance geral com pity",
+  "rates.footnote": "A chance geral é a probabilidade média por invocação a longo prazo, contando o pity suave e o garantido. O pity é contado separadamente em cada banner, e uma invocação x10 tem as mesmas chances que 10 invocações avulsas.",
+  "rates.simulator.title": "Simulador de invocações",
+  "rates.simulator.subtitle": "Simula {trials} jogadores invocando até conseguir um Pal em destaque, com as mesmas regras de pity do jogo.",
+  "rates.simulator.banner": "Banner",
+  "rates.simulator.pity": "Pity atual",
+  "rates.simulator.pityHint": "Invocações desde o último reinício do pity neste banner, de 0 a {max}.",
+  "rates.simulator.run": "Simular",
+  "rates.simulator.resultsFor": "{banner}, começando com pity {pity}",
+  "rates.simulator.expected": "Média exata",
+  "rates.simulator.average": "Média simulada",
+  "rates.simulator.median": "Metade conseguiu em até",
+  "rates.simulator.p90": "90% conseguiram em até",
+  "rates.simulator.chart": "Quantas invocações os jogadores precisaram, até {p99} invocações (99% dos jogadores)",
+  "rates.simulator.bin": "Invocações {from}–{to}: {share} dos jogadores ({cumulative} até a invocação {to})",
+  "rates.simulator.axis": "Invocações necessárias",
+
+  "redeem.title.before": "Resgatar um ",
+  "redeem.title.highlight": "código",
+  "redeem.title.after": "",
+  "redeem.subtitle": "Ganhou um código de presente em uma live, evento ou newsletter? Resgate aqui.",
+  "redeem.playerId": "ID de jogador",
+  "redeem.playerIdHint": "Encontre no jogo em Configurações → Conta e toque para copiar.",
+  "redeem.region": "Região do servidor",
+  "redeem.regionPlaceholder": "Selecione sua região",
+  "redeem.code": "Código",
+  "redeem.submit": "Resgatar",
+  "redeem.submitting": "Resgatando...",
+  "redeem.successTitle": "Código resgatado!",
+  "redeem.successBody": "As recompensas de {code} estão a caminho:",
+  "redeem.reward": "{item} ×{amount}",
+  "redeem.another": "Resgatar outro código",
+  "redeem.mailbox": "As recompensas chegam à caixa de correio do jogo em alguns minutos. Reinicie o jogo se não as vir.",
+  "redeem.unavailable": "Não conseguimos confirmar suas recompensas com o servidor do jogo. Tente novamente em alguns minutos; você não vai recebê-las duas vezes.",
+  "redeem.tooManyAttempts": "Muitos códigos inválidos. Aguarde alguns minutos antes de tentar novamente.",
+  "redeem.items.gold": "Ouro",
+  "redeem.items.gems": "Gemas",
+  "redeem.items.stamina": "Energia",
+  "redeem.items.arena": "Moedas da arena",
+  "redeem.items.summon_ticket": "Ticket de invocação",
+  "redeem.errors.playerIdRequired": "Digite seu ID de jogador.",
+  "redeem.errors.playerIdInvalid": "Isso não parece um ID de jogador. Copie em Configurações → Conta.",
+  "redeem.errors.unknownPlayer": "Não encontramos nenhum jogador com esse ID nesta região.",
+  "redeem.errors.codeRequired": "Digite um código.",
+  "redeem.errors.codeInvalid": "Esse código não é válido. Confira se foi digitado corretamente.",
+  "redeem.errors.expired": "Esse código expirou.",
+  "redeem.errors.usedUp": "Esse código já foi totalmente resgatado.",
+  "redeem.errors.alreadyRedeemed": "Você já resgatou um código desta promoção.",
+  "redeem.errors.wrongRegion": "Esse código não pode ser usado na sua região.",
+  "redeem.errors.regionMismatch": "Esse ID de jogador pertence a outra região. Escolha a região em que sua conta joga.",
+
+  "planner.title.before": "Planejador de ",
+  "planner.title.highlight": "builds",
+  "planner.title.after": "",
+  "planner.subtitle": "Teste uma classe e um equipamento antes de rolar por eles, e veja qual melhoria aumenta mais o seu dano.",
+  "planner.provisional": "Números provisórios: os atributos base dos equipamentos são temporários até o balanceamento ser finalizado, então todos os resultados vão mudar antes do lançamento.",
+  "planner.character": "Personagem",
+  "planner.form": "Classe",
+  "planner.formOption": "Nível {tier} · {name}",
+  "planner.level": "Nível",
+  "planner.enemyDef": "DEF do inimigo",
+  "planner.gear": "Equipamento",
+  "planner.gearHint": "Escolha uma raridade e até dois atributos secundários para cada espaço da rolagem de dados.",
+  "planner.slots.weapon": "Arma",
+  "planner.slots.bullet": "Bala",
+  "planner.slots.attribute": "Atributo",
+  "planner.slots.helmet": "Capacete",
+  "planner.slots.mask": "Máscara",
+  "planner.slots.necklace": "Colar",
+  "planner.slots.cloak": "Capa",
+  "planner.slots.gloves": "Luvas",
+  "planner.slots.shield": "Escudo",
+  "planner.slots.boots": "Botas",
+  "planner.unlocksAt": "Desbloqueia no Nv. {level}",
+  "planner.empty": "Vazio",
+  "planner.subAttribute": "{slot}: atributo secundário {n}",
+  "planner.noSubAttribute": "Sem atributo secundário",
+  "planner.subValue": "Valor de {attribute}, de {min} a {max}",
+  "planner.dps": "Dano por segundo esperado",
+  "planner.basicAttack": "Ataque básico",
+  "planner.perSecond": "{value} / s",
+  "planner.hit": "{normal} por golpe, {critical} em crítico, {rate} golpes por segundo",
+  "planner.copyLink": "Copiar link desta build",
+  "planner.copied": "Link copiado",
+  "planner.upgrades": "Melhores melhorias",
+  "planner.upgradesHint": "Quanto cada melhoria aumentaria o seu dano por segundo.",
+  "planner.stats": "Atributos totais",
+  "planner.footnote": "Estimativas contra um único alvo com a fórmula de dano do jogo. Passivas de evolução, Pals e espaços especiais ainda não são contados.",
+
+  "rarities.normal": "Normal",
+  "rarities.unique": "Única",
+  "rarities.well": "Boa",
+  "rarities.rare": "Rara",
+  "rarities.mythic": "Mítica",
+  "rarities.epic": "Épica",
+  "rarities.legendary": "Lendária",
+  "rarities.immortal": "Imortal",
+  "rarities.supreme": "Suprema",
+  "rarities.aurous": "Áurea",
+  "rarities.eternal": "Eterna",
+  "elements.physical": "Físico",
+  "elements.fire": "Fogo",
+  "elements.ice": "Gelo",
+  "elements.lightning": "Raio",
+  "elements.poison": "Veneno",
+
+  "admin.title.before": "Console da ",
+  "admin.title.highlight": "Equipe",
+  "admin.title.after": "",
+  "admin.checking": "Verificando sua sessão…",
+  "admin.signedInAs": "Conectado como {name}",
+  "admin.logout": "Sair",
+  "admin.sessionExpired": "Sua sessão expirou. Entre novamente.",
+  "admin.login.title": "Entrar",
+  "admin.login.username": "Usuário",
+  "admin.login.password": "Senha",
+  "admin.login.submit": "Entrar",
+  "admin.login.submitting": "Entrando…",
+  "admin.login.failed": "Usuário ou senha incorretos.",
+  "admin.login.locked": "Muitas tentativas com falha. Tente novamente em alguns minutos.",
+  "admin.home.title": "Página inicial",
+  "admin.home.subtitle": "Textos do destaque e cards de recursos da página inicial.",
+  "admin.home.loading": "Carregando conteúdo…",
+  "admin.home.language": "Idioma de edição",
+  "admin.home.fallbackHint": "Campos em branco mostram o texto em inglês.",
+  "admin.home.badge": "Selo",
+  "admin.home.headline": "Título principal",
+  "admin.home.headlineHint": "Envolva as palavras destacadas com *asteriscos*.",
+  "admin.home.heroSubtitle": "Subtítulo",
+  "admin.home.featuresTitle": "Título dos recursos",
+  "admin.home.features": "Cards de recursos",
+  "admin.home.addCard": "Adicionar card",
+  "admin.home.card": "Card {number}",
+  "admin.home.moveUp": "Mover para cima",
+  "admin.home.moveDown": "Mover para baixo",
+  "admin.home.removeCard": "Remover card",
+  "admin.home.icon": "Ícone",
+  "admin.home.color": "Cor",
+  "admin.home.link": "Link",
+  "admin.home.noLink": "Sem link",
+  "admin.home.cardTitle": "Título",
+  "admin.home.cardDescription": "Descrição",
+  "admin.home.icons.shield": "Escudo",
+  "admin.home.icons.zap": "Raio",
+  "admin.home.icons.heart": "Coração",
+  "admin.home.icons.sparkles": "Brilhos",
+  "admin.home.icons.swords": "Espadas",
+  "admin.home.icons.star": "Estrela",
+  "admin.home.icons.crown": "Coroa",
+  "admin.home.icons.gem": "Gema",
+  "admin.home.colors.blue": "Azul",
+  "admin.home.colors.primary": "Coral",
+  "admin.home.colors.secondary": "Turquesa",
+  "admin.home.colors.accent": "Laranja",
+  "admin.home.colors.wood": "Madeira",
+  "admin.home.preview": "Pré-visualização",
+  "admin.home.invalid": "Obrigatório em inglês, até {max} caracteres.",
+  "admin.home.conflict": "Outra pessoa salvou alterações nesse meio-tempo. Descarte as suas para carregar as dela e refaça suas edições.",
+  "admin.home.save": "Salvar alterações",
+  "admin.home.saving": "Salvando…",
+  "admin.home.saved": "Salvo. A página inicial já mostra os novos textos.",
+  "admin.home.discard": "Descartar alterações",
+  "admin.stats.title": "Tráfego",
+  "admin.stats.subtitle": "Contagens sem cookies de visualizações e cliques nos botões de loja. Visitantes com «Não rastrear» nunca são contados.",
+  "admin.stats.range": "Período",
+  "admin.stats.lastDays": "Últimos {days} dias",
+  "admin.stats.loading": "Carregando tráfego…",
+  "admin.stats.pageviews": "Visualizações",
+  "admin.stats.homePageviews": "Visualizações da home",
+  "admin.stats.storeClicks": "Cliques nas lojas",
+  "admin.stats.ctr": "Taxa de cliques",
+  "admin.stats.daily": "Visualizações diárias",
+  "admin.stats.dailyChart": "{total} visualizações neste período",
+  "admin.stats.routes": "Páginas",
+  "admin.stats.route": "Rota",
+  "admin.stats.perDay": "Por dia",
+  "admin.stats.empty": "Nada registrado ainda.",
+  "admin.stats.referrers": "Referências",
+  "admin.stats.site": "Site",
+  "admin.stats.storeButtons": "Botões de loja",
+  "admin.stats.store": "Loja",
+  "admin.stats.clicks": "Cliques",
+  "admin.milestones.title": "Contador de marcos",
+  "admin.milestones.subtitle": "O número de inscrições usado no marcador de recompensas da página inicial.",
+  "admin.milestones.loading": "Carregando o contador…",
+  "admin.milestones.signups": "Inscrições neste servidor",
+  "admin.milestones.adjustment": "Ajuste",
+  "admin.milestones.shown": "Número exibido",
+  "admin.milestones.hint": "Some inscrições feitas em outros lugares, como em eventos, ou use um número negativo para corrigir o total.",
+  "admin.milestones.invalid": "Digite um número inteiro, por ex. 1500 ou -200.",
+  "admin.milestones.save": "Salvar ajuste",
+  "admin.milestones.saved": "Salvo. A página inicial mostra o novo número em até um minuto.",
+  "admin.audit.title": "Registro de auditoria",
+  "admin.audit.loading": "Carregando o registro de auditoria…",
+  "admin.audit.empty": "Nada registrado ainda.",
+  "admin.audit.when": "Quando",
+  "admin.audit.who": "Quem",
+  "admin.audit.what": "O quê",
+  "admin.audit.actions.login": "Entrou",
+  "admin.audit.actions.logout": "Saiu",
+  "admin.audit.actions.content.update": "Editou conteúdo",
+  "admin.audit.actions.milestones.adjust": "Ajustou o contador de marcos",
+  "admin.audit.emptyValue": "(vazio)",
+  "admin.audit.pagination": "Páginas do registro de auditoria",
+  "admin.audit.newer": "Mais recentes",
+  "admin.audit.older": "Mais antigos",
+  "admin.audit.pageOf": "Página {page} de {pages}",
+
+  "notFound.title.before": "Página ",
+  "notFound.title.highlight": "Não Encontrada",
+  "notFound.title.after": "",
+  "notFound.body": "Este caminho não leva a lugar nenhum, herói. Vamos voltar ao rumo certo.",
+  "notFound.home": "Voltar ao início",
+
+  "meta.home.description": "Mini Mythics é a aventura RPG para celular mais fofa. Evolua seu herói, faça amizade com companheiros místicos e salve o reino. Pré-registre-se agora!",
+  "meta.media.title": "Galeria de Mídia",
+  "meta.media.description": "Capturas de tela, artes conceituais, papéis de parede e trailers de Mini Mythics.",
+  "meta.community.title": "Comunidade",
+  "meta.community.description": "Junte-se à comunidade de heróis de Mini Mythics.",
+  "meta.news.title": "Notícias",
+  "meta.news.description": "Atualizações de desenvolvimento, notas de atualização e anúncios da equipe de Mini Mythics.",
+  "meta.events.title": "Calendário de eventos",
+  "meta.events.description": "Eventos e temporadas do passe de batalha de Mini Mythics, atuais e futuros, com contagens regressivas e downloads para o seu calendário.",
+  "meta.classes.title": "Evolução de Classes",
+  "meta.classes.description": "Explore a árvore de evolução de Mini Mythics: cada forma, bônus e passiva do Slime à Forma Final.",
+  "meta.companions.title": "Bestiário de Pals",
+  "meta.companions.description": "Veja todos os Pals revelados de Mini Mythics por raridade e elemento, com habilidades, bônus e comportamento em combate.",
+  "meta.skills.title": "Banco de dados de habilidades",
+  "meta.skills.description": "Pesquise todas as habilidades de Mini Mythics por raridade, tipo de dano e recarga, e compare habilidades nível a nível.",
+  "meta.leaderboard.title": "Ranking da Arena",
+  "meta.leaderboard.description": "Rankings de temporada da arena de Mini Mythics: os melhores jogadores por pontuação, vitórias, poder de combate e nível.",
+  "meta.rates.title": "Probabilidades",
+  "meta.rates.description": "Probabilidades publicadas de cada banner de invocação de Mini Mythics, com regras de pity e um simulador de invocações.",
+  "meta.redeem.title": "Resgatar um código",
+  "meta.redeem.description": "Digite um código de presente de Mini Mythics e seu ID de jogador para receber as recompensas na caixa de correio do jogo.",
+  "meta.planner.title": "Planejador de builds",
+  "meta.planner.description": "Planeje uma build de Mini Mythics: escolha a classe, as raridades dos equipamentos e os atributos secundários, e veja os atributos totais e o dano por segundo esperado.",
+  "meta.admin.title": "Console da Equipe",
+  "meta.admin.description": "Entre para editar o conteúdo do site de Mini Mythics.",
+  "meta.support.title": "FAQ e Suporte",
+  "meta.support.description": "Respostas para perguntas comuns sobre contas, compras e bugs de Mini Mythics, e contato com o suporte.",
+  "meta.notFound.title": "Página Não Encontrada",
+  "meta.notFound.description": "A página que você procura não existe.",
+
+  "validation.emailRequired": "O e-mail é obrigatório.",
+  "validation.emailInvalid": "Informe um e-mail válido.",
+  "validation.platformRequired": "Escolha iOS ou Android.",
+  "validation.regionRequired": "Escolha sua região.",
+  "validation.categoryRequired": "Escolha uma categoria.",
+  "validation.subjectRequired": "O assunto é obrigatório.",
+  "validation.subjectTooLong": "O assunto deve ter menos de 120 caracteres.",
+  "validation.messageTooShort": "Conte um pouco mais (pelo menos 10 caracteres).",
+  "validation.messageTooLong": "A mensagem deve ter menos de 5000 caracteres.",
+
+  "errors.checkFields": "Verifique os campos destacados.",
+  "errors.generic": "Algo deu errado. Tente novamente.",
+};
@@ -1,43 +1,52 @@
 import { serve } from "bun";
+import { existsSync } from "fs";
 import index from "./index.html";
+import { requireAdmin } from "./server/admin";
+import { getEventIcs, getEventsCalendar } from "./server/calendar";
+import { getHomeContent } from "./server/home";
+import { getAtomFeed, getNewsIndex, getNewsPost, getRssFeed } from "./server/news";
+import { serveStatic } from "./server/static";
+import { goToStore } from "./server/stores";
+import { v1Routes } from "./server/v1";
+
+// Build output: chunk names carry a content hash, pages must revalidate.
+const DIST_CACHE_CONTROL = (file: string) =>
+  /^chunk-[a-z0-9]+\.(js|css)$/.test(file) ? "public, max-age=31536000, immutable"
+    : file.endsWith(".html") ? "no-cache"
+      : "public, max-age=3600";
+
+// In production, serve the prerendered pages from `bun run build` when they exist.
+const dist = process.env.NODE_ENV === "production" && existsSync("dist/index.html")
+  ? serveStatic("dist", { index: "index.html", extensions: [".html"], notFound: "404.html", cacheControl: DIST_CACHE_CONTROL })
+  : null;
 
 const server = serve({
   routes: {
     // Serve static images
-    "/images/*": async (req) => {
-      const url = new URL(req.url);
-      const filePath = `.${url.pathname}`;
-      const file = Bun.file(filePath);
-      if (await file.exists()) {
-        return new Response(file);
-      }
-      return new Response("Not found", { status: 404 });
-    },
-
-    // Serve index.html for all unmatched routes.
-    "/*": index,
-
-    "/api/hello": {
-      async GET(req) {
-        return Response.json({
-          message: "Hello, world!",
-          method: "GET",
-        });
-      },
-      async PUT(req) {
-        return Response.json({
-          message: "Hello, world!",
-          method: "PUT",
-        });
-      },
-    },
-
-    "/api/hello/:name": async req => {
-      const name = req.params.name;
-      return Response.json({
-        message: `Hello, ${name}!`,
-      });
-    },
+    "/images/*": serveStatic("images", { cacheControl: () => "public, max-age=86400" }, "/images"),
+
+    // Editable home-page copy (baked into the home page by build.ts)
+    "/content/home.json": getHomeContent,
+
+    // News content and feeds, read from content/news/ on each request. With a
+    // build, the static copies build.ts wrote to dist/ answer instead.
+    "/content/news.json": dist ?? getNewsIndex,
+    "/content/news/:file": dist ?? getNewsPost,
+    "/feed.xml": dist ?? getRssFeed,
+    "/atom.xml": dist ?? getAtomFeed,
+
+    // Event calendar for calendar apps, plus one file per event (dist/ has static copies from build.ts)
+    "/api/events/calendar.ics": dist ?? getEventsCalendar,
+    "/api/events/:file": dist ?? getEventIcs,
+
+    // Store badge links: redirect to the listing, keeping campaign parameters
+    "/go/:store": goToStore,
+
+    // Serve index.html (or the built pages) for all unmatched routes.
+    "/*": dist ?? index,
+
+    // JSON API, documented at /api/v1/openapi.json; /api/v1/admin/* needs a staff session
+    ...requireAdmin(v1Routes),
   },
 
   development: process.env.NODE_ENV !== "production" && {
@@ -0,0 +1,74 @@
+/**
+ * Shapes and client helpers for the staff console at `/admin`. Every
+ * `/api/v1/admin/*` call except login needs the session cookie set by
+ * `POST /api/v1/admin/login`; see `src/server/admin.ts`.
+ */
+
+import { getJson, postJson, putJson } from "./api";
+import type { HomeContent } from "./home";
+
+export const AUDIT_ACTIONS = ["login", "logout", "content.update", "milestones.adjust"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_PAGE_SIZE = 25;
+
+export interface AdminSession {
+  username: string;
+  /** ISO timestamp; sign in again after this. */
+  expiresAt: string;
+}
+
+export interface AuditChange {
+  /** Dotted path into the edited document, e.g. `features.1.title.es`. */
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface AuditEntry {
+  id: number;
+  username: string;
+  action: AuditAction;
+  /** What was touched, e.g. `content/home.json`; empty for sign-ins. */
+  target: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface EditableHomeContent {
+  content: HomeContent;
+  /** Send back on save; the server refuses the save if someone else saved in between. */
+  revision: string;
+}
+
+export function fetchAdminSession() {
+  return getJson<AdminSession>("/api/v1/admin/session");
+}
+
+export function login(username: string, password: string) {
+  return postJson<AdminSession>("/api/v1/admin/login", { username, password });
+}
+
+export function logout() {
+  return postJson<{ ok: boolean }>("/api/v1/admin/logout", {});
+}
+
+export function fetchEditableHomeContent() {
+  return getJson<EditableHomeContent>("/api/v1/admin/content/home");
+}
+
+export function saveHomeContent(content: HomeContent, revision: string) {
+  return putJson<EditableHomeContent>("/api/v1/admin/content/home", { content, revision });
+}
+
+export function fetchAuditLog(page: number) {
+  return getJson<AuditLogPage>(`/api/v1/admin/audit?page=${page}`);
+}
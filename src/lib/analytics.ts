@@ -0,0 +1,85 @@
+/**
+ * First-party analytics. The browser reports named events to
+ * `POST /api/v1/events`, which only bumps per-day counters: no cookies, no IP
+ * addresses, no user agents and no raw URLs are stored. Visitors who send
+ * Do-Not-Track or Global Privacy Control are not tracked at all.
+ */
+
+import { getJson } from "./api";
+
+export const ANALYTICS_EVENTS = ["pageview", "store_click"] as const;
+
+export type AnalyticsEvent = (typeof ANALYTICS_EVENTS)[number];
+
+/** Route reported for paths that match no page. */
+export const NOT_FOUND_ROUTE = "*";
+
+export const STATS_RANGES = [7, 30, 90] as const;
+
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+export interface RouteStats {
+  route: string;
+  total: number;
+  /** One count per entry in `AnalyticsStats.days`. */
+  daily: number[];
+}
+
+export interface AnalyticsStats {
+  /** Every UTC day in the range, oldest first, `YYYY-MM-DD`. */
+  days: string[];
+  /** Pageviews per route, busiest first. */
+  routes: RouteStats[];
+  /** Other sites visitors arrived from, by host. */
+  referrers: { host: string, pageviews: number }[];
+  homePageviews: number;
+  /** Store button clicks; `ctr` is clicks per home pageview. */
+  storeClicks: { store: string, clicks: number, ctr: number }[];
+}
+
+export function fetchAnalyticsStats(days: StatsRange) {
+  return getJson<AnalyticsStats>(`/api/v1/admin/stats?days=${days}`);
+}
+
+function trackingAllowed() {
+  if (typeof navigator === "undefined") return false;
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = window as Window & { doNotTrack?: string };
+  return nav.doNotTrack !== "1" && win.doNotTrack !== "1" && nav.globalPrivacyControl !== true;
+}
+
+let currentRoute = NOT_FOUND_ROUTE;
+let lastPath: string | undefined;
+
+/** Records a named event on the current route. Failures are ignored; analytics must never break the page. */
+export function track(name: AnalyticsEvent, label?: string) {
+  if (!trackingAllowed()) return;
+  const body = new Blob([JSON.stringify({ name, route: currentRoute, label })], { type: "application/json" });
+  if (!navigator.sendBeacon?.("/api/v1/events", body)) {
+    fetch("/api/v1/events", { method: "POST", body, keepalive: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Records a pageview for `route` unless the path hasn't changed (React's
+ * StrictMode runs effects twice). Only the first pageview of a visit carries
+ * the referring host, and only when it is another site.
+ */
+export function trackPageview(route: string) {
+  const path = window.location.pathname;
+  if (path === lastPath) return;
+  const first = lastPath === undefined;
+  lastPath = path;
+  currentRoute = route;
+
+  let referrer: string | undefined;
+  if (first && document.referrer) {
+    try {
+      const host = new URL(document.referrer).hostname;
+      if (host !== window.location.hostname) referrer = host;
+    } catch {
+      // Not a URL; leave the visit without a referrer.
+    }
+  }
+  track("pageview", referrer);
+}
@@ -0,0 +1,52 @@
+/**
+ * Small fetch helpers for talking to the Bun server's `/api/v1/*` routes.
+ * Non-2xx responses are turned into an `ApiError` carrying the server's
+ * error code, message and any per-field validation errors.
+ */
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fields: Record<string, string> = {},
+    /** Machine-readable code from the error envelope, e.g. `validation_failed`. */
+    public readonly code?: string,
+    /** Quote this when reporting a problem; it matches the server logs. */
+    public readonly requestId?: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function parse<T>(res: Response): Promise<T> {
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    // API routes answer with `{ error: { code, message, fields, requestId } }`; plain JSON routes with `{ error }`.
+    const error = typeof body?.error === "string" ? { message: body.error } : body?.error;
+    throw new ApiError(error?.message ?? `Request failed (${res.status})`, res.status, error?.fields, error?.code, error?.requestId);
+  }
+  return body as T;
+}
+
+export async function getJson<T>(path: string): Promise<T> {
+  return parse<T>(await fetch(path, { headers: { Accept: "application/json" } }));
+}
+
+async function sendJson<T>(method: "POST" | "PUT", path: string, data: unknown): Promise<T> {
+  return parse<T>(
+    await fetch(path, {
+      method,
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(data),
+    }),
+  );
+}
+
+export function postJson<T>(path: string, data: unknown): Promise<T> {
+  return sendJson<T>("POST", path, data);
+}
+
+export function putJson<T>(path: string, data: unknown): Promise<T> {
+  return sendJson<T>("PUT", path, data);
+}
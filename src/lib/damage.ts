@@ -0,0 +1,69 @@
+import type { Attribute, StatBlock } from "../data/attributes";
+
+/**
+ * A port of `CalculateDamage` from the game server (docs/ARCH.md, "Damage
+ * Calculation"), returning the average over crits instead of rolling one.
+ * Percentage attributes are whole numbers (`5` is 5%), as in `StatBlock`.
+ */
+
+/** `DefaultPlayerStats`. Crit DMG is the total multiplier, so 150 means ×1.5. */
+export const DEFAULT_PLAYER_STATS: StatBlock = {
+  hp: 100,
+  atk: 10,
+  def: 5,
+  basicAtkCrit: 5,
+  basicAtkCritDmg: 150,
+  skillCrit: 5,
+  skillCritDmg: 150,
+  regenPerSec: 1,
+};
+
+/** Added on every level up (`LevelUp`). */
+export const LEVEL_UP_STATS: StatBlock = { hp: 10, atk: 2, def: 1 };
+
+/** Max HP grows by this fraction per level on top of the flat gains (`RecalculateStats`). */
+export const LEVEL_HP_BONUS = 0.02;
+
+export const MAX_LEVEL = 100;
+
+/** Seconds between basic attacks before attack speed (`GameConfig.AttackCooldown`). */
+export const ATTACK_COOLDOWN = 0.5;
+
+/** Base damage of a basic attack, the Slime Shot every form starts with. */
+export const BASIC_ATTACK_DAMAGE = 10;
+
+export interface HitStats {
+  atk: number;
+  /** Percent. */
+  critRate: number;
+  /** Percent; 150 means crits deal ×1.5. */
+  critDmg: number;
+  /** Multipliers applied last, like skill and buff modifiers on the server. */
+  modifiers: number[];
+}
+
+/** Adds `stats` onto `total`, attribute by attribute. */
+export function addStats(total: StatBlock, stats: StatBlock): StatBlock {
+  for (const [attribute, value] of Object.entries(stats) as [Attribute, number][]) {
+    total[attribute] = (total[attribute] ?? 0) + value;
+  }
+  return total;
+}
+
+/** Damage from one hit against `defense`: crit and non-crit, and the average of the two. */
+export function calculateDamage(baseDamage: number, hit: HitStats, defense: number, trueDamage = false) {
+  const critChance = Math.min(1, Math.max(0, hit.critRate / 100));
+
+  const finish = (raw: number) => {
+    let damage = raw;
+    // Defense blocks defense / (defense + 100) of the hit; true damage ignores it.
+    if (!trueDamage) damage *= 1 - defense / (defense + 100);
+    for (const modifier of hit.modifiers) damage *= modifier;
+    return Math.max(1, Math.floor(damage));
+  };
+
+  const raw = baseDamage * (1 + hit.atk / 100);
+  const normal = finish(raw);
+  const critical = finish(raw * (hit.critDmg / 100));
+  return { normal, critical, average: normal * (1 - critChance) + critical * critChance };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import { BANNERS, type GachaBanner } from "../data/banners";
+import {
+  consolidatedRates,
+  expectedPullsToFeatured,
+  expectedPullsToPity,
+  histogram,
+  percentile,
+  pullRates,
+  simulatePullsToFeatured,
+} from "./gacha";
+
+/** mulberry32: small, fast and plenty for repeatable simulations. */
+function seeded(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function banner(overrides: Partial<GachaBanner>): GachaBanner {
+  return {
+    id: "test",
+    name: "Test",
+    type: "limited",
+    startTime: "2026-01-01T00:00:00Z",
+    endTime: null,
+    singlePullCost: 160,
+    tenPullCost: 1440,
+    rateTable: [
+      { rarity: "legendary", baseRate: 0.1, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 0.9, softPityAdd: 0 },
+    ],
+    pityRarity: "legendary",
+    pityThreshold: 90,
+    softPityStart: 90,
+    featuredItems: ["phoenix"],
+    featuredRate: 1,
+    ...overrides,
+  };
+}
+
+// Hard pity so far out that it never matters: 0.9^999 is around 1e-46.
+const flat = banner({ pityThreshold: 1000, softPityStart: 1000 });
+
+describe("pullRates", () => {
+  test("guarantees pityRarity on the pityThreshold-th pull", () => {
+    const odds = pullRates(banner({}), 90);
+    expect(odds).toEqual([
+      { rarity: "legendary", rate: 1 },
+      { rarity: "rare", rate: 0 },
+    ]);
+  });
+
+  test("keeps base rates before soft pity and boosts them after", () => {
+    const soft = banner({ softPityStart: 50, rateTable: [
+      { rarity: "legendary", baseRate: 0.1, softPityAdd: 0.05 },
+      { rarity: "rare", baseRate: 0.9, softPityAdd: 0 },
+    ] });
+    expect(pullRates(soft, 50)[0]!.rate).toBeCloseTo(0.1);
+    expect(pullRates(soft, 52)[0]!.rate).toBeCloseTo(0.2);
+    expect(pullRates(soft, 52)[1]!.rate).toBeCloseTo(0.8);
+  });
+});
+
+describe("expectedPullsToFeatured", () => {
+  test("is 1/p for a flat rate without pity", () => {
+    expect(expectedPullsToPity(flat)).toBeCloseTo(10, 6);
+    expect(expectedPullsToFeatured(flat)).toBeCloseTo(10, 6);
+    expect(expectedPullsToFeatured({ ...flat, featuredRate: 0.5 })).toBeCloseTo(20, 6);
+  });
+
+  test("is the pulls left to hard pity when pity is guaranteed featured", () => {
+    const hard = banner({ rateTable: [
+      { rarity: "legendary", baseRate: 0, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 1, softPityAdd: 0 },
+    ] });
+    expect(expectedPullsToFeatured(hard)).toBe(90);
+    expect(expectedPullsToFeatured(hard, 60)).toBe(30);
+  });
+
+  test("is Infinity for banners without featured items", () => {
+    expect(expectedPullsToFeatured(banner({ featuredRate: 0 }))).toBe(Infinity);
+  });
+
+  test.each(BANNERS.filter(b => b.featuredRate > 0).map(b => [b.id, b] as const))("matches a seeded simulation of %s", (_, b) => {
+    const results = simulatePullsToFeatured(b, { trials: 20_000, random: seeded(42) });
+    const mean = results.reduce((sum, pulls) => sum + pulls, 0) / results.length;
+    expect(Math.abs(mean / expectedPullsToFeatured(b) - 1)).toBeLessThan(0.02);
+  });
+});
+
+describe("simulatePullsToFeatured", () => {
+  test("never goes past hard pity", () => {
+    const hard = banner({ pityThreshold: 10, softPityStart: 10, rateTable: [
+      { rarity: "legendary", baseRate: 0.01, softPityAdd: 0 },
+      { rarity: "rare", baseRate: 0.99, softPityAdd: 0 },
+    ] });
+    const results = simulatePullsToFeatured(hard, { trials: 1000, random: seeded(7) });
+    expect(Math.max(...results)).toBeLessThanOrEqual(10);
+    expect(simulatePullsToFeatured(hard, { pity: 9, trials: 100, random: seeded(7) })).toEqual(new Array(100).fill(1));
+  });
+
+  test("returns nothing for banners without featured items", () => {
+    expect(simulatePullsToFeatured(banner({ featuredItems: [] }), { trials: 10 })).toEqual([]);
+  });
+});
+
+describe("consolidatedRates", () => {
+  test.each(BANNERS.map(b => [b.id, b] as const))("add up to 1 for %s", (_, b) => {
+    const total = consolidatedRates(b).reduce((sum, { rate }) => sum + rate, 0);
+    expect(total).toBeCloseTo(1, 9);
+  });
+
+  test("are the base rates when pity never kicks in", () => {
+    const [legendary, rare] = consolidatedRates(flat);
+    expect(legendary!.rate).toBeCloseTo(0.1, 9);
+    expect(rare!.rate).toBeCloseTo(0.9, 9);
+  });
+});
+
+describe("histogram", () => {
+  test("is empty for no results", () => {
+    expect(histogram([], 10)).toEqual([]);
+  });
+
+  test("bins from 1 up to the longest run", () => {
+    expect(histogram([1, 2, 10, 11], 10)).toEqual([
+      { from: 1, to: 10, share: 0.75, cumulative: 0.75 },
+      { from: 11, to: 20, share: 0.25, cumulative: 1 },
+    ]);
+  });
+});
+
+describe("percentile", () => {
+  test("is 0 for no results", () => {
+    expect(percentile([], 0.5)).toBe(0);
+  });
+
+  test("is the shortest run at 0 and the longest at 1", () => {
+    const results = [5, 3, 9, 1];
+    expect(percentile(results, 0)).toBe(1);
+    expect(percentile(results, 1)).toBe(9);
+    expect(percentile(results, 0.5)).toBe(3);
+  });
+});
@@ -0,0 +1,162 @@
+import type { GachaBanner } from "../data/banners";
+import { rarityTier, type Rarity } from "./rarity";
+
+/**
+ * Summon odds with soft and hard pity, following `GachaService.SinglePull` on
+ * the game server: each pull rolls the rate table highest rarity first, soft
+ * pity adds `softPityAdd` per pull past `softPityStart`, and the
+ * `pityThreshold`-th pull without a `pityRarity`-or-better result is
+ * guaranteed one. Pulls are counted from 1 since pity last reset.
+ */
+
+export interface RarityOdds {
+  rarity: Rarity;
+  rate: number;
+}
+
+const resetsPity = (banner: GachaBanner, rarity: Rarity) => rarityTier(rarity) >= rarityTier(banner.pityRarity);
+
+/** The odds of each rarity on the `pull`-th pull since pity last reset, in rate table order. */
+export function pullRates(banner: GachaBanner, pull: number): RarityOdds[] {
+  if (pull >= banner.pityThreshold) {
+    return banner.rateTable.map(({ rarity }) => ({ rarity, rate: rarity === banner.pityRarity ? 1 : 0 }));
+  }
+
+  const steps = Math.max(0, pull - banner.softPityStart);
+  const last = banner.rateTable.length - 1;
+  let left = 1;
+  return banner.rateTable.map(({ rarity, baseRate, softPityAdd }, i) => {
+    // Rolls are cumulative from the top, so boosted rows squeeze out the ones below them.
+    const rate = i === last ? left : Math.min(left, baseRate + softPityAdd * steps);
+    left -= rate;
+    return { rarity, rate };
+  });
+}
+
+interface PityCycle {
+  /** Expected pulls until pity resets. */
+  pulls: number;
+  /** Chance the pull that resets pity is a featured item. */
+  featured: number;
+  /** Expected pulls of each rarity along the way, in rate table order. */
+  rarities: RarityOdds[];
+}
+
+/** Walks one pity cycle exactly, starting `pity` pulls in. */
+function pityCycle(banner: GachaBanner, pity: number): PityCycle {
+  const rarities = banner.rateTable.map(({ rarity }) => ({ rarity, rate: 0 }));
+  let reach = 1;
+  let pulls = 0;
+  let featured = 0;
+  for (let pull = pity + 1; pull <= banner.pityThreshold && reach > 0; pull++) {
+    pulls += reach;
+    let reset = 0;
+    for (const [i, { rarity, rate }] of pullRates(banner, pull).entries()) {
+      rarities[i]!.rate += reach * rate;
+      if (resetsPity(banner, rarity)) reset += rate;
+      if (rarity === banner.pityRarity) featured += reach * rate * banner.featuredRate;
+    }
+    reach *= 1 - reset;
+  }
+  return { pulls, featured, rarities };
+}
+
+/**
+ * The long-run chance of each rarity per pull with pity included, which is
+ * what stores mean by "consolidated" rates. Higher than the base rates for
+ * the rarities soft pity boosts.
+ */
+export function consolidatedRates(banner: GachaBanner): RarityOdds[] {
+  const { pulls, rarities } = pityCycle(banner, 0);
+  return rarities.map(({ rarity, rate }) => ({ rarity, rate: rate / pulls }));
+}
+
+/** Average pulls between `pityRarity`-or-better results. */
+export function expectedPullsToPity(banner: GachaBanner): number {
+  return pityCycle(banner, 0).pulls;
+}
+
+/**
+ * Average pulls until a featured item, starting `pity` pulls in. Featured
+ * items only come from `pityRarity` pulls, so every cycle that ends otherwise
+ * starts the wait again from zero. `Infinity` for banners without any.
+ */
+export function expectedPullsToFeatured(banner: GachaBanner, pity = 0): number {
+  const fresh = pityCycle(banner, 0);
+  if (fresh.featured <= 0) return Infinity;
+  const current = pityCycle(banner, pity);
+  return current.pulls + (1 - current.featured) * (fresh.pulls / fresh.featured);
+}
+
+export interface SimulationOptions {
+  /** Pulls already made since pity last reset. */
+  pity?: number;
+  trials: number;
+  /** Uniform in [0, 1); swap in a seeded generator for repeatable runs. */
+  random?: () => number;
+}
+
+/** Rolls pulls the way the server does until each trial gets a featured item; returns the pulls each took. */
+export function simulatePullsToFeatured(banner: GachaBanner, { pity = 0, trials, random = Math.random }: SimulationOptions): number[] {
+  if (banner.featuredItems.length === 0 || banner.featuredRate <= 0) return [];
+
+  // Odds only depend on the pity count, so work them out once per count.
+  const table = Array.from({ length: banner.pityThreshold }, (_, i) => pullRates(banner, i + 1));
+  const roll = (count: number) => {
+    const odds = table[Math.min(count, banner.pityThreshold) - 1]!;
+    const r = random();
+    let cumulative = 0;
+    for (const { rarity, rate } of odds) {
+      cumulative += rate;
+      if (r < cumulative) return rarity;
+    }
+    return odds.at(-1)!.rarity;
+  };
+
+  const results: number[] = [];
+  for (let trial = 0; trial < trials; trial++) {
+    let count = Math.min(pity, banner.pityThreshold - 1);
+    let pulls = 0;
+    for (;;) {
+      pulls++;
+      const rarity = roll(++count);
+      if (rarity === banner.pityRarity && random() < banner.featuredRate) break;
+      if (resetsPity(banner, rarity)) count = 0;
+    }
+    results.push(pulls);
+  }
+  return results;
+}
+
+export interface HistogramBin {
+  /** First pull count in the bin, inclusive. */
+  from: number;
+  /** Last pull count in the bin, inclusive. */
+  to: number;
+  /** Share of trials, 0–1. */
+  share: number;
+  /** Share of trials that finished by `to`, 0–1. */
+  cumulative: number;
+}
+
+/** Buckets simulation results into `width`-pull bins from 1 up to the longest run. */
+export function histogram(results: number[], width: number): HistogramBin[] {
+  if (results.length === 0) return [];
+  const longest = results.reduce((max, pulls) => Math.max(max, pulls), 0);
+  const counts = new Array<number>(Math.ceil(longest / width)).fill(0);
+  for (const pulls of results) counts[Math.floor((pulls - 1) / width)]!++;
+
+  let total = 0;
+  return counts.map((count, i) => {
+    total += count;
+    return { from: i * width + 1, to: (i + 1) * width, share: count / results.length, cumulative: total / results.length };
+  });
+}
+
+/** The pull count that `fraction` of results finished within. */
+export function percentile(results: number[], fraction: number): number {
+  if (results.length === 0) return 0;
+  const sorted = [...results].sort((a, b) => a - b);
+  const rank = Math.ceil(fraction * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))]!;
+}
@@ -0,0 +1,129 @@
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import { useLocation } from "react-router-dom";
+import { LOCALES, localizePath, parseLocalePath, type Locale } from "../i18n/locales";
+import { DEFAULT_SHARE_IMAGE, SITE_NAME } from "./site";
+
+/**
+ * Per-page `<head>` management. Pages call `usePageMeta` with their title,
+ * description and share image; in the browser the tags are applied to
+ * `document.head`, and during prerendering they are collected so build.ts can
+ * write them into the static HTML.
+ */
+
+export interface PageMeta {
+  /** Page title without the site name; omit on the home page. */
+  title?: string;
+  description: string;
+  /** Share image path relative to the site root. */
+  image?: string;
+  type?: "website" | "article";
+  /** Keep the page out of search results (e.g. not-found pages). */
+  noindex?: boolean;
+}
+
+export type HeadTag =
+  | { tag: "title", text: string }
+  | { tag: "meta", attrs: Record<string, string> }
+  | { tag: "link", attrs: Record<string, string> };
+
+const OG_LOCALES: Record<Locale, string> = { en: "en_US", es: "es_ES", pt: "pt_BR", ja: "ja_JP" };
+
+/** Builds the full tag list for a page at `pathname` (which may carry a locale prefix). */
+export function buildHeadTags(meta: PageMeta, pathname: string, origin: string): HeadTag[] {
+  const { locale, path } = parseLocalePath(pathname);
+  const title = meta.title ? `${meta.title} | ${SITE_NAME}` : SITE_NAME;
+  const url = origin + pathname;
+  const image = new URL(meta.image ?? DEFAULT_SHARE_IMAGE, origin).href;
+
+  const tags: HeadTag[] = [
+    { tag: "title", text: title },
+    { tag: "meta", attrs: { name: "description", content: meta.description } },
+    { tag: "link", attrs: { rel: "canonical", href: url } },
+    { tag: "meta", attrs: { property: "og:site_name", content: SITE_NAME } },
+    { tag: "meta", attrs: { property: "og:type", content: meta.type ?? "website" } },
+    { tag: "meta", attrs: { property: "og:title", content: title } },
+    { tag: "meta", attrs: { property: "og:description", content: meta.description } },
+    { tag: "meta", attrs: { property: "og:url", content: url } },
+    { tag: "meta", attrs: { property: "og:image", content: image } },
+    { tag: "meta", attrs: { property: "og:locale", content: OG_LOCALES[locale] } },
+    { tag: "meta", attrs: { name: "twitter:card", content: "summary_large_image" } },
+    { tag: "meta", attrs: { name: "twitter:title", content: title } },
+    { tag: "meta", attrs: { name: "twitter:description", content: meta.description } },
+    { tag: "meta", attrs: { name: "twitter:image", content: image } },
+  ];
+
+  if (meta.noindex) {
+    tags.push({ tag: "meta", attrs: { name: "robots", content: "noindex" } });
+  } else {
+    for (const { code } of LOCALES) {
+      tags.push({ tag: "link", attrs: { rel: "alternate", hreflang: code, href: origin + localizePath(path, code) } });
+    }
+    tags.push({ tag: "link", attrs: { rel: "alternate", hreflang: "x-default", href: origin + path } });
+  }
+
+  return tags;
+}
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** Serializes tags for static HTML. */
+export function renderHeadTags(tags: HeadTag[]): string {
+  return tags
+    .map(tag => {
+      if (tag.tag === "title") return `<title>${escapeAttr(tag.text)}</title>`;
+      const attrs = Object.entries(tag.attrs).map(([k, v]) => `${k}="${escapeAttr(v)}"`).join(" ");
+      return `<${tag.tag} ${attrs}>`;
+    })
+    .join("\n  ");
+}
+
+interface HeadContextValue {
+  origin: string;
+  /** Set during prerendering; receives the tags of the page being rendered. */
+  collect?: (tags: HeadTag[]) => void;
+}
+
+const HeadContext = createContext<HeadContextValue | null>(null);
+
+export function HeadProvider({ children, ...value }: HeadContextValue & { children: ReactNode }) {
+  return <HeadContext.Provider value={value}>{children}</HeadContext.Provider>;
+}
+
+const MANAGED_ATTR = "data-page-meta";
+
+function applyHeadTags(tags: HeadTag[]) {
+  document.head.querySelectorAll(`[${MANAGED_ATTR}]`).forEach(el => el.remove());
+  for (const tag of tags) {
+    if (tag.tag === "title") {
+      document.title = tag.text;
+      continue;
+    }
+    // Drop prerendered copies of the same tag before adding the managed one.
+    const key = tag.attrs.name ? `[name="${tag.attrs.name}"]`
+      : tag.attrs.property ? `[property="${tag.attrs.property}"]`
+        : `[rel="${tag.attrs.rel}"]${tag.attrs.hreflang ? `[hreflang="${tag.attrs.hreflang}"]` : ""}`;
+    document.head.querySelectorAll(`${tag.tag}${key}`).forEach(el => el.remove());
+
+    const el = document.createElement(tag.tag);
+    for (const [name, value] of Object.entries(tag.attrs)) el.setAttribute(name, value);
+    el.setAttribute(MANAGED_ATTR, "");
+    document.head.appendChild(el);
+  }
+}
+
+/** Declares the current page's title, description and share card. */
+export function usePageMeta(meta: PageMeta) {
+  const context = useContext(HeadContext);
+  const { pathname } = useLocation();
+  const origin = context?.origin ?? (typeof window === "undefined" ? "" : window.location.origin);
+  const tags = buildHeadTags(meta, pathname, origin);
+
+  context?.collect?.(tags);
+
+  const signature = JSON.stringify(tags);
+  useEffect(() => {
+    applyHeadTags(tags);
+    // `tags` is rebuilt every render; its serialized form is the real dependency.
+  }, [signature]);
+}
@@ -0,0 +1,98 @@
+/**
+ * Editable home-page copy: the hero text and the feature cards. Staff change
+ * it from `/admin`; the server keeps it in `content/home.json`, serves it
+ * live at `/content/home.json`, and build.ts bakes it into the prerendered
+ * home page.
+ */
+
+import type { Locale } from "../i18n/locales";
+import { getJson } from "./api";
+import { array, enumOf, object, optional, string, type Schema } from "./schema";
+
+export const HOME_CONTENT_PATH = "/content/home.json";
+
+/** Names of lucide icons the cards can show; labels live under `admin.home.icons.<value>`. */
+export const FEATURE_ICONS = ["shield", "zap", "heart", "sparkles", "swords", "star", "crown", "gem"] as const;
+
+/** Icon tile backgrounds; labels live under `admin.home.colors.<value>`. */
+export const FEATURE_COLORS = ["blue", "primary", "secondary", "accent", "wood"] as const;
+
+/** Pages a card's "Explore" link may point to. */
+export const FEATURE_LINKS = ["/classes", "/companions", "/leaderboard", "/media", "/news", "/community", "/support"] as const;
+
+export const MAX_FEATURES = 6;
+
+export type FeatureIcon = (typeof FEATURE_ICONS)[number];
+export type FeatureColor = (typeof FEATURE_COLORS)[number];
+export type FeatureLink = (typeof FEATURE_LINKS)[number];
+
+/** English is required; other locales fall back to it when left blank. */
+export interface LocalizedText {
+  en: string;
+  es?: string;
+  pt?: string;
+  ja?: string;
+}
+
+export interface HomeFeature {
+  /** Stable key for the list; not shown. */
+  id: string;
+  icon: FeatureIcon;
+  color: FeatureColor;
+  title: LocalizedText;
+  description: LocalizedText;
+  link?: FeatureLink;
+}
+
+export interface HomeContent {
+  hero: {
+    badge: LocalizedText;
+    /** Wrap the highlighted words in asterisks, e.g. `Build Your *Legend*`. */
+    title: LocalizedText;
+    subtitle: LocalizedText;
+  };
+  featuresTitle: LocalizedText;
+  features: HomeFeature[];
+}
+
+function localizedText(maxLength: number): Schema<LocalizedText> {
+  const text = string({ trim: true, maxLength });
+  return object({ en: string({ trim: true, minLength: 1, maxLength }), es: optional(text), pt: optional(text), ja: optional(text) });
+}
+
+export const homeContentSchema: Schema<HomeContent> = object({
+  hero: object({
+    badge: localizedText(60),
+    title: localizedText(80),
+    subtitle: localizedText(300),
+  }),
+  featuresTitle: localizedText(60),
+  features: array(
+    object({
+      id: string({ pattern: /^[a-z0-9-]{1,40}$/ }),
+      icon: enumOf(FEATURE_ICONS),
+      color: enumOf(FEATURE_COLORS),
+      title: localizedText(60),
+      description: localizedText(300),
+      link: optional(enumOf(FEATURE_LINKS)),
+    }),
+    { maxItems: MAX_FEATURES },
+  ),
+});
+
+/** The text for `locale`, or the English text when it hasn't been translated. */
+export function localized(text: LocalizedText, locale: Locale): string {
+  return text[locale] || text.en;
+}
+
+/** Splits `Build Your *Legend*` into plain and highlighted parts. */
+export function splitHighlight(title: string): { text: string, highlight: boolean }[] {
+  return title
+    .split(/\*([^*]+)\*/)
+    .map((text, i) => ({ text, highlight: i % 2 === 1 }))
+    .filter(part => part.text);
+}
+
+export function fetchHomeContent() {
+  return getJson<HomeContent>(HOME_CONTENT_PATH);
+}
@@ -0,0 +1,35 @@
+import manifest from "../data/image-manifest.json";
+
+/**
+ * Resized AVIF/WebP variants of the raster art in `images/`. The manifest is
+ * written by `bun run images` (and by build.ts); `ResponsiveImage` reads it to
+ * build `srcset`s and reserve layout space before the image loads.
+ */
+
+export const IMAGE_FORMATS = ["avif", "webp"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export interface ImageVariant {
+  width: number;
+  /** Variant path relative to the site root, keyed by format. */
+  src: Record<ImageFormat, string>;
+}
+
+export interface ResponsiveImageEntry {
+  width: number;
+  height: number;
+  /** Tiny blurred preview as a data URI, shown until the real image loads. */
+  placeholder: string;
+  /** Narrowest first. */
+  variants: ImageVariant[];
+}
+
+/** Keyed by the original image path, e.g. `/images/boss.png`. */
+export type ImageManifest = Record<string, ResponsiveImageEntry>;
+
+export const IMAGE_MANIFEST: ImageManifest = manifest;
+
+export function srcSet(entry: ResponsiveImageEntry, format: ImageFormat): string {
+  return entry.variants.map(variant => `${variant.src[format]} ${variant.width}w`).join(", ");
+}
@@ -0,0 +1,74 @@
+/**
+ * Arena leaderboard shapes shared by the `/leaderboard` page and the
+ * `/api/v1/leaderboard` handler. Rankings mirror the game's Redis leaderboards
+ * (docs/ARCH.md, "Leaderboards"): ELO rating, arena wins, combat power and
+ * level, each ranked per arena season.
+ */
+
+import { getJson } from "./api";
+
+/** Display names live in the i18n catalogs under `leaderboard.categories.<value>`. */
+export const LEADERBOARD_CATEGORIES = ["rating", "wins", "power", "level"] as const;
+
+export type LeaderboardCategory = (typeof LEADERBOARD_CATEGORIES)[number];
+
+/** Matches `LeaderboardPageSize` in the arena server config. */
+export const LEADERBOARD_PAGE_SIZE = 50;
+
+export const MAX_PLAYER_SEARCH_LENGTH = 32;
+
+export interface LeaderboardSeason {
+  id: number;
+  name: string;
+  /** ISO timestamps; `endsAt` is in the future for the running season. */
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface LeaderboardEntry {
+  /** Position in the full ranking, even when the list is filtered by a search. */
+  rank: number;
+  playerId: string;
+  name: string;
+  level: number;
+  /** ELO, win count, combat power or level, depending on the category. */
+  value: number;
+}
+
+export interface LeaderboardQuery {
+  /** Omit for the latest season. */
+  season?: number;
+  category: LeaderboardCategory;
+  /** 1-based. */
+  page: number;
+  /** Case-insensitive player name filter. */
+  search?: string;
+}
+
+export interface LeaderboardResponse {
+  seasons: LeaderboardSeason[];
+  season: number;
+  category: LeaderboardCategory;
+  page: number;
+  pageSize: number;
+  /** Entries matching the search, across all pages. */
+  total: number;
+  entries: LeaderboardEntry[];
+  /** When the rankings were read from the data source. */
+  updatedAt: string;
+}
+
+export function isLeaderboardCategory(value: unknown): value is LeaderboardCategory {
+  return LEADERBOARD_CATEGORIES.includes(value as LeaderboardCategory);
+}
+
+export function leaderboardPath({ season, category, page, search }: LeaderboardQuery) {
+  const params = new URLSearchParams({ category, page: String(page) });
+  if (season !== undefined) params.set("season", String(season));
+  if (search) params.set("search", search);
+  return `/api/v1/leaderboard?${params}`;
+}
+
+export function fetchLeaderboard(query: LeaderboardQuery) {
+  return getJson<LeaderboardResponse>(leaderboardPath(query));
+}
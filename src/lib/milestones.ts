@@ -0,0 +1,75 @@
+/**
+ * Pre-registration milestones: when the sign-up count passes a goal, every
+ * player gets the reward at launch. The count comes from
+ * `GET /api/v1/milestones`; staff can adjust it at `/admin` (for sign-ups
+ * collected elsewhere, such as at events).
+ */
+
+import { getPal } from "../data/pals";
+import { getJson, putJson } from "./api";
+import type { Rarity } from "./rarity";
+
+export const MILESTONE_REWARD_TYPES = ["gems", "pal"] as const;
+
+export type MilestoneRewardType = (typeof MILESTONE_REWARD_TYPES)[number];
+
+export type MilestoneReward =
+  | { type: "gems", amount: number, rarity: Rarity }
+  | { type: "pal", palId: string };
+
+export interface Milestone {
+  /** Sign-ups needed, e.g. `10_000`. */
+  goal: number;
+  reward: MilestoneReward;
+}
+
+/** Ascending by goal. Pal rewards must name a revealed Pal from `src/data/pals.ts`. */
+export const MILESTONES: Milestone[] = [
+  { goal: 10_000, reward: { type: "gems", amount: 300, rarity: "rare" } },
+  { goal: 50_000, reward: { type: "pal", palId: "kitsune" } },
+  { goal: 100_000, reward: { type: "gems", amount: 1_000, rarity: "epic" } },
+  { goal: 250_000, reward: { type: "pal", palId: "phoenix" } },
+];
+
+export interface MilestoneStatus extends Milestone {
+  unlocked: boolean;
+}
+
+export interface MilestoneProgress {
+  /** Sign-ups so far, including staff adjustments. */
+  count: number;
+  milestones: MilestoneStatus[];
+  updatedAt: string;
+}
+
+export interface MilestoneCounter {
+  /** Rows in the pre-registration table. */
+  signups: number;
+  /** Added by staff; may be negative. */
+  adjustment: number;
+  /** What the public sees: `signups + adjustment`, never below zero. */
+  count: number;
+}
+
+export function milestoneProgress(count: number): Omit<MilestoneProgress, "updatedAt"> {
+  return { count, milestones: MILESTONES.map(m => ({ ...m, unlocked: count >= m.goal })) };
+}
+
+/** Emoji and frame rarity for a reward's preview tile. */
+export function rewardPreview(reward: MilestoneReward): { emoji: string, rarity: Rarity } {
+  if (reward.type === "gems") return { emoji: "💎", rarity: reward.rarity };
+  const pal = getPal(reward.palId);
+  return { emoji: pal?.emoji ?? "❔", rarity: pal?.rarity ?? "normal" };
+}
+
+export function fetchMilestones() {
+  return getJson<MilestoneProgress>("/api/v1/milestones");
+}
+
+export function fetchMilestoneCounter() {
+  return getJson<MilestoneCounter>("/api/v1/admin/milestones");
+}
+
+export function saveMilestoneAdjustment(adjustment: number) {
+  return putJson<MilestoneCounter>("/api/v1/admin/milestones", { adjustment });
+}
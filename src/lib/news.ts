@@ -0,0 +1,37 @@
+/**
+ * News/devlog post shapes shared by the pages and the server-side loader in
+ * `src/server/news.ts`. Posts are rendered to JSON at build time (and served
+ * live by the dev server) under `/content/news.json` and
+ * `/content/news/<slug>.json`.
+ */
+
+import { getJson } from "./api";
+
+export interface NewsPostSummary {
+  slug: string;
+  title: string;
+  /** Publication date, `YYYY-MM-DD`. */
+  date: string;
+  author: string;
+  tags: string[];
+  /** Cover image path relative to the site root. */
+  cover?: string;
+  excerpt: string;
+}
+
+export interface NewsPost extends NewsPostSummary {
+  /** Rendered from the post's Markdown body. */
+  html: string;
+}
+
+export const NEWS_INDEX_PATH = "/content/news.json";
+
+export const newsPostPath = (slug: string) => `/content/news/${slug}.json`;
+
+export function fetchNewsIndex() {
+  return getJson<NewsPostSummary[]>(NEWS_INDEX_PATH);
+}
+
+export function fetchNewsPost(slug: string) {
+  return getJson<NewsPost>(newsPostPath(slug));
+}
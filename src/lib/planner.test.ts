@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+import { decodeBuild, DEFAULT_BUILD, DEFAULT_ENEMY_DEF, encodeBuild, MAX_ENEMY_DEF } from "./planner";
+
+describe("decodeBuild", () => {
+  test("reads an empty query string as the default build", () => {
+    expect(decodeBuild(new URLSearchParams())).toEqual(DEFAULT_BUILD);
+  });
+
+  test("round-trips through encodeBuild", () => {
+    const build = { ...DEFAULT_BUILD, level: 12, enemyDef: 300 };
+    expect(decodeBuild(encodeBuild(build))).toEqual(build);
+  });
+
+  test.each(["def=", "def=%20", "def=abc"])("falls back to the default enemy DEF for %s", query => {
+    expect(decodeBuild(new URLSearchParams(query)).enemyDef).toBe(DEFAULT_ENEMY_DEF);
+  });
+
+  test("keeps an explicit zero and clamps out-of-range DEF", () => {
+    expect(decodeBuild(new URLSearchParams("def=0")).enemyDef).toBe(0);
+    expect(decodeBuild(new URLSearchParams("def=-5")).enemyDef).toBe(0);
+    expect(decodeBuild(new URLSearchParams("def=1e9")).enemyDef).toBe(MAX_ENEMY_DEF);
+  });
+});
@@ -0,0 +1,218 @@
+import type { StatBlock } from "../data/attributes";
+import { evolutionLine, getEvolutionForm, requiredLevel, type EvolutionForm } from "../data/classes";
+import {
+  DICE_SLOTS,
+  EQUIPMENT_RARITIES,
+  MAX_SUB_ATTRIBUTES,
+  SLOT_UNLOCK_LEVELS,
+  SUB_ATTRIBUTES,
+  SUB_ATTRIBUTE_RANGES,
+  slotStats,
+  type DiceSlot,
+  type EquipmentRarity,
+  type SubAttribute,
+} from "../data/equipment";
+import {
+  ATTACK_COOLDOWN,
+  BASIC_ATTACK_DAMAGE,
+  DEFAULT_PLAYER_STATS,
+  LEVEL_HP_BONUS,
+  LEVEL_UP_STATS,
+  MAX_LEVEL,
+  addStats,
+  calculateDamage,
+  type HitStats,
+} from "./damage";
+
+/**
+ * Builds for the `/planner` calculator, and the compact query string that
+ * makes them shareable: `?form=mimic-cat&lv=40&gear=7a9.5d6-5&def=80`.
+ * `gear` has one token per Dice Roll slot in `DICE_SLOTS` order, joined by
+ * `-`: the rarity tier (1–9, `0` for an empty slot) followed by up to two
+ * sub-attributes as a letter (`a` for the first in `SUB_ATTRIBUTES`) and a
+ * value. Trailing empty slots are dropped.
+ */
+
+export interface SubRoll {
+  attribute: SubAttribute;
+  value: number;
+}
+
+export interface GearPiece {
+  rarity: EquipmentRarity;
+  subs: SubRoll[];
+}
+
+export interface Build {
+  formId: string;
+  level: number;
+  gear: Partial<Record<DiceSlot, GearPiece>>;
+  /** The target's DEF. */
+  enemyDef: number;
+}
+
+export const DEFAULT_ENEMY_DEF = 50;
+export const MAX_ENEMY_DEF = 10_000;
+
+export const DEFAULT_BUILD: Build = { formId: "slime", level: 1, gear: {}, enemyDef: DEFAULT_ENEMY_DEF };
+
+export const isSlotUnlocked = (slot: DiceSlot, level: number) => level >= SLOT_UNLOCK_LEVELS[slot];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps a sub-attribute roll inside its rarity's range, to one decimal place like the game shows. */
+export function clampSubValue(rarity: EquipmentRarity, value: number): number {
+  const { min, max } = SUB_ATTRIBUTE_RANGES[rarity];
+  return clamp(Math.round(value * 10) / 10, min, max);
+}
+
+const subLetter = (attribute: SubAttribute) => String.fromCharCode(97 + SUB_ATTRIBUTES.indexOf(attribute));
+
+function encodePiece(piece: GearPiece | undefined): string {
+  if (!piece) return "0";
+  const subs = piece.subs.map(sub => `${subLetter(sub.attribute)}${Math.round(sub.value * 10) / 10}`);
+  return `${EQUIPMENT_RARITIES.indexOf(piece.rarity) + 1}${subs.join("")}`;
+}
+
+const PIECE_PATTERN = /^([1-9])((?:[a-z]\d{1,2}(?:\.\d)?)*)$/;
+const SUB_PATTERN = /([a-z])(\d{1,2}(?:\.\d)?)/g;
+
+function decodePiece(token: string): GearPiece | undefined {
+  const match = PIECE_PATTERN.exec(token);
+  if (!match) return undefined;
+
+  const rarity = EQUIPMENT_RARITIES[Number(match[1]) - 1]!;
+  const subs: SubRoll[] = [];
+  for (const [, letter, value] of match[2]!.matchAll(SUB_PATTERN)) {
+    const attribute = SUB_ATTRIBUTES[letter!.charCodeAt(0) - 97];
+    // A piece never rolls the same sub-attribute twice.
+    if (!attribute || subs.some(sub => sub.attribute === attribute) || subs.length >= MAX_SUB_ATTRIBUTES) continue;
+    subs.push({ attribute, value: clampSubValue(rarity, Number(value)) });
+  }
+  return { rarity, subs };
+}
+
+export function encodeBuild(build: Build): URLSearchParams {
+  const params = new URLSearchParams();
+  if (build.formId !== DEFAULT_BUILD.formId) params.set("form", build.formId);
+  if (build.level !== DEFAULT_BUILD.level) params.set("lv", String(build.level));
+
+  const tokens = DICE_SLOTS.map(slot => encodePiece(build.gear[slot]));
+  while (tokens.at(-1) === "0") tokens.pop();
+  if (tokens.length > 0) params.set("gear", tokens.join("-"));
+
+  if (build.enemyDef !== DEFAULT_ENEMY_DEF) params.set("def", String(build.enemyDef));
+  return params;
+}
+
+/** An integer query parameter, or `NaN` when it's missing, blank or not a number (`Number("")` is 0). */
+function intParam(params: URLSearchParams, name: string): number {
+  const value = params.get(name)?.trim();
+  return value ? Math.floor(Number(value)) : NaN;
+}
+
+/** Reads a build back from the query string. Anything missing or malformed falls back to the default. */
+export function decodeBuild(params: URLSearchParams): Build {
+  const form = getEvolutionForm(params.get("form") ?? "") ?? getEvolutionForm(DEFAULT_BUILD.formId)!;
+  const level = intParam(params, "lv");
+
+  const gear: Build["gear"] = {};
+  for (const [i, token] of (params.get("gear") ?? "").split("-").entries()) {
+    const slot = DICE_SLOTS[i];
+    const piece = slot && decodePiece(token);
+    if (slot && piece) gear[slot] = piece;
+  }
+
+  const enemyDef = intParam(params, "def");
+
+  return {
+    formId: form.id,
+    level: clamp(Number.isFinite(level) ? level : 1, requiredLevel(form), MAX_LEVEL),
+    gear,
+    enemyDef: Number.isFinite(enemyDef) ? clamp(enemyDef, 0, MAX_ENEMY_DEF) : DEFAULT_ENEMY_DEF,
+  };
+}
+
+/**
+ * Total stats for a build: the defaults, level-up gains, every stat bonus
+ * along the evolution line and the gear in unlocked slots. Evolution passives
+ * are text-only for now, so they aren't included.
+ */
+export function buildStats(build: Build, form: EvolutionForm): StatBlock {
+  const stats = addStats({}, DEFAULT_PLAYER_STATS);
+  for (let level = 1; level < build.level; level++) addStats(stats, LEVEL_UP_STATS);
+  for (const { statBonuses } of evolutionLine(form)) addStats(stats, statBonuses);
+
+  for (const slot of DICE_SLOTS) {
+    const piece = build.gear[slot];
+    if (!piece || !isSlotUnlocked(slot, build.level)) continue;
+    addStats(stats, slotStats(slot, piece.rarity));
+    for (const sub of piece.subs) addStats(stats, { [sub.attribute]: sub.value });
+  }
+
+  stats.hp = (stats.hp ?? 0) * (1 + LEVEL_HP_BONUS * (build.level - 1));
+  return stats;
+}
+
+export interface AttackOutput {
+  hit: ReturnType<typeof calculateDamage>;
+  /** Hits per second. */
+  rate: number;
+  dps: number;
+}
+
+export interface DamageOutput {
+  basic: AttackOutput;
+  /** Unset for forms whose active skill doesn't deal damage. */
+  skill?: AttackOutput;
+  dps: number;
+}
+
+/**
+ * Expected damage per second against `enemyDef`: basic attacks every
+ * `ATTACK_COOLDOWN` seconds sped up by ATK SPD, plus the form's active skill
+ * on cooldown sped up by Skill Recharge SPD. Attr DMG applies to both, Basic
+ * ATK DMG to basic attacks only. Pal damage isn't counted.
+ */
+export function buildDamage(stats: StatBlock, form: EvolutionForm, enemyDef: number): DamageOutput {
+  const stat = (attribute: keyof StatBlock) => stats[attribute] ?? 0;
+  const attrDmg = 1 + stat("attrDmg") / 100;
+
+  const basicHit: HitStats = {
+    atk: stat("atk"),
+    critRate: stat("basicAtkCrit"),
+    critDmg: stat("basicAtkCritDmg"),
+    modifiers: [1 + stat("basicAtkDmg") / 100, attrDmg],
+  };
+  const basicRate = (1 + stat("atkSpeed")) / ATTACK_COOLDOWN;
+  const basicDamage = calculateDamage(BASIC_ATTACK_DAMAGE, basicHit, enemyDef);
+  const basic = { hit: basicDamage, rate: basicRate, dps: basicDamage.average * basicRate };
+
+  let skill: AttackOutput | undefined;
+  if (form.activeSkill && form.activeSkill.baseDamage > 0) {
+    const skillHit: HitStats = { atk: stat("atk"), critRate: stat("skillCrit"), critDmg: stat("skillCritDmg"), modifiers: [attrDmg] };
+    const skillRate = (1 + stat("skillRechargeSpeed")) / form.activeSkill.cooldown;
+    const skillDamage = calculateDamage(form.activeSkill.baseDamage, skillHit, enemyDef);
+    skill = { hit: skillDamage, rate: skillRate, dps: skillDamage.average * skillRate };
+  }
+
+  return { basic, skill, dps: basic.dps + (skill?.dps ?? 0) };
+}
+
+/** The stat bumps the planner compares, answering "is crit or attack better?" for the current build. */
+export const UPGRADE_OPTIONS: StatBlock[] = [
+  { atk: 10 },
+  { basicAtkCrit: 5 },
+  { basicAtkCritDmg: 20 },
+  { atkSpeed: 0.1 },
+  { attrDmg: 5 },
+  { skillCrit: 5 },
+];
+
+/** How much each of `UPGRADE_OPTIONS` would raise DPS, as a fraction, best first. */
+export function upgradeGains(stats: StatBlock, form: EvolutionForm, enemyDef: number) {
+  const current = buildDamage(stats, form, enemyDef).dps;
+  return UPGRADE_OPTIONS
+    .map(upgrade => ({ upgrade, gain: buildDamage(addStats({ ...stats }, upgrade), form, enemyDef).dps / current - 1 }))
+    .sort((a, b) => b.gain - a.gain);
+}
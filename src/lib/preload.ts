@@ -0,0 +1,40 @@
+/**
+ * Data embedded in prerendered pages. build.ts seeds this cache with the JSON
+ * a page would otherwise fetch (news posts, etc.) before rendering it, records
+ * which entries the page actually read, and writes just those into the HTML so
+ * the client can hydrate without a loading flash.
+ */
+
+export const PRELOAD_ELEMENT_ID = "__mm_data";
+
+const cache = new Map<string, unknown>();
+const used = new Set<string>();
+
+export function seedPreloaded(entries: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(entries)) cache.set(key, value);
+}
+
+/** Returns the preloaded response for a content path, if the page shipped with one. */
+export function getPreloaded<T>(key: string): T | undefined {
+  if (!cache.has(key)) return undefined;
+  used.add(key);
+  return cache.get(key) as T;
+}
+
+/** Entries read since the last call; used by the prerenderer after each page. */
+export function takeUsedPreloaded(): Record<string, unknown> {
+  const entries = Object.fromEntries([...used].map(key => [key, cache.get(key)]));
+  used.clear();
+  return entries;
+}
+
+/** Reads the `<script id="__mm_data">` block written into prerendered pages. */
+export function readPreloadedFromDocument() {
+  const script = document.getElementById(PRELOAD_ELEMENT_ID);
+  if (!script?.textContent) return;
+  try {
+    seedPreloaded(JSON.parse(script.textContent));
+  } catch {
+    // A malformed block just means the page fetches its data as usual.
+  }
+}
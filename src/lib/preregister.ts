@@ -0,0 +1,49 @@
+/**
+ * Shared pre-registration definitions. Imported by both the home page form and
+ * the `/api/v1/preregister` handler so the two always agree on what is valid.
+ */
+
+import type { MessageKey } from "../i18n/catalogs";
+import { enumOf, object, string, validate } from "./schema";
+import type { ValidationResult } from "./validation";
+
+export const PLATFORMS = [
+  { value: "ios", label: "iOS" },
+  { value: "android", label: "Android" },
+] as const;
+
+/** Display names live in the i18n catalogs under `regions.<code>`. */
+export const REGIONS = ["na", "latam", "eu", "mena", "sea", "jp", "kr", "oce"] as const;
+
+export type Platform = (typeof PLATFORMS)[number]["value"];
+export type Region = (typeof REGIONS)[number];
+
+export interface Preregistration {
+  email: string;
+  platform: Platform;
+  region: Region;
+}
+
+/** Field errors are i18n message keys so the form can show them in the visitor's language. */
+export type PreregistrationErrors = Partial<Record<keyof Preregistration, MessageKey>>;
+
+export function isPlatform(value: unknown): value is Platform {
+  return PLATFORMS.some(p => p.value === value);
+}
+
+export const preregistrationSchema = object({
+  email: string({
+    trim: true,
+    lowercase: true,
+    minLength: 1,
+    format: "email",
+    example: "hero@example.com",
+    messages: { minLength: "validation.emailRequired", format: "validation.emailInvalid" },
+  }),
+  platform: enumOf(PLATFORMS.map(p => p.value), { message: "validation.platformRequired" }),
+  region: enumOf(REGIONS, { message: "validation.regionRequired" }),
+});
+
+export function validatePreregistration(input: unknown): ValidationResult<Preregistration, PreregistrationErrors> {
+  return validate(preregistrationSchema, input);
+}
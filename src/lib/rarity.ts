@@ -0,0 +1,31 @@
+/**
+ * The 11 rarity tiers shared by items, equipment, Pals and skills, lowest
+ * first, matching the `Rarity` enum in the game server and client protos
+ * (docs/ARCH.md, "Rarity System"). Colors live in index.css as
+ * `--rarity-<name>-dark` / `--rarity-<name>-light`; render them with
+ * `RarityBadge`, `ItemFrame` or the `rarity` prop on `Card` and `Button`.
+ */
+
+export const RARITIES = [
+  "normal",
+  "unique",
+  "well",
+  "rare",
+  "mythic",
+  "epic",
+  "legendary",
+  "immortal",
+  "supreme",
+  "aurous",
+  "eternal",
+] as const;
+
+export type Rarity = (typeof RARITIES)[number];
+
+export const isRarity = (value: unknown): value is Rarity => RARITIES.includes(value as Rarity);
+
+/** 1 for Normal up to 11 for Eternal, as numbered in the design doc. */
+export const rarityTier = (rarity: Rarity) => RARITIES.indexOf(rarity) + 1;
+
+/** Sort comparator, highest rarity first. */
+export const byRarityDescending = (a: Rarity, b: Rarity) => RARITIES.indexOf(b) - RARITIES.indexOf(a);
@@ -0,0 +1,123 @@
+/**
+ * Shared redeem-code definitions used by the `/redeem` page, the
+ * `/api/v1/redeem` handler and the `bun run redeem:codes` script.
+ *
+ * Codes are 12 Crockford base32 characters shown in groups of four
+ * (`7K2Q-9XH4-M3PD`). The last character is a Luhn mod 32 check digit, so
+ * most typos are caught before a request is sent. Input is forgiving: case,
+ * spaces and hyphens don't matter, and I/L and O are read as 1 and 0.
+ */
+
+import type { MessageKey } from "../i18n/catalogs";
+import { postJson } from "./api";
+import { REGIONS, type Region } from "./preregister";
+import { enumOf, object, string, validate } from "./schema";
+import type { ValidationResult } from "./validation";
+
+// Crockford base32: no I, L, O or U, so codes survive being read out on stream.
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export const CODE_LENGTH = 12;
+const GROUP_LENGTH = 4;
+const CODE_PATTERN = new RegExp(`^[${ALPHABET}]{${CODE_LENGTH}}$`);
+
+/** Player IDs are the game's account UUIDs, shown under Settings → Account. */
+export const PLAYER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** Item ids the game server grants; display names live in the i18n catalogs under `redeem.items.<id>`. */
+export const REWARD_ITEMS = ["gold", "gems", "stamina", "arena", "summon_ticket"] as const;
+
+export type RewardItem = (typeof REWARD_ITEMS)[number];
+
+export interface RedeemReward {
+  item: RewardItem;
+  amount: number;
+}
+
+export interface RedeemInput {
+  playerId: string;
+  region: Region;
+  /** Compact form, without hyphens (see `normalizeCode`). */
+  code: string;
+}
+
+export type RedeemErrors = Partial<Record<keyof RedeemInput, MessageKey>>;
+
+export interface RedeemResult {
+  /** Display form, e.g. `7K2Q-9XH4-M3PD`. */
+  code: string;
+  rewards: RedeemReward[];
+  redeemedAt: string;
+}
+
+/** Luhn mod 32 over the alphabet: catches any single wrong character and most swapped neighbours. */
+export function checkCharacter(payload: string): string {
+  let sum = 0;
+  let double = true;
+  for (let i = payload.length - 1; i >= 0; i--) {
+    let value = ALPHABET.indexOf(payload[i]!);
+    if (double) {
+      value *= 2;
+      value = Math.floor(value / ALPHABET.length) + (value % ALPHABET.length);
+    }
+    sum += value;
+    double = !double;
+  }
+  return ALPHABET[(ALPHABET.length - (sum % ALPHABET.length)) % ALPHABET.length]!;
+}
+
+/** A new random code in compact form. `random` returns bytes, e.g. `crypto.getRandomValues`. */
+export function generateCode(random: (bytes: Uint8Array) => Uint8Array): string {
+  // 256 is a multiple of 32, so `byte % 32` is unbiased.
+  const payload = Array.from(random(new Uint8Array(CODE_LENGTH - 1)), byte => ALPHABET[byte % ALPHABET.length]).join("");
+  return payload + checkCharacter(payload);
+}
+
+/** Uppercases, drops spaces and hyphens, and reads look-alike letters as the digits they stand for. */
+export function normalizeCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, "").replace(/[IL]/g, "1").replace(/O/g, "0");
+}
+
+/** `7K2Q9XH4M3PD` → `7K2Q-9XH4-M3PD`. */
+export function formatCode(code: string): string {
+  return code.match(new RegExp(`.{1,${GROUP_LENGTH}}`, "g"))?.join("-") ?? code;
+}
+
+/** Right length, right alphabet and a matching check character. Expects `normalizeCode` output. */
+export function isWellFormedCode(code: string): boolean {
+  return CODE_PATTERN.test(code) && checkCharacter(code.slice(0, -1)) === code.at(-1);
+}
+
+export const redeemSchema = object({
+  playerId: string({
+    trim: true,
+    lowercase: true,
+    minLength: 1,
+    pattern: PLAYER_ID_PATTERN,
+    example: "3f2b8c1e-5d4a-4e7b-9c6f-1a2b3c4d5e6f",
+    messages: { minLength: "redeem.errors.playerIdRequired", pattern: "redeem.errors.playerIdInvalid" },
+  }),
+  region: enumOf(REGIONS, { message: "validation.regionRequired" }),
+  code: string({
+    trim: true,
+    minLength: 1,
+    maxLength: 40,
+    description: "Case, spaces and hyphens are ignored.",
+    example: "7K2Q-9XH4-M3PD",
+    messages: { minLength: "redeem.errors.codeRequired", maxLength: "redeem.errors.codeInvalid" },
+  }),
+});
+
+/** Validates the form and normalizes the code, including its check character. */
+export function validateRedeem(input: unknown): ValidationResult<RedeemInput, RedeemErrors> {
+  const result = validate<RedeemInput, RedeemErrors>(redeemSchema, input);
+  if (!result.ok) return result;
+
+  const code = normalizeCode(result.value.code);
+  if (!isWellFormedCode(code)) return { ok: false, errors: { code: "redeem.errors.codeInvalid" } };
+  return { ok: true, value: { ...result.value, code } };
+}
+
+export function redeemCode(input: RedeemInput) {
+  return postJson<RedeemResult>("/api/v1/redeem", input);
+}
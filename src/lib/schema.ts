@@ -0,0 +1,226 @@
+/**
+ * Tiny typed schemas for API input and output. A schema checks and
+ * normalizes an unknown value into its TypeScript type (see `Infer`) and
+ * describes itself as JSON Schema, which `src/server/api.ts` turns into the
+ * OpenAPI document. Shared with the client so forms validate with the same
+ * rules the server enforces.
+ *
+ * Failures are reported per dotted field path (`""` for the value itself).
+ * Pass `messages` to report i18n message keys instead of the English defaults.
+ */
+
+import { isEmail, type ValidationResult } from "./validation";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type Issues = Record<string, string>;
+
+export type CheckResult<T> = { ok: true; value: T } | { ok: false; issues: Issues };
+
+export interface Schema<T> {
+  readonly optional: boolean;
+  check(value: unknown): CheckResult<T>;
+  jsonSchema(): JsonSchema;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+interface Documented {
+  description?: string;
+  example?: unknown;
+}
+
+const fail = (message: string): CheckResult<never> => ({ ok: false, issues: { "": message } });
+
+function define<T>(json: JsonSchema, doc: Documented, check: (value: unknown) => CheckResult<T>): Schema<T> {
+  const { description, example } = doc;
+  return {
+    optional: false,
+    check,
+    jsonSchema: () => ({ ...json, ...(description && { description }), ...(example !== undefined && { example }) }),
+  };
+}
+
+export interface StringOptions extends Documented {
+  trim?: boolean;
+  lowercase?: boolean;
+  uppercase?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  format?: "email" | "date-time";
+  pattern?: RegExp;
+  messages?: Partial<Record<"type" | "minLength" | "maxLength" | "format" | "pattern", string>>;
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  const { trim, lowercase, uppercase, minLength, maxLength, format, pattern, messages = {} } = options;
+  return define(
+    {
+      type: "string",
+      ...(minLength !== undefined && { minLength }),
+      ...(maxLength !== undefined && { maxLength }),
+      ...(format && { format }),
+      ...(pattern && { pattern: pattern.source }),
+    },
+    options,
+    value => {
+      if (typeof value !== "string") return fail(messages.type ?? messages.minLength ?? "Expected a string.");
+      let text = trim ? value.trim() : value;
+      if (lowercase) text = text.toLowerCase();
+      if (uppercase) text = text.toUpperCase();
+
+      if (minLength !== undefined && text.length < minLength) {
+        return fail(messages.minLength ?? (minLength === 1 ? "Required." : `Must be at least ${minLength} characters.`));
+      }
+      if (format === "email" && !isEmail(text)) return fail(messages.format ?? "Must be a valid email address.");
+      if (maxLength !== undefined && text.length > maxLength) {
+        return fail(messages.maxLength ?? `Must be at most ${maxLength} characters.`);
+      }
+      if (pattern && !pattern.test(text)) return fail(messages.pattern ?? "Has an invalid format.");
+      return { ok: true, value: text };
+    },
+  );
+}
+
+export interface NumberOptions extends Documented {
+  min?: number;
+  max?: number;
+  messages?: Partial<Record<"type" | "min" | "max", string>>;
+}
+
+/** Accepts numbers and numeric strings, so the same schema works for query parameters. */
+export function integer(options: NumberOptions = {}): Schema<number> {
+  const { min, max, messages = {} } = options;
+  return define(
+    { type: "integer", ...(min !== undefined && { minimum: min }), ...(max !== undefined && { maximum: max }) },
+    options,
+    value => {
+      const number = typeof value === "string" && /^-?\d{1,15}$/.test(value) ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isInteger(number)) return fail(messages.type ?? "Expected a whole number.");
+      if (min !== undefined && number < min) return fail(messages.min ?? `Must be at least ${min}.`);
+      if (max !== undefined && number > max) return fail(messages.max ?? `Must be at most ${max}.`);
+      return { ok: true, value: number };
+    },
+  );
+}
+
+/** Any finite number, e.g. a ratio. Numeric strings are accepted as with `integer`. */
+export function number(options: NumberOptions = {}): Schema<number> {
+  const { min, max, messages = {} } = options;
+  return define(
+    { type: "number", ...(min !== undefined && { minimum: min }), ...(max !== undefined && { maximum: max }) },
+    options,
+    value => {
+      const parsed = typeof value === "string" && /^-?\d{1,15}(\.\d{1,15})?$/.test(value) ? Number(value) : value;
+      if (typeof parsed !== "number" || !Number.isFinite(parsed)) return fail(messages.type ?? "Expected a number.");
+      if (min !== undefined && parsed < min) return fail(messages.min ?? `Must be at least ${min}.`);
+      if (max !== undefined && parsed > max) return fail(messages.max ?? `Must be at most ${max}.`);
+      return { ok: true, value: parsed };
+    },
+  );
+}
+
+export function boolean(options: Documented = {}): Schema<boolean> {
+  return define({ type: "boolean" }, options, value =>
+    typeof value === "boolean" ? { ok: true, value } : fail("Expected true or false."));
+}
+
+export function enumOf<const V extends string>(values: readonly V[], options: Documented & { message?: string } = {}): Schema<V> {
+  return define({ type: "string", enum: values }, options, value =>
+    values.includes(value as V) ? { ok: true, value: value as V } : fail(options.message ?? `Must be one of: ${values.join(", ")}.`));
+}
+
+export function array<T>(item: Schema<T>, options: Documented & { maxItems?: number } = {}): Schema<T[]> {
+  const { maxItems } = options;
+  return define(
+    { type: "array", items: item.jsonSchema(), ...(maxItems !== undefined && { maxItems }) },
+    options,
+    value => {
+      if (!Array.isArray(value)) return fail("Expected an array.");
+      if (maxItems !== undefined && value.length > maxItems) return fail(`Must have at most ${maxItems} items.`);
+      const items: T[] = [];
+      const issues: Issues = {};
+      value.forEach((entry, i) => {
+        const result = item.check(entry);
+        if (result.ok) items.push(result.value);
+        else for (const [path, message] of Object.entries(result.issues)) issues[path ? `${i}.${path}` : String(i)] = message;
+      });
+      return Object.keys(issues).length > 0 ? { ok: false, issues } : { ok: true, value: items };
+    },
+  );
+}
+
+/** A value that may be left out (or `null`/`""` in a query string). */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    ...schema,
+    optional: true,
+    check: value => (value === undefined || value === null || value === "" ? { ok: true, value: undefined } : schema.check(value)),
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]> }
+  & { [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<S[K]> }
+>;
+
+export interface ObjectSchema<S extends Shape> extends Schema<ObjectOf<S>> {
+  readonly shape: S;
+}
+
+/** Unknown keys are dropped. Every field is checked so all problems are reported at once. */
+export function object<S extends Shape>(shape: S, options: Documented = {}): ObjectSchema<S> {
+  const required = Object.keys(shape).filter(key => !shape[key]!.optional);
+  const base = define<ObjectOf<S>>(
+    {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema()])),
+      ...(required.length > 0 && { required }),
+    },
+    options,
+    value => {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return fail("Expected an object.");
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const issues: Issues = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema.check(input[key]);
+        if (result.ok) {
+          if (result.value !== undefined) output[key] = result.value;
+        } else {
+          for (const [path, message] of Object.entries(result.issues)) issues[path ? `${key}.${path}` : key] = message;
+        }
+      }
+      return Object.keys(issues).length > 0 ? { ok: false, issues } : { ok: true, value: output as ObjectOf<S> };
+    },
+  );
+  return { ...base, shape };
+}
+
+/** Map with string keys, e.g. `Record<Attribute, number>`. */
+export function record<T>(values: Schema<T>, doc: Documented = {}): Schema<Record<string, T>> {
+  return define({ type: "object", additionalProperties: values.jsonSchema() }, doc, value => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return fail("Expected an object.");
+    const output: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const result = values.check(entry);
+      if (!result.ok) return { ok: false, issues: { [key]: result.issues[""] ?? "Invalid value." } };
+      output[key] = result.value;
+    }
+    return { ok: true, value: output };
+  });
+}
+
+/** Runs a schema for a form: failures come back as `{ field: message }` for the inputs to show. */
+export function validate<T, E>(schema: Schema<T>, input: unknown): ValidationResult<T, E> {
+  const result = schema.check(input ?? {});
+  return result.ok ? result : { ok: false, errors: result.issues as E };
+}
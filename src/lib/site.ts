@@ -0,0 +1,6 @@
+/** Site-wide identity shared by the pages, head tags, feeds and sitemap. */
+
+export const SITE_NAME = "Mini Mythics";
+
+/** Share image used when a page doesn't declare its own. */
+export const DEFAULT_SHARE_IMAGE = "/images/logo3.png";
@@ -0,0 +1,49 @@
+/**
+ * Store listings behind the badges. Links point at `/go/:store` rather than
+ * the stores themselves, so printed and campaign links keep working when a
+ * listing changes; `src/server/stores.ts` does the redirect. A store without
+ * a URL isn't live yet, and its link leads to pre-registration instead.
+ */
+
+import type { Platform } from "./preregister";
+
+export const STORE_URLS: Record<Platform, string | null> = {
+  // e.g. "https://apps.apple.com/app/mini-mythics/id0000000000"
+  ios: null,
+  // e.g. "https://play.google.com/store/apps/details?id=com.minimythics.game"
+  android: null,
+};
+
+/** `/go/app` sends phones to their own store; use it where the platform isn't known, like QR codes. */
+export const DEVICE_STORE = "app";
+
+export const PREREGISTER_HASH = "#preregister";
+
+/** Only these query parameters survive the redirect. */
+const CAMPAIGN_PARAM = /^utm_(source|medium|campaign|term|content)$/;
+
+export function isStoreLive(store: Platform) {
+  return STORE_URLS[store] !== null;
+}
+
+/** Best guess from a user agent string. iPads that report a desktop Safari user agent aren't detected. */
+export function detectPlatform(userAgent: string): Platform | undefined {
+  if (/\b(iPhone|iPad|iPod)\b/.test(userAgent)) return "ios";
+  if (/\bAndroid\b/.test(userAgent)) return "android";
+  return undefined;
+}
+
+/** The `utm_*` parameters from a query string, length-capped, in their original order. */
+export function campaignParams(search: string | URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of new URLSearchParams(search)) {
+    if (CAMPAIGN_PARAM.test(key) && value) params.append(key, value.slice(0, 100));
+  }
+  return params;
+}
+
+/** `/go/ios?utm_source=…` for a badge, carrying the current page's campaign along. */
+export function storeLink(store: Platform | typeof DEVICE_STORE, campaign = new URLSearchParams()) {
+  const query = campaign.toString();
+  return `/go/${store}${query ? `?${query}` : ""}`;
+}
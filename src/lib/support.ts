@@ -0,0 +1,68 @@
+/**
+ * Shared support-ticket definitions used by the `/support` page and the
+ * `/api/v1/support/tickets` handlers.
+ */
+
+import type { MessageKey } from "../i18n/catalogs";
+import { enumOf, object, string, validate } from "./schema";
+import type { ValidationResult } from "./validation";
+
+/** Display names live in the i18n catalogs under `support.categories.<value>`. */
+export const SUPPORT_CATEGORIES = ["account", "purchases", "bugs"] as const;
+
+export type SupportCategory = (typeof SUPPORT_CATEGORIES)[number];
+
+export const TICKET_STATUSES = ["open", "in_progress", "resolved", "closed"] as const;
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+export interface TicketInput {
+  email: string;
+  category: SupportCategory;
+  subject: string;
+  message: string;
+}
+
+export type TicketErrors = Partial<Record<keyof TicketInput, MessageKey>>;
+
+/** What the status lookup endpoint returns; deliberately omits the message body. */
+export interface TicketSummary {
+  reference: string;
+  category: SupportCategory;
+  subject: string;
+  status: TicketStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Reference IDs look like `MM-7K2Q9XH4`. */
+export const REFERENCE_PATTERN = /^MM-[0-9A-HJKMNP-TV-Z]{8}$/;
+
+const MAX_SUBJECT_LENGTH = 120;
+const MAX_MESSAGE_LENGTH = 5000;
+
+export const ticketSchema = object({
+  email: string({
+    trim: true,
+    lowercase: true,
+    format: "email",
+    example: "hero@example.com",
+    messages: { type: "validation.emailInvalid", format: "validation.emailInvalid" },
+  }),
+  category: enumOf(SUPPORT_CATEGORIES, { message: "validation.categoryRequired" }),
+  subject: string({
+    trim: true,
+    minLength: 1,
+    maxLength: MAX_SUBJECT_LENGTH,
+    messages: { minLength: "validation.subjectRequired", maxLength: "validation.subjectTooLong" },
+  }),
+  message: string({
+    trim: true,
+    minLength: 10,
+    maxLength: MAX_MESSAGE_LENGTH,
+    messages: { minLength: "validation.messageTooShort", maxLength: "validation.messageTooLong" },
+  }),
+});
+
+export function validateTicket(input: unknown): ValidationResult<TicketInput, TicketErrors> {
+  return validate(ticketSchema, input);
+}
@@ -0,0 +1,12 @@
+/**
+ * Small helpers shared by the form validators in `src/lib`.
+ */
+
+export type ValidationResult<T, E> = { ok: true; value: T } | { ok: false; errors: E };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+
+export function isEmail(value: string): boolean {
+  return value.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(value);
+}
@@ -0,0 +1,144 @@
+import { useState, type FormEvent } from "react";
+import { LogOut } from "lucide-react";
+import { AuditLog } from "../components/AuditLog";
+import { HomeContentEditor } from "../components/HomeContentEditor";
+import { MilestoneCounterEditor } from "../components/MilestoneCounterEditor";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { TrafficStats } from "../components/TrafficStats";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { fetchAdminSession, login, logout, type AdminSession } from "../lib/admin";
+import { ApiError } from "../lib/api";
+import { usePageMeta } from "../lib/head";
+
+export function Admin() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.admin.title"), description: t("meta.admin.description"), noindex: true });
+
+    // `undefined` until the visitor signs in or out here; until then the server's answer decides.
+    const [session, setSession] = useState<AdminSession | null>();
+    const [expired, setExpired] = useState(false);
+    const [auditKey, setAuditKey] = useState(0);
+    const checked = useAsync(() => fetchAdminSession().catch(() => null), []);
+    const current = session === undefined ? checked.data : session;
+
+    const handleLogout = async () => {
+        await logout().catch(() => undefined);
+        setExpired(false);
+        setSession(null);
+    };
+
+    const handleUnauthorized = () => {
+        setExpired(true);
+        setSession(null);
+    };
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-5xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("admin.title.before")}<span className="text-[var(--color-accent)]">{t("admin.title.highlight")}</span>{t("admin.title.after")}
+                    </h1>
+                    {current && (
+                        <div className="flex items-center justify-center gap-4 font-heading font-bold text-[var(--color-wood)]">
+                            <span>{t("admin.signedInAs", { name: current.username })}</span>
+                            <Button variant="ghost" size="sm" onClick={handleLogout}>
+                                <LogOut size={18} />
+                                {t("admin.logout")}
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
+                {current === undefined ? (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("admin.checking")}</p>
+                ) : current === null ? (
+                    <LoginForm expired={expired} onLogin={next => {
+                        setExpired(false);
+                        setSession(next);
+                    }} />
+                ) : (
+                    <div className="flex flex-col gap-12">
+                        <TrafficStats />
+                        <HomeContentEditor onSaved={() => setAuditKey(key => key + 1)} onUnauthorized={handleUnauthorized} />
+                        <MilestoneCounterEditor onSaved={() => setAuditKey(key => key + 1)} onUnauthorized={handleUnauthorized} />
+                        <AuditLog refreshKey={auditKey} />
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+}
+
+function LoginForm({ expired, onLogin }: { expired: boolean, onLogin: (session: AdminSession) => void }) {
+    const { t } = useI18n();
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [failure, setFailure] = useState("");
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setFailure("");
+        setSubmitting(true);
+        try {
+            onLogin(await login(username, password));
+        } catch (err) {
+            setPassword("");
+            setFailure(t(
+                err instanceof ApiError && err.status === 401 ? "admin.login.failed"
+                    : err instanceof ApiError && err.status === 429 ? "admin.login.locked"
+                        : "errors.generic",
+            ));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Card className="max-w-md mx-auto">
+            <form onSubmit={handleSubmit} className="flex flex-col gap-5 text-left">
+                <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)]">{t("admin.login.title")}</h2>
+                {expired && <p role="status" className="font-medium text-[var(--color-wood)]">{t("admin.sessionExpired")}</p>}
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="admin-username" className="font-heading font-bold text-[var(--color-dark)]">{t("admin.login.username")}</Label>
+                    <Input
+                        id="admin-username"
+                        autoComplete="username"
+                        autoCapitalize="none"
+                        required
+                        value={username}
+                        onChange={e => setUsername(e.target.value)}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                    />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <Label htmlFor="admin-password" className="font-heading font-bold text-[var(--color-dark)]">{t("admin.login.password")}</Label>
+                    <Input
+                        id="admin-password"
+                        type="password"
+                        autoComplete="current-password"
+                        required
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                    />
+                </div>
+
+                {failure && <p role="alert" className="text-sm font-bold text-[var(--color-primary)]">{failure}</p>}
+
+                <Button type="submit" size="lg" disabled={submitting} className="w-full disabled:opacity-60">
+                    {submitting ? t("admin.login.submitting") : t("admin.login.submit")}
+                </Button>
+            </form>
+        </Card>
+    );
+}
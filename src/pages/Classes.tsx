@@ -0,0 +1,247 @@
+import { useEffect, useRef } from "react";
+import { Link, useParams } from "react-router-dom";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { Card } from "../components/ui/card";
+import { ATTRIBUTES, formatStat, type Attribute } from "../data/attributes";
+import {
+    EVOLUTION_FORMS,
+    EVOLUTION_LEVELS,
+    MAX_EVOLUTION_PASSIVES,
+    evolutionLine,
+    getEvolutionForm,
+    heldPassives,
+    requiredLevel,
+    type EvolutionForm,
+    type EvolutionPath,
+    type EvolutionTier,
+} from "../data/classes";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+import { scrollBehavior } from "../theme/themes";
+
+const PATH_COLORS: Record<EvolutionPath, string> = {
+    projectile: "bg-[var(--color-primary)]",
+    pal: "bg-[var(--color-accent)]",
+    skill: "bg-[var(--color-secondary)]",
+};
+
+/** Grid placement for each form: one row per final form, parents spanning their descendants. */
+const TREE_LAYOUT = (() => {
+    const layout = new Map<string, { row: number, span: number }>();
+    let nextRow = 1;
+    const place = (form: EvolutionForm): number => {
+        const row = nextRow;
+        const children = form.next.map(getEvolutionForm).filter(child => child !== undefined);
+        const span = children.length === 0 ? (nextRow++, 1) : children.reduce((sum, child) => sum + place(child), 0);
+        layout.set(form.id, { row, span });
+        return span;
+    };
+    const root = EVOLUTION_FORMS.find(form => !form.previous);
+    const rows = root ? place(root) : 0;
+    return { layout, rows };
+})();
+
+export function Classes() {
+    const { classId } = useParams();
+    const { t, path } = useI18n();
+    const selected = classId ? getEvolutionForm(classId) : undefined;
+    const line = new Set(selected ? evolutionLine(selected).map(form => form.id) : []);
+    const detailRef = useRef<HTMLDivElement>(null);
+    const shownId = useRef(classId);
+
+    usePageMeta(selected
+        ? { title: `${selected.name} | ${t("meta.classes.title")}`, description: selected.passive?.description ?? t("meta.classes.description") }
+        : { title: t("meta.classes.title"), description: t("meta.classes.description") });
+
+    // Bring the details into view after picking a form, but not on a deep-linked first load.
+    useEffect(() => {
+        if (shownId.current === classId) return;
+        shownId.current = classId;
+        detailRef.current?.scrollIntoView({ behavior: scrollBehavior(), block: "nearest" });
+    }, [classId]);
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-7xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("classes.title.before")}<span className="text-[var(--color-accent)]">{t("classes.title.highlight")}</span>{t("classes.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium max-w-3xl mx-auto">{t("classes.subtitle")}</p>
+                </div>
+
+                {/* Evolution Tree */}
+                <nav aria-label={t("classes.treeLabel")} className="overflow-x-auto pb-4 mb-10">
+                    <div
+                        className="grid gap-x-4 gap-y-3 min-w-[1050px]"
+                        style={{ gridTemplateColumns: `repeat(${EVOLUTION_LEVELS.length}, minmax(0, 1fr))`, gridTemplateRows: `auto repeat(${TREE_LAYOUT.rows}, minmax(0, auto))` }}
+                    >
+                        {EVOLUTION_LEVELS.map((level, tier) => (
+                            <div key={tier} className="text-center font-heading" style={{ gridColumn: tier + 1, gridRow: 1 }}>
+                                <p className="font-bold text-[var(--color-dark)]">{t(`classes.tiers.${tier as EvolutionTier}`)}</p>
+                                <p className="text-sm font-bold text-[var(--color-wood)]">{t("classes.level", { level })}</p>
+                            </div>
+                        ))}
+                        {EVOLUTION_FORMS.map(form => {
+                            const place = TREE_LAYOUT.layout.get(form.id);
+                            if (!place) return null;
+                            const isSelected = form.id === selected?.id;
+                            return (
+                                <Link
+                                    key={form.id}
+                                    to={path(`/classes/${form.id}`)}
+                                    aria-current={isSelected ? "page" : undefined}
+                                    style={{ gridColumn: form.tier + 1, gridRow: `${place.row + 1} / span ${place.span}` }}
+                                    className={`self-center rounded-2xl border-4 px-3 py-3 text-center font-heading font-bold transition-all duration-200 hover:-translate-y-0.5
+                                        ${isSelected ? "bg-[var(--color-dark)] text-[var(--color-paper)] border-[var(--color-dark)] shadow-xl"
+                                            : line.has(form.id) ? "bg-[var(--color-surface)] text-[var(--color-dark)] border-[var(--color-accent)] shadow-lg"
+                                                : "bg-[var(--color-surface)]/80 text-[var(--color-dark)] border-[var(--color-border)] hover:border-[var(--color-accent)]"}
+                                    `}
+                                >
+                                    {form.path && <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 align-middle ${PATH_COLORS[form.path]}`} />}
+                                    {form.name}
+                                </Link>
+                            );
+                        })}
+                    </div>
+                </nav>
+
+                {/* Path Legend */}
+                <div className="flex flex-wrap justify-center gap-6 mb-10 font-heading font-bold text-[var(--color-wood)]">
+                    {(Object.keys(PATH_COLORS) as EvolutionPath[]).map(p => (
+                        <span key={p} className="inline-flex items-center gap-2">
+                            <span className={`w-3 h-3 rounded-full ${PATH_COLORS[p]}`} />
+                            {t(`classes.paths.${p}`)}
+                        </span>
+                    ))}
+                </div>
+
+                {/* Selected Form */}
+                <div ref={detailRef} className="scroll-mt-28">
+                    {selected ? (
+                        <FormDetails form={selected} />
+                    ) : classId ? (
+                        <p role="alert" className="text-center text-xl text-[var(--color-primary)] font-medium">{t("classes.notFound")}</p>
+                    ) : (
+                        <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium">{t("classes.select")}</p>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
+
+function FormDetails({ form }: { form: EvolutionForm }) {
+    const { t, path } = useI18n();
+    const stats = Object.entries(form.statBonuses) as [Attribute, number][];
+    const passives = heldPassives(form);
+    const previous = form.previous ? getEvolutionForm(form.previous) : undefined;
+    const next = form.next.map(getEvolutionForm).filter(f => f !== undefined);
+
+    return (
+        <Card className="max-w-4xl mx-auto text-left">
+            <p className="font-heading font-bold text-[var(--color-wood)]">
+                {t("classes.tier", { tier: form.tier, name: t(`classes.tiers.${form.tier}`) })}
+                {" · "}
+                {t("classes.unlocksAt", { level: requiredLevel(form) })}
+                {form.path && <>{" · "}{t(`classes.paths.${form.path}`)}</>}
+            </p>
+            <h2 className="text-4xl font-heading font-extrabold text-[var(--color-dark)] mt-2 mb-6">{form.name}</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <section>
+                    <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("classes.stats")}</h3>
+                    {stats.length > 0 ? (
+                        <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-[var(--color-dark)]">
+                            {stats.map(([attribute, value]) => (
+                                <div key={attribute} className="contents">
+                                    <dt className="font-medium">{ATTRIBUTES[attribute].label}</dt>
+                                    <dd className="font-heading font-bold text-[var(--color-secondary-dark)] text-right">{formatStat(attribute, value)}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    ) : (
+                        <p className="text-[var(--color-dark)]/70 font-medium">{t("classes.noStats")}</p>
+                    )}
+
+                    {form.pathBonus && (
+                        <>
+                            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mt-6 mb-2">{t("classes.pathBonus")}</h3>
+                            <p className="font-medium text-[var(--color-dark)]">{form.pathBonus.description}</p>
+                        </>
+                    )}
+                </section>
+
+                <section className="flex flex-col gap-6">
+                    {form.activeSkill && (
+                        <div>
+                            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("classes.activeSkill")}</h3>
+                            <p className="font-heading font-bold text-[var(--color-primary)]">{form.activeSkill.name}</p>
+                            <p className="text-[var(--color-dark)]/80 font-medium">{form.activeSkill.description}</p>
+                            <p className="text-sm text-[var(--color-wood)] font-bold mt-1">
+                                {t("classes.skillStats", { cooldown: form.activeSkill.cooldown, damage: form.activeSkill.baseDamage })}
+                            </p>
+                        </div>
+                    )}
+                    {form.passive && (
+                        <div>
+                            <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("classes.passive")}</h3>
+                            <p className="font-heading font-bold text-[var(--color-accent-dark)]">{form.passive.name}</p>
+                            <p className="text-[var(--color-dark)]/80 font-medium">{form.passive.description}</p>
+                            {form.passive.upgrades && (
+                                <p className="text-sm text-[var(--color-wood)] font-bold mt-1">
+                                    {t("classes.passiveUpgrade", { name: previousPassiveName(form) })}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </section>
+            </div>
+
+            {/* Passives held along this line */}
+            {passives.length > 0 && (
+                <section className="mt-8">
+                    <h3 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">
+                        {t("classes.heldPassives", { count: passives.length, max: MAX_EVOLUTION_PASSIVES })}
+                    </h3>
+                    <ol className="flex flex-wrap gap-3">
+                        {passives.map(passive => (
+                            <li key={passive.id} className="px-4 py-2 rounded-2xl bg-[var(--color-paper)] border-2 border-[var(--color-border)]">
+                                <p className="font-heading font-bold text-[var(--color-dark)]">{passive.name}</p>
+                                <p className="text-sm text-[var(--color-dark)]/70 font-medium">{passive.description}</p>
+                            </li>
+                        ))}
+                    </ol>
+                </section>
+            )}
+
+            {/* Neighbouring forms */}
+            <div className="mt-8 flex flex-wrap gap-x-8 gap-y-2 font-heading font-bold text-[var(--color-wood)]">
+                {previous && (
+                    <p>
+                        {t("classes.evolvesFrom")}{" "}
+                        <Link to={path(`/classes/${previous.id}`)} className="text-[var(--color-primary)] hover:underline">{previous.name}</Link>
+                    </p>
+                )}
+                {next.length > 0 && (
+                    <p>
+                        {t("classes.evolvesInto")}{" "}
+                        {next.map((f, i) => (
+                            <span key={f.id}>
+                                {i > 0 && ", "}
+                                <Link to={path(`/classes/${f.id}`)} className="text-[var(--color-primary)] hover:underline">{f.name}</Link>
+                            </span>
+                        ))}
+                    </p>
+                )}
+            </div>
+        </Card>
+    );
+}
+
+/** Name of the passive a final form's passive replaces. */
+function previousPassiveName(form: EvolutionForm) {
+    const upgraded = form.passive?.upgrades;
+    return evolutionLine(form).find(f => f.passive?.id === upgraded)?.passive?.name ?? "";
+}
@@ -1,15 +1,20 @@
-import { Navbar } from "../components/Navbar";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
 
 export function Community() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.community.title"), description: t("meta.community.description") });
+
     return (
         <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
             <Navbar />
-            <div className="pt-32 px-6 flex flex-col items-center justify-center min-h-[60vh] text-center">
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 px-6 flex flex-col items-center justify-center min-h-[60vh] text-center outline-none">
                 <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
-                    Join the <span className="text-[var(--color-accent)]">Community</span>
+                    {t("community.title.before")}<span className="text-[var(--color-accent)]">{t("community.title.highlight")}</span>{t("community.title.after")}
                 </h1>
-                <p className="text-xl text-[var(--color-dark)]/70 font-medium">Forums & Discord Coming Soon!</p>
-            </div>
+                <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("community.comingSoon")}</p>
+            </main>
         </div>
     );
 }
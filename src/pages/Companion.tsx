@@ -0,0 +1,139 @@
+import { ArrowLeft } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { ItemFrame } from "../components/ItemFrame";
+import { ProvisionalNotice } from "../components/ProvisionalNotice";
+import { RarityBadge } from "../components/RarityBadge";
+import { Card } from "../components/ui/card";
+import { ATTRIBUTES, formatStat, type Attribute } from "../data/attributes";
+import { MAX_DEPLOYED_PALS, PAL_MAX_LEVEL, PAL_MAX_STARS, getPal, palStats, type Pal } from "../data/pals";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+export function Companion() {
+    const { palId = "" } = useParams();
+    const { t, path } = useI18n();
+    const pal = getPal(palId);
+    usePageMeta(pal
+        ? { title: `${pal.name} | ${t("meta.companions.title")}`, description: pal.description }
+        : { title: t("meta.companions.title"), description: t("meta.companions.description") });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="outline-none">
+                <article className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+                    <Link to={path("/companions")} className="inline-flex items-center gap-2 mb-8 font-heading font-bold text-[var(--color-wood)] hover:text-[var(--color-primary)]">
+                        <ArrowLeft size={18} />
+                        {t("companions.back")}
+                    </Link>
+
+                    {pal ? (
+                        <>
+                            <ProvisionalNotice message={t("companions.provisional")} className="mb-10" />
+                            <PalDetails pal={pal} />
+                        </>
+                    ) : (
+                        <p role="alert" className="text-xl text-[var(--color-primary)] font-medium">{t("companions.notFound")}</p>
+                    )}
+                </article>
+            </main>
+        </div>
+    );
+}
+
+function PalDetails({ pal }: { pal: Pal }) {
+    const { t } = useI18n();
+    const base = palStats(pal, 1, 1);
+    const max = palStats(pal, PAL_MAX_LEVEL, PAL_MAX_STARS);
+    const buffs = Object.entries(pal.ownerBuffs) as [Attribute, number][];
+
+    return (
+        <>
+            <header className="flex flex-col sm:flex-row items-center sm:items-start gap-6 mb-10 text-center sm:text-left">
+                <ItemFrame rarity={pal.rarity} size="lg">{pal.emoji}</ItemFrame>
+                <div>
+                    <h1 className="text-5xl md:text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-3 text-outline">{pal.name}</h1>
+                    <p className="flex flex-wrap justify-center sm:justify-start items-center gap-3 mb-3 font-heading font-bold text-[var(--color-wood)]">
+                        <RarityBadge rarity={pal.rarity} />
+                        {t(`elements.${pal.element}`)} · {t(`companions.types.${pal.type}`)}
+                    </p>
+                    <p className="text-lg text-[var(--color-dark)]/70 font-medium">{pal.description}</p>
+                </div>
+            </header>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Skill & Passive */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("companions.skill")}</h2>
+                    <p className="font-heading font-bold text-[var(--color-primary)]">{pal.skill.name}</p>
+                    <p className="text-[var(--color-dark)]/80 font-medium">{pal.skill.description}</p>
+                    <p className="text-sm text-[var(--color-wood)] font-bold mt-1">{t("companions.cooldown", { cooldown: pal.skill.cooldown })}</p>
+
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mt-6 mb-2">{t("companions.passive")}</h2>
+                    <p className="font-heading font-bold text-[var(--color-accent-dark)]">{pal.passive.name}</p>
+                    <p className="text-[var(--color-dark)]/80 font-medium">{pal.passive.description}</p>
+                </Card>
+
+                {/* Owner Buffs */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("companions.buffs")}</h2>
+                    <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-[var(--color-dark)]">
+                        {buffs.map(([attribute, value]) => (
+                            <div key={attribute} className="contents">
+                                <dt className="font-medium">{ATTRIBUTES[attribute].label}</dt>
+                                <dd className="font-heading font-bold text-[var(--color-secondary-dark)] text-right">{formatStat(attribute, value)}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                    <p className="text-sm text-[var(--color-wood)] font-bold mt-4">{t("companions.deployNote", { max: MAX_DEPLOYED_PALS })}</p>
+                </Card>
+
+                {/* Stats */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("companions.stats")}</h2>
+                    <table className="w-full text-[var(--color-dark)]">
+                        <thead>
+                            <tr className="text-sm text-[var(--color-wood)] font-heading">
+                                <th className="text-left font-bold pb-1"><span className="sr-only">{t("companions.stat")}</span></th>
+                                <th className="text-right font-bold pb-1">{t("companions.statsAt", { level: 1, stars: 1 })}</th>
+                                <th className="text-right font-bold pb-1">{t("companions.statsAt", { level: PAL_MAX_LEVEL, stars: PAL_MAX_STARS })}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-medium">
+                            <StatRow label={ATTRIBUTES.hp.label} base={base.hp} max={max.hp} />
+                            <StatRow label={ATTRIBUTES.atk.label} base={base.atk} max={max.atk} />
+                            <StatRow label={ATTRIBUTES.def.label} base={base.def} max={max.def} />
+                            <StatRow label={ATTRIBUTES.atkSpeed.label} base={base.atkSpeed} max={max.atkSpeed} />
+                        </tbody>
+                    </table>
+                </Card>
+
+                {/* Behavior */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-2">{t("companions.behavior")}</h2>
+                    <p className="text-[var(--color-dark)]/80 font-medium mb-4">{pal.behavior.summary}</p>
+                    <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-[var(--color-dark)]">
+                        <dt className="font-medium">{t("companions.attackRange")}</dt>
+                        <dd className="font-heading font-bold text-right">{pal.behavior.attackRange}</dd>
+                        <dt className="font-medium">{t("companions.aggroRange")}</dt>
+                        <dd className="font-heading font-bold text-right">{pal.behavior.aggroRange}</dd>
+                        <dt className="font-medium">{t("companions.followDistance")}</dt>
+                        <dd className="font-heading font-bold text-right">{pal.behavior.followDistance}</dd>
+                    </dl>
+                </Card>
+            </div>
+        </>
+    );
+}
+
+function StatRow({ label, base, max }: { label: string, base: number, max: number }) {
+    const { locale } = useI18n();
+    return (
+        <tr>
+            <th scope="row" className="text-left font-medium py-0.5">{label}</th>
+            <td className="text-right font-heading font-bold">{base.toLocaleString(locale)}</td>
+            <td className="text-right font-heading font-bold text-[var(--color-secondary-dark)]">{max.toLocaleString(locale)}</td>
+        </tr>
+    );
+}
@@ -0,0 +1,76 @@
+import { useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { FilterChip } from "../components/FilterChip";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { PalCard } from "../components/PalCard";
+import { ProvisionalNotice } from "../components/ProvisionalNotice";
+import { Input } from "../components/ui/input";
+import { PAL_ELEMENTS, PAL_RARITIES, PALS, TOTAL_PALS, sortedPals, type PalElement, type PalRarity } from "../data/pals";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+export function Companions() {
+    const [query, setQuery] = useState("");
+    const [rarity, setRarity] = useState<PalRarity | "all">("all");
+    const [element, setElement] = useState<PalElement | "all">("all");
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.companions.title"), description: t("meta.companions.description") });
+
+    const pals = useMemo(() => {
+        const term = query.trim().toLowerCase();
+        return sortedPals().filter(pal =>
+            (rarity === "all" || pal.rarity === rarity)
+            && (element === "all" || pal.element === element)
+            && pal.name.toLowerCase().includes(term));
+    }, [query, rarity, element]);
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-6xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("companions.title.before")}<span className="text-[var(--color-accent)]">{t("companions.title.highlight")}</span>{t("companions.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("companions.subtitle", { revealed: PALS.length, total: TOTAL_PALS })}</p>
+                </div>
+
+                <ProvisionalNotice message={t("companions.provisional")} className="mb-8" />
+
+                {/* Search & Filters */}
+                <div className="relative mb-6">
+                    <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-wood)]" />
+                    <Input
+                        type="search"
+                        aria-label={t("companions.searchLabel")}
+                        placeholder={t("companions.search")}
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        className="h-14 pl-12 rounded-3xl bg-[var(--color-surface)] text-lg"
+                    />
+                </div>
+                <div role="group" aria-label={t("companions.rarityFilter")} className="flex flex-wrap gap-3 mb-4">
+                    <FilterChip label={t("companions.allRarities")} active={rarity === "all"} onClick={() => setRarity("all")} />
+                    {PAL_RARITIES.map(r => (
+                        <FilterChip key={r} label={t(`rarities.${r}`)} active={rarity === r} onClick={() => setRarity(r)} />
+                    ))}
+                </div>
+                <div role="group" aria-label={t("companions.elementFilter")} className="flex flex-wrap gap-3 mb-10">
+                    <FilterChip label={t("companions.allElements")} active={element === "all"} onClick={() => setElement("all")} />
+                    {PAL_ELEMENTS.map(e => (
+                        <FilterChip key={e} label={t(`elements.${e}`)} active={element === e} onClick={() => setElement(e)} />
+                    ))}
+                </div>
+
+                {/* Pal Grid */}
+                {pals.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                        {pals.map(pal => <PalCard key={pal.id} pal={pal} />)}
+                    </div>
+                ) : (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("companions.empty")}</p>
+                )}
+            </main>
+        </div>
+    );
+}
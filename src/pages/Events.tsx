@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { CalendarDays, Download } from "lucide-react";
+import { EventCard } from "../components/EventCard";
+import { EventTimeline } from "../components/EventTimeline";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { Card } from "../components/ui/card";
+import { EVENTS_CALENDAR_PATH, EVENT_STATUSES, calendarEntries, eventStatus, type CalendarEntry, type EventStatus } from "../data/events";
+import { useNow } from "../hooks/useNow";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+const ENTRIES = calendarEntries();
+
+export function Events() {
+    const now = useNow();
+    const [feedUrl, setFeedUrl] = useState(EVENTS_CALENDAR_PATH);
+    const [timeZone, setTimeZone] = useState<string | null>(null);
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.events.title"), description: t("meta.events.description") });
+
+    // Calendar apps subscribe through webcal://, which needs the host, and the
+    // viewer's timezone is only known in the browser.
+    useEffect(() => {
+        setFeedUrl(`webcal://${window.location.host}${EVENTS_CALENDAR_PATH}`);
+        setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    }, []);
+
+    const sections: Record<EventStatus, CalendarEntry[]> = { live: [], upcoming: [], past: [] };
+    if (now !== null) {
+        for (const entry of ENTRIES) sections[eventStatus(entry, now)].push(entry);
+        sections.past.reverse();
+    }
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-5xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("events.title.before")}<span className="text-[var(--color-accent)]">{t("events.title.highlight")}</span>{t("events.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("events.subtitle")}</p>
+                </div>
+
+                {/* Subscribe */}
+                <Card className="text-left mb-12 flex flex-col md:flex-row md:items-center gap-4 justify-between">
+                    <div>
+                        <h2 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("events.subscribeTitle")}</h2>
+                        <p className="text-[var(--color-dark)]/80 font-medium">
+                            {timeZone ? t("events.timezone", { timeZone }) : t("events.timezoneUtc")}
+                        </p>
+                    </div>
+                    <div className="flex flex-wrap gap-4 shrink-0">
+                        <a
+                            href={feedUrl}
+                            className="inline-flex items-center gap-2 font-heading font-bold text-[var(--color-primary)] hover:underline"
+                        >
+                            <CalendarDays size={18} aria-hidden="true" />
+                            {t("events.subscribe")}
+                        </a>
+                        <a
+                            href={EVENTS_CALENDAR_PATH}
+                            download="mini-mythics-events.ics"
+                            className="inline-flex items-center gap-2 font-heading font-bold text-[var(--color-primary)] hover:underline"
+                        >
+                            <Download size={18} aria-hidden="true" />
+                            {t("events.download")}
+                        </a>
+                    </div>
+                </Card>
+
+                {now === null ? (
+                    // Prerendered: no clock yet, so one list in start order.
+                    <section aria-labelledby="events-schedule">
+                        <h2 id="events-schedule" className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">{t("events.schedule")}</h2>
+                        <div className="space-y-6">
+                            {ENTRIES.map(entry => <EventCard key={entry.id} entry={entry} now={now} />)}
+                        </div>
+                    </section>
+                ) : (
+                    <>
+                        <EventTimeline entries={ENTRIES} now={now} />
+                        {EVENT_STATUSES.map(status => (
+                            <section key={status} aria-labelledby={`events-${status}`} className="mb-12">
+                                <h2 id={`events-${status}`} className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">
+                                    {t(`events.sections.${status}`)}
+                                </h2>
+                                {sections[status].length > 0 ? (
+                                    <div className="space-y-6">
+                                        {sections[status].map(entry => <EventCard key={entry.id} entry={entry} now={now} />)}
+                                    </div>
+                                ) : (
+                                    <p className="text-lg text-[var(--color-dark)]/70 font-medium">{t(`events.empty.${status}`)}</p>
+                                )}
+                            </section>
+                        ))}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
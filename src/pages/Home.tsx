@@ -1,111 +1,156 @@
-import { useRef } from "react";
-import { Navbar } from "../components/Navbar";
-import { Button } from "../components/ui/Button";
-import { Card } from "../components/ui/Card";
-import { Shield, Zap, Heart, Sparkles, ChevronDown } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { FeatureCard } from "../components/FeatureCard";
+import { LatestNews } from "../components/LatestNews";
+import { MilestoneTracker } from "../components/MilestoneTracker";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { PreregisterForm } from "../components/PreregisterForm";
+import { ResponsiveImage } from "../components/ResponsiveImage";
+import { StoreBadges } from "../components/StoreBadges";
+import { Sparkles, ChevronDown } from "lucide-react";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+import { fetchHomeContent, HOME_CONTENT_PATH, localized, splitHighlight, type HomeContent } from "../lib/home";
+import { getPreloaded } from "../lib/preload";
+import { isPlatform, type Platform } from "../lib/preregister";
+import { PREREGISTER_HASH } from "../lib/stores";
+import { scrollBehavior } from "../theme/themes";
 
 export function Home() {
+    const { t, locale } = useI18n();
+    usePageMeta({ description: t("meta.home.description") });
+    // Baked in at build time, then refreshed so edits made in /admin show up before the next deploy.
+    const { data: content } = useAsync(fetchHomeContent, [], getPreloaded<HomeContent>(HOME_CONTENT_PATH), true);
     const featuresRef = useRef<HTMLElement>(null);
+    const preregisterRef = useRef<HTMLElement>(null);
+    const [platform, setPlatform] = useState<Platform | "">("");
 
     const scrollToFeatures = () => {
-        featuresRef.current?.scrollIntoView({ behavior: "smooth" });
+        featuresRef.current?.scrollIntoView({ behavior: scrollBehavior() });
     };
 
+    // Badges for stores that aren't live yet lead to pre-registration instead.
+    const preregisterFor = (target: Platform) => {
+        setPlatform(target);
+        preregisterRef.current?.scrollIntoView({ behavior: scrollBehavior() });
+    };
+
+    // `/go/:store` sends visitors here as `/?platform=ios#preregister` until that store is live.
+    useEffect(() => {
+        const requested = new URLSearchParams(window.location.search).get("platform");
+        if (isPlatform(requested)) setPlatform(requested);
+        if (window.location.hash === PREREGISTER_HASH) preregisterRef.current?.scrollIntoView();
+    }, []);
+
     return (
         <div className="min-h-screen w-full relative">
             <Navbar />
 
-            {/* Hero Section - Extended to full screen height */}
-            <section className="relative pt-32 pb-10 px-6 min-h-screen flex flex-col items-center justify-center text-center overflow-hidden">
-
-                {/* Main Content - Shifted up */}
-                <div className="relative z-10 max-w-4xl mx-auto flex flex-col items-center justify-center flex-grow pb-40">
-                    <div className="mb-6 inline-flex items-center gap-2 px-4 py-2 bg-white/80 backdrop-blur-sm rounded-full border border-amber-200 shadow-sm animate-bounce-slow">
-                        <Sparkles size={24} className="text-[var(--color-accent)]" />
-                        <span className="font-heading font-bold text-[var(--color-primary)] tracking-wide text-sm uppercase">Early Access Coming Soon</span>
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="outline-none">
+                {/* Hero Section - Extended to full screen height */}
+                <section className="relative pt-32 pb-10 px-6 min-h-screen flex flex-col items-center justify-center text-center overflow-hidden">
+
+                    {/* Main Content - Shifted up */}
+                    <div className="relative z-10 max-w-4xl mx-auto flex flex-col items-center justify-center flex-grow pb-40">
+                        {content && (
+                            <>
+                                <div className="mb-6 inline-flex items-center gap-2 px-4 py-2 bg-[var(--color-surface)]/80 backdrop-blur-sm rounded-full border border-[var(--color-border-strong)] shadow-sm animate-bounce-slow">
+                                    <Sparkles size={24} className="text-[var(--color-accent)]" />
+                                    <span className="font-heading font-bold text-[var(--color-primary)] tracking-wide text-sm uppercase">{localized(content.hero.badge, locale)}</span>
+                                </div>
+
+                                <MilestoneTracker />
+
+                                <h1 className="text-6xl md:text-8xl font-heading font-extrabold text-[var(--color-dark)] mb-6 leading-tight text-outline">
+                                    {splitHighlight(localized(content.hero.title, locale)).map((part, i) =>
+                                        part.highlight ? <span key={i} className="text-[var(--color-accent)]">{part.text}</span> : part.text,
+                                    )}
+                                </h1>
+
+                                <p className="text-xl md:text-2xl text-[var(--color-dark)]/70 max-w-2xl mb-10 font-medium">
+                                    {localized(content.hero.subtitle, locale)}
+                                </p>
+                            </>
+                        )}
+
+                        <div className="mt-8">
+                            <StoreBadges onPreregister={preregisterFor} />
+                        </div>
+
+                        {/* Scroll Down Arrow */}
+                        <button
+                            type="button"
+                            onClick={scrollToFeatures}
+                            aria-label={t("home.scrollToFeatures")}
+                            className="mt-16 animate-bounce cursor-pointer opacity-80 hover:opacity-100 transition-opacity rounded-full"
+                        >
+                            <ChevronDown size={48} className="text-[var(--color-dark)]" />
+                        </button>
                     </div>
 
-                    <h1 className="text-6xl md:text-8xl font-heading font-extrabold text-[var(--color-dark)] mb-6 leading-tight text-outline">
-                        Build Your <span className="text-[var(--color-accent)]">Legend</span>
-                    </h1>
+                </section>
 
-                    <p className="text-xl md:text-2xl text-[var(--color-dark)]/70 max-w-2xl mb-10 font-medium">
-                        Join the cutest RPG adventure! Evolve from a novice to a hero, collect companions, and save the realm.
-                    </p>
-
-                    <div className="flex flex-col md:flex-row gap-4 mt-8">
-                        <Button size="lg" className="min-w-[160px] text-lg bg-[#1C1C1E] border-[#3a3a3c] hover:bg-[#2c2c2e]">
-                            App Store
-                        </Button>
-                        <Button size="lg" className="min-w-[160px] text-lg bg-[#1C1C1E] border-[#3a3a3c] hover:bg-[#2c2c2e]">
-                            Google Play
-                        </Button>
-                    </div>
+                {/* Pre-registration Section */}
+                <section ref={preregisterRef} id="preregister" className="px-6 py-20 relative z-10 bg-[var(--color-paper)] scroll-mt-20">
+                    <div className="max-w-6xl mx-auto">
+                        <div className="text-center mb-12">
+                            <h2 className="text-4xl md:text-5xl font-heading font-bold text-[var(--color-dark)] mb-4">{t("home.preregister.title")}</h2>
+                            <div className="h-2 w-24 bg-[var(--color-accent)] mx-auto rounded-full mb-6"></div>
+                            <p className="text-lg text-[var(--color-dark)]/70 font-medium max-w-2xl mx-auto">
+                                {t("home.preregister.subtitle")}
+                            </p>
+                        </div>
 
-                    {/* Scroll Down Arrow */}
-                    <div className="mt-16 animate-bounce cursor-pointer opacity-80 hover:opacity-100 transition-opacity" onClick={scrollToFeatures}>
-                        <ChevronDown size={48} className="text-[var(--color-dark)]" />
+                        <PreregisterForm platform={platform} onPlatformChange={setPlatform} />
                     </div>
-                </div>
-
-            </section>
-
-            {/* Features Section */}
-            <section ref={featuresRef} className="px-6 py-20 relative z-10 mb-20 bg-[var(--color-paper)]">
-                <div className="max-w-6xl mx-auto">
-                    <div className="text-center mb-16">
-                        <h2 className="text-4xl md:text-5xl font-heading font-bold text-[var(--color-dark)] mb-4">Epic Features</h2>
-                        <div className="h-2 w-24 bg-[var(--color-accent)] mx-auto rounded-full"></div>
+                </section>
+
+                {/* Features Section */}
+                <section ref={featuresRef} className="px-6 py-20 relative z-10 mb-20 bg-[var(--color-paper)]">
+                    <div className="max-w-6xl mx-auto">
+                        <div className="text-center mb-16">
+                            <h2 className="text-4xl md:text-5xl font-heading font-bold text-[var(--color-dark)] mb-4">{content && localized(content.featuresTitle, locale)}</h2>
+                            <div className="h-2 w-24 bg-[var(--color-accent)] mx-auto rounded-full"></div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                            {content?.features.map(feature => <FeatureCard key={feature.id} feature={feature} />)}
+                        </div>
                     </div>
+                </section>
 
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                        <FeatureCard
-                            icon={<Shield className="text-white" size={32} />}
-                            title="Class Evolution"
-                            desc="Start as a novice and choose your path. Will you be a Knight, a Mage, or a Rogue?"
-                            color="bg-blue-500"
-                        />
-                        <FeatureCard
-                            icon={<Zap className="text-white" size={32} />}
-                            title="Dynamic Combat"
-                            desc="Fast-paced battles with flashy skills and strategic team compositions."
-                            color="bg-[var(--color-primary)]"
-                        />
-                        <FeatureCard
-                            icon={<Heart className="text-white" size={32} />}
-                            title="Companion Bond"
-                            desc="Befriend mystical creatures that fight by your side and grant special buffs."
-                            color="bg-[var(--color-accent)]"
-                        />
-                    </div>
-                </div>
-            </section>
+                {/* Latest News Strip */}
+                <LatestNews />
+            </main>
 
             {/* Footer */}
-            <footer className="bg-white/50 backdrop-blur-sm border-t-4 border-dashed border-[var(--color-wood)]/20 py-12 text-center relative overflow-hidden z-10">
+            <footer className="bg-[var(--color-surface)]/50 backdrop-blur-sm border-t-4 border-dashed border-[var(--color-wood)]/20 py-12 text-center relative overflow-hidden z-10">
                 <div className="max-w-4xl mx-auto px-6 relative">
                     {/* LOGO h-32 */}
-                    <img src="/images/logo3.png" alt="Logo" className="h-32 w-auto mx-auto mb-6 opacity-80 grayscale hover:grayscale-0 transition-all duration-500" />
+                    <ResponsiveImage src="/images/logo3.png" alt="Logo" sizes="228px" loading="lazy" className="h-32 w-auto mx-auto mb-6 opacity-80 grayscale hover:grayscale-0 transition-all duration-500" />
                     <p className="font-heading font-bold text-[var(--color-wood)]">
-                        © 2024 Mini Mythics. Crafted with ❤️ and Magic.
+                        {t("home.footer")}
                     </p>
                 </div>
             </footer>
 
             {/* Boss Fixed at Bottom Left - Mobile Optimized */}
             <div className="fixed bottom-0 left-[-30px] md:left-[-80px] z-50 pointer-events-none animate-float">
-                <img
+                <ResponsiveImage
                     src="/images/boss.png"
-                    alt="Boss"
+                    alt={t("home.bossAlt")}
+                    sizes="(min-width: 768px) 600px, 180px"
+                    fetchPriority="high"
                     className="w-[180px] md:w-[600px] h-auto drop-shadow-2xl translate-y-2 md:translate-y-8 object-contain"
                 />
             </div>
 
             {/* Characters Fixed at Bottom Right - Mobile Optimized */}
             <div className="fixed bottom-0 right-[-20px] md:right-5 z-50 pointer-events-none animate-float">
-                <img
+                <ResponsiveImage
                     src="/images/characters.png"
-                    alt="Characters"
+                    alt={t("home.charactersAlt")}
+                    sizes="(min-width: 768px) 450px, 160px"
                     className="w-[160px] md:w-[450px] h-auto drop-shadow-2xl translate-y-2 md:translate-y-4 object-contain"
                 />
             </div>
@@ -113,17 +158,3 @@ export function Home() {
         </div>
     );
 }
-
-function FeatureCard({ icon, title, desc, color }: { icon: React.ReactNode, title: string, desc: string, color: string }) {
-    return (
-        <Card className="hover:-translate-y-2 transition-transform duration-300">
-            <div className={`w-14 h-14 ${color} rounded-2xl flex items-center justify-center shadow-lg shadow-black/10 mb-6 rotate-3`}>
-                {icon}
-            </div>
-            <h3 className="text-2xl font-heading font-bold text-[var(--color-dark)] mb-3">{title}</h3>
-            <p className="text-[var(--color-dark)]/70 leading-relaxed font-medium">
-                {desc}
-            </p>
-        </Card>
-    )
-}
@@ -0,0 +1,186 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { ChevronLeft, ChevronRight, Search, Trophy } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { FilterChip } from "../components/FilterChip";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError } from "../lib/api";
+import { usePageMeta } from "../lib/head";
+import {
+    LEADERBOARD_CATEGORIES,
+    MAX_PLAYER_SEARCH_LENGTH,
+    fetchLeaderboard,
+    isLeaderboardCategory,
+    type LeaderboardCategory,
+    type LeaderboardResponse,
+} from "../lib/leaderboard";
+
+const PODIUM_COLORS = ["text-[var(--rarity-mythic-dark)]", "text-[var(--rarity-normal-dark)]", "text-[var(--rarity-epic-dark)]"];
+
+type LeaderboardParam = "season" | "category" | "page" | "search";
+
+export function Leaderboard() {
+    const { t, locale } = useI18n();
+    usePageMeta({ title: t("meta.leaderboard.title"), description: t("meta.leaderboard.description") });
+
+    // Filters live in the URL so a ranking page can be shared or bookmarked.
+    const [params, setParams] = useSearchParams();
+    const categoryParam = params.get("category");
+    const category: LeaderboardCategory = isLeaderboardCategory(categoryParam) ? categoryParam : "rating";
+    const season = Number(params.get("season")) || undefined;
+    const page = Math.max(1, Math.floor(Number(params.get("page"))) || 1);
+    const search = params.get("search") ?? "";
+    const [draft, setDraft] = useState(search);
+    useEffect(() => setDraft(search), [search]);
+
+    const { data, error, loading } = useAsync(
+        () => fetchLeaderboard({ season, category, page, search }),
+        [season, category, page, search],
+    );
+
+    const update = (changes: Partial<Record<LeaderboardParam, string | number>>) => {
+        const next = new URLSearchParams(params);
+        for (const [key, value] of Object.entries(changes)) {
+            if (value) next.set(key, String(value));
+            else next.delete(key);
+        }
+        // Any filter change starts again from the first page.
+        if (!("page" in changes)) next.delete("page");
+        setParams(next);
+    };
+
+    const handleSearch = (e: FormEvent) => {
+        e.preventDefault();
+        update({ search: draft.trim() });
+    };
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-5xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("leaderboard.title.before")}<span className="text-[var(--color-accent)]">{t("leaderboard.title.highlight")}</span>{t("leaderboard.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("leaderboard.subtitle")}</p>
+                </div>
+
+                {/* Season & Category Tabs */}
+                {data && (
+                    <>
+                        <div role="group" aria-label={t("leaderboard.seasonFilter")} className="flex flex-wrap justify-center gap-3 mb-2">
+                            {[...data.seasons].reverse().map(s => (
+                                <FilterChip key={s.id} label={s.name} active={data.season === s.id} onClick={() => update({ season: s.id })} />
+                            ))}
+                        </div>
+                        <SeasonDates data={data} />
+                    </>
+                )}
+                <div role="group" aria-label={t("leaderboard.categoryFilter")} className="flex flex-wrap justify-center gap-3 mb-8">
+                    {LEADERBOARD_CATEGORIES.map(c => (
+                        <FilterChip key={c} label={t(`leaderboard.categories.${c}`)} active={category === c} onClick={() => update({ category: c === "rating" ? "" : c })} />
+                    ))}
+                </div>
+
+                {/* Player Search */}
+                <form role="search" onSubmit={handleSearch} className="flex gap-3 mb-8">
+                    <div className="relative flex-1">
+                        <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-wood)]" />
+                        <Input
+                            type="search"
+                            aria-label={t("leaderboard.searchLabel")}
+                            placeholder={t("leaderboard.search")}
+                            maxLength={MAX_PLAYER_SEARCH_LENGTH}
+                            value={draft}
+                            onChange={e => {
+                                setDraft(e.target.value);
+                                if (!e.target.value && search) update({ search: "" });
+                            }}
+                            className="h-14 pl-12 rounded-3xl bg-[var(--color-surface)] text-lg"
+                        />
+                    </div>
+                    <Button type="submit" variant="secondary" className="h-14">{t("leaderboard.searchSubmit")}</Button>
+                </form>
+
+                {/* Rankings */}
+                {error ? (
+                    <p role="alert" className="text-center text-xl text-[var(--color-primary)] font-medium py-12">
+                        {t(error instanceof ApiError && error.status === 404 ? "leaderboard.noSeason" : "errors.generic")}
+                    </p>
+                ) : !data ? (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("leaderboard.loading")}</p>
+                ) : data.entries.length > 0 ? (
+                    <Card className={`p-4 md:p-6 transition-opacity ${loading ? "opacity-60" : ""}`} aria-busy={loading}>
+                        <table className="w-full text-[var(--color-dark)]">
+                            <thead>
+                                <tr className="text-sm text-[var(--color-wood)] font-heading">
+                                    <th scope="col" className="text-left font-bold pb-2 w-20">{t("leaderboard.rank")}</th>
+                                    <th scope="col" className="text-left font-bold pb-2">{t("leaderboard.player")}</th>
+                                    {data.category !== "level" && <th scope="col" className="text-right font-bold pb-2 hidden sm:table-cell">{t("leaderboard.level")}</th>}
+                                    <th scope="col" className="text-right font-bold pb-2">{t(`leaderboard.categories.${data.category}`)}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-medium">
+                                {data.entries.map(entry => (
+                                    <tr key={entry.playerId} className="border-t-2 border-[var(--color-border)]">
+                                        <td className="py-3 font-heading font-bold">
+                                            <span className="inline-flex items-center gap-1.5">
+                                                {entry.rank <= 3 && <Trophy size={18} aria-hidden="true" className={PODIUM_COLORS[entry.rank - 1]} />}
+                                                {entry.rank.toLocaleString(locale)}
+                                            </span>
+                                        </td>
+                                        <td className="py-3 font-heading font-bold break-all">{entry.name}</td>
+                                        {data.category !== "level" && <td className="py-3 text-right hidden sm:table-cell">{entry.level}</td>}
+                                        <td className="py-3 text-right font-heading font-bold text-[var(--color-secondary-dark)]">{entry.value.toLocaleString(locale)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </Card>
+                ) : (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("leaderboard.empty")}</p>
+                )}
+
+                {data && <Pagination data={data} onPage={p => update({ page: p > 1 ? p : "" })} />}
+            </main>
+        </div>
+    );
+}
+
+function SeasonDates({ data }: { data: LeaderboardResponse }) {
+    const { t, locale } = useI18n();
+    const season = data.seasons.find(s => s.id === data.season);
+    if (!season) return null;
+
+    const ended = new Date(season.endsAt).getTime() <= Date.now();
+    const date = new Date(season.endsAt).toLocaleDateString(locale, { dateStyle: "long" });
+    return (
+        <p className="text-center text-sm font-heading font-bold text-[var(--color-wood)] mb-6">
+            {t(ended ? "leaderboard.endedOn" : "leaderboard.endsOn", { date })}
+        </p>
+    );
+}
+
+function Pagination({ data, onPage }: { data: LeaderboardResponse, onPage: (page: number) => void }) {
+    const { t } = useI18n();
+    const pages = Math.max(1, Math.ceil(data.total / data.pageSize));
+    if (pages <= 1) return null;
+
+    return (
+        <nav aria-label={t("leaderboard.pagination")} className="flex items-center justify-center gap-4 mt-8 font-heading font-bold text-[var(--color-wood)]">
+            <Button variant="ghost" size="sm" disabled={data.page <= 1} onClick={() => onPage(data.page - 1)} className="disabled:opacity-40">
+                <ChevronLeft size={18} />
+                {t("leaderboard.previous")}
+            </Button>
+            <span aria-current="page">{t("leaderboard.pageOf", { page: data.page, pages })}</span>
+            <Button variant="ghost" size="sm" disabled={data.page >= pages} onClick={() => onPage(data.page + 1)} className="disabled:opacity-40">
+                {t("leaderboard.next")}
+                <ChevronRight size={18} />
+            </Button>
+        </nav>
+    );
+}
@@ -1,15 +1,82 @@
-import { Navbar } from "../components/Navbar";
+import { useMemo, useState } from "react";
+import { Play } from "lucide-react";
+import { FilterChip } from "../components/FilterChip";
+import { Lightbox } from "../components/Lightbox";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { MEDIA_CATEGORIES, sortedMedia, type MediaCategory } from "../data/media";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
 
 export function Media() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.media.title"), description: t("meta.media.description") });
+    const [category, setCategory] = useState<MediaCategory | "all">("all");
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+    const items = useMemo(
+        () => sortedMedia().filter(item => category === "all" || item.category === category),
+        [category],
+    );
+
     return (
         <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
             <Navbar />
-            <div className="pt-32 px-6 flex flex-col items-center justify-center min-h-[60vh] text-center">
-                <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
-                    Media <span className="text-[var(--color-accent)]">Gallery</span>
-                </h1>
-                <p className="text-xl text-[var(--color-dark)]/70 font-medium">Coming Soon!</p>
-            </div>
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-6xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("media.title.before")}<span className="text-[var(--color-accent)]">{t("media.title.highlight")}</span>{t("media.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("media.subtitle")}</p>
+                </div>
+
+                {/* Category Filter */}
+                <div className="flex flex-wrap justify-center gap-3 mb-10">
+                    <FilterChip label={t("media.all")} active={category === "all"} onClick={() => setCategory("all")} />
+                    {MEDIA_CATEGORIES.map(c => (
+                        <FilterChip key={c} label={t(`media.categories.${c}`)} active={category === c} onClick={() => setCategory(c)} />
+                    ))}
+                </div>
+
+                {/* Thumbnail Grid */}
+                {items.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {items.map((item, i) => (
+                            <button
+                                key={item.id}
+                                type="button"
+                                onClick={() => setOpenIndex(i)}
+                                className="group relative aspect-video overflow-hidden rounded-[2rem] bg-[var(--color-surface)] border-4 border-[var(--color-border)] shadow-xl shadow-amber-900/10 hover:-translate-y-1 transition-transform duration-300 text-left"
+                            >
+                                <img
+                                    src={item.thumbnail}
+                                    alt={item.caption}
+                                    width={item.width}
+                                    height={item.height}
+                                    loading="lazy"
+                                    decoding="async"
+                                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                                />
+                                {item.type === "video" && (
+                                    <span className="absolute inset-0 flex items-center justify-center">
+                                        <span className="w-16 h-16 rounded-full bg-[var(--color-primary)] text-white flex items-center justify-center shadow-lg">
+                                            <Play size={28} className="ml-1" aria-label={t("media.playTrailer")} />
+                                        </span>
+                                    </span>
+                                )}
+                                <span className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-black/70 to-transparent text-white font-heading font-bold text-sm">
+                                    {item.caption}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("media.empty")}</p>
+                )}
+            </main>
+
+            {openIndex !== null && (
+                <Lightbox items={items} index={openIndex} onIndexChange={setOpenIndex} onClose={() => setOpenIndex(null)} />
+            )}
         </div>
     );
 }
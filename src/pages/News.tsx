@@ -0,0 +1,61 @@
+import { useMemo, useState } from "react";
+import { Rss } from "lucide-react";
+import { FilterChip } from "../components/FilterChip";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { NewsCard } from "../components/NewsCard";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+import { fetchNewsIndex, NEWS_INDEX_PATH, type NewsPostSummary } from "../lib/news";
+import { getPreloaded } from "../lib/preload";
+
+export function News() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.news.title"), description: t("meta.news.description") });
+    const { data: posts, error, loading } = useAsync(fetchNewsIndex, [], getPreloaded<NewsPostSummary[]>(NEWS_INDEX_PATH));
+    const [tag, setTag] = useState<string | null>(null);
+
+    const tags = useMemo(() => [...new Set(posts?.flatMap(post => post.tags))].sort(), [posts]);
+    const visible = posts?.filter(post => !tag || post.tags.includes(tag)) ?? [];
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-6xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("news.title.before")}<span className="text-[var(--color-accent)]">{t("news.title.highlight")}</span>{t("news.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium mb-4">{t("news.subtitle")}</p>
+                    <p className="flex items-center justify-center gap-3 font-heading font-bold text-[var(--color-wood)]">
+                        <Rss size={18} />
+                        {t("news.subscribe")}
+                        <a href="/feed.xml" className="text-[var(--color-primary)] hover:underline">RSS</a>
+                        <a href="/atom.xml" className="text-[var(--color-primary)] hover:underline">Atom</a>
+                    </p>
+                </div>
+
+                {tags.length > 1 && (
+                    <div className="flex flex-wrap justify-center gap-3 mb-10">
+                        <FilterChip label={t("news.all")} active={tag === null} onClick={() => setTag(null)} />
+                        {tags.map(name => (
+                            <FilterChip key={name} label={`#${name}`} active={tag === name} onClick={() => setTag(name)} />
+                        ))}
+                    </div>
+                )}
+
+                {loading ? (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("news.loading")}</p>
+                ) : error ? (
+                    <p role="alert" className="text-center text-xl text-[var(--color-primary)] font-medium py-12">{t("errors.generic")}</p>
+                ) : visible.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                        {visible.map(post => <NewsCard key={post.slug} post={post} />)}
+                    </div>
+                ) : (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("news.empty")}</p>
+                )}
+            </main>
+        </div>
+    );
+}
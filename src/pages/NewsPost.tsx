@@ -0,0 +1,72 @@
+import { ArrowLeft } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { formatPostDate } from "../components/NewsCard";
+import { useAsync } from "../hooks/useAsync";
+import { useI18n } from "../i18n/I18nProvider";
+import { ApiError } from "../lib/api";
+import { usePageMeta } from "../lib/head";
+import { fetchNewsPost, newsPostPath, type NewsPost as NewsPostData } from "../lib/news";
+import { getPreloaded } from "../lib/preload";
+
+export function NewsPost() {
+    const { slug = "" } = useParams();
+    const { t, path, locale } = useI18n();
+    const { data: post, error, loading } = useAsync(
+        () => fetchNewsPost(slug),
+        [slug],
+        getPreloaded<NewsPostData>(newsPostPath(slug)),
+    );
+    usePageMeta(post
+        ? { title: post.title, description: post.excerpt, image: post.cover, type: "article" }
+        : { title: t("meta.news.title"), description: t("meta.news.description") });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="outline-none">
+                <article className="pt-32 pb-20 px-6 max-w-3xl mx-auto">
+                    <Link to={path("/news")} className="inline-flex items-center gap-2 mb-8 font-heading font-bold text-[var(--color-wood)] hover:text-[var(--color-primary)]">
+                        <ArrowLeft size={18} />
+                        {t("news.back")}
+                    </Link>
+
+                    {loading ? (
+                        <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("news.loading")}</p>
+                    ) : error || !post ? (
+                        <p role="alert" className="text-xl text-[var(--color-primary)] font-medium">
+                            {t(error instanceof ApiError && error.status === 404 ? "news.notFound" : "errors.generic")}
+                        </p>
+                    ) : (
+                        <>
+                            <header className="mb-8">
+                                <h1 className="text-4xl md:text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-4 text-outline">
+                                    {post.title}
+                                </h1>
+                                <p className="font-heading font-bold text-[var(--color-wood)]">
+                                    <time dateTime={post.date}>{formatPostDate(post.date, locale)}</time>
+                                    {" · "}
+                                    {t("news.by", { author: post.author })}
+                                </p>
+                                {post.tags.length > 0 && (
+                                    <p className="mt-3 flex flex-wrap gap-2">
+                                        {post.tags.map(tag => (
+                                            <span key={tag} className="px-3 py-1 rounded-full bg-[var(--color-surface)] text-sm font-bold text-[var(--color-wood)]">#{tag}</span>
+                                        ))}
+                                    </p>
+                                )}
+                            </header>
+
+                            {post.cover && (
+                                <img src={post.cover} alt="" className="w-full rounded-[2rem] border-4 border-[var(--color-border)] shadow-xl shadow-amber-900/10 mb-10" />
+                            )}
+
+                            {/* Post bodies are authored in content/news and rendered at build time. */}
+                            <div className="news-prose" dangerouslySetInnerHTML={{ __html: post.html }} />
+                        </>
+                    )}
+                </article>
+            </main>
+        </div>
+    );
+}
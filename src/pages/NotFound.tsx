@@ -0,0 +1,24 @@
+import { Link } from "react-router-dom";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+export function NotFound() {
+    const { t, path } = useI18n();
+    usePageMeta({ title: t("meta.notFound.title"), description: t("meta.notFound.description"), noindex: true });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 px-6 flex flex-col items-center justify-center min-h-[60vh] text-center outline-none">
+                <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                    {t("notFound.title.before")}<span className="text-[var(--color-accent)]">{t("notFound.title.highlight")}</span>{t("notFound.title.after")}
+                </h1>
+                <p className="text-xl text-[var(--color-dark)]/70 font-medium mb-8">{t("notFound.body")}</p>
+                <Link to={path("/")} className="font-heading font-bold text-lg text-[var(--color-primary)] hover:underline">
+                    {t("notFound.home")} →
+                </Link>
+            </main>
+        </div>
+    );
+}
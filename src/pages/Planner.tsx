@@ -0,0 +1,219 @@
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { CheckCircle2, Link2 } from "lucide-react";
+import { GearSlotEditor } from "../components/GearSlotEditor";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { NumberField } from "../components/NumberField";
+import { ProvisionalNotice } from "../components/ProvisionalNotice";
+import { Button } from "../components/ui/button";
+import { Card } from "../components/ui/card";
+import { Label } from "../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { ATTRIBUTES, formatStat, type Attribute, type StatBlock } from "../data/attributes";
+import { EVOLUTION_FORMS, getEvolutionForm, requiredLevel } from "../data/classes";
+import { DICE_SLOTS } from "../data/equipment";
+import { useI18n } from "../i18n/I18nProvider";
+import { MAX_LEVEL } from "../lib/damage";
+import { usePageMeta } from "../lib/head";
+import {
+    MAX_ENEMY_DEF,
+    buildDamage,
+    buildStats,
+    decodeBuild,
+    encodeBuild,
+    isSlotUnlocked,
+    upgradeGains,
+    type AttackOutput,
+    type Build,
+} from "../lib/planner";
+
+export function Planner() {
+    const { t, locale } = useI18n();
+    usePageMeta({ title: t("meta.planner.title"), description: t("meta.planner.description") });
+
+    // The whole build lives in the URL, so sharing the address shares the build.
+    const [params, setParams] = useSearchParams();
+    const build = useMemo(() => decodeBuild(params), [params]);
+    const form = getEvolutionForm(build.formId)!;
+    const [copied, setCopied] = useState(false);
+
+    const update = (changes: Partial<Build>) => {
+        setCopied(false);
+        setParams(encodeBuild({ ...build, ...changes }), { replace: true });
+    };
+
+    const stats = buildStats(build, form);
+    const damage = buildDamage(stats, form, build.enemyDef);
+    const gains = upgradeGains(stats, form, build.enemyDef);
+    const number = (value: number, digits = 0) => value.toLocaleString(locale, { maximumFractionDigits: digits });
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+        } catch {
+            // Clipboard access can be blocked; the address bar still has the link.
+        }
+    };
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-7xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("planner.title.before")}<span className="text-[var(--color-accent)]">{t("planner.title.highlight")}</span>{t("planner.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("planner.subtitle")}</p>
+                </div>
+
+                <ProvisionalNotice message={t("planner.provisional")} className="mb-8" />
+
+                <div className="grid grid-cols-1 lg:grid-cols-[1fr_24rem] gap-8 items-start">
+                    <div className="flex flex-col gap-8">
+                        {/* Class & Level */}
+                        <Card className="text-left">
+                            <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-5">{t("planner.character")}</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div className="flex flex-col gap-2">
+                                    <Label htmlFor="planner-form" className="font-heading font-bold text-[var(--color-dark)]">{t("planner.form")}</Label>
+                                    <Select
+                                        value={form.id}
+                                        onValueChange={id => {
+                                            const next = getEvolutionForm(id);
+                                            if (next) update({ formId: next.id, level: Math.max(build.level, requiredLevel(next)) });
+                                        }}
+                                    >
+                                        <SelectTrigger id="planner-form" className="w-full data-[size=default]:h-12 rounded-2xl bg-[var(--color-surface)]">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent className="bg-[var(--color-surface)]">
+                                            {EVOLUTION_FORMS.map(f => (
+                                                <SelectItem key={f.id} value={f.id}>{t("planner.formOption", { tier: f.tier, name: f.name })}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    <Label htmlFor="planner-level" className="font-heading font-bold text-[var(--color-dark)]">{t("planner.level")}</Label>
+                                    <NumberField
+                                        id="planner-level"
+                                        min={requiredLevel(form)}
+                                        max={MAX_LEVEL}
+                                        value={build.level}
+                                        onCommit={level => update({ level: Math.min(MAX_LEVEL, Math.max(requiredLevel(form), Math.floor(level))) })}
+                                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                                    />
+                                </div>
+                                <div className="flex flex-col gap-2">
+                                    <Label htmlFor="planner-def" className="font-heading font-bold text-[var(--color-dark)]">{t("planner.enemyDef")}</Label>
+                                    <NumberField
+                                        id="planner-def"
+                                        min={0}
+                                        max={MAX_ENEMY_DEF}
+                                        value={build.enemyDef}
+                                        onCommit={def => update({ enemyDef: Math.min(MAX_ENEMY_DEF, Math.max(0, Math.floor(def))) })}
+                                        className="h-12 rounded-2xl bg-[var(--color-surface)]"
+                                    />
+                                </div>
+                            </div>
+                        </Card>
+
+                        {/* Gear */}
+                        <Card className="text-left">
+                            <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("planner.gear")}</h2>
+                            <p className="text-[var(--color-dark)]/70 font-medium mb-5">{t("planner.gearHint")}</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                                {DICE_SLOTS.map(slot => (
+                                    <GearSlotEditor
+                                        key={slot}
+                                        slot={slot}
+                                        piece={build.gear[slot]}
+                                        locked={!isSlotUnlocked(slot, build.level)}
+                                        onChange={piece => update({ gear: { ...build.gear, [slot]: piece } })}
+                                    />
+                                ))}
+                            </div>
+                        </Card>
+                    </div>
+
+                    {/* Results */}
+                    <div className="flex flex-col gap-8 lg:sticky lg:top-28">
+                        <Card className="text-left" aria-live="polite">
+                            <p className="text-sm font-heading font-bold text-[var(--color-wood)]">{t("planner.dps")}</p>
+                            <p className="text-5xl font-heading font-extrabold text-[var(--color-dark)] mb-5">{number(damage.dps, 1)}</p>
+                            <AttackRow label={t("planner.basicAttack")} attack={damage.basic} />
+                            {damage.skill && <AttackRow label={form.activeSkill!.name} attack={damage.skill} />}
+
+                            <Button type="button" variant="secondary" onClick={copyLink} className="w-full mt-5">
+                                {copied ? <CheckCircle2 size={18} /> : <Link2 size={18} />}
+                                {t(copied ? "planner.copied" : "planner.copyLink")}
+                            </Button>
+                        </Card>
+
+                        <Card className="text-left">
+                            <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-1">{t("planner.upgrades")}</h2>
+                            <p className="text-sm text-[var(--color-dark)]/70 font-medium mb-3">{t("planner.upgradesHint")}</p>
+                            <ol className="flex flex-col gap-1 font-medium text-[var(--color-dark)]">
+                                {gains.map(({ upgrade, gain }) => (
+                                    <li key={Object.keys(upgrade)[0]} className="flex justify-between gap-4">
+                                        <span>{describeStats(upgrade)}</span>
+                                        <span className="font-heading font-bold text-[var(--color-secondary-dark)]">
+                                            +{gain.toLocaleString(locale, { style: "percent", maximumFractionDigits: 1 })}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </Card>
+
+                        <Card className="text-left">
+                            <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("planner.stats")}</h2>
+                            <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-[var(--color-dark)]">
+                                {(Object.entries(stats) as [Attribute, number][]).map(([attribute, value]) => (
+                                    <div key={attribute} className="contents">
+                                        <dt className="font-medium">{ATTRIBUTES[attribute].label}</dt>
+                                        <dd className="font-heading font-bold text-right">{formatTotal(attribute, value, locale)}</dd>
+                                    </div>
+                                ))}
+                            </dl>
+                        </Card>
+                    </div>
+                </div>
+
+                <p className="mt-10 text-sm font-medium text-[var(--color-wood)] text-center">{t("planner.footnote")}</p>
+            </main>
+        </div>
+    );
+}
+
+function AttackRow({ label, attack }: { label: string, attack: AttackOutput }) {
+    const { t, locale } = useI18n();
+    const number = (value: number, digits = 0) => value.toLocaleString(locale, { maximumFractionDigits: digits });
+
+    return (
+        <div className="border-t-2 border-[var(--color-border)] py-2">
+            <div className="flex justify-between gap-4 font-heading font-bold text-[var(--color-dark)]">
+                <span>{label}</span>
+                <span>{t("planner.perSecond", { value: number(attack.dps, 1) })}</span>
+            </div>
+            <p className="text-sm font-medium text-[var(--color-wood)]">
+                {t("planner.hit", { normal: number(attack.hit.normal), critical: number(attack.hit.critical), rate: number(attack.rate, 2) })}
+            </p>
+        </div>
+    );
+}
+
+/** `+10 ATK`, `+5% Basic ATK Crit%`: one upgrade option in the game's notation. */
+function describeStats(stats: StatBlock) {
+    return (Object.entries(stats) as [Attribute, number][])
+        .map(([attribute, value]) => `${formatStat(attribute, value)} ${ATTRIBUTES[attribute].label}`)
+        .join(", ");
+}
+
+/** Totals, unlike `formatStat`'s bonuses, have no sign; speeds stay bonuses on top of the base. */
+function formatTotal(attribute: Attribute, value: number, locale: string) {
+    const { unit } = ATTRIBUTES[attribute];
+    if (unit === "ratio") return formatStat(attribute, value);
+    const amount = value.toLocaleString(locale, { maximumFractionDigits: unit === "flat" ? 0 : 1 });
+    return unit === "percent" ? `${amount}%` : amount;
+}
@@ -0,0 +1,98 @@
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { PullSimulator } from "../components/PullSimulator";
+import { RarityBadge } from "../components/RarityBadge";
+import { Card } from "../components/ui/card";
+import { BANNERS, type GachaBanner } from "../data/banners";
+import { getPal } from "../data/pals";
+import { useI18n } from "../i18n/I18nProvider";
+import { consolidatedRates, expectedPullsToFeatured, expectedPullsToPity } from "../lib/gacha";
+import { usePageMeta } from "../lib/head";
+
+export function Rates() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.rates.title"), description: t("meta.rates.description") });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-5xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("rates.title.before")}<span className="text-[var(--color-accent)]">{t("rates.title.highlight")}</span>{t("rates.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("rates.subtitle")}</p>
+                </div>
+
+                {/* Banner Odds */}
+                <div className="flex flex-col gap-8 mb-16">
+                    {BANNERS.map(banner => <BannerRates key={banner.id} banner={banner} />)}
+                </div>
+
+                {/* Simulator */}
+                <PullSimulator />
+
+                <p className="mt-10 text-sm font-medium text-[var(--color-wood)] text-center">{t("rates.footnote")}</p>
+            </main>
+        </div>
+    );
+}
+
+function BannerRates({ banner }: { banner: GachaBanner }) {
+    const { t, locale } = useI18n();
+    const percent = (value: number) => value.toLocaleString(locale, { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 3 });
+    const date = (iso: string) => new Date(iso).toLocaleDateString(locale, { dateStyle: "medium", timeZone: "UTC" });
+    const pulls = (value: number) => value.toLocaleString(locale, { maximumFractionDigits: 1 });
+
+    const consolidated = consolidatedRates(banner);
+    const featured = banner.featuredItems.map(id => getPal(id)?.name ?? id);
+    const pityRarity = t(`rarities.${banner.pityRarity}`);
+
+    return (
+        <Card id={banner.id} className="text-left scroll-mt-28 flex flex-col gap-5">
+            <div className="flex flex-wrap items-baseline justify-between gap-x-6 gap-y-2">
+                <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)]">{banner.name}</h2>
+                <p className="font-heading font-bold text-[var(--color-wood)]">
+                    {t(`rates.types.${banner.type}`)}
+                    {" · "}
+                    {banner.endTime ? t("rates.window", { from: date(banner.startTime), until: date(banner.endTime) }) : t("rates.permanent")}
+                </p>
+            </div>
+
+            <ul className="flex flex-col gap-1 font-medium text-[var(--color-dark)]/80">
+                <li>{t("rates.cost", { single: banner.singlePullCost.toLocaleString(locale), ten: banner.tenPullCost.toLocaleString(locale) })}</li>
+                <li>{t("rates.pity", { rarity: pityRarity, soft: banner.softPityStart + 1, hard: banner.pityThreshold })}</li>
+                <li>{t("rates.averagePity", { rarity: pityRarity, pulls: pulls(expectedPullsToPity(banner)) })}</li>
+                {featured.length > 0 && (
+                    <>
+                        <li>{t("rates.featured", { items: featured.join(", "), share: percent(banner.featuredRate), rarity: pityRarity })}</li>
+                        <li>{t("rates.averageFeatured", { pulls: pulls(expectedPullsToFeatured(banner)) })}</li>
+                    </>
+                )}
+            </ul>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-[var(--color-dark)]">
+                    <caption className="sr-only">{t("rates.tableCaption", { banner: banner.name })}</caption>
+                    <thead>
+                        <tr className="text-sm text-[var(--color-wood)] font-heading">
+                            <th scope="col" className="text-left font-bold pb-2">{t("rates.rarity")}</th>
+                            <th scope="col" className="text-right font-bold pb-2">{t("rates.baseRate")}</th>
+                            <th scope="col" className="text-right font-bold pb-2">{t("rates.softPityAdd")}</th>
+                            <th scope="col" className="text-right font-bold pb-2">{t("rates.consolidated")}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="font-medium">
+                        {banner.rateTable.map((row, i) => (
+                            <tr key={row.rarity} className="border-t-2 border-[var(--color-border)]">
+                                <th scope="row" className="py-2 text-left font-medium"><RarityBadge rarity={row.rarity} /></th>
+                                <td className="py-2 text-right">{percent(row.baseRate)}</td>
+                                <td className="py-2 text-right">{row.softPityAdd > 0 ? `+${percent(row.softPityAdd)}` : "—"}</td>
+                                <td className="py-2 text-right font-heading font-bold text-[var(--color-secondary-dark)]">{percent(consolidated[i]!.rate)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+}
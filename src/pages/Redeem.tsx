@@ -0,0 +1,27 @@
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { RedeemForm } from "../components/RedeemForm";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+export function Redeem() {
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.redeem.title"), description: t("meta.redeem.description") });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-3xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("redeem.title.before")}<span className="text-[var(--color-accent)]">{t("redeem.title.highlight")}</span>{t("redeem.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("redeem.subtitle")}</p>
+                </div>
+
+                <RedeemForm />
+
+                <p className="mt-8 text-center text-[var(--color-dark)]/60 font-medium">{t("redeem.mailbox")}</p>
+            </main>
+        </div>
+    );
+}
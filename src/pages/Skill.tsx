@@ -0,0 +1,115 @@
+import { ArrowLeft } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { ItemFrame } from "../components/ItemFrame";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { PinSkillButton } from "../components/PinSkillButton";
+import { RarityBadge } from "../components/RarityBadge";
+import { SkillEffectList } from "../components/SkillEffectList";
+import { SkillLevelTable } from "../components/SkillLevelTable";
+import { Card } from "../components/ui/card";
+import { formatScaling, getSkill, type Skill as SkillData } from "../data/skills";
+import { useComparedSkills } from "../hooks/useComparedSkills";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+export function Skill() {
+    const { skillId = "" } = useParams();
+    const { t, path } = useI18n();
+    const { search } = useComparedSkills();
+    const skill = getSkill(skillId);
+    usePageMeta(skill
+        ? { title: `${skill.name} | ${t("meta.skills.title")}`, description: skill.description }
+        : { title: t("meta.skills.title"), description: t("meta.skills.description") });
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="outline-none">
+                <article className="pt-32 pb-20 px-6 max-w-4xl mx-auto">
+                    <Link to={`${path("/skills")}${search}`} className="inline-flex items-center gap-2 mb-8 font-heading font-bold text-[var(--color-wood)] hover:text-[var(--color-primary)]">
+                        <ArrowLeft size={18} />
+                        {t("skills.back")}
+                    </Link>
+
+                    {skill ? (
+                        <SkillDetails skill={skill} />
+                    ) : (
+                        <p role="alert" className="text-xl text-[var(--color-primary)] font-medium">{t("skills.notFound")}</p>
+                    )}
+                </article>
+            </main>
+        </div>
+    );
+}
+
+function SkillDetails({ skill }: { skill: SkillData }) {
+    const { t, path, locale } = useI18n();
+    const { compared, isPinned, canPin, toggle, search } = useComparedSkills();
+    const first = skill.levels[0]!;
+    const last = skill.levels.at(-1)!;
+    const number = (value: number) => value.toLocaleString(locale);
+
+    return (
+        <>
+            <header className="flex flex-col sm:flex-row items-center sm:items-start gap-6 mb-10 text-center sm:text-left">
+                <ItemFrame rarity={skill.rarity} size="lg">{skill.icon}</ItemFrame>
+                <div className="flex-1">
+                    <h1 className="text-5xl md:text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-3 text-outline">{skill.name}</h1>
+                    <p className="flex flex-wrap justify-center sm:justify-start items-center gap-3 mb-3 font-heading font-bold text-[var(--color-wood)]">
+                        <RarityBadge rarity={skill.rarity} />
+                        {t(skill.damageType ? `skills.damageTypes.${skill.damageType}` : "skills.utility")} · {t(`skills.targets.${skill.targetType}`)}
+                    </p>
+                    <p className="text-lg text-[var(--color-dark)]/70 font-medium">{skill.description}</p>
+                </div>
+                <div className="flex flex-col items-center gap-2">
+                    <PinSkillButton skill={skill} pinned={isPinned(skill)} canPin={canPin} onToggle={() => toggle(skill)} />
+                    {compared.length > 1 && (
+                        <Link to={`${path("/skills")}${search}`} className="text-sm font-heading font-bold text-[var(--color-primary)] hover:underline">
+                            {t("skills.viewComparison", { count: compared.length })}
+                        </Link>
+                    )}
+                </div>
+            </header>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Details */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("skills.details")}</h2>
+                    <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-[var(--color-dark)]">
+                        <dt className="font-medium">{t("skills.damage")}</dt>
+                        <dd className="font-heading font-bold text-right">
+                            {first.baseDamage > 0 ? `${number(first.baseDamage)} → ${number(last.baseDamage)}` : "—"}
+                        </dd>
+                        <dt className="font-medium">{t("skills.scaling")}</dt>
+                        <dd className="font-heading font-bold text-right">{formatScaling(first.scaling) || "—"}</dd>
+                        <dt className="font-medium">{t("skills.cooldownHeader")}</dt>
+                        <dd className="font-heading font-bold text-right">
+                            {t("skills.seconds", { seconds: number(first.cooldown) })} → {t("skills.seconds", { seconds: number(last.cooldown) })}
+                        </dd>
+                        <dt className="font-medium">{t("skills.mana")}</dt>
+                        <dd className="font-heading font-bold text-right">{number(first.manaCost)}</dd>
+                        <dt className="font-medium">{t("skills.range")}</dt>
+                        <dd className="font-heading font-bold text-right">{skill.range > 0 ? number(skill.range) : "—"}</dd>
+                        <dt className="font-medium">{t("skills.areaRadius")}</dt>
+                        <dd className="font-heading font-bold text-right">{skill.areaRadius > 0 ? number(skill.areaRadius) : "—"}</dd>
+                        <dt className="font-medium">{t("skills.maxLevel")}</dt>
+                        <dd className="font-heading font-bold text-right">{number(skill.levels.length)}</dd>
+                    </dl>
+                </Card>
+
+                {/* Effects */}
+                <Card>
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("skills.effectsHeader")}</h2>
+                    <SkillEffectList effects={skill.effects} />
+                    <p className="text-sm text-[var(--color-wood)] font-bold mt-4">{t("skills.effectsNote")}</p>
+                </Card>
+
+                {/* Levels */}
+                <Card className="md:col-span-2">
+                    <h2 className="text-xl font-heading font-bold text-[var(--color-dark)] mb-3">{t("skills.perLevel")}</h2>
+                    <SkillLevelTable skill={skill} />
+                </Card>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,113 @@
+import { useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { FilterChip } from "../components/FilterChip";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { SkillCard } from "../components/SkillCard";
+import { SkillComparison } from "../components/SkillComparison";
+import { Input } from "../components/ui/input";
+import {
+    COOLDOWN_BANDS,
+    DAMAGE_TYPES,
+    SKILL_RARITIES,
+    TOTAL_SKILLS,
+    cooldownBand,
+    sortedSkills,
+    type CooldownBand,
+    type DamageType,
+    type Skill,
+    type SkillRarity,
+} from "../data/skills";
+import { useComparedSkills } from "../hooks/useComparedSkills";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+
+/** Every search word has to appear somewhere in the skill's name, description or id. */
+function matches(skill: Skill, words: string[]) {
+    const text = `${skill.name} ${skill.description} ${skill.id.replaceAll("_", " ")}`.toLowerCase();
+    return words.every(word => text.includes(word));
+}
+
+export function Skills() {
+    const [query, setQuery] = useState("");
+    const [rarity, setRarity] = useState<SkillRarity | "all">("all");
+    const [damageType, setDamageType] = useState<DamageType | "all">("all");
+    const [cooldown, setCooldown] = useState<CooldownBand | "all">("all");
+    const { compared, isPinned, canPin, toggle, clear, search } = useComparedSkills();
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.skills.title"), description: t("meta.skills.description") });
+
+    const skills = useMemo(() => {
+        const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+        return sortedSkills().filter(skill =>
+            (rarity === "all" || skill.rarity === rarity)
+            && (damageType === "all" || skill.damageType === damageType)
+            && (cooldown === "all" || cooldownBand(skill) === cooldown)
+            && matches(skill, words));
+    }, [query, rarity, damageType, cooldown]);
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-6xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("skills.title.before")}<span className="text-[var(--color-accent)]">{t("skills.title.highlight")}</span>{t("skills.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("skills.subtitle", { total: TOTAL_SKILLS })}</p>
+                </div>
+
+                {/* Comparison */}
+                {compared.length > 0 && <SkillComparison skills={compared} search={search} onUnpin={toggle} onClear={clear} />}
+
+                {/* Search & Filters */}
+                <div className="relative mb-6">
+                    <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-wood)]" />
+                    <Input
+                        type="search"
+                        aria-label={t("skills.searchLabel")}
+                        placeholder={t("skills.search")}
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        className="h-14 pl-12 rounded-3xl bg-[var(--color-surface)] text-lg"
+                    />
+                </div>
+                <div role="group" aria-label={t("skills.rarityFilter")} className="flex flex-wrap gap-3 mb-4">
+                    <FilterChip label={t("skills.allRarities")} active={rarity === "all"} onClick={() => setRarity("all")} />
+                    {SKILL_RARITIES.map(r => (
+                        <FilterChip key={r} label={t(`rarities.${r}`)} active={rarity === r} onClick={() => setRarity(r)} />
+                    ))}
+                </div>
+                <div role="group" aria-label={t("skills.damageTypeFilter")} className="flex flex-wrap gap-3 mb-4">
+                    <FilterChip label={t("skills.allDamageTypes")} active={damageType === "all"} onClick={() => setDamageType("all")} />
+                    {DAMAGE_TYPES.map(d => (
+                        <FilterChip key={d} label={t(`skills.damageTypes.${d}`)} active={damageType === d} onClick={() => setDamageType(d)} />
+                    ))}
+                </div>
+                <div role="group" aria-label={t("skills.cooldownFilter")} className="flex flex-wrap gap-3 mb-10">
+                    <FilterChip label={t("skills.allCooldowns")} active={cooldown === "all"} onClick={() => setCooldown("all")} />
+                    {(Object.keys(COOLDOWN_BANDS) as CooldownBand[]).map(band => (
+                        <FilterChip key={band} label={t(`skills.cooldownBands.${band}`)} active={cooldown === band} onClick={() => setCooldown(band)} />
+                    ))}
+                </div>
+
+                {/* Skill Grid */}
+                {skills.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                        {skills.map(skill => (
+                            <SkillCard
+                                key={skill.id}
+                                skill={skill}
+                                search={search}
+                                pinned={isPinned(skill)}
+                                canPin={canPin}
+                                onTogglePin={() => toggle(skill)}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-center text-xl text-[var(--color-dark)]/70 font-medium py-12">{t("skills.empty")}</p>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { FilterChip } from "../components/FilterChip";
+import { MAIN_CONTENT_ID, Navbar } from "../components/Navbar";
+import { SupportTicketForm } from "../components/SupportTicketForm";
+import { TicketStatusLookup } from "../components/TicketStatusLookup";
+import { Input } from "../components/ui/input";
+import { FAQ } from "../data/faq";
+import { useI18n } from "../i18n/I18nProvider";
+import { usePageMeta } from "../lib/head";
+import { SUPPORT_CATEGORIES, type SupportCategory } from "../lib/support";
+
+export function Support() {
+    const [query, setQuery] = useState("");
+    const [category, setCategory] = useState<SupportCategory | "all">("all");
+    const { t } = useI18n();
+    usePageMeta({ title: t("meta.support.title"), description: t("meta.support.description") });
+
+    const entries = useMemo(() => {
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+        return FAQ.filter(entry => {
+            if (category !== "all" && entry.category !== category) return false;
+            const haystack = `${entry.question} ${entry.answer}`.toLowerCase();
+            return terms.every(term => haystack.includes(term));
+        });
+    }, [query, category]);
+
+    return (
+        <div className="min-h-screen w-full relative bg-[var(--color-paper)]">
+            <Navbar />
+            <main id={MAIN_CONTENT_ID} tabIndex={-1} className="pt-32 pb-20 px-6 max-w-5xl mx-auto outline-none">
+                <div className="text-center mb-12">
+                    <h1 className="text-6xl font-heading font-extrabold text-[var(--color-dark)] mb-6 text-outline">
+                        {t("support.title.before")}<span className="text-[var(--color-accent)]">{t("support.title.highlight")}</span>{t("support.title.after")}
+                    </h1>
+                    <p className="text-xl text-[var(--color-dark)]/70 font-medium">{t("support.subtitle")}</p>
+                </div>
+
+                {/* Search & Category Filter */}
+                <div className="relative mb-6">
+                    <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-wood)]" />
+                    <Input
+                        type="search"
+                        aria-label={t("support.searchLabel")}
+                        placeholder={t("support.search")}
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        className="h-14 pl-12 rounded-3xl bg-[var(--color-surface)] text-lg"
+                    />
+                </div>
+                <div className="flex flex-wrap gap-3 mb-8">
+                    <FilterChip label={t("support.all")} active={category === "all"} onClick={() => setCategory("all")} />
+                    {SUPPORT_CATEGORIES.map(c => (
+                        <FilterChip key={c} label={t(`support.categories.${c}`)} active={category === c} onClick={() => setCategory(c)} />
+                    ))}
+                </div>
+
+                {/* FAQ Entries */}
+                <div className="flex flex-col gap-4 mb-20">
+                    {entries.map(entry => (
+                        <details key={entry.id} className="group bg-[var(--color-surface)] rounded-3xl border-4 border-[var(--color-border)] shadow-lg shadow-amber-900/10 px-6 py-4">
+                            <summary className="cursor-pointer list-none flex items-center justify-between gap-4 font-heading font-bold text-lg text-[var(--color-dark)]">
+                                {entry.question}
+                                <span className="text-[var(--color-accent)] text-2xl transition-transform group-open:rotate-45">+</span>
+                            </summary>
+                            <p className="mt-3 text-[var(--color-dark)]/70 font-medium leading-relaxed">{entry.answer}</p>
+                        </details>
+                    ))}
+                    {entries.length === 0 && (
+                        <p className="text-center text-[var(--color-dark)]/60 font-medium py-8">
+                            {t("support.noResults")}
+                        </p>
+                    )}
+                </div>
+
+                {/* Contact & Ticket Status */}
+                <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-8">
+                    <div>
+                        <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">{t("support.contactTitle")}</h2>
+                        <SupportTicketForm />
+                    </div>
+                    <div>
+                        <h2 className="text-3xl font-heading font-bold text-[var(--color-dark)] mb-6">{t("support.statusTitle")}</h2>
+                        <TicketStatusLookup />
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+/**
+ * Server-side entry used by build.ts to prerender each route to static HTML.
+ * build.ts bundles this file for Bun (so CSS and asset imports resolve the
+ * same way as in the browser build) and calls `render` once per URL.
+ */
+
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import { StaticRouter } from "react-router-dom";
+import { AppRoutes } from "./App";
+import { HeadProvider, renderHeadTags, type HeadTag } from "./lib/head";
+import { seedPreloaded, takeUsedPreloaded } from "./lib/preload";
+
+export { LOCALES, localizePath } from "./i18n/locales";
+export { ROUTES } from "./routes";
+
+/**
+ * Renders `url` and returns its markup, its `<head>` tags (with absolute URLs
+ * on `origin`) and the preloaded data it read.
+ */
+export function render(url: string, origin: string, data: Record<string, unknown>) {
+  seedPreloaded(data);
+  takeUsedPreloaded();
+
+  let tags: HeadTag[] = [];
+
+  const html = renderToString(
+    <StrictMode>
+      <HeadProvider origin={origin} collect={collected => (tags = collected)}>
+        <StaticRouter location={url}>
+          <AppRoutes />
+        </StaticRouter>
+      </HeadProvider>
+    </StrictMode>,
+  );
+
+  return { html, head: renderHeadTags(tags), data: takeUsedPreloaded() };
+}
@@ -0,0 +1,51 @@
+import type { ReactElement } from "react";
+import { Admin } from "./pages/Admin";
+import { Classes } from "./pages/Classes";
+import { Community } from "./pages/Community";
+import { Companion } from "./pages/Companion";
+import { Companions } from "./pages/Companions";
+import { Events } from "./pages/Events";
+import { Home } from "./pages/Home";
+import { Leaderboard } from "./pages/Leaderboard";
+import { Media } from "./pages/Media";
+import { News } from "./pages/News";
+import { NewsPost } from "./pages/NewsPost";
+import { Planner } from "./pages/Planner";
+import { Rates } from "./pages/Rates";
+import { Redeem } from "./pages/Redeem";
+import { Skill } from "./pages/Skill";
+import { Skills } from "./pages/Skills";
+import { Support } from "./pages/Support";
+
+export interface AppRoute {
+  /** Unlocalized path; each locale gets its own prefixed copy (see `localizePath`). */
+  path: string;
+  element: ReactElement;
+  /** Staff-only pages: left out of sitemap.xml (the page itself sets `noindex`). */
+  unlisted?: boolean;
+}
+
+/**
+ * Every page on the site. build.ts prerenders each entry for every locale, so
+ * a route with `:params` also needs a param list in build.ts's `STATIC_PARAMS`.
+ */
+export const ROUTES: AppRoute[] = [
+  { path: "/", element: <Home /> },
+  { path: "/media", element: <Media /> },
+  { path: "/community", element: <Community /> },
+  { path: "/news", element: <News /> },
+  { path: "/news/:slug", element: <NewsPost /> },
+  { path: "/events", element: <Events /> },
+  { path: "/support", element: <Support /> },
+  { path: "/classes", element: <Classes /> },
+  { path: "/classes/:classId", element: <Classes /> },
+  { path: "/companions", element: <Companions /> },
+  { path: "/companions/:palId", element: <Companion /> },
+  { path: "/skills", element: <Skills /> },
+  { path: "/skills/:skillId", element: <Skill /> },
+  { path: "/planner", element: <Planner /> },
+  { path: "/leaderboard", element: <Leaderboard /> },
+  { path: "/rates", element: <Rates /> },
+  { path: "/redeem", element: <Redeem /> },
+  { path: "/admin", element: <Admin />, unlisted: true },
+];
@@ -0,0 +1,449 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_PAGE_SIZE,
+  type AdminSession,
+  type AuditAction,
+  type AuditChange,
+  type AuditEntry,
+} from "../lib/admin";
+import { homeContentSchema, type HomeContent } from "../lib/home";
+import { array, boolean, enumOf, integer, object, optional, string } from "../lib/schema";
+import { apiError, endpoint, HttpError } from "./api";
+import { db } from "./db";
+import { loadHomeContent, writeHomeContent } from "./home";
+import { log } from "./log";
+
+/**
+ * Staff accounts, sessions, the audit log and the content-editing endpoints
+ * behind `/admin`. Accounts live in SQLite with argon2 password hashes
+ * (`bun run admin:user add <name>`).
+ * Signing in sets an HttpOnly, SameSite=Strict cookie holding a session id,
+ * the username and expiry, signed with `ADMIN_SESSION_SECRET`; `requireAdmin`
+ * checks it in src/index.ts before any `/api/v1/admin/*` handler runs.
+ * Signing out puts the session id on a denylist until it would have expired,
+ * so a copied cookie stops working too.
+ */
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS admin_users (
+    username      TEXT PRIMARY KEY,
+    password_hash TEXT NOT NULL,
+    created_at    TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS admin_revoked_sessions (
+    id         TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS admin_audit (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    username   TEXT NOT NULL,
+    action     TEXT NOT NULL,
+    target     TEXT NOT NULL,
+    changes    TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+`);
+
+interface UserRow {
+  username: string;
+  password_hash: string;
+  created_at: string;
+}
+
+interface AuditRow {
+  id: number;
+  username: string;
+  action: AuditAction;
+  target: string;
+  changes: string;
+  created_at: string;
+}
+
+const findUserStmt = db.query<UserRow, [string]>("SELECT * FROM admin_users WHERE username = ?");
+const upsertUserStmt = db.query(
+  "INSERT INTO admin_users (username, password_hash, created_at) VALUES (?, ?, ?) ON CONFLICT(username) DO UPDATE SET password_hash = excluded.password_hash",
+);
+const deleteUserStmt = db.query<{ username: string }, [string]>("DELETE FROM admin_users WHERE username = ? RETURNING username");
+const listUsersStmt = db.query<UserRow, []>("SELECT * FROM admin_users ORDER BY username");
+const revokeSessionStmt = db.query<unknown, [string, number]>("INSERT OR IGNORE INTO admin_revoked_sessions (id, expires_at) VALUES (?, ?)");
+const pruneRevokedStmt = db.query<unknown, [number]>("DELETE FROM admin_revoked_sessions WHERE expires_at < ?");
+const isRevokedStmt = db.query<{ id: string }, [string]>("SELECT id FROM admin_revoked_sessions WHERE id = ?");
+const insertAuditStmt = db.query("INSERT INTO admin_audit (username, action, target, changes, created_at) VALUES (?, ?, ?, ?, ?)");
+const auditPageStmt = db.query<AuditRow, [number, number]>("SELECT * FROM admin_audit ORDER BY id DESC LIMIT ? OFFSET ?");
+const auditCountStmt = db.query<{ total: number }, []>("SELECT COUNT(*) AS total FROM admin_audit");
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{2,40}$/;
+const MIN_PASSWORD_LENGTH = 12;
+
+const SESSION_COOKIE = "mm_admin";
+const SESSION_PATH = "/api/v1/admin";
+const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+/** Routes under `SESSION_PATH` that run without a session. */
+const PUBLIC_ADMIN_ROUTES = new Set([`${SESSION_PATH}/login`]);
+
+let secret: string | undefined;
+
+// Without a configured secret every restart signs everyone out, which is fine locally.
+function sessionSecret() {
+  if (!secret) {
+    secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret) {
+      log.warn("ADMIN_SESSION_SECRET is not set; admin sessions won't survive a restart");
+      secret = randomBytes(32).toString("hex");
+    }
+  }
+  return secret;
+}
+
+const sign = (payload: string) => createHmac("sha256", sessionSecret()).update(payload).digest("base64url");
+
+function sessionCookie(value: string, maxAge: number) {
+  return new Bun.Cookie(SESSION_COOKIE, value, {
+    path: SESSION_PATH,
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    maxAge,
+  }).serialize();
+}
+
+function issueSession(username: string) {
+  const expires = Date.now() + SESSION_TTL_SECONDS * 1000;
+  const payload = Buffer.from(JSON.stringify({ sid: randomBytes(16).toString("base64url"), u: username, exp: expires })).toString("base64url");
+  const session: AdminSession = { username, expiresAt: new Date(expires).toISOString() };
+  return { session, cookie: sessionCookie(`${payload}.${sign(payload)}`, SESSION_TTL_SECONDS) };
+}
+
+interface SessionToken {
+  sid: string;
+  username: string;
+  expires: number;
+}
+
+/** The session in the request's cookie, if it is signed by us, unexpired, not signed out, and its account still exists. */
+function readToken(req: Request): SessionToken | null {
+  const value = new Bun.CookieMap(req.headers.get("cookie") ?? "").get(SESSION_COOKIE);
+  const [payload, signature] = value?.split(".") ?? [];
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) return null;
+
+  try {
+    const { sid, u, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof sid !== "string" || typeof u !== "string" || typeof exp !== "number") return null;
+    if (exp < Date.now() || isRevokedStmt.get(sid) || !findUserStmt.get(u)) return null;
+    return { sid, username: u, expires: exp };
+  } catch {
+    return null;
+  }
+}
+
+function readSession(req: Request): AdminSession | null {
+  const token = readToken(req);
+  return token && { username: token.username, expiresAt: new Date(token.expires).toISOString() };
+}
+
+/** Refuses the request's session from now on. Entries are dropped once the session would have expired anyway. */
+function revokeSession(req: Request) {
+  const token = readToken(req);
+  if (!token) return;
+  pruneRevokedStmt.run(Date.now());
+  revokeSessionStmt.run(token.sid, token.expires);
+}
+
+// Browsers always send Origin on cross-site writes; requests without one come from scripts, not pages.
+function isSameOrigin(req: Request) {
+  if (req.method === "GET" || req.method === "HEAD") return true;
+  const origin = req.headers.get("origin");
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.get("host");
+  } catch {
+    return false;
+  }
+}
+
+const sessions = new WeakMap<Request, AdminSession>();
+
+type RouteHandler = (req: Request, server: Bun.Server<unknown>) => Response | Promise<Response>;
+
+/**
+ * Middleware for the `/api/v1/admin/*` entries of `routes`: cross-site writes
+ * are refused, and everything but login answers 401 without a valid session.
+ * Other routes pass through untouched.
+ */
+export function requireAdmin<R extends Record<string, RouteHandler>>(routes: R): R {
+  const wrapped = Object.entries(routes).map(([route, handler]) => {
+    if (!route.startsWith(`${SESSION_PATH}/`)) return [route, handler];
+    return [route, (req: Request, server: Bun.Server<unknown>) => {
+      if (!isSameOrigin(req)) return apiError(req, new HttpError("forbidden", "Cross-site requests are not allowed."));
+      if (!PUBLIC_ADMIN_ROUTES.has(route)) {
+        const session = readSession(req);
+        if (!session) return apiError(req, new HttpError("unauthorized", "Sign in to continue."));
+        sessions.set(req, session);
+      }
+      return handler(req, server);
+    }];
+  });
+  return Object.fromEntries(wrapped);
+}
+
+/** The signed-in admin for a request that went through `requireAdmin`. */
+export function adminSession(req: Request): AdminSession {
+  const session = sessions.get(req);
+  if (!session) throw new HttpError("unauthorized", "Sign in to continue.");
+  return session;
+}
+
+export function recordAudit(username: string, action: AuditAction, target = "", changes: AuditChange[] = []) {
+  insertAuditStmt.run(username, action, target, JSON.stringify(changes), new Date().toISOString());
+}
+
+// Five wrong passwords lock the account for a while, per username and per process.
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_TRACKED_LOGINS = 10_000;
+const failedLogins = new Map<string, { count: number, since: number }>();
+
+function isLockedOut(username: string) {
+  const entry = failedLogins.get(username);
+  if (entry && Date.now() - entry.since > LOCKOUT_MS) failedLogins.delete(username);
+  return (failedLogins.get(username)?.count ?? 0) >= MAX_FAILED_LOGINS;
+}
+
+function recordFailedLogin(username: string) {
+  const entry = failedLogins.get(username) ?? { count: 0, since: Date.now() };
+  failedLogins.delete(username);
+  failedLogins.set(username, { ...entry, count: entry.count + 1 });
+  if (failedLogins.size > MAX_TRACKED_LOGINS) failedLogins.delete(failedLogins.keys().next().value!);
+}
+
+// Unknown usernames are checked against a throwaway hash so they take as long as wrong passwords.
+let decoyHash: string | undefined;
+const decoy = () => (decoyHash ??= Bun.password.hashSync(randomBytes(16).toString("hex")));
+
+const sessionSchema = object({
+  username: string(),
+  expiresAt: string({ format: "date-time", description: "Sign in again after this." }),
+});
+
+const NO_STORE = "no-store";
+
+// POST /api/v1/admin/login
+export const adminLogin = endpoint({
+  id: "adminLogin",
+  method: "POST",
+  path: "/admin/login",
+  tag: "Admin",
+  summary: "Sign in to the staff console",
+  description: `Sets the \`${SESSION_COOKIE}\` session cookie. After ${MAX_FAILED_LOGINS} wrong passwords the account is locked for ${LOCKOUT_MS / 60_000} minutes.`,
+  body: object({
+    username: string({ trim: true, lowercase: true, minLength: 1, maxLength: 40 }),
+    password: string({ minLength: 1, maxLength: 200 }),
+  }),
+  response: { description: "Signed in.", schema: sessionSchema },
+  errors: ["unauthorized", "too_many_requests", "forbidden"],
+  async handler({ body: { username, password }, log }) {
+    if (isLockedOut(username)) {
+      throw new HttpError("too_many_requests", "Too many failed sign-ins. Try again in a few minutes.");
+    }
+
+    const user = findUserStmt.get(username);
+    const valid = await Bun.password.verify(password, user?.password_hash ?? decoy());
+    if (!user || !valid) {
+      recordFailedLogin(username);
+      log.warn("Admin sign-in failed", { username });
+      throw new HttpError("unauthorized", "Wrong username or password.");
+    }
+
+    failedLogins.delete(username);
+    recordAudit(username, "login");
+    const { session, cookie } = issueSession(username);
+    return Response.json(session, { headers: { "Set-Cookie": cookie, "Cache-Control": NO_STORE } });
+  },
+});
+
+// POST /api/v1/admin/logout
+export const adminLogout = endpoint({
+  id: "adminLogout",
+  method: "POST",
+  path: "/admin/logout",
+  tag: "Admin",
+  summary: "Sign out of the staff console",
+  sessionAuth: true,
+  response: { description: "Signed out; the session is revoked and its cookie cleared.", schema: object({ ok: boolean() }) },
+  errors: ["forbidden"],
+  handler({ req }) {
+    recordAudit(adminSession(req).username, "logout");
+    revokeSession(req);
+    return Response.json({ ok: true }, { headers: { "Set-Cookie": sessionCookie("", 0) } });
+  },
+});
+
+// GET /api/v1/admin/session
+export const getAdminSession = endpoint({
+  id: "getAdminSession",
+  method: "GET",
+  path: "/admin/session",
+  tag: "Admin",
+  summary: "Who is signed in",
+  sessionAuth: true,
+  response: { description: "The current session.", schema: sessionSchema, cacheControl: NO_STORE },
+  handler: ({ req }) => adminSession(req),
+});
+
+// GET /api/v1/admin/audit?page=
+export const getAuditLog = endpoint({
+  id: "getAuditLog",
+  method: "GET",
+  path: "/admin/audit",
+  tag: "Admin",
+  summary: "Who changed what, newest first",
+  sessionAuth: true,
+  query: object({ page: optional(integer({ min: 1, max: 100_000, description: "1-based; defaults to 1." })) }),
+  response: {
+    description: `One page of up to ${AUDIT_PAGE_SIZE} entries.`,
+    schema: object({
+      entries: array(object({
+        id: integer(),
+        username: string(),
+        action: enumOf(AUDIT_ACTIONS),
+        target: string({ description: "What was touched, e.g. `content/home.json`; empty for sign-ins." }),
+        changes: array(object({
+          field: string({ description: "Dotted path into the edited document." }),
+          before: optional(string()),
+          after: optional(string()),
+        })),
+        createdAt: string({ format: "date-time" }),
+      })),
+      page: integer(),
+      pageSize: integer(),
+      total: integer(),
+    }),
+    cacheControl: NO_STORE,
+  },
+  handler({ query: { page = 1 } }) {
+    const entries: AuditEntry[] = auditPageStmt.all(AUDIT_PAGE_SIZE, (page - 1) * AUDIT_PAGE_SIZE).map(row => ({
+      id: row.id,
+      username: row.username,
+      action: row.action,
+      target: row.target,
+      changes: JSON.parse(row.changes),
+      createdAt: row.created_at,
+    }));
+    return { entries, page, pageSize: AUDIT_PAGE_SIZE, total: auditCountStmt.get()?.total ?? 0 };
+  },
+});
+
+// Home-page content editing
+
+const HOME_CONTENT_TARGET = "content/home.json";
+
+// Saves run one at a time so a revision check and its write can't interleave with another save.
+let saving: Promise<unknown> = Promise.resolve();
+function oneAtATime<T>(task: () => Promise<T>): Promise<T> {
+  const run = saving.then(task, task);
+  saving = run.catch(() => undefined);
+  return run;
+}
+
+function flatten(value: unknown, prefix = "", into: Record<string, string> = {}) {
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, into);
+  } else if (value !== undefined) {
+    into[prefix] = String(value);
+  }
+  return into;
+}
+
+/** Every leaf field that differs, e.g. `{ field: "features.1.title.es", before: "…", after: "…" }`. */
+function diff(before: HomeContent, after: HomeContent): AuditChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(field => a[field] !== b[field])
+    .map(field => ({ field, before: a[field], after: b[field] }));
+}
+
+const editableSchema = object({
+  content: homeContentSchema,
+  revision: string({ pattern: /^[0-9a-f]{40}$/, description: "From the last read; saves based on an older revision are refused." }),
+});
+
+// GET /api/v1/admin/content/home
+export const getEditableHomeContent = endpoint({
+  id: "getEditableHomeContent",
+  method: "GET",
+  path: "/admin/content/home",
+  tag: "Admin",
+  summary: "Home-page copy and feature cards, for editing",
+  sessionAuth: true,
+  response: { description: "The content and its current revision.", schema: editableSchema, cacheControl: "no-store" },
+  handler: () => loadHomeContent(),
+});
+
+// PUT /api/v1/admin/content/home
+export const updateHomeContent = endpoint({
+  id: "updateHomeContent",
+  method: "PUT",
+  path: "/admin/content/home",
+  tag: "Admin",
+  summary: "Replace the home-page copy and feature cards",
+  description: "Each changed field is written to the audit log with its old and new value.",
+  sessionAuth: true,
+  body: editableSchema,
+  response: { description: "Saved; returns the new revision.", schema: editableSchema },
+  errors: ["conflict", "forbidden"],
+  handler({ req, body: { content, revision }, log }) {
+    const { username } = adminSession(req);
+    return oneAtATime(async () => {
+      const current = await loadHomeContent();
+      if (revision !== current.revision) {
+        throw new HttpError("conflict", "Someone else saved changes since you opened the editor. Reload to see them.");
+      }
+
+      const changes = diff(current.content, content);
+      if (changes.length === 0) return current;
+
+      await writeHomeContent(content);
+      recordAudit(username, "content.update", HOME_CONTENT_TARGET, changes);
+      log.info("Home content updated", { username, fields: changes.length });
+      return loadHomeContent();
+    });
+  },
+});
+
+async function readPassword(username: string) {
+  if (!process.stdin.isTTY) return (await Bun.stdin.text()).trim();
+  return prompt(`Password for ${username}:`) ?? "";
+}
+
+// bun run admin:user add|remove <username>, or bun run admin:user list
+if (import.meta.main) {
+  const [command, name = ""] = process.argv.slice(2);
+  const username = name.trim().toLowerCase();
+
+  if (command === "add" && USERNAME_PATTERN.test(username)) {
+    const password = await readPassword(username);
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      console.error(`❌ Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+      process.exit(1);
+    }
+    upsertUserStmt.run(username, await Bun.password.hash(password), new Date().toISOString());
+    console.log(`✓ ${username} can now sign in at /admin`);
+  } else if (command === "remove" && username) {
+    const removed = deleteUserStmt.get(username);
+    console.log(removed ? `✓ Removed ${username}; their sessions stop working immediately` : `No admin named ${username}`);
+  } else if (command === "list") {
+    for (const user of listUsersStmt.all()) console.log(`${user.username}\t(since ${user.created_at.slice(0, 10)})`);
+  } else {
+    console.error("Usage: bun run admin:user add <username>   (reads the password from the prompt or stdin)");
+    console.error("       bun run admin:user remove <username>");
+    console.error("       bun run admin:user list");
+    process.exit(1);
+  }
+}
@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { recordEvent } from "./analytics";
+import { apiRoutes } from "./api";
+import { db } from "./db";
+
+const routes = apiRoutes("/api/v1", [recordEvent], { version: "test" });
+const server = { requestIP: () => null } as unknown as Bun.Server<unknown>;
+
+function send(event: Record<string, string>) {
+  const req = new Request("http://localhost/api/v1/events", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(event),
+  });
+  return routes["/api/v1/events"]!(req, server);
+}
+
+const counted = () => db.query<{ event: string, route: string, label: string }, []>("SELECT event, route, label FROM analytics_daily ORDER BY rowid").all();
+
+test("counts known routes and stores, and rejects anything else uncounted", async () => {
+  expect((await send({ name: "pageview", route: "/companions/:palId" })).status).toBe(202);
+  expect((await send({ name: "store_click", route: "/", label: "ios" })).status).toBe(202);
+
+  const unknownRoute = await send({ name: "pageview", route: "/made-up" });
+  expect(unknownRoute.status).toBe(400);
+  expect((await unknownRoute.json()).error.fields).toHaveProperty("route");
+  expect((await send({ name: "pageview", route: "/admin" })).status).toBe(400);
+  expect((await send({ name: "store_click", route: "/", label: "steam" })).status).toBe(400);
+
+  expect(counted()).toEqual([
+    { event: "pageview", route: "/companions/:palId", label: "" },
+    { event: "store_click", route: "/", label: "ios" },
+  ]);
+});
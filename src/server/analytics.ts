@@ -0,0 +1,146 @@
+import { ANALYTICS_EVENTS, NOT_FOUND_ROUTE, type AnalyticsStats, type RouteStats } from "../lib/analytics";
+import { isPlatform, PLATFORMS } from "../lib/preregister";
+import { array, boolean, enumOf, integer, number, object, optional, string } from "../lib/schema";
+import { ROUTES } from "../routes";
+import { adminSession } from "./admin";
+import { endpoint, HttpError } from "./api";
+import { db } from "./db";
+
+/**
+ * Aggregated, cookieless analytics (see src/lib/analytics.ts). Each event
+ * only increments a counter keyed by UTC day, event name, route pattern and
+ * label, so there is nothing per visitor to store, leak or delete.
+ */
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS analytics_daily (
+    day   TEXT NOT NULL,
+    event TEXT NOT NULL,
+    route TEXT NOT NULL,
+    label TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (day, event, route, label)
+  )
+`);
+
+const bumpStmt = db.query<never, [string, string, string, string]>(
+  "INSERT INTO analytics_daily (day, event, route, label, count) VALUES (?, ?, ?, ?, 1) ON CONFLICT DO UPDATE SET count = count + 1",
+);
+const dailyPageviewsStmt = db.query<{ day: string, route: string, count: number }, [string]>(
+  "SELECT day, route, SUM(count) AS count FROM analytics_daily WHERE event = 'pageview' AND day >= ? GROUP BY day, route",
+);
+const referrersStmt = db.query<{ host: string, pageviews: number }, [string]>(`
+  SELECT label AS host, SUM(count) AS pageviews FROM analytics_daily
+  WHERE event = 'pageview' AND label != '' AND day >= ?
+  GROUP BY label ORDER BY pageviews DESC, host LIMIT 20
+`);
+const storeClicksStmt = db.query<{ store: string, clicks: number }, [string]>(`
+  SELECT label AS store, SUM(count) AS clicks FROM analytics_daily
+  WHERE event = 'store_click' AND day >= ?
+  GROUP BY label ORDER BY clicks DESC
+`);
+
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|preview|headless|lighthouse/i;
+
+// The client already stays quiet under Do-Not-Track; this covers other callers.
+function shouldCount(req: Request) {
+  return req.headers.get("dnt") !== "1"
+    && req.headers.get("sec-gpc") !== "1"
+    && !BOT_USER_AGENT.test(req.headers.get("user-agent") ?? "");
+}
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Only routes the client reports count, so callers can't invent rows for the admin stats.
+const TRACKED_ROUTES = [...ROUTES.filter(route => !route.unlisted).map(route => route.path), NOT_FOUND_ROUTE];
+
+/**
+ * `route` is the unlocalized route pattern (e.g. `/companions/:palId`), never
+ * the visited URL. `label` is the referring site for pageviews and the store
+ * for store clicks.
+ */
+const eventSchema = object({
+  name: enumOf(ANALYTICS_EVENTS),
+  route: enumOf(TRACKED_ROUTES, { example: "/companions/:palId" }),
+  label: optional(string({ trim: true, lowercase: true, maxLength: 100, pattern: /^[a-z0-9.-]+$/, example: "ios" })),
+});
+
+// POST /api/v1/events
+export const recordEvent = endpoint({
+  id: "recordEvent",
+  method: "POST",
+  path: "/events",
+  tag: "Analytics",
+  summary: "Count a pageview or button click",
+  description: "Adds one to today's counter for the event; nothing about the visitor is kept. Requests with `DNT: 1` or `Sec-GPC: 1`, and from known bots, are accepted but not counted. Unknown routes, and store clicks for anything but a store, are rejected.",
+  body: eventSchema,
+  response: { status: 202, description: "Accepted.", schema: object({ ok: boolean() }) },
+  handler({ req, body: { name, route, label = "" } }) {
+    if (name === "store_click" && !isPlatform(label)) {
+      const stores = PLATFORMS.map(p => p.value).join(", ");
+      throw new HttpError("validation_failed", "Some body fields are invalid.", { label: `Must be one of: ${stores}.` });
+    }
+    if (shouldCount(req)) bumpStmt.run(utcDay(new Date()), name, route, label);
+    return { ok: true };
+  },
+});
+
+const HOME_ROUTE = "/";
+
+// GET /api/v1/admin/stats?days=
+export const getAnalyticsStats = endpoint({
+  id: "getAnalyticsStats",
+  method: "GET",
+  path: "/admin/stats",
+  tag: "Admin",
+  summary: "Pageviews, referrers and store button clicks",
+  sessionAuth: true,
+  query: object({ days: optional(integer({ min: 1, max: 366, description: "Days to cover, ending today (UTC); defaults to 30." })) }),
+  response: {
+    description: "Totals for the range.",
+    schema: object({
+      days: array(string({ description: "`YYYY-MM-DD`" }), { description: "Every UTC day in the range, oldest first." }),
+      routes: array(object({
+        route: string({ description: "Route pattern, e.g. `/companions/:palId`." }),
+        total: integer(),
+        daily: array(integer(), { description: "One count per entry in `days`." }),
+      })),
+      referrers: array(object({ host: string(), pageviews: integer() })),
+      homePageviews: integer(),
+      storeClicks: array(object({
+        store: string(),
+        clicks: integer(),
+        ctr: number({ description: "Clicks per home pageview." }),
+      })),
+    }),
+    cacheControl: "no-store",
+  },
+  handler({ req, query: { days: count = 30 } }): AnalyticsStats {
+    adminSession(req);
+
+    const today = new Date();
+    const days = Array.from({ length: count }, (_, i) => utcDay(new Date(today.getTime() - (count - 1 - i) * 86_400_000)));
+    const from = days[0]!;
+
+    const routes = new Map<string, RouteStats>();
+    for (const row of dailyPageviewsStmt.all(from)) {
+      let stats = routes.get(row.route);
+      if (!stats) routes.set(row.route, (stats = { route: row.route, total: 0, daily: days.map(() => 0) }));
+      stats.daily[days.indexOf(row.day)]! += row.count;
+      stats.total += row.count;
+    }
+
+    const homePageviews = routes.get(HOME_ROUTE)?.total ?? 0;
+    return {
+      days,
+      routes: [...routes.values()].sort((a, b) => b.total - a.total || a.route.localeCompare(b.route)),
+      referrers: referrersStmt.all(from),
+      homePageviews,
+      storeClicks: storeClicksStmt.all(from).map(({ store, clicks }) => ({
+        store,
+        clicks,
+        ctr: homePageviews > 0 ? clicks / homePageviews : 0,
+      })),
+    };
+  },
+});
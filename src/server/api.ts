@@ -0,0 +1,284 @@
+import { randomUUID } from "crypto";
+import type { ObjectOf, ObjectSchema, Schema } from "../lib/schema";
+import { object, optional, record, string } from "../lib/schema";
+import { readJson } from "./http";
+import { log, type Logger } from "./log";
+import { SITE_NAME, SITE_ORIGIN } from "./site";
+
+/**
+ * The versioned JSON API. Each endpoint is declared once with typed schemas
+ * for its path parameters, query and body; `apiRoutes` turns the list into Bun
+ * routes that validate input, tag every request with an ID, log it, and
+ * answer failures with the same error envelope:
+ *
+ *   { "error": { "code": "validation_failed", "message": "...", "fields": { ... }, "requestId": "..." } }
+ *
+ * The same declarations produce the OpenAPI document served at
+ * `<prefix>/openapi.json`.
+ */
+
+export const ERROR_CODES = {
+  invalid_json: 400,
+  validation_failed: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  conflict: 409,
+  too_many_requests: 429,
+  internal_error: 500,
+  unavailable: 503,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/** Throw from a handler to answer with the error envelope. */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly fields?: Record<string, string>,
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.status = ERROR_CODES[code];
+  }
+}
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+type Shape = Record<string, Schema<unknown>>;
+
+export interface EndpointContext<P, Q, B> {
+  req: Request;
+  params: P;
+  query: Q;
+  body: B;
+  requestId: string;
+  /** The client's address, or `null` if Bun can't tell. Behind a proxy, set `TRUST_PROXY` to read it from `X-Forwarded-For`. */
+  ip: string | null;
+  log: Logger;
+}
+
+export interface EndpointDefinition<P extends Shape, Q extends Shape, B, R> {
+  /** Stable name used as the OpenAPI `operationId`, e.g. `createTicket`. */
+  id: string;
+  method: Method;
+  /** Path below the version prefix in Bun route syntax, e.g. `/support/tickets/:reference`. */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  params?: ObjectSchema<P>;
+  query?: ObjectSchema<Q>;
+  body?: Schema<B>;
+  response: {
+    /** Defaults to 200. */
+    status?: number;
+    description: string;
+    schema?: Schema<R>;
+    /** For endpoints that return their own `Response`, e.g. `text/csv`. */
+    contentType?: string;
+    cacheControl?: string;
+  };
+  /** Failures beyond input validation, for the docs. */
+  errors?: ErrorCode[];
+  /** Requires `Authorization: Bearer <token>`; the handler checks the token. */
+  bearerAuth?: boolean;
+  /** Requires a signed-in admin; `requireAdmin` (src/server/admin.ts) checks the session cookie first. */
+  sessionAuth?: boolean;
+  handler(ctx: EndpointContext<ObjectOf<P>, ObjectOf<Q>, B>): R | Response | Promise<R | Response>;
+}
+
+// Endpoints are stored type-erased; `endpoint()` checks each one as it is declared.
+export type Endpoint = EndpointDefinition<any, any, any, any>;
+
+export function endpoint<P extends Shape = {}, Q extends Shape = {}, B = undefined, R = unknown>(
+  definition: EndpointDefinition<P, Q, B, R>,
+): Endpoint {
+  return definition;
+}
+
+const errorSchema = object({
+  error: object({
+    code: string({ example: "validation_failed", description: `One of: ${Object.keys(ERROR_CODES).join(", ")}` }),
+    message: string({ description: "Human-readable summary, safe to show to players." }),
+    fields: optional(record(string(), { description: "Per-field problems. Form endpoints use i18n keys such as `validation.emailInvalid`." })),
+    requestId: string({ description: "Also sent as the `X-Request-Id` header; quote it in bug reports." }),
+  }),
+});
+
+function errorResponse(error: HttpError, requestId: string, headers?: HeadersInit) {
+  const body = { error: { code: error.code, message: error.message, ...(error.fields && { fields: error.fields }), requestId } };
+  return Response.json(body, { status: error.status, headers });
+}
+
+// Upstream proxies may already have assigned an ID; anything odd-looking gets replaced.
+function requestIdFor(req: Request) {
+  const incoming = req.headers.get("x-request-id");
+  return incoming && /^[\w.-]{1,64}$/.test(incoming) ? incoming : randomUUID();
+}
+
+// The proxy appends the address it saw, so the last hop is the only one a client can't forge.
+function clientIp(req: Request, server: Bun.Server<unknown>) {
+  const forwarded = process.env.TRUST_PROXY ? req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() : undefined;
+  return forwarded || server.requestIP(req)?.address || null;
+}
+
+/** The error envelope for answers given outside an endpoint handler, e.g. by routing or middleware. */
+export function apiError(req: Request, error: HttpError, headers?: HeadersInit) {
+  const requestId = requestIdFor(req);
+  const res = errorResponse(error, requestId, headers);
+  res.headers.set("X-Request-Id", requestId);
+  return res;
+}
+
+function checkInput<T>(schema: Schema<T> | undefined, value: unknown, what: string): T {
+  if (!schema) return undefined as T;
+  const result = schema.check(value);
+  if (result.ok) return result.value;
+  const { "": own, ...fields } = result.issues;
+  throw new HttpError(
+    "validation_failed",
+    own ? `${what}: ${own}` : `Some ${what.toLowerCase()} fields are invalid.`,
+    Object.keys(fields).length > 0 ? fields : undefined,
+  );
+}
+
+async function invoke(endpoint: Endpoint, req: Request, ip: string | null, requestId: string, logger: Logger) {
+  const url = new URL(req.url);
+  const params = checkInput(endpoint.params, (req as Bun.BunRequest).params ?? {}, "Path");
+  const query = checkInput(endpoint.query, Object.fromEntries(url.searchParams), "Query");
+
+  let body: unknown;
+  if (endpoint.body) {
+    const json = await readJson(req);
+    if (json === null) throw new HttpError("invalid_json", "The request body must be valid JSON.");
+    body = checkInput(endpoint.body, json, "Body");
+  }
+
+  const result = await endpoint.handler({ req, params, query, body, requestId, ip, log: logger });
+  if (result instanceof Response) return result;
+
+  const headers: HeadersInit = endpoint.response.cacheControl ? { "Cache-Control": endpoint.response.cacheControl } : {};
+  return Response.json(result, { status: endpoint.response.status ?? 200, headers });
+}
+
+async function handle(endpoint: Endpoint, req: Request, server: Bun.Server<unknown>, route: string) {
+  const started = performance.now();
+  const requestId = requestIdFor(req);
+  const logger = log.child({ requestId });
+
+  let res: Response;
+  try {
+    res = await invoke(endpoint, req, clientIp(req, server), requestId, logger);
+  } catch (error) {
+    if (!(error instanceof HttpError)) logger.error("Unhandled API error", { route, error });
+    res = errorResponse(error instanceof HttpError ? error : new HttpError("internal_error", "Something went wrong on our side."), requestId);
+  }
+
+  res.headers.set("X-Request-Id", requestId);
+  logger.info("api request", {
+    method: req.method,
+    route,
+    path: new URL(req.url).pathname,
+    status: res.status,
+    durationMs: Math.round(performance.now() - started),
+  });
+  return res;
+}
+
+type RouteHandler = (req: Request, server: Bun.Server<unknown>) => Promise<Response>;
+
+/**
+ * Bun routes for `endpoints` under `prefix`, plus `<prefix>/openapi.json` and a
+ * JSON 404 for anything else below the prefix.
+ */
+export function apiRoutes(prefix: string, endpoints: Endpoint[], info: { version: string, title?: string }) {
+  const routes: Record<string, RouteHandler> = {};
+  const byPath = Map.groupBy(endpoints, e => e.path);
+
+  for (const [path, group] of byPath) {
+    const route = `${prefix}${path}`;
+    const allow = group.map(e => e.method).join(", ");
+    routes[route] = async (req, server) => {
+      const match = group.find(e => e.method === req.method);
+      if (match) return handle(match, req, server, route);
+      return apiError(req, new HttpError("method_not_allowed", `Use ${allow} for this endpoint.`), { Allow: allow });
+    };
+  }
+
+  const document = openApiDocument(prefix, endpoints, info);
+  routes[`${prefix}/openapi.json`] = async () => Response.json(document, { headers: { "Cache-Control": "public, max-age=300" } });
+  routes[`${prefix}/*`] = async req => apiError(req, new HttpError("not_found", "There is no API endpoint at this path."));
+
+  return routes;
+}
+
+function parameters(schema: ObjectSchema<Shape> | undefined, location: "path" | "query") {
+  return Object.entries(schema?.shape ?? {}).map(([name, field]) => {
+    const { description, ...fieldSchema } = field.jsonSchema();
+    return { name, in: location, required: location === "path" || !field.optional, ...(description !== undefined && { description }), schema: fieldSchema };
+  });
+}
+
+/** OpenAPI 3.1 description of `endpoints`, as served at `<prefix>/openapi.json`. */
+export function openApiDocument(prefix: string, endpoints: Endpoint[], info: { version: string, title?: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const endpoint of endpoints) {
+    const path = `${prefix}${endpoint.path}`.replace(/:(\w+)/g, "{$1}");
+    const { status = 200, description, schema, contentType = "application/json" } = endpoint.response;
+
+    const errorCodes = new Set<ErrorCode>(endpoint.errors);
+    if (endpoint.params || endpoint.query || endpoint.body) errorCodes.add("validation_failed");
+    if (endpoint.body) errorCodes.add("invalid_json");
+    if (endpoint.bearerAuth || endpoint.sessionAuth) errorCodes.add("unauthorized");
+
+    const responses: Record<string, unknown> = {
+      [status]: { description, ...(schema && { content: { [contentType]: { schema: schema.jsonSchema() } } }) },
+    };
+    for (const [httpStatus, codes] of Map.groupBy(errorCodes, code => ERROR_CODES[code])) {
+      responses[httpStatus] = {
+        description: `Error envelope with code ${codes.map(code => `\`${code}\``).join(" or ")}.`,
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      };
+    }
+
+    paths[path] ??= {};
+    paths[path][endpoint.method.toLowerCase()] = {
+      operationId: endpoint.id,
+      tags: [endpoint.tag],
+      summary: endpoint.summary,
+      ...(endpoint.description && { description: endpoint.description }),
+      parameters: [...parameters(endpoint.params, "path"), ...parameters(endpoint.query, "query")],
+      ...(endpoint.body && {
+        requestBody: { required: true, content: { "application/json": { schema: endpoint.body.jsonSchema() } } },
+      }),
+      ...(endpoint.bearerAuth && { security: [{ bearerAuth: [] }] }),
+      ...(endpoint.sessionAuth && { security: [{ adminSession: [] }] }),
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: info.title ?? `${SITE_NAME} API`,
+      version: info.version,
+      description: "Every response carries an `X-Request-Id` header. Failures use the `Error` envelope.",
+    },
+    servers: [{ url: SITE_ORIGIN }],
+    paths,
+    components: {
+      schemas: { Error: errorSchema.jsonSchema() },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        adminSession: { type: "apiKey", in: "cookie", name: "mm_admin", description: "Set by `POST /api/v1/admin/login`." },
+      },
+    },
+  };
+}
+
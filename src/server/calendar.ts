@@ -0,0 +1,107 @@
+import { calendarEntries, type CalendarEntry } from "../data/events";
+import { jsonError } from "./http";
+import { SITE_NAME, SITE_ORIGIN, pageUrl } from "./site";
+
+/**
+ * iCalendar (RFC 5545) versions of the `/events` calendar: one feed with
+ * every event for calendar apps to subscribe to, and a file per event for
+ * "add to calendar". build.ts writes them to `dist/api/events/`; the dev
+ * server renders them live.
+ */
+
+const CALENDAR_NAME = `${SITE_NAME} Events`;
+const CALENDAR_DESCRIPTION = "Live events and battle pass seasons in Mini Mythics.";
+/** How often subscribed calendars should check for changes. */
+const REFRESH_INTERVAL = "PT12H";
+
+const UID_DOMAIN = new URL(SITE_ORIGIN).hostname;
+
+/** `20261201T000000Z`. */
+const icsDate = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** TEXT values escape backslashes, separators and line breaks. */
+const escapeText = (value: string) => value.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, "\\n");
+
+/** Content lines longer than 75 octets continue on lines that start with a space. */
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    // The first line holds 75 octets; continuations hold 74 after their leading space.
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function describe(entry: CalendarEntry): string {
+  const lines = [entry.description];
+  for (const task of entry.tasks) lines.push(`Task: ${task.description} (${task.target.toLocaleString("en")})`);
+  for (const milestone of entry.milestones) {
+    lines.push(`At ${milestone.progress.toLocaleString("en")}: ${milestone.rewards.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function renderEvent(entry: CalendarEntry, stamp: string): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${entry.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsDate(entry.startTime)}`,
+    `DTEND:${icsDate(entry.endTime)}`,
+    `SUMMARY:${escapeText(`${SITE_NAME}: ${entry.name}`)}`,
+    `DESCRIPTION:${escapeText(describe(entry))}`,
+    `URL:${pageUrl(`/events#${entry.id}`)}`,
+    `CATEGORIES:${entry.type.toUpperCase()}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/** A VCALENDAR with `entries`. `now` stamps each event, as the spec asks. */
+export function renderCalendar(entries: CalendarEntry[], now = new Date()): string {
+  const stamp = icsDate(now.toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${SITE_NAME}//Events//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(CALENDAR_NAME)}`,
+    `X-WR-CALDESC:${escapeText(CALENDAR_DESCRIPTION)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...entries.flatMap(entry => renderEvent(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
+
+const ICS_HEADERS = { "Content-Type": "text/calendar; charset=utf-8" };
+
+// GET /api/events/calendar.ics (`EVENTS_CALENDAR_PATH`)
+export function getEventsCalendar() {
+  return new Response(renderCalendar(calendarEntries()), { headers: ICS_HEADERS });
+}
+
+// GET /api/events/:file (":id.ics", `eventCalendarPath`)
+export function getEventIcs(req: Bun.BunRequest<"/api/events/:file">) {
+  const id = req.params.file.replace(/\.ics$/, "");
+  const entry = calendarEntries().find(e => e.id === id);
+  if (!entry) return jsonError(404, "Event not found");
+  return new Response(renderCalendar([entry]), {
+    headers: { ...ICS_HEADERS, "Content-Disposition": `attachment; filename="${entry.id}.ics"` },
+  });
+}
@@ -0,0 +1,13 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import path from "path";
+
+/**
+ * Local SQLite store shared by every server module. Lives in `data/` next to
+ * the project (override with `DATA_DIR`) and is created on first start.
+ */
+const dataDir = process.env.DATA_DIR ?? path.join(process.cwd(), "data");
+mkdirSync(dataDir, { recursive: true });
+
+export const db = new Database(path.join(dataDir, "minimythics.sqlite"), { create: true });
+db.exec("PRAGMA journal_mode = WAL;");
@@ -0,0 +1,82 @@
+import path from "path";
+import type { NewsPost } from "../lib/news";
+import { SITE_NAME, SITE_ORIGIN, assetUrl, escapeXml, pageUrl } from "./site";
+
+/**
+ * RSS 2.0 and Atom 1.0 feeds for the news/devlog. build.ts writes them to
+ * `dist/feed.xml` and `dist/atom.xml`; the dev server serves them live.
+ */
+
+const FEED_TITLE = `${SITE_NAME} News`;
+const FEED_DESCRIPTION = "Dev updates, patch notes and announcements from the Mini Mythics team.";
+const FEED_LIMIT = 20;
+
+// Posts only carry a date; publish them at midnight UTC.
+const toDate = (day: string) => new Date(`${day}T00:00:00Z`);
+
+export function renderRss(posts: NewsPost[]): string {
+  const items = posts.slice(0, FEED_LIMIT).map(post => {
+    const link = pageUrl(`/news/${post.slug}`);
+    return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(link)}</link>
+      <guid isPermaLink="true">${escapeXml(link)}</guid>
+      <pubDate>${toDate(post.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(post.author)}</dc:creator>
+${post.tags.map(tag => `      <category>${escapeXml(tag)}</category>\n`).join("")}      <description>${escapeXml(post.excerpt)}</description>
+      <content:encoded><![CDATA[${post.html.replace(/]]>/g, "]]]]><![CDATA[>")}]]></content:encoded>${
+        post.cover ? `\n      <enclosure url="${escapeXml(assetUrl(post.cover))}" length="0" type="${imageType(post.cover)}" />` : ""
+      }
+    </item>`;
+  });
+
+  const updated = posts[0] ? toDate(posts[0].date) : new Date();
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(FEED_TITLE)}</title>
+    <link>${escapeXml(pageUrl("/news"))}</link>
+    <atom:link href="${escapeXml(`${SITE_ORIGIN}/feed.xml`)}" rel="self" type="application/rss+xml" />
+    <description>${escapeXml(FEED_DESCRIPTION)}</description>
+    <language>en</language>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(posts: NewsPost[]): string {
+  const entries = posts.slice(0, FEED_LIMIT).map(post => {
+    const link = pageUrl(`/news/${post.slug}`);
+    const published = toDate(post.date).toISOString();
+    return `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${escapeXml(link)}" />
+    <id>${escapeXml(link)}</id>
+    <published>${published}</published>
+    <updated>${published}</updated>
+    <author><name>${escapeXml(post.author)}</name></author>
+${post.tags.map(tag => `    <category term="${escapeXml(tag)}" />\n`).join("")}    <summary>${escapeXml(post.excerpt)}</summary>
+    <content type="html">${escapeXml(post.html)}</content>
+  </entry>`;
+  });
+
+  const updated = posts[0] ? toDate(posts[0].date) : new Date();
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <link href="${escapeXml(pageUrl("/news"))}" />
+  <link href="${escapeXml(`${SITE_ORIGIN}/atom.xml`)}" rel="self" type="application/atom+xml" />
+  <id>${escapeXml(`${SITE_ORIGIN}/`)}</id>
+  <updated>${updated.toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+function imageType(file: string) {
+  const ext = path.extname(file).slice(1).toLowerCase();
+  return ext === "jpg" ? "image/jpeg" : `image/${ext === "svg" ? "svg+xml" : ext}`;
+}
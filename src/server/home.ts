@@ -0,0 +1,33 @@
+import { createHash } from "crypto";
+import { rename } from "fs/promises";
+import path from "path";
+import { homeContentSchema, type HomeContent } from "../lib/home";
+
+/**
+ * Reads and writes `content/home.json`, the copy staff edit at `/admin`
+ * through the editing endpoints in `src/server/admin.ts`.
+ */
+
+const CONTENT_FILE = path.join(process.cwd(), "content", "home.json");
+
+/** The current content plus a revision (its hash) for detecting overlapping edits. */
+export async function loadHomeContent(): Promise<{ content: HomeContent, revision: string }> {
+  const text = await Bun.file(CONTENT_FILE).text();
+  const result = homeContentSchema.check(JSON.parse(text));
+  if (!result.ok) {
+    throw new Error(`content/home.json is invalid: ${JSON.stringify(result.issues)}`);
+  }
+  return { content: result.value, revision: createHash("sha1").update(text).digest("hex") };
+}
+
+// Write to a temporary file and swap it in, so a crash never leaves half a file behind.
+export async function writeHomeContent(content: HomeContent) {
+  const tmp = `${CONTENT_FILE}.${process.pid}.tmp`;
+  await Bun.write(tmp, JSON.stringify(content, null, 2) + "\n");
+  await rename(tmp, CONTENT_FILE);
+}
+
+// GET /content/home.json — re-read on every request, like the news posts
+export async function getHomeContent() {
+  return Response.json((await loadHomeContent()).content, { headers: { "Cache-Control": "no-cache" } });
+}
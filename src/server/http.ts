@@ -0,0 +1,38 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Response helpers shared by the API handlers in `src/server`.
+ */
+
+export function jsonError(status: number, error: string, fields?: Record<string, string>) {
+  return Response.json(fields ? { error, fields } : { error }, { status });
+}
+
+export async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+/** Quote a value for CSV, neutralising leading characters spreadsheets treat as formulas. */
+export function csvField(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Accepts `Authorization: Bearer <token>` or `?token=<token>` and compares in constant time. */
+export function hasToken(req: Request, expected: string | undefined): boolean {
+  if (!expected) return false;
+  const header = req.headers.get("authorization");
+  const provided = header?.startsWith("Bearer ")
+    ? header.slice(7)
+    : new URL(req.url).searchParams.get("token");
+  if (!provided) return false;
+
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,84 @@
+import { mkdir, stat } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { IMAGE_FORMATS, type ImageManifest, type ImageVariant } from "../lib/images";
+
+/**
+ * Generates the responsive variants listed in `src/data/image-manifest.json`:
+ * every PNG/JPEG in `images/` is resized to each of `WIDTHS` (never upscaled)
+ * and encoded as AVIF and WebP into `images/optimized/`. Unchanged images are
+ * skipped, so re-running is cheap. Run with `bun run images`; build.ts runs it
+ * before bundling.
+ */
+
+const IMAGES_DIR = path.join(process.cwd(), "images");
+const OUTPUT_DIR = path.join(IMAGES_DIR, "optimized");
+const MANIFEST_PATH = path.join(process.cwd(), "src", "data", "image-manifest.json");
+
+const WIDTHS = [320, 640, 960, 1280, 1920];
+const PLACEHOLDER_WIDTH = 16;
+const QUALITY = { avif: 50, webp: 75 };
+
+async function isFresh(output: string, sourceModified: number) {
+  try {
+    return (await stat(output)).mtimeMs >= sourceModified;
+  } catch {
+    return false;
+  }
+}
+
+async function optimizeImage(file: string) {
+  const source = path.join(IMAGES_DIR, file);
+  const { width = 0, height = 0 } = await sharp(source).metadata();
+  const sourceModified = (await stat(source)).mtimeMs;
+  const name = path.parse(file).name;
+
+  const widths = WIDTHS.filter(w => w < width);
+  if (!WIDTHS.includes(width) && width < WIDTHS[WIDTHS.length - 1]!) widths.push(width);
+
+  const variants: ImageVariant[] = [];
+  for (const w of widths) {
+    const src = { avif: "", webp: "" };
+    for (const format of IMAGE_FORMATS) {
+      const output = path.join(OUTPUT_DIR, `${name}-${w}.${format}`);
+      if (!(await isFresh(output, sourceModified))) {
+        await sharp(source).resize({ width: w })[format]({ quality: QUALITY[format] }).toFile(output);
+      }
+      src[format] = `/images/optimized/${name}-${w}.${format}`;
+    }
+    variants.push({ width: w, src });
+  }
+
+  const preview = await sharp(source).resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${preview.toString("base64")}`,
+    variants,
+  };
+}
+
+/** Writes all variants plus the manifest, and returns the manifest. */
+export async function optimizeImages(): Promise<ImageManifest> {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+
+  const manifest: ImageManifest = {};
+  const files = [...new Bun.Glob("*.{png,jpg,jpeg}").scanSync(IMAGES_DIR)].sort();
+  for (const file of files) {
+    manifest[`/images/${file}`] = await optimizeImage(file);
+  }
+
+  // Only touch the manifest when it changes, so builds don't dirty the tree.
+  const json = `${JSON.stringify(manifest, null, 2)}\n`;
+  const current = await Bun.file(MANIFEST_PATH).text().catch(() => "");
+  if (json !== current) await Bun.write(MANIFEST_PATH, json);
+
+  return manifest;
+}
+
+if (import.meta.main) {
+  const manifest = await optimizeImages();
+  for (const [src, entry] of Object.entries(manifest)) {
+    console.log(`✓ ${src} → ${entry.variants.map(v => v.width).join(", ")}w`);
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  LEADERBOARD_CATEGORIES,
+  LEADERBOARD_PAGE_SIZE,
+  MAX_PLAYER_SEARCH_LENGTH,
+  type LeaderboardCategory,
+  type LeaderboardEntry,
+  type LeaderboardQuery,
+  type LeaderboardResponse,
+  type LeaderboardSeason,
+} from "../lib/leaderboard";
+import { array, enumOf, integer, object, optional, string } from "../lib/schema";
+import { endpoint, HttpError } from "./api";
+import { db } from "./db";
+import { log } from "./log";
+
+/**
+ * Where rankings come from. The site ships with a SQLite stand-in; set
+ * `LEADERBOARD_SOURCE_URL` to read from the game backend instead.
+ */
+export interface LeaderboardSource {
+  /** Every season, oldest first. */
+  seasons(): Promise<LeaderboardSeason[]>;
+  rankings(query: Required<LeaderboardQuery>, limit: number): Promise<{ total: number, entries: LeaderboardEntry[] }>;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS leaderboard_seasons (
+    id        INTEGER PRIMARY KEY,
+    name      TEXT NOT NULL,
+    starts_at TEXT NOT NULL,
+    ends_at   TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS leaderboard_entries (
+    season_id INTEGER NOT NULL,
+    category  TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    name      TEXT NOT NULL,
+    level     INTEGER NOT NULL,
+    value     INTEGER NOT NULL,
+    PRIMARY KEY (season_id, category, player_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_leaderboard_value ON leaderboard_entries (season_id, category, value DESC);
+`);
+
+interface SeasonRow {
+  id: number;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+interface EntryRow {
+  rank: number;
+  player_id: string;
+  name: string;
+  level: number;
+  value: number;
+}
+
+const seasonsStmt = db.query<SeasonRow, []>("SELECT * FROM leaderboard_seasons ORDER BY id");
+// Rank over the whole category first so a name search keeps each player's real position.
+const rankingsStmt = db.query<EntryRow, [number, string, string, number, number]>(`
+  SELECT rank, player_id, name, level, value FROM (
+    SELECT *, RANK() OVER (ORDER BY value DESC) AS rank
+    FROM leaderboard_entries WHERE season_id = ? AND category = ?
+  )
+  WHERE name LIKE ? ESCAPE '\\'
+  ORDER BY rank, name
+  LIMIT ? OFFSET ?
+`);
+const countStmt = db.query<{ total: number }, [number, string, string]>(
+  "SELECT COUNT(*) AS total FROM leaderboard_entries WHERE season_id = ? AND category = ? AND name LIKE ? ESCAPE '\\'",
+);
+
+const likePattern = (search: string) => `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
+export const sqliteLeaderboardSource: LeaderboardSource = {
+  async seasons() {
+    return seasonsStmt.all().map(row => ({ id: row.id, name: row.name, startsAt: row.starts_at, endsAt: row.ends_at }));
+  },
+  async rankings({ season, category, page, search }, limit) {
+    const pattern = likePattern(search);
+    const rows = rankingsStmt.all(season, category, pattern, limit, (page - 1) * limit);
+    return {
+      total: countStmt.get(season, category, pattern)?.total ?? 0,
+      entries: rows.map(row => ({ rank: row.rank, playerId: row.player_id, name: row.name, level: row.level, value: row.value })),
+    };
+  },
+};
+
+/** Reads `GET <base>/seasons` and `GET <base>/rankings?...` from the game backend, which return the same shapes. */
+export function httpLeaderboardSource(baseUrl: string): LeaderboardSource {
+  const get = async <T>(path: string): Promise<T> => {
+    const res = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!res.ok) throw new Error(`Leaderboard backend answered ${res.status} for ${path}`);
+    return (await res.json()) as T;
+  };
+
+  return {
+    seasons: () => get("/seasons"),
+    rankings: ({ season, category, page, search }, limit) => {
+      const params = new URLSearchParams({ season: String(season), category, page: String(page), limit: String(limit), search });
+      return get(`/rankings?${params}`);
+    },
+  };
+}
+
+const source = process.env.LEADERBOARD_SOURCE_URL
+  ? httpLeaderboardSource(process.env.LEADERBOARD_SOURCE_URL)
+  : sqliteLeaderboardSource;
+
+// Every visitor at season end asks for the same few pages, so answers are kept
+// in memory for a short while, refreshed by one request at a time, and served
+// stale if the source is slow or down.
+const CACHE_TTL_MS = Number(process.env.LEADERBOARD_CACHE_SECONDS ?? 30) * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+interface CacheEntry {
+  fetchedAt: number;
+  response?: LeaderboardResponse | null;
+  pending?: Promise<LeaderboardResponse | null>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function cached(key: string, load: () => Promise<LeaderboardResponse | null>) {
+  const entry = cache.get(key);
+  if (entry?.response !== undefined && (Date.now() - entry.fetchedAt < CACHE_TTL_MS || entry.pending)) {
+    return Promise.resolve(entry.response);
+  }
+  if (entry?.pending) return entry.pending;
+
+  const stale = entry?.response;
+  const pending = load().then(
+    response => {
+      cache.set(key, { fetchedAt: Date.now(), response });
+      return response;
+    },
+    error => {
+      if (stale === undefined) {
+        cache.delete(key);
+        throw error;
+      }
+      log.warn("Leaderboard refresh failed; serving cached rankings", { error });
+      cache.set(key, { fetchedAt: Date.now(), response: stale });
+      return stale;
+    },
+  );
+
+  cache.delete(key);
+  cache.set(key, { fetchedAt: entry?.fetchedAt ?? 0, response: stale, pending });
+  while (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+
+  return stale === undefined ? pending : Promise.resolve(stale);
+}
+
+async function loadLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResponse | null> {
+  const seasons = await source.seasons();
+  const season = query.season ?? seasons.at(-1)?.id;
+  if (season === undefined || !seasons.some(s => s.id === season)) return null;
+
+  const { total, entries } = await source.rankings(
+    { season, category: query.category, page: query.page, search: query.search ?? "" },
+    LEADERBOARD_PAGE_SIZE,
+  );
+  return {
+    seasons,
+    season,
+    category: query.category,
+    page: query.page,
+    pageSize: LEADERBOARD_PAGE_SIZE,
+    total,
+    entries,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+const seasonSchema = object({
+  id: integer(),
+  name: string(),
+  startsAt: string({ format: "date-time" }),
+  endsAt: string({ format: "date-time" }),
+});
+
+const leaderboardResponseSchema = object({
+  seasons: array(seasonSchema, { description: "Every season, oldest first." }),
+  season: integer(),
+  category: enumOf(LEADERBOARD_CATEGORIES),
+  page: integer(),
+  pageSize: integer(),
+  total: integer({ description: "Entries matching the search, across all pages." }),
+  entries: array(object({
+    rank: integer({ description: "Position in the full ranking, even when filtered by a search." }),
+    playerId: string(),
+    name: string(),
+    level: integer(),
+    value: integer({ description: "ELO, win count, combat power or level, depending on the category." }),
+  })),
+  updatedAt: string({ format: "date-time" }),
+});
+
+// GET /api/v1/leaderboard?season=&category=&page=&search=
+export const getLeaderboard = endpoint({
+  id: "getLeaderboard",
+  method: "GET",
+  path: "/leaderboard",
+  tag: "Leaderboard",
+  summary: "Arena rankings for a season",
+  query: object({
+    season: optional(integer({ min: 1, description: "Season ID; defaults to the latest season." })),
+    category: optional(enumOf(LEADERBOARD_CATEGORIES, { description: "Defaults to `rating`." })),
+    page: optional(integer({ min: 1, max: 100_000, description: "1-based; defaults to 1." })),
+    search: optional(string({ trim: true, maxLength: MAX_PLAYER_SEARCH_LENGTH, description: "Case-insensitive player name filter." })),
+  }),
+  response: {
+    description: `One page of up to ${LEADERBOARD_PAGE_SIZE} players.`,
+    schema: leaderboardResponseSchema,
+    cacheControl: `public, max-age=${CACHE_TTL_MS / 1000}, stale-while-revalidate=300`,
+  },
+  errors: ["not_found", "unavailable"],
+  async handler({ query: { season, category = "rating", page = 1, search = "" }, log }) {
+    const key = JSON.stringify([season, category, page, search.toLowerCase()]);
+    let response: LeaderboardResponse | null;
+    try {
+      response = await cached(key, () => loadLeaderboard({ season, category, page, search: search || undefined }));
+    } catch (error) {
+      log.error("Leaderboard source failed", { error });
+      throw new HttpError("unavailable", "The leaderboard is temporarily unavailable. Please try again shortly.");
+    }
+
+    if (!response) {
+      throw new HttpError("not_found", "No such season.");
+    }
+    return response;
+  },
+});
+
+/** Fills the SQLite stand-in with made-up players so the page has something to show locally. */
+export function seedDemoLeaderboard(players = 240) {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+  const seasons = [
+    { id: 1, name: "Season 1: Awakening", startsAt: new Date(now - 90 * DAY), endsAt: new Date(now - 30 * DAY) },
+    { id: 2, name: "Season 2: Frostfall", startsAt: new Date(now - 30 * DAY), endsAt: new Date(now + 30 * DAY) },
+  ];
+  const PREFIXES = ["Tiny", "Brave", "Sly", "Mossy", "Frosty", "Sparky", "Lucky", "Misty", "Rusty", "Sunny", "Shadow", "Jolly"];
+  const NOUNS = ["Slime", "Kitsune", "Golem", "Phoenix", "Owl", "Toad", "Hawk", "Bunny", "Turtle", "Kirin", "Fenrir", "Pup"];
+
+  // Small deterministic PRNG so reseeding produces the same table.
+  let state = 42;
+  const random = () => ((state = (state * 1103515245 + 12345) % 2 ** 31) / 2 ** 31);
+  const between = (min: number, max: number) => Math.floor(min + random() * (max - min + 1));
+
+  const insertSeason = db.query("INSERT OR REPLACE INTO leaderboard_seasons (id, name, starts_at, ends_at) VALUES (?, ?, ?, ?)");
+  const insertEntry = db.query(
+    "INSERT OR REPLACE INTO leaderboard_entries (season_id, category, player_id, name, level, value) VALUES (?, ?, ?, ?, ?, ?)",
+  );
+  const values: Record<LeaderboardCategory, () => number> = {
+    rating: () => between(800, 2600),
+    wins: () => between(0, 320),
+    power: () => between(4_000, 250_000),
+    level: () => between(1, 100),
+  };
+
+  db.transaction(() => {
+    for (const season of seasons) {
+      insertSeason.run(season.id, season.name, season.startsAt.toISOString(), season.endsAt.toISOString());
+      for (let i = 0; i < players; i++) {
+        const name = `${PREFIXES[i % PREFIXES.length]}${NOUNS[Math.floor(i / PREFIXES.length) % NOUNS.length]}${i >= 144 ? i : ""}`;
+        const level = between(10, 100);
+        for (const category of LEADERBOARD_CATEGORIES) {
+          insertEntry.run(season.id, category, `demo-${i}`, name, level, category === "level" ? level : values[category]());
+        }
+      }
+    }
+  })();
+}
+
+if (import.meta.main) {
+  seedDemoLeaderboard();
+  console.log("✓ Seeded the local leaderboard with demo seasons and players");
+}
@@ -0,0 +1,48 @@
+/**
+ * Structured logging: one JSON object per line on stdout (stderr for errors),
+ * so the host's log collector can index fields like `requestId` and `status`.
+ * Set `LOG_LEVEL` to `debug`, `info` (default), `warn` or `error`.
+ */
+
+const LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line, e.g. the request ID. */
+  child(fields: LogFields): Logger;
+}
+
+const threshold = Math.max(0, LEVELS.indexOf((process.env.LOG_LEVEL ?? "info") as LogLevel));
+
+/** Errors don't survive `JSON.stringify`; keep the useful parts. */
+function serialize(value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS.indexOf(level) < threshold) return;
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message };
+  for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value);
+  const line = JSON.stringify(entry);
+  if (level === "error") console.error(line);
+  else console.log(line);
+}
+
+function createLogger(base: LogFields): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...base, ...fields }),
+    info: (message, fields) => write("info", message, { ...base, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...base, ...fields }),
+    error: (message, fields) => write("error", message, { ...base, ...fields }),
+    child: fields => createLogger({ ...base, ...fields }),
+  };
+}
+
+export const log = createLogger({});
@@ -0,0 +1,30 @@
+import { MEDIA_CATEGORIES, sortedMedia } from "../data/media";
+import { array, enumOf, integer, object, string } from "../lib/schema";
+import { endpoint } from "./api";
+
+const mediaItemSchema = object({
+  id: string(),
+  type: enumOf(["image", "video"]),
+  category: enumOf(MEDIA_CATEGORIES),
+  caption: string(),
+  date: string({ description: "Publication date, `YYYY-MM-DD`." }),
+  thumbnail: string({ description: "Thumbnail or poster image, relative to the site root." }),
+  src: string({ description: "Full-size image or video file, relative to the site root." }),
+  width: integer(),
+  height: integer(),
+});
+
+// GET /api/v1/media
+export const getMedia = endpoint({
+  id: "getMedia",
+  method: "GET",
+  path: "/media",
+  tag: "Media",
+  summary: "List screenshots, art, wallpapers and trailers",
+  response: {
+    description: "Every media item, newest first.",
+    schema: object({ categories: array(enumOf(MEDIA_CATEGORIES)), items: array(mediaItemSchema) }),
+    cacheControl: "public, max-age=300",
+  },
+  handler: () => ({ categories: [...MEDIA_CATEGORIES], items: sortedMedia() }),
+});
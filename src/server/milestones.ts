@@ -0,0 +1,116 @@
+import { MILESTONE_REWARD_TYPES, milestoneProgress, type MilestoneCounter, type MilestoneProgress } from "../lib/milestones";
+import { RARITIES } from "../lib/rarity";
+import { array, boolean, enumOf, integer, object, optional, string } from "../lib/schema";
+import { adminSession, recordAudit } from "./admin";
+import { endpoint } from "./api";
+import { db } from "./db";
+import { countPreregistrations } from "./preregister";
+
+/**
+ * The pre-registration count behind the milestone tracker (see
+ * src/lib/milestones.ts): rows in `preregistrations` plus an adjustment staff
+ * set at `/admin`, stored in a one-row table.
+ */
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS milestone_counter (
+    id         INTEGER PRIMARY KEY CHECK (id = 1),
+    adjustment INTEGER NOT NULL
+  )
+`);
+db.exec("INSERT OR IGNORE INTO milestone_counter (id, adjustment) VALUES (1, 0)");
+
+const adjustmentStmt = db.query<{ adjustment: number }, []>("SELECT adjustment FROM milestone_counter WHERE id = 1");
+const setAdjustmentStmt = db.query<never, [number]>("UPDATE milestone_counter SET adjustment = ? WHERE id = 1");
+
+function readCounter(): MilestoneCounter {
+  const signups = countPreregistrations();
+  const adjustment = adjustmentStmt.get()?.adjustment ?? 0;
+  return { signups, adjustment, count: Math.max(0, signups + adjustment) };
+}
+
+// The home page asks on every visit, so the count is recounted at most once a minute.
+const CACHE_TTL_MS = Number(process.env.MILESTONES_CACHE_SECONDS ?? 60) * 1000;
+let cached: MilestoneProgress | undefined;
+let cachedAt = 0;
+
+function currentProgress(): MilestoneProgress {
+  if (!cached || Date.now() - cachedAt >= CACHE_TTL_MS) {
+    cached = { ...milestoneProgress(readCounter().count), updatedAt: new Date().toISOString() };
+    cachedAt = Date.now();
+  }
+  return cached;
+}
+
+const rewardSchema = object({
+  type: enumOf(MILESTONE_REWARD_TYPES),
+  amount: optional(integer({ description: "Gems, for `gems` rewards." })),
+  rarity: optional(enumOf(RARITIES, { description: "Preview frame, for `gems` rewards." })),
+  palId: optional(string({ description: "For `pal` rewards; see `/companions/{palId}`." })),
+});
+
+const counterSchema = object({
+  signups: integer({ description: "Pre-registrations stored on this server." }),
+  adjustment: integer({ description: "Added by staff; may be negative." }),
+  count: integer({ description: "`signups + adjustment`, never below zero; what the public sees." }),
+});
+
+// GET /api/v1/milestones
+export const getMilestones = endpoint({
+  id: "getMilestones",
+  method: "GET",
+  path: "/milestones",
+  tag: "Pre-registration",
+  summary: "Sign-up count and milestone rewards",
+  description: "The count may lag by up to a minute.",
+  response: {
+    description: "The count and every milestone, lowest goal first.",
+    schema: object({
+      count: integer(),
+      milestones: array(object({ goal: integer(), unlocked: boolean(), reward: rewardSchema })),
+      updatedAt: string({ format: "date-time" }),
+    }),
+    cacheControl: "public, max-age=60",
+  },
+  handler: () => currentProgress(),
+});
+
+// GET /api/v1/admin/milestones
+export const getMilestoneCounter = endpoint({
+  id: "getMilestoneCounter",
+  method: "GET",
+  path: "/admin/milestones",
+  tag: "Admin",
+  summary: "The milestone count and its adjustment",
+  sessionAuth: true,
+  response: { description: "Sign-ups, adjustment and the resulting count.", schema: counterSchema, cacheControl: "no-store" },
+  handler({ req }) {
+    adminSession(req);
+    return readCounter();
+  },
+});
+
+// PUT /api/v1/admin/milestones
+export const updateMilestoneCounter = endpoint({
+  id: "updateMilestoneCounter",
+  method: "PUT",
+  path: "/admin/milestones",
+  tag: "Admin",
+  summary: "Set the milestone count adjustment",
+  description: "The public count picks it up at once, though browsers may show the old one for up to a minute. Written to the audit log.",
+  sessionAuth: true,
+  body: object({ adjustment: integer({ min: -10_000_000, max: 10_000_000 }) }),
+  response: { description: "The updated counter.", schema: counterSchema },
+  errors: ["forbidden"],
+  handler({ req, body: { adjustment }, log }) {
+    const { username } = adminSession(req);
+    const before = readCounter().adjustment;
+    if (adjustment !== before) {
+      setAdjustmentStmt.run(adjustment);
+      cached = undefined;
+      recordAudit(username, "milestones.adjust", "milestones", [{ field: "adjustment", before: String(before), after: String(adjustment) }]);
+      log.info("Milestone adjustment changed", { username, before, after: adjustment });
+    }
+    return readCounter();
+  },
+});
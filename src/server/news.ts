@@ -0,0 +1,131 @@
+import { readdir } from "fs/promises";
+import path from "path";
+import { marked } from "marked";
+import type { NewsPost, NewsPostSummary } from "../lib/news";
+import { renderAtom, renderRss } from "./feeds";
+import { jsonError } from "./http";
+
+/**
+ * Loads the Markdown posts in `content/news/`. Each file starts with a
+ * frontmatter block:
+ *
+ *   ---
+ *   title: Welcome to the devlog
+ *   date: 2026-09-01
+ *   author: The Mini Mythics Team
+ *   tags: [devlog, announcement]
+ *   cover: /images/characters.png
+ *   excerpt: Optional teaser; defaults to the first paragraph.
+ *   ---
+ *
+ * The file name (minus `.md`) becomes the slug.
+ */
+
+export const NEWS_DIR = path.join(process.cwd(), "content", "news");
+
+const REQUIRED_FIELDS = ["title", "date", "author"] as const;
+
+type Frontmatter = Record<string, string | string[]>;
+
+/** Parses the `key: value` / `key: [a, b]` subset of YAML the posts use. */
+export function parseFrontmatter(source: string): { data: Frontmatter, body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) return { data: {}, body: source };
+
+  const data: Frontmatter = {};
+  for (const line of match[1]!.split(/\r?\n/)) {
+    const pair = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(line.trim());
+    if (!pair) continue;
+    const [, key, raw] = pair as unknown as [string, string, string];
+    data[key] = raw.startsWith("[") && raw.endsWith("]")
+      ? raw.slice(1, -1).split(",").map(unquote).filter(Boolean)
+      : unquote(raw);
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+function unquote(value: string) {
+  const trimmed = value.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+function firstParagraph(markdown: string) {
+  const paragraph = markdown.split(/\r?\n\s*\r?\n/).find(block => block.trim() && !/^\s*(#|!\[|```|>|[-*] )/.test(block));
+  return (paragraph ?? "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parsePost(slug: string, source: string): NewsPost {
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)) {
+    throw new Error(`content/news/${slug}.md: file names must be lowercase-kebab-case`);
+  }
+
+  const { data, body } = parseFrontmatter(source);
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof data[field] !== "string" || !data[field]) {
+      throw new Error(`content/news/${slug}.md: missing "${field}" in frontmatter`);
+    }
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date as string)) {
+    throw new Error(`content/news/${slug}.md: "date" must be YYYY-MM-DD`);
+  }
+
+  const tags = data.tags ?? [];
+  return {
+    slug,
+    title: data.title as string,
+    date: data.date as string,
+    author: data.author as string,
+    tags: Array.isArray(tags) ? tags : [tags],
+    cover: typeof data.cover === "string" && data.cover ? data.cover : undefined,
+    excerpt: typeof data.excerpt === "string" && data.excerpt ? data.excerpt : firstParagraph(body),
+    html: marked.parse(body, { async: false }),
+  };
+}
+
+/** All posts, newest first. */
+export async function loadPosts(dir = NEWS_DIR): Promise<NewsPost[]> {
+  const files = (await readdir(dir).catch(() => [])).filter(file => file.endsWith(".md"));
+  const posts = await Promise.all(
+    files.map(async file => parsePost(file.slice(0, -3), await Bun.file(path.join(dir, file)).text())),
+  );
+  return posts.sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug));
+}
+
+export function toSummary({ html, ...summary }: NewsPost): NewsPostSummary {
+  return summary;
+}
+
+// Posts are re-read on every request so edits show up without a restart.
+// src/index.ts only routes here when there is no build; production serves the
+// static files build.ts writes instead.
+
+// GET /content/news.json
+export async function getNewsIndex() {
+  return Response.json((await loadPosts()).map(toSummary));
+}
+
+// GET /content/news/:file (":slug.json")
+export async function getNewsPost(req: Bun.BunRequest<"/content/news/:file">) {
+  const slug = req.params.file.replace(/\.json$/, "");
+  const post = (await loadPosts()).find(p => p.slug === slug);
+  return post ? Response.json(post) : jsonError(404, "Post not found");
+}
+
+// GET /feed.xml
+export async function getRssFeed() {
+  return new Response(renderRss(await loadPosts()), {
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+  });
+}
+
+// GET /atom.xml
+export async function getAtomFeed() {
+  return new Response(renderAtom(await loadPosts()), {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,25 @@
+import { expect, test } from "bun:test";
+import { apiRoutes } from "./api";
+import { countPreregistrations, createPreregistration } from "./preregister";
+
+const routes = apiRoutes("/api/v1", [createPreregistration], { version: "test" });
+const server = { requestIP: () => null } as unknown as Bun.Server<unknown>;
+
+function preregister(email: string) {
+  const req = new Request("http://localhost/api/v1/preregister", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, platform: "ios", region: "na" }),
+  });
+  return routes["/api/v1/preregister"]!(req, server);
+}
+
+test("answers a repeat sign-up exactly like a new one", async () => {
+  const first = await preregister("twice@example.com");
+  const second = await preregister("twice@example.com");
+
+  expect(first.status).toBe(201);
+  expect(second.status).toBe(first.status);
+  expect(await second.json()).toEqual(await first.json());
+  expect(countPreregistrations()).toBe(1);
+});
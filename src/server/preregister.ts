@@ -0,0 +1,84 @@
+import { preregistrationSchema } from "../lib/preregister";
+import { boolean, object, string } from "../lib/schema";
+import { endpoint, HttpError } from "./api";
+import { db } from "./db";
+import { csvField, hasToken } from "./http";
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS preregistrations (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    email      TEXT NOT NULL UNIQUE,
+    platform   TEXT NOT NULL,
+    region     TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )
+`);
+
+interface PreregistrationRow {
+  id: number;
+  email: string;
+  platform: string;
+  region: string;
+  created_at: string;
+}
+
+const insertStmt = db.query<unknown, [string, string, string, string]>(
+  "INSERT INTO preregistrations (email, platform, region, created_at) VALUES (?, ?, ?, ?) ON CONFLICT(email) DO NOTHING",
+);
+const listStmt = db.query<PreregistrationRow, []>("SELECT * FROM preregistrations ORDER BY id");
+const countStmt = db.query<{ total: number }, []>("SELECT COUNT(*) AS total FROM preregistrations");
+
+export function countPreregistrations() {
+  return countStmt.get()?.total ?? 0;
+}
+
+// POST /api/v1/preregister
+export const createPreregistration = endpoint({
+  id: "createPreregistration",
+  method: "POST",
+  path: "/preregister",
+  tag: "Pre-registration",
+  summary: "Sign up for launch news",
+  description: "Already-registered emails get the same success response, so the endpoint can't be used to probe who has signed up.",
+  body: preregistrationSchema,
+  response: {
+    status: 201,
+    description: "Signed up. Emails that were already signed up get exactly this response too.",
+    schema: object({ ok: boolean() }),
+  },
+  handler({ body: { email, platform, region } }) {
+    insertStmt.run(email, platform, region, new Date().toISOString());
+    return { ok: true };
+  },
+});
+
+// GET /api/v1/preregister/export.csv — requires PREREGISTER_EXPORT_TOKEN
+export const exportPreregistrations = endpoint({
+  id: "exportPreregistrations",
+  method: "GET",
+  path: "/preregister/export.csv",
+  tag: "Pre-registration",
+  summary: "Download every pre-registration as CSV",
+  bearerAuth: true,
+  response: { description: "CSV with one row per sign-up.", schema: string(), contentType: "text/csv" },
+  handler({ req }) {
+    if (!hasToken(req, process.env.PREREGISTER_EXPORT_TOKEN)) {
+      throw new HttpError("unauthorized", "A valid export token is required.");
+    }
+
+    const rows = listStmt.all();
+    const lines = [
+      "id,email,platform,region,created_at",
+      ...rows.map(r => [r.id, r.email, r.platform, r.region, r.created_at].map(csvField).join(",")),
+    ];
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(lines.join("\r\n") + "\r\n", {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="preregistrations-${date}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+});
@@ -0,0 +1,450 @@
+import { randomUUID } from "crypto";
+import { parseArgs } from "util";
+import { REGIONS, type Region } from "../lib/preregister";
+import {
+  REWARD_ITEMS,
+  formatCode,
+  generateCode,
+  isWellFormedCode,
+  normalizeCode,
+  redeemSchema,
+  type RedeemResult,
+  type RedeemReward,
+  type RewardItem,
+} from "../lib/redeem";
+import { array, enumOf, integer, object, string } from "../lib/schema";
+import { endpoint, HttpError } from "./api";
+import { db } from "./db";
+import { csvField } from "./http";
+import { log } from "./log";
+
+/**
+ * Gift codes for `/redeem`. Codes come in batches made with
+ * `bun run redeem:codes generate`; the batch sets the rewards, expiry,
+ * allowed regions and how many times each code can be used. A player can
+ * claim one code per batch, so handing out 500 single-use codes on stream
+ * still means one reward each.
+ *
+ * Claims are checked against SQLite, then the grant is sent to the game
+ * server (`REDEEM_GRANT_URL`). Without one, grants are only logged, which is
+ * enough to try the page locally. A claim stays `pending` until the game
+ * server confirms the grant. If the game server can't be reached or times
+ * out, the grant may still have gone through, so the claim is kept. The
+ * player's next try resends it with the same `grantId`, and the game server
+ * deduplicates on that. Only a definite rejection releases the claim.
+ *
+ * The region comes from the form, so it only picks which batch limits apply;
+ * the game server checks it against the player's account and rejects the
+ * grant when they differ, which keeps region-locked codes in their region.
+ */
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS redeem_batches (
+    id         TEXT PRIMARY KEY,
+    rewards    TEXT NOT NULL,
+    regions    TEXT,
+    max_uses   INTEGER,
+    expires_at TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS redeem_codes (
+    code     TEXT PRIMARY KEY,
+    batch_id TEXT NOT NULL REFERENCES redeem_batches (id),
+    uses     INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS redeem_claims (
+    id         TEXT PRIMARY KEY,
+    batch_id   TEXT NOT NULL,
+    code       TEXT NOT NULL,
+    player_id  TEXT NOT NULL,
+    region     TEXT NOT NULL,
+    claimed_at TEXT NOT NULL,
+    status     TEXT NOT NULL DEFAULT 'pending',
+    UNIQUE (batch_id, player_id)
+  );
+`);
+
+interface CodeRow {
+  code: string;
+  batch_id: string;
+  uses: number;
+  /** JSON `RedeemReward[]`. */
+  rewards: string;
+  /** JSON `Region[]`; `null` means anywhere. */
+  regions: string | null;
+  /** `null` means unlimited. */
+  max_uses: number | null;
+  expires_at: string | null;
+}
+
+interface BatchSummaryRow {
+  id: string;
+  rewards: string;
+  regions: string | null;
+  max_uses: number | null;
+  expires_at: string | null;
+  created_at: string;
+  codes: number;
+  claims: number;
+  pending: number;
+}
+
+interface ClaimRow {
+  id: string;
+  code: string;
+  region: Region;
+  status: "pending" | "granted";
+}
+
+const findCodeStmt = db.query<CodeRow, [string]>(`
+  SELECT c.code, c.batch_id, c.uses, b.rewards, b.regions, b.max_uses, b.expires_at
+  FROM redeem_codes c JOIN redeem_batches b ON b.id = c.batch_id
+  WHERE c.code = ?
+`);
+const findClaimStmt = db.query<ClaimRow, [string, string]>("SELECT id, code, region, status FROM redeem_claims WHERE batch_id = ? AND player_id = ?");
+const insertClaimStmt = db.query(
+  "INSERT INTO redeem_claims (id, batch_id, code, player_id, region, claimed_at) VALUES (?, ?, ?, ?, ?, ?)",
+);
+const deleteClaimStmt = db.query("DELETE FROM redeem_claims WHERE id = ?");
+const markGrantedStmt = db.query("UPDATE redeem_claims SET status = 'granted' WHERE id = ?");
+const addUseStmt = db.query<unknown, [number, string]>("UPDATE redeem_codes SET uses = uses + ? WHERE code = ?");
+
+const insertBatchStmt = db.query(
+  "INSERT INTO redeem_batches (id, rewards, regions, max_uses, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+);
+const insertCodeStmt = db.query<{ code: string }, [string, string]>(
+  "INSERT INTO redeem_codes (code, batch_id) VALUES (?, ?) ON CONFLICT(code) DO NOTHING RETURNING code",
+);
+const findBatchStmt = db.query<{ id: string }, [string]>("SELECT id FROM redeem_batches WHERE id = ?");
+const listBatchesStmt = db.query<BatchSummaryRow, []>(`
+  SELECT b.*,
+    (SELECT COUNT(*) FROM redeem_codes c WHERE c.batch_id = b.id) AS codes,
+    (SELECT COUNT(*) FROM redeem_claims r WHERE r.batch_id = b.id) AS claims,
+    (SELECT COUNT(*) FROM redeem_claims r WHERE r.batch_id = b.id AND r.status = 'pending') AS pending
+  FROM redeem_batches b ORDER BY b.created_at
+`);
+const batchCodesStmt = db.query<{ code: string, uses: number }, [string]>("SELECT code, uses FROM redeem_codes WHERE batch_id = ? ORDER BY rowid");
+const expireBatchStmt = db.query<unknown, [string, string]>("UPDATE redeem_batches SET expires_at = ? WHERE id = ?");
+
+/** What the game server receives. `grantId` is stable per claim, so retries can be deduplicated. */
+export interface RewardGrant {
+  grantId: string;
+  playerId: string;
+  /** As entered on the form; the game server must refuse the grant if the player's account is elsewhere. */
+  region: Region;
+  code: string;
+  rewards: RedeemReward[];
+}
+
+/** Delivers rewards to a player's in-game mailbox. */
+export interface RewardGranter {
+  /**
+   * Resolves to `"unknown_player"` when the game has no such account and to
+   * `"wrong_region"` when the account is in another region; throws when the
+   * game server can't be reached.
+   */
+  grant(grant: RewardGrant): Promise<"granted" | "unknown_player" | "wrong_region">;
+}
+
+/**
+ * Sends `POST <url>` with the grant as JSON; the game server answers 2xx, 404
+ * for unknown players, or 409 when the player's account isn't in `region`.
+ */
+export function httpRewardGranter(url: string, token?: string): RewardGranter {
+  return {
+    async grant(grant) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": grant.grantId,
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify(grant),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (res.status === 404) return "unknown_player";
+      if (res.status === 409) return "wrong_region";
+      if (!res.ok) throw new Error(`Game server answered ${res.status} for grant ${grant.grantId}`);
+      return "granted";
+    },
+  };
+}
+
+/** Stand-in for local development: logs the grant and reports success. */
+export const logRewardGranter: RewardGranter = {
+  async grant(grant) {
+    log.info("Redeem grant not sent (REDEEM_GRANT_URL is unset)", { ...grant });
+    return "granted";
+  },
+};
+
+const granter = process.env.REDEEM_GRANT_URL
+  ? httpRewardGranter(process.env.REDEEM_GRANT_URL, process.env.REDEEM_GRANT_TOKEN)
+  : logRewardGranter;
+
+// Field errors are i18n keys, shown under the input they're about.
+const codeError = (code: "not_found" | "forbidden" | "conflict", message: string, key: string) =>
+  new HttpError(code, message, { code: key });
+
+/**
+ * Checks every rule and reserves the claim in one transaction, so two
+ * requests can't both take the last use. A pending claim for the same batch
+ * is handed back as it was, whatever code and region the retry came with, so
+ * the game server sees the same grant again. `releaseClaim` undoes a
+ * reservation the game server turned down.
+ */
+const reserveClaim = db.transaction((code: string, playerId: string, region: Region, now: string) => {
+  const row = findCodeStmt.get(code);
+  if (!row) throw codeError("not_found", "That code doesn't exist.", "redeem.errors.codeInvalid");
+  const rewards = JSON.parse(row.rewards) as RedeemReward[];
+
+  const claim = findClaimStmt.get(row.batch_id, playerId);
+  if (claim?.status === "pending") return { claimId: claim.id, batchId: row.batch_id, code: claim.code, region: claim.region, rewards };
+  if (claim) {
+    throw codeError("conflict", "This player has already redeemed a code from this giveaway.", "redeem.errors.alreadyRedeemed");
+  }
+
+  if (row.expires_at !== null && row.expires_at <= now) {
+    throw codeError("forbidden", "That code has expired.", "redeem.errors.expired");
+  }
+  if (row.regions !== null && !(JSON.parse(row.regions) as Region[]).includes(region)) {
+    throw codeError("forbidden", "That code can't be used in this region.", "redeem.errors.wrongRegion");
+  }
+  if (row.max_uses !== null && row.uses >= row.max_uses) {
+    throw codeError("conflict", "That code has been used up.", "redeem.errors.usedUp");
+  }
+
+  const claimId = randomUUID();
+  insertClaimStmt.run(claimId, row.batch_id, code, playerId, region, now);
+  addUseStmt.run(1, code);
+  return { claimId, batchId: row.batch_id, code, region, rewards };
+});
+
+const releaseClaim = db.transaction((claimId: string, code: string) => {
+  deleteClaimStmt.run(claimId);
+  addUseStmt.run(-1, code);
+});
+
+// Ten invalid codes pause redeeming for a while, counted per IP and per player ID, per process.
+const MAX_INVALID_CODES = 10;
+const THROTTLE_MS = 15 * 60 * 1000;
+const MAX_TRACKED_SOURCES = 10_000;
+const invalidCodes = new Map<string, { count: number, since: number }>();
+
+function isThrottled(source: string) {
+  const entry = invalidCodes.get(source);
+  if (entry && Date.now() - entry.since > THROTTLE_MS) invalidCodes.delete(source);
+  return (invalidCodes.get(source)?.count ?? 0) >= MAX_INVALID_CODES;
+}
+
+function recordInvalidCode(source: string) {
+  const entry = invalidCodes.get(source) ?? { count: 0, since: Date.now() };
+  invalidCodes.delete(source);
+  invalidCodes.set(source, { ...entry, count: entry.count + 1 });
+  if (invalidCodes.size > MAX_TRACKED_SOURCES) invalidCodes.delete(invalidCodes.keys().next().value!);
+}
+
+const rewardSchema = object({
+  item: enumOf(REWARD_ITEMS),
+  amount: integer({ min: 1 }),
+});
+
+// POST /api/v1/redeem
+export const redeemGiftCode = endpoint({
+  id: "redeemGiftCode",
+  method: "POST",
+  path: "/redeem",
+  tag: "Redeem",
+  summary: "Redeem a gift code",
+  description: `Rewards are sent to the player's in-game mailbox. Failures about the code itself come back as a \`code\` field error. After ${MAX_INVALID_CODES} invalid codes from one IP or for one player ID, requests are refused for ${THROTTLE_MS / 60_000} minutes.`,
+  body: redeemSchema,
+  response: {
+    description: "Redeemed; the rewards are on their way.",
+    schema: object({
+      code: string({ example: "7K2Q-9XH4-M3PD" }),
+      rewards: array(rewardSchema),
+      redeemedAt: string({ format: "date-time" }),
+    }),
+  },
+  errors: ["not_found", "forbidden", "conflict", "too_many_requests", "unavailable"],
+  async handler({ body, ip, log }): Promise<RedeemResult> {
+    // Codes are 55 random bits plus a check character, and the throttle keeps guessing slower still.
+    const sources = [`player:${body.playerId}`, ...(ip ? [`ip:${ip}`] : [])];
+    if (sources.some(isThrottled)) {
+      throw new HttpError("too_many_requests", "Too many invalid codes. Try again in a few minutes.");
+    }
+    const invalid = (error: HttpError) => {
+      sources.forEach(recordInvalidCode);
+      log.warn("Invalid redeem code", { playerId: body.playerId, ip });
+      return error;
+    };
+
+    const code = normalizeCode(body.code);
+    if (!isWellFormedCode(code)) {
+      throw invalid(new HttpError("validation_failed", "That isn't a valid code.", { code: "redeem.errors.codeInvalid" }));
+    }
+
+    const redeemedAt = new Date().toISOString();
+    let claim: ReturnType<typeof reserveClaim>;
+    try {
+      claim = reserveClaim(code, body.playerId, body.region, redeemedAt);
+    } catch (error) {
+      throw error instanceof HttpError && error.code === "not_found" ? invalid(error) : error;
+    }
+    const { claimId, batchId, rewards } = claim;
+
+    let outcome: Awaited<ReturnType<RewardGranter["grant"]>>;
+    try {
+      outcome = await granter.grant({ grantId: claimId, playerId: body.playerId, region: claim.region, code: claim.code, rewards });
+    } catch (error) {
+      // The grant may have landed anyway, so the claim stays pending for the retry.
+      log.error("Redeem grant failed", { error, claimId });
+      throw new HttpError("unavailable", "We couldn't confirm the grant with the game server. Please try again shortly; the rewards won't be sent twice.");
+    }
+    if (outcome === "unknown_player") {
+      releaseClaim(claimId, claim.code);
+      throw new HttpError("not_found", "No player has that ID.", { playerId: "redeem.errors.unknownPlayer" });
+    }
+    if (outcome === "wrong_region") {
+      releaseClaim(claimId, claim.code);
+      throw new HttpError("forbidden", "That player is in a different region.", { region: "redeem.errors.regionMismatch" });
+    }
+
+    markGrantedStmt.run(claimId);
+    log.info("Code redeemed", { claimId, batchId });
+    return { code: formatCode(claim.code), rewards, redeemedAt };
+  },
+});
+
+const BATCH_PATTERN = /^[a-z0-9-]{2,40}$/;
+const MAX_BATCH_SIZE = 100_000;
+
+export interface BatchOptions {
+  count: number;
+  rewards: RedeemReward[];
+  /** Omit for every region. */
+  regions?: Region[];
+  /** Per code; omit for unlimited. */
+  maxUses?: number;
+  expiresAt?: string;
+}
+
+/** Creates a batch and returns its codes in compact form. */
+export function generateBatch(id: string, { count, rewards, regions, maxUses, expiresAt }: BatchOptions): string[] {
+  return db.transaction(() => {
+    if (findBatchStmt.get(id)) throw new Error(`Batch ${id} already exists`);
+    insertBatchStmt.run(
+      id,
+      JSON.stringify(rewards),
+      regions ? JSON.stringify(regions) : null,
+      maxUses ?? null,
+      expiresAt ?? null,
+      new Date().toISOString(),
+    );
+
+    const codes: string[] = [];
+    while (codes.length < count) {
+      // Collisions are astronomically rare, but a duplicate is simply skipped and redrawn.
+      const inserted = insertCodeStmt.get(generateCode(bytes => crypto.getRandomValues(bytes)), id);
+      if (inserted) codes.push(inserted.code);
+    }
+    return codes;
+  })();
+}
+
+function parseReward(value: string): RedeemReward {
+  const [item = "", amount = ""] = value.split(":");
+  if (!REWARD_ITEMS.includes(item as RewardItem) || !/^[1-9]\d*$/.test(amount)) {
+    throw new Error(`Rewards look like gems:300; items are ${REWARD_ITEMS.join(", ")}`);
+  }
+  return { item: item as RewardItem, amount: Number(amount) };
+}
+
+function parseGenerateArgs(args: string[]): [string, BatchOptions] {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      count: { type: "string", default: "1" },
+      reward: { type: "string", multiple: true, default: [] },
+      region: { type: "string", multiple: true },
+      "max-uses": { type: "string" },
+      expires: { type: "string" },
+    },
+  });
+
+  const [id = ""] = positionals;
+  if (!BATCH_PATTERN.test(id)) throw new Error("Batch names use 2–40 lowercase letters, digits and hyphens");
+
+  const count = Number(values.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+    throw new Error(`--count must be a whole number from 1 to ${MAX_BATCH_SIZE.toLocaleString("en")}`);
+  }
+
+  const rewards = values.reward.map(parseReward);
+  if (rewards.length === 0) throw new Error("Give at least one --reward, e.g. --reward gems:300");
+
+  const regions = values.region;
+  const unknown = regions?.find(region => !REGIONS.includes(region as Region));
+  if (unknown) throw new Error(`Unknown region ${unknown}; regions are ${REGIONS.join(", ")}`);
+
+  let maxUses: number | undefined;
+  if (values["max-uses"] !== undefined) {
+    maxUses = Number(values["max-uses"]);
+    if (!Number.isInteger(maxUses) || maxUses < 1) throw new Error("--max-uses must be a whole number of at least 1");
+  }
+
+  let expiresAt: string | undefined;
+  if (values.expires !== undefined) {
+    const time = Date.parse(values.expires);
+    if (Number.isNaN(time)) throw new Error("--expires takes a date or time, e.g. 2026-12-31T23:59:59Z");
+    expiresAt = new Date(time).toISOString();
+  }
+
+  return [id, { count, rewards, regions: regions as Region[] | undefined, maxUses, expiresAt }];
+}
+
+const describeRewards = (rewards: string) => (JSON.parse(rewards) as RedeemReward[]).map(r => `${r.item}:${r.amount}`).join(" ");
+
+if (import.meta.main) {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    if (command === "generate") {
+      const [id, options] = parseGenerateArgs(args);
+      const codes = generateBatch(id, options);
+      // Codes go to stdout so they can be redirected to a file; the summary goes to stderr.
+      for (const code of codes) console.log(formatCode(code));
+      console.error(`✓ Generated ${codes.length} code${codes.length === 1 ? "" : "s"} in batch ${id}`);
+    } else if (command === "list") {
+      for (const batch of listBatchesStmt.all()) {
+        const limits = [
+          batch.max_uses === null ? "unlimited uses" : `${batch.max_uses} use${batch.max_uses === 1 ? "" : "s"} per code`,
+          batch.regions === null ? "all regions" : (JSON.parse(batch.regions) as Region[]).join(","),
+          batch.expires_at === null ? "no expiry" : `expires ${batch.expires_at}`,
+        ];
+        const pending = batch.pending > 0 ? ` (${batch.pending} awaiting the game server)` : "";
+        console.log(`${batch.id}\t${batch.codes} code${batch.codes === 1 ? "" : "s"}, ${batch.claims} claimed${pending}\t${describeRewards(batch.rewards)}\t(${limits.join("; ")})`);
+      }
+    } else if (command === "export" && args[0]) {
+      if (!findBatchStmt.get(args[0])) throw new Error(`No batch named ${args[0]}`);
+      console.log("code,uses");
+      for (const row of batchCodesStmt.all(args[0])) console.log([formatCode(row.code), row.uses].map(csvField).join(","));
+    } else if (command === "revoke" && args[0]) {
+      if (!findBatchStmt.get(args[0])) throw new Error(`No batch named ${args[0]}`);
+      expireBatchStmt.run(new Date().toISOString(), args[0]);
+      console.log(`✓ Codes in ${args[0]} have expired; past claims are kept`);
+    } else {
+      console.error("Usage: bun run redeem:codes generate <batch> --reward gems:300 [--reward item:amount ...]");
+      console.error("         [--count 500] [--max-uses 1] [--expires 2026-12-31T23:59:59Z] [--region na ...]");
+      console.error("       bun run redeem:codes list");
+      console.error("       bun run redeem:codes export <batch>   (CSV of codes and uses)");
+      console.error("       bun run redeem:codes revoke <batch>   (expires every code in the batch now)");
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,46 @@
+import { SITE_ORIGIN, escapeXml, pageUrl } from "./site";
+
+/**
+ * `sitemap.xml` and `robots.txt` for the static build. build.ts passes in the
+ * prerendered pages, so the sitemap always matches the route table.
+ */
+
+export interface SitemapEntry {
+  /** Unprefixed route path, e.g. `/news/welcome`. */
+  path: string;
+  /** Every localized variant of the page, keyed by hreflang code. */
+  alternates: Record<string, string>;
+  /** `YYYY-MM-DD`, when the page has a meaningful last-modified date. */
+  lastmod?: string;
+}
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.flatMap(entry => {
+    const links = [
+      ...Object.entries(entry.alternates).map(([hreflang, href]) =>
+        `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(pageUrl(href))}" />`),
+      `    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(pageUrl(entry.path))}" />`,
+    ].join("\n");
+
+    // One <url> per localized page, each listing all of its siblings.
+    return Object.values(entry.alternates).map(href => `  <url>
+    <loc>${escapeXml(pageUrl(href))}</loc>${entry.lastmod ? `\n    <lastmod>${entry.lastmod}</lastmod>` : ""}
+${links}
+  </url>`);
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+export function renderRobots(): string {
+  return `User-agent: *
+Allow: /
+Disallow: /api/
+
+Sitemap: ${SITE_ORIGIN}/sitemap.xml
+`;
+}
@@ -0,0 +1,35 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+/**
+ * Public site identity used for absolute links in feeds and metadata. The
+ * domain comes from the `CNAME` file GitHub Pages already uses.
+ */
+
+export { SITE_NAME } from "../lib/site";
+
+function readDomain() {
+  const cname = path.join(process.cwd(), "CNAME");
+  return existsSync(cname) ? readFileSync(cname, "utf8").trim() : "localhost";
+}
+
+export const SITE_ORIGIN = process.env.SITE_ORIGIN ?? `https://${readDomain()}`;
+
+/** Absolute URL for an app route, e.g. `/news/hello` → `https://minimythics.com/news/hello`. */
+export function pageUrl(route: string) {
+  return `${SITE_ORIGIN}${route}`;
+}
+
+/** Absolute URL for a static asset, e.g. `/images/boss.png`. */
+export function assetUrl(assetPath: string) {
+  return new URL(assetPath, SITE_ORIGIN).href;
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,144 @@
+import path from "path";
+import { ATTRIBUTE_ENUM, type StatBlock } from "../data/attributes";
+import {
+  DAMAGE_TYPES,
+  SKILL_EFFECT_TYPES,
+  SKILL_RARITIES,
+  TARGET_TYPES,
+  type Skill,
+  type SkillEffect,
+  type SkillLevel,
+} from "../data/skills";
+import { array, integer, number, object, optional, record, string, type Infer } from "../lib/schema";
+
+/**
+ * Writes `src/data/skills.json` from a skill data export. The game server has
+ * no such export yet, so this reads a proposed format rather than a real one:
+ * the server's `SkillDatabase` marshalled to JSON, one `CollectibleSkill` per
+ * entry (docs/ARCH.md, "Skill Data Structure"), except that the per-level
+ * numbers (`base_damage`, `scaling`, `cooldown`, `mana_cost`) move into a
+ * `levels` table with one row per upgrade level, and `damage_type` is added.
+ * Neither is in ARCH.md; agree them with the server team before relying on
+ * this. Enums arrive as numbers and are written out by name; effect durations
+ * arrive as Go `time.Duration` nanoseconds and are written out in seconds.
+ * Run with `bun run skills:import <export.json>`.
+ */
+
+const OUTPUT_PATH = path.join(process.cwd(), "src", "data", "skills.json");
+
+const NANOSECONDS = 1e9;
+
+/** `map[Attribute]float64`: JSON object keys are the enum numbers as strings. */
+const scalingSchema = record(number({ min: 0 }));
+
+// Go's `SkillEffect` has no json tags, so its fields keep their Go names.
+const effectSchema = object({
+  Type: integer({ min: 0, max: SKILL_EFFECT_TYPES.length - 1 }),
+  Value: number(),
+  Duration: optional(integer({ min: 0 })),
+  Chance: optional(number({ min: 0, max: 1 })),
+});
+
+const exportedSkillSchema = object({
+  id: string({ pattern: /^[a-z0-9_]+$/ }),
+  name: string({ trim: true, minLength: 1 }),
+  description: string({ trim: true, minLength: 1 }),
+  rarity: integer({ min: 0, max: SKILL_RARITIES.length - 1 }),
+  icon: string({ trim: true, minLength: 1 }),
+  target_type: integer({ min: 0, max: TARGET_TYPES.length - 1 }),
+  range: number({ min: 0 }),
+  area_radius: number({ min: 0 }),
+  damage_type: optional(integer({ min: 0, max: DAMAGE_TYPES.length - 1 })),
+  effects: array(effectSchema),
+  max_level: integer({ min: 1 }),
+  upgrade_cost: array(object({ level: integer({ min: 2 }), gold: integer({ min: 0 }), fragments: integer({ min: 0 }) })),
+  levels: array(object({
+    level: integer({ min: 1 }),
+    base_damage: number({ min: 0 }),
+    scaling: scalingSchema,
+    cooldown: number({ min: 0 }),
+    mana_cost: integer({ min: 0 }),
+  })),
+});
+
+type ExportedSkill = Infer<typeof exportedSkillSchema>;
+
+function toScaling(scaling: Record<string, number>, id: string): StatBlock {
+  const stats: StatBlock = {};
+  for (const [key, value] of Object.entries(scaling)) {
+    const attribute = ATTRIBUTE_ENUM[Number(key)];
+    if (!attribute) throw new Error(`${id}: unknown attribute ${key} in scaling`);
+    stats[attribute] = value;
+  }
+  return stats;
+}
+
+function toSkill(exported: ExportedSkill): Skill {
+  const { id } = exported;
+  const levels = [...exported.levels].sort((a, b) => a.level - b.level);
+  if (levels.length !== exported.max_level || levels.some((entry, i) => entry.level !== i + 1)) {
+    throw new Error(`${id}: expected levels 1 to ${exported.max_level}`);
+  }
+  const costs = new Map(exported.upgrade_cost.map(cost => [cost.level, cost]));
+
+  return {
+    id,
+    name: exported.name,
+    description: exported.description,
+    rarity: SKILL_RARITIES[exported.rarity]!,
+    icon: exported.icon,
+    targetType: TARGET_TYPES[exported.target_type]!,
+    range: exported.range,
+    areaRadius: exported.area_radius,
+    ...(exported.damage_type !== undefined && { damageType: DAMAGE_TYPES[exported.damage_type]! }),
+    effects: exported.effects.map((effect): SkillEffect => ({
+      type: SKILL_EFFECT_TYPES[effect.Type]!,
+      value: effect.Value,
+      ...(effect.Duration && { duration: effect.Duration / NANOSECONDS }),
+      ...(effect.Chance !== undefined && effect.Chance < 1 && effect.Chance > 0 && { chance: effect.Chance }),
+    })),
+    levels: levels.map((entry): SkillLevel => ({
+      level: entry.level,
+      baseDamage: entry.base_damage,
+      scaling: toScaling(entry.scaling, id),
+      cooldown: entry.cooldown,
+      manaCost: entry.mana_cost,
+      gold: costs.get(entry.level)?.gold ?? 0,
+      fragments: costs.get(entry.level)?.fragments ?? 0,
+    })),
+  };
+}
+
+/** Validates and converts an export, in the export's order. Throws on the first bad skill. */
+export function importSkills(input: unknown): Skill[] {
+  const result = array(exportedSkillSchema).check(input);
+  if (!result.ok) {
+    const [field, message] = Object.entries(result.issues)[0]!;
+    throw new Error(`${field}: ${message}`);
+  }
+
+  const skills = result.value.map(toSkill);
+  const ids = new Set<string>();
+  for (const { id } of skills) {
+    if (ids.has(id)) throw new Error(`${id}: duplicate id`);
+    ids.add(id);
+  }
+  return skills;
+}
+
+if (import.meta.main) {
+  const [file] = process.argv.slice(2);
+  if (!file) {
+    console.error("Usage: bun run skills:import <export.json>");
+    process.exit(1);
+  }
+
+  try {
+    const skills = importSkills(await Bun.file(file).json());
+    await Bun.write(OUTPUT_PATH, `${JSON.stringify(skills, null, 2)}\n`);
+    console.log(`✓ Wrote ${skills.length} skills to src/data/skills.json`);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
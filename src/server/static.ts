@@ -0,0 +1,240 @@
+import { realpath, stat } from "fs/promises";
+import path from "path";
+import { brotliCompressSync, constants as zlib, gzipSync } from "zlib";
+
+/**
+ * Static file serving for `images/` and the built `dist/`. Requests are
+ * confined to their root (no `..` or symlink escapes), answered with strong
+ * ETags and 304s, support single byte ranges for video scrubbing, and use a
+ * precompressed `.br`/`.gz` sibling when the client accepts one.
+ */
+
+export interface StaticOptions {
+  /** Extensions to try for extensionless paths, e.g. `[".html"]` so `/media` finds `media.html`. */
+  extensions?: string[];
+  /** File served for `/`. */
+  index?: string;
+  /** File (relative to the root) served with a 404 when nothing matches. */
+  notFound?: string;
+  /** `Cache-Control` for a path relative to the root. */
+  cacheControl?: (relativePath: string) => string;
+}
+
+// Types Bun doesn't know or labels differently; everything else comes from `Bun.file().type`.
+const MIME_TYPES: Record<string, string> = {
+  ".avif": "image/avif",
+  ".webp": "image/webp",
+  ".webmanifest": "application/manifest+json",
+  ".ics": "text/calendar; charset=utf-8",
+  ".xml": "application/xml; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+};
+
+const COMPRESSIBLE = /\.(html|js|mjs|css|json|map|svg|xml|txt|ics|webmanifest)$/i;
+
+// Encodings in preference order, with the sibling file suffix for each.
+const ENCODINGS = [
+  { name: "br", suffix: ".br" },
+  { name: "gzip", suffix: ".gz" },
+] as const;
+
+const DEFAULT_CACHE_CONTROL = "public, max-age=3600";
+
+export function mimeType(filePath: string) {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? Bun.file(filePath).type;
+}
+
+interface ResolvedFile {
+  path: string;
+  size: number;
+  mtime: Date;
+}
+
+async function statFile(filePath: string): Promise<ResolvedFile | null> {
+  try {
+    const info = await stat(filePath);
+    return info.isFile() ? { path: filePath, size: info.size, mtime: info.mtime } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Strong validators need the bytes, so hashes are kept per file until its size or mtime changes.
+const etags = new Map<string, { key: string, etag: string }>();
+
+async function etagFor(file: ResolvedFile) {
+  const key = `${file.size}:${file.mtime.getTime()}`;
+  const known = etags.get(file.path);
+  if (known?.key === key) return known.etag;
+
+  const hasher = new Bun.CryptoHasher("sha1");
+  hasher.update(await Bun.file(file.path).arrayBuffer());
+  const etag = `"${hasher.digest("base64url")}"`;
+  etags.set(file.path, { key, etag });
+  return etag;
+}
+
+/** Encodings the client accepts with a non-zero quality. */
+function acceptedEncodings(header: string | null) {
+  const accepted = new Set<string>();
+  for (const part of (header ?? "").split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.map(p => p.trim()).find(p => p.startsWith("q="));
+    if (name && (!q || Number(q.slice(2)) > 0)) accepted.add(name);
+  }
+  return accepted;
+}
+
+function etagMatches(header: string, etag: string) {
+  return header.split(",").some(tag => {
+    const value = tag.trim().replace(/^W\//, "");
+    return value === "*" || value === etag;
+  });
+}
+
+/** Parses a single `bytes=` range; `null` means unsatisfiable, `undefined` means serve the whole file. */
+function parseRange(header: string, size: number): { start: number, end: number } | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multiple or malformed ranges: ignoring the header and sending everything is allowed.
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // `bytes=-500` is the last 500 bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  return start <= end && start < size ? { start, end } : null;
+}
+
+/** Maps a URL path onto a file inside `root`, or `null` if it would leave the root. */
+async function resolveInRoot(realRoot: string, pathname: string, options: StaticOptions) {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  if (decoded.includes("\0") || decoded.includes("\\")) return null;
+
+  const relative = decoded.replace(/\/+$/, "") || (options.index ? `/${options.index}` : "/");
+  const candidates = [relative, ...(path.extname(relative) ? [] : (options.extensions ?? []).map(ext => relative + ext))];
+
+  for (const candidate of candidates) {
+    const absolute = path.resolve(realRoot, `.${candidate}`);
+    if (!absolute.startsWith(realRoot + path.sep)) return null;
+
+    const file = await statFile(absolute);
+    if (!file) continue;
+
+    // Follow symlinks only as far as the root itself.
+    const real = await realpath(absolute);
+    if (!real.startsWith(realRoot + path.sep)) return null;
+    return { ...file, path: real };
+  }
+  return null;
+}
+
+/** Returns a route handler serving files under `root` at the request's path (minus `stripPrefix`). */
+export function serveStatic(root: string, options: StaticOptions = {}, stripPrefix = "") {
+  const realRootPromise = realpath(path.resolve(root)).catch(() => path.resolve(root));
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, HEAD" } });
+    }
+
+    const realRoot = await realRootPromise;
+    const { pathname } = new URL(req.url);
+    const relativeUrl = pathname.startsWith(stripPrefix) ? pathname.slice(stripPrefix.length) : pathname;
+    const file = await resolveInRoot(realRoot, relativeUrl || "/", options);
+
+    if (!file) {
+      const fallback = options.notFound && (await statFile(path.join(realRoot, options.notFound)));
+      if (fallback) return send(req, fallback, realRoot, options, 404);
+      return new Response("Not found", { status: 404 });
+    }
+    return send(req, file, realRoot, options, 200);
+  };
+}
+
+async function send(req: Request, file: ResolvedFile, realRoot: string, options: StaticOptions, status: number) {
+  const relativePath = path.relative(realRoot, file.path).split(path.sep).join("/");
+  const headers = new Headers({
+    "Content-Type": mimeType(file.path),
+    "Cache-Control": options.cacheControl?.(relativePath) ?? DEFAULT_CACHE_CONTROL,
+    "Accept-Ranges": "bytes",
+  });
+
+  // Pick a precompressed sibling unless a byte range was asked for (ranges apply to the identity bytes).
+  let body = file;
+  const rangeHeader = status === 200 ? req.headers.get("range") : null;
+  if (COMPRESSIBLE.test(file.path)) {
+    headers.set("Vary", "Accept-Encoding");
+    if (!rangeHeader) {
+      const accepted = acceptedEncodings(req.headers.get("accept-encoding"));
+      for (const encoding of ENCODINGS) {
+        if (!accepted.has(encoding.name)) continue;
+        const encoded = await statFile(file.path + encoding.suffix);
+        if (!encoded) continue;
+        body = encoded;
+        headers.set("Content-Encoding", encoding.name);
+        break;
+      }
+    }
+  }
+
+  const etag = await etagFor(body);
+  headers.set("ETag", etag);
+  headers.set("Last-Modified", file.mtime.toUTCString());
+
+  if (status === 200) {
+    const ifNoneMatch = req.headers.get("if-none-match");
+    const ifModifiedSince = req.headers.get("if-modified-since");
+    const notModified = ifNoneMatch
+      ? etagMatches(ifNoneMatch, etag)
+      : ifModifiedSince !== null && Math.floor(file.mtime.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+    if (notModified) {
+      headers.delete("Content-Type");
+      return new Response(null, { status: 304, headers });
+    }
+  }
+
+  // `If-Range` only honours the range while the client's copy is still current.
+  const ifRange = req.headers.get("if-range");
+  const range = rangeHeader && (!ifRange || ifRange === etag) ? parseRange(rangeHeader, body.size) : undefined;
+  if (range === null) {
+    headers.set("Content-Range", `bytes */${body.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const blob = Bun.file(body.path);
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${body.size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    return new Response(req.method === "HEAD" ? null : blob.slice(range.start, range.end + 1), { status: 206, headers });
+  }
+
+  headers.set("Content-Length", String(body.size));
+  return new Response(req.method === "HEAD" ? null : blob, { status, headers });
+}
+
+/** Writes `.br` and `.gz` siblings for text assets under `dir` that are worth compressing. */
+export async function precompress(dir: string, minBytes = 1024) {
+  let count = 0;
+  for await (const file of new Bun.Glob("**/*").scan(dir)) {
+    if (!COMPRESSIBLE.test(file)) continue;
+    const absolute = path.join(dir, file);
+    const source = new Uint8Array(await Bun.file(absolute).arrayBuffer());
+    if (source.length < minBytes) continue;
+
+    await Bun.write(`${absolute}.br`, brotliCompressSync(source, { params: { [zlib.BROTLI_PARAM_QUALITY]: 11 } }));
+    await Bun.write(`${absolute}.gz`, gzipSync(source, { level: 9 }));
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,48 @@
+import { isPlatform, type Platform } from "../lib/preregister";
+import { DEVICE_STORE, PREREGISTER_HASH, STORE_URLS, campaignParams, detectPlatform } from "../lib/stores";
+
+/**
+ * `/go/:store` redirects for the store badges (see src/lib/stores.ts).
+ * Campaign parameters are handed on in the form each destination reads:
+ * Google Play takes them inside `referrer` (the Play Install Referrer), the
+ * App Store takes the campaign name as `ct` (it also needs the provider token
+ * `pt` in the configured URL), and our own pages keep them as they are.
+ */
+
+function storeUrl(store: Platform, listing: string, campaign: URLSearchParams) {
+  const url = new URL(listing);
+  if (store === "android" && campaign.size > 0) {
+    url.searchParams.set("referrer", campaign.toString());
+  }
+  const name = campaign.get("utm_campaign");
+  if (store === "ios" && name) {
+    url.searchParams.set("ct", name.slice(0, 40));
+  }
+  return url.href;
+}
+
+// Home page, or its pre-registration form with the platform picked when a store isn't live yet.
+function siteUrl(campaign: URLSearchParams, platform?: Platform) {
+  const query = new URLSearchParams(campaign);
+  if (platform) query.set("platform", platform);
+  return `/${query.size > 0 ? `?${query}` : ""}${platform ? PREREGISTER_HASH : ""}`;
+}
+
+function redirect(location: string) {
+  // `/go/app` depends on the device, so no shared cache may keep the answer.
+  return new Response(null, { status: 302, headers: { Location: location, "Cache-Control": "no-store" } });
+}
+
+// GET /go/:store — `ios`, `android`, or `app` to pick by device
+export function goToStore(req: Bun.BunRequest<"/go/:store">) {
+  const campaign = campaignParams(new URL(req.url).searchParams);
+  const store = req.params.store === DEVICE_STORE
+    ? detectPlatform(req.headers.get("user-agent") ?? "")
+    : req.params.store;
+
+  // Unknown stores and desktops land on the home page, which shows both badges.
+  if (!isPlatform(store)) return redirect(siteUrl(campaign));
+
+  const listing = STORE_URLS[store];
+  return redirect(listing ? storeUrl(store, listing, campaign) : siteUrl(campaign, store));
+}
@@ -0,0 +1,98 @@
+import { randomBytes } from "crypto";
+import { enumOf, object, string } from "../lib/schema";
+import { REFERENCE_PATTERN, SUPPORT_CATEGORIES, TICKET_STATUSES, ticketSchema, type TicketSummary } from "../lib/support";
+import { endpoint, HttpError } from "./api";
+import { db } from "./db";
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS support_tickets (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    reference  TEXT NOT NULL UNIQUE,
+    email      TEXT NOT NULL,
+    category   TEXT NOT NULL,
+    subject    TEXT NOT NULL,
+    message    TEXT NOT NULL,
+    status     TEXT NOT NULL DEFAULT 'open',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`);
+
+type TicketRow = Omit<TicketSummary, "createdAt" | "updatedAt"> & {
+  email: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const insertStmt = db.query<unknown, [string, string, string, string, string, string, string]>(
+  "INSERT INTO support_tickets (reference, email, category, subject, message, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+);
+const findStmt = db.query<TicketRow, [string]>("SELECT * FROM support_tickets WHERE reference = ?");
+
+// Crockford base32: no I, L, O or U, so references survive being read aloud or retyped.
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+function newReference() {
+  const bytes = randomBytes(8);
+  let id = "";
+  for (const byte of bytes) id += ALPHABET[byte % ALPHABET.length];
+  return `MM-${id}`;
+}
+
+function toSummary(row: TicketRow): TicketSummary {
+  return {
+    reference: row.reference,
+    category: row.category,
+    subject: row.subject,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const ticketSummarySchema = object({
+  reference: string({ example: "MM-7K2Q9XH4" }),
+  category: enumOf(SUPPORT_CATEGORIES),
+  subject: string(),
+  status: enumOf(TICKET_STATUSES),
+  createdAt: string({ format: "date-time" }),
+  updatedAt: string({ format: "date-time" }),
+});
+
+// POST /api/v1/support/tickets
+export const createTicket = endpoint({
+  id: "createTicket",
+  method: "POST",
+  path: "/support/tickets",
+  tag: "Support",
+  summary: "Open a support ticket",
+  body: ticketSchema,
+  response: { status: 201, description: "The new ticket; quote its reference in follow-ups.", schema: ticketSummarySchema },
+  handler({ body: { email, category, subject, message } }) {
+    const now = new Date().toISOString();
+    const reference = newReference();
+    insertStmt.run(reference, email, category, subject, message, now, now);
+    return toSummary(findStmt.get(reference)!);
+  },
+});
+
+// GET /api/v1/support/tickets/:reference?email=...
+export const getTicket = endpoint({
+  id: "getTicket",
+  method: "GET",
+  path: "/support/tickets/:reference",
+  tag: "Support",
+  summary: "Look up a ticket's status",
+  description: "The email acts as a shared secret; a mismatch looks exactly like a missing ticket.",
+  params: object({ reference: string({ uppercase: true, example: "MM-7K2Q9XH4" }) }),
+  query: object({ email: string({ trim: true, lowercase: true, description: "The email the ticket was opened with." }) }),
+  response: { description: "The ticket, without its message body.", schema: ticketSummarySchema },
+  errors: ["not_found"],
+  handler({ params: { reference }, query: { email } }) {
+    const row = REFERENCE_PATTERN.test(reference) ? findStmt.get(reference) : null;
+    if (!row || row.email !== email) {
+      throw new HttpError("not_found", "No ticket found for that reference and email.");
+    }
+    return toSummary(row);
+  },
+});
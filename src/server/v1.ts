@@ -0,0 +1,33 @@
+import { adminLogin, adminLogout, getAdminSession, getAuditLog, getEditableHomeContent, updateHomeContent } from "./admin";
+import { getAnalyticsStats, recordEvent } from "./analytics";
+import { apiRoutes, type Endpoint } from "./api";
+import { getLeaderboard } from "./leaderboard";
+import { getMedia } from "./media";
+import { getMilestoneCounter, getMilestones, updateMilestoneCounter } from "./milestones";
+import { createPreregistration, exportPreregistrations } from "./preregister";
+import { redeemGiftCode } from "./redeem";
+import { createTicket, getTicket } from "./support";
+
+/** Everything under `/api/v1`. Add new endpoints here to route and document them. */
+export const V1_ENDPOINTS: Endpoint[] = [
+  createPreregistration,
+  exportPreregistrations,
+  getMilestones,
+  createTicket,
+  getTicket,
+  getMedia,
+  getLeaderboard,
+  redeemGiftCode,
+  adminLogin,
+  adminLogout,
+  getAdminSession,
+  getAuditLog,
+  getEditableHomeContent,
+  updateHomeContent,
+  recordEvent,
+  getAnalyticsStats,
+  getMilestoneCounter,
+  updateMilestoneCounter,
+];
+
+export const v1Routes = apiRoutes("/api/v1", V1_ENDPOINTS, { version: "1.0.0" });
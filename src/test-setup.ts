@@ -0,0 +1,6 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Server modules open SQLite on import, so every `bun test` run gets a throwaway data directory.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "minimythics-test-"));
@@ -0,0 +1,116 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import {
+    DARK_MODE_QUERY,
+    REDUCED_MOTION_QUERY,
+    getStoredMotion,
+    getStoredThemeMode,
+    isSkin,
+    scheduledSkin,
+    storeMotion,
+    storeThemeMode,
+    systemMotion,
+    systemThemeMode,
+    type MotionPreference,
+    type Skin,
+    type ThemeMode,
+} from "./themes";
+
+interface ThemeContextValue {
+    mode: ThemeMode;
+    /** Switches between light and dark and remembers the choice. */
+    toggleMode: () => void;
+    skin: Skin | null;
+    motion: MotionPreference;
+    /** Turns animations off or back on and remembers the choice. */
+    toggleMotion: () => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+/** `?skin=halloween` previews a skin outside its dates; `?skin=none` turns the scheduled one off. */
+function previewSkin(): Skin | null | undefined {
+    const requested = new URLSearchParams(window.location.search).get("skin");
+    if (requested === "none") return null;
+    return isSkin(requested) ? requested : undefined;
+}
+
+/**
+ * Follows the system light/dark and reduced-motion preferences until the
+ * visitor picks otherwise with the top-bar toggles, and applies the skin
+ * scheduled for today. Prerendered pages are built light with no skin; the
+ * inline script in `src/index.html` sets the saved or system theme and motion
+ * before first paint, and this provider takes over once the app has loaded.
+ */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+    // `null` until mounted, so the theme the inline script set isn't overwritten before it's read.
+    const [mode, setMode] = useState<ThemeMode | null>(null);
+    const [skin, setSkin] = useState<Skin | null>(null);
+    const [motion, setMotion] = useState<MotionPreference | null>(null);
+
+    useEffect(() => {
+        setMode(getStoredThemeMode() ?? systemThemeMode());
+        setMotion(getStoredMotion() ?? systemMotion());
+        const preview = previewSkin();
+        setSkin(preview === undefined ? scheduledSkin() : preview);
+
+        // Keep following the system settings until the visitor makes a choice.
+        const dark = matchMedia(DARK_MODE_QUERY);
+        const reduced = matchMedia(REDUCED_MOTION_QUERY);
+        const followMode = () => {
+            if (!getStoredThemeMode()) setMode(systemThemeMode());
+        };
+        const followMotion = () => {
+            if (!getStoredMotion()) setMotion(systemMotion());
+        };
+        dark.addEventListener("change", followMode);
+        reduced.addEventListener("change", followMotion);
+        return () => {
+            dark.removeEventListener("change", followMode);
+            reduced.removeEventListener("change", followMotion);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (mode) document.documentElement.dataset.theme = mode;
+    }, [mode]);
+
+    useEffect(() => {
+        if (motion) document.documentElement.dataset.motion = motion;
+    }, [motion]);
+
+    useEffect(() => {
+        if (skin) document.documentElement.dataset.skin = skin;
+        else delete document.documentElement.dataset.skin;
+    }, [skin]);
+
+    const toggleMode = useCallback(() => {
+        setMode(current => {
+            const next = current === "dark" ? "light" : "dark";
+            storeThemeMode(next);
+            return next;
+        });
+    }, []);
+
+    const toggleMotion = useCallback(() => {
+        setMotion(current => {
+            const next = current === "reduce" ? "full" : "reduce";
+            storeMotion(next);
+            return next;
+        });
+    }, []);
+
+    const value = useMemo<ThemeContextValue>(
+        () => ({ mode: mode ?? "light", toggleMode, skin, motion: motion ?? "full", toggleMotion }),
+        [mode, toggleMode, skin, motion, toggleMotion],
+    );
+
+    return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme() {
+    const context = useContext(ThemeContext);
+    if (!context) {
+        throw new Error("useTheme must be used inside <ThemeProvider>");
+    }
+    return context;
+}
@@ -0,0 +1,122 @@
+/**
+ * Color themes, seasonal skins and reduced motion. Each is an attribute on
+ * `<html>`: `data-theme` (light or dark) swaps the neutral colors,
+ * `data-skin` swaps the brand colors, and `data-motion="reduce"` stops
+ * animations, all through `src/index.css`.
+ */
+
+export const THEME_MODES = ["light", "dark"] as const;
+
+export type ThemeMode = (typeof THEME_MODES)[number];
+
+/** Also read by the inline script in `src/index.html`, which sets the theme before first paint. */
+const STORAGE_KEY = "mm-theme";
+
+export function isThemeMode(value: unknown): value is ThemeMode {
+  return THEME_MODES.includes(value as ThemeMode);
+}
+
+export function getStoredThemeMode(): ThemeMode | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemeMode(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeThemeMode(mode: ThemeMode) {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies); the choice then lasts until reload.
+  }
+}
+
+export const DARK_MODE_QUERY = "(prefers-color-scheme: dark)";
+
+export function systemThemeMode(): ThemeMode {
+  return typeof matchMedia !== "undefined" && matchMedia(DARK_MODE_QUERY).matches ? "dark" : "light";
+}
+
+export const MOTION_PREFERENCES = ["full", "reduce"] as const;
+
+export type MotionPreference = (typeof MOTION_PREFERENCES)[number];
+
+/** Also read by the inline script in `src/index.html`. */
+const MOTION_STORAGE_KEY = "mm-motion";
+
+export function isMotionPreference(value: unknown): value is MotionPreference {
+  return MOTION_PREFERENCES.includes(value as MotionPreference);
+}
+
+export function getStoredMotion(): MotionPreference | null {
+  try {
+    const stored = localStorage.getItem(MOTION_STORAGE_KEY);
+    return isMotionPreference(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeMotion(motion: MotionPreference) {
+  try {
+    localStorage.setItem(MOTION_STORAGE_KEY, motion);
+  } catch {
+    // As with the theme, the choice then lasts until reload.
+  }
+}
+
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export function systemMotion(): MotionPreference {
+  return typeof matchMedia !== "undefined" && matchMedia(REDUCED_MOTION_QUERY).matches ? "reduce" : "full";
+}
+
+/** For `scrollIntoView` and friends, which CSS can't slow down: instant when motion is reduced. */
+export function scrollBehavior(): ScrollBehavior {
+  return document.documentElement.dataset.motion === "reduce" ? "auto" : "smooth";
+}
+
+/** Each needs a `:root[data-skin="…"]` block in `src/index.css`. */
+export const SKINS = ["halloween", "lunar-new-year"] as const;
+
+export type Skin = (typeof SKINS)[number];
+
+export function isSkin(value: unknown): value is Skin {
+  return SKINS.includes(value as Skin);
+}
+
+export interface SkinWindow {
+  skin: Skin;
+  /** First day, inclusive: `MM-DD` to repeat every year, or `YYYY-MM-DD` for one year only. */
+  from: string;
+  /** Last day, inclusive, in the same form as `from`. A yearly window may wrap past New Year. */
+  until: string;
+}
+
+/** When each skin is on, in the visitor's local time. The first matching window wins. */
+export const SKIN_SCHEDULE: SkinWindow[] = [
+  { skin: "halloween", from: "10-20", until: "11-02" },
+  // Lunar New Year moves every year: the day itself plus the week around it.
+  { skin: "lunar-new-year", from: "2027-02-02", until: "2027-02-13" },
+  { skin: "lunar-new-year", from: "2028-01-22", until: "2028-02-02" },
+];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function inWindow({ from, until }: SkinWindow, date: Date) {
+  const monthDay = `${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (from.length > 5) {
+    const day = `${date.getFullYear()}-${monthDay}`;
+    return from <= day && day <= until;
+  }
+  return from <= until
+    ? from <= monthDay && monthDay <= until
+    : monthDay >= from || monthDay <= until;
+}
+
+/** The skin scheduled for `date`, if any. */
+export function scheduledSkin(date = new Date()): Skin | null {
+  return SKIN_SCHEDULE.find(window => inWindow(window, date))?.skin ?? null;
+}